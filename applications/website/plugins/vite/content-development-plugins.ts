@@ -18,6 +18,7 @@ const GENERATED_ASSET_MIME_TYPES: Record<string, string> = {
   ...IMAGE_ASSET_MIME_TYPES,
   '.css': 'text/css; charset=utf-8',
   '.js': 'application/javascript; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
 };
 
 type ContentDevelopmentPluginsOptions = {
@@ -27,6 +28,11 @@ type ContentDevelopmentPluginsOptions = {
    * content and should also be exposed by the content asset middleware.
    */
   contentDirectories: readonly string[];
+  /**
+   * Absolute paths of standalone content files outside `contentDirectories`
+   * (e.g. the root `tags.toml`) that should also trigger a regeneration.
+   */
+  contentFiles?: readonly string[];
   /**
    * Absolute URL path prefixes (leading and trailing slash, e.g. `/writing/`)
    * to serve workspace-rooted images under during development.
@@ -34,6 +40,8 @@ type ContentDevelopmentPluginsOptions = {
   contentAssetPathPrefixes: readonly string[];
   /** Absolute directories containing the enhancement runtime source. */
   enhancementSourceDirectories: readonly string[];
+  /** Absolute path of the `content-data.json` the content-build script writes. */
+  contentDataPath?: string;
   /** Absolute path to the script that regenerates generated content. */
   contentBuildScriptPath: string;
   /** Working directory to run the content-build script from. */
@@ -42,17 +50,41 @@ type ContentDevelopmentPluginsOptions = {
   generatedEnhancementsDirectory: string;
   /** URL prefix (leading and trailing slash) for the served enhancement bundle. */
   generatedEnhancementsUrlPrefix: string;
+  /** Absolute directory holding the built search index, served under `generatedSearchUrlPrefix`. */
+  generatedSearchDirectory?: string;
+  /** URL prefix (leading and trailing slash) for the served search index. */
+  generatedSearchUrlPrefix?: string;
 };
 
+const serveGeneratedDirectory = (
+  name: string,
+  rootDirectory: string,
+  urlPrefix: string,
+): PluginOption => ({
+  name,
+  configureServer(server) {
+    server.middlewares.use(
+      serveStaticDirectory({
+        rootDirectory,
+        mimeTypes: GENERATED_ASSET_MIME_TYPES,
+        matchRequest: (pathname) =>
+          pathname.startsWith(urlPrefix) ? pathname.slice(urlPrefix.length) : null,
+      }),
+    );
+  },
+});
+
 /**
  * Returns the ordered set of Vite plugins that make up the site's
  * development content pipeline. The order is intentional:
  *
  * 1. Register extra watched directories first so the other plugins observe a
  *    consistent file-system view.
- * 2. Run the content-build script in response to changes detected above.
- * 3. Serve the build's output under its canonical URL so route code can
- *    reference it via the same path in dev and prod.
+ * 2. Run the content-build script, including drafts and scheduled entries,
+ *    once on start and again in response to changes detected above.
+ * 3. Serve the build's output (the enhancement bundle and the search index)
+ *    under its canonical URL so route code can reference it via the same
+ *    path in dev and prod.
  * 4. Serve raw workspace image assets as a dev-only fallback for anything
  *    not yet in the blob-storage manifest.
  */
@@ -60,28 +92,33 @@ export function contentDevelopmentPlugins(
   options: ContentDevelopmentPluginsOptions,
 ): PluginOption[] {
   return [
-    watchContentDirectories(options.contentDirectories),
+    watchContentDirectories(options.contentDirectories, options.contentFiles),
     regenerateGeneratedContent({
       contentBuildScriptPath: options.contentBuildScriptPath,
       workingDirectory: options.contentBuildWorkingDirectory,
+      // The pre-dev build leaves drafts out; rebuild with them so they render
+      // behind their "Draft" / "Scheduled" banner while writing.
+      contentBuildArguments: ['--include-unpublished'],
+      runOnStart: true,
       contentDirectories: options.contentDirectories,
+      contentFiles: options.contentFiles,
       enhancementSourceDirectories: options.enhancementSourceDirectories,
+      contentDataPath: options.contentDataPath,
     }),
-    {
-      name: 'serve-generated-content-enhancements',
-      configureServer(server) {
-        server.middlewares.use(
-          serveStaticDirectory({
-            rootDirectory: options.generatedEnhancementsDirectory,
-            mimeTypes: GENERATED_ASSET_MIME_TYPES,
-            matchRequest: (pathname) =>
-              pathname.startsWith(options.generatedEnhancementsUrlPrefix)
-                ? pathname.slice(options.generatedEnhancementsUrlPrefix.length)
-                : null,
-          }),
-        );
-      },
-    },
+    serveGeneratedDirectory(
+      'serve-generated-content-enhancements',
+      options.generatedEnhancementsDirectory,
+      options.generatedEnhancementsUrlPrefix,
+    ),
+    ...(options.generatedSearchDirectory && options.generatedSearchUrlPrefix
+      ? [
+          serveGeneratedDirectory(
+            'serve-generated-search-index',
+            options.generatedSearchDirectory,
+            options.generatedSearchUrlPrefix,
+          ),
+        ]
+      : []),
     {
       name: 'serve-content-assets',
       configureServer(server) {
@@ -1,4 +1,5 @@
 import { spawn } from 'node:child_process';
+import { readFileSync } from 'node:fs';
 import path from 'node:path';
 import type { PluginOption } from 'vite';
 
@@ -7,17 +8,34 @@ type RegenerateGeneratedContentOptions = {
   contentBuildScriptPath: string;
   /** Working directory to run the build script from. */
   workingDirectory: string;
+  /** Extra command-line arguments passed to the build script. */
+  contentBuildArguments?: readonly string[];
+  /**
+   * Run the build once when the server starts, for when the development
+   * output differs from what the pre-dev build produced.
+   */
+  runOnStart?: boolean;
   /**
    * Absolute directories whose `.md` / `.toml` contents should trigger a
    * regeneration. Every nested file under any of these roots is watched.
+   * Other files in them trigger one too, since code fences can show them
+   * with `file="…"`, except those in dot-folders such as `.obsidian`.
    */
   contentDirectories: readonly string[];
+  /** Absolute paths of individual content files, such as the tag registry. */
+  contentFiles?: readonly string[];
   /**
    * Additional absolute directories whose `.ts` / `.css` files should trigger
    * a regeneration. Typically the content-enhancement source tree so the
    * runtime bundle rebuilds when its inputs change.
    */
   enhancementSourceDirectories: readonly string[];
+  /**
+   * Absolute path of the `content-data.json` the build writes. Wikilinks and
+   * transclusions resolve against its route table, so compiled Markdown is
+   * recompiled after a build that changes a route's path, title, or source.
+   */
+  contentDataPath?: string;
   /**
    * Milliseconds to wait after the last file-system event before kicking off a
    * rebuild. Collapses the unlink+write burst that many editors emit on atomic
@@ -29,6 +47,14 @@ type RegenerateGeneratedContentOptions = {
 const isInsideAny = (absolutePath: string, roots: readonly string[]): boolean =>
   roots.some((root) => absolutePath === root || absolutePath.startsWith(root + path.sep));
 
+const isInDotFolder = (absolutePath: string, roots: readonly string[]): boolean =>
+  roots.some((root) =>
+    path
+      .relative(root, absolutePath)
+      .split(path.sep)
+      .some((segment) => segment.startsWith('.') && segment !== '..'),
+  );
+
 /**
  * Re-runs the content-build script whenever a watched content file or an
  * enhancement source changes, then asks Vite to reload the browser. Runs are
@@ -38,15 +64,54 @@ export function regenerateGeneratedContent(
   options: RegenerateGeneratedContentOptions,
 ): PluginOption {
   const contentRoots = options.contentDirectories.map((dir) => path.resolve(dir));
+  const contentFiles = new Set((options.contentFiles ?? []).map((file) => path.resolve(file)));
   const enhancementRoots = options.enhancementSourceDirectories.map((dir) => path.resolve(dir));
 
+  // A file a Markdown page shows with `file="…"`. The page itself didn't change, so
+  // Vite would keep serving the copy compiled from the old file.
+  const isCodeSnippetSource = (absolutePath: string): boolean =>
+    !/\.(md|toml)$/i.test(absolutePath) &&
+    isInsideAny(absolutePath, contentRoots) &&
+    !isInDotFolder(absolutePath, contentRoots);
+
+  // A note another page transcludes with `![[…]]`. Vite only knows the note
+  // changed, not which pages copied it in.
+  const isTransclusionSource = (absolutePath: string): boolean =>
+    /\.md$/i.test(absolutePath) &&
+    isInsideAny(absolutePath, contentRoots) &&
+    !isInDotFolder(absolutePath, contentRoots);
+
+  // What wikilinks and transclusions read from the route table, or `undefined`
+  // before the first build has written it.
+  const readRouteTable = (): string | undefined => {
+    if (!options.contentDataPath) return undefined;
+    try {
+      const { routes } = JSON.parse(readFileSync(options.contentDataPath, 'utf8')) as {
+        routes: Record<string, { path: string; title: string; sourcePath: string }>;
+      };
+      return JSON.stringify(
+        Object.values(routes).map((route) => [route.path, route.title, route.sourcePath]),
+      );
+    } catch {
+      return undefined;
+    }
+  };
+
   const shouldRegenerate = (changedPath: string): boolean => {
     const absolutePath = path.resolve(changedPath);
 
+    if (contentFiles.has(absolutePath)) {
+      return true;
+    }
+
     if (/\.(md|toml)$/i.test(absolutePath) && isInsideAny(absolutePath, contentRoots)) {
       return true;
     }
 
+    if (isCodeSnippetSource(absolutePath)) {
+      return true;
+    }
+
     if (/\.(ts|css)$/i.test(absolutePath) && isInsideAny(absolutePath, enhancementRoots)) {
       return true;
     }
@@ -59,6 +124,10 @@ export function regenerateGeneratedContent(
     configureServer(server) {
       let isRunning = false;
       let hasPendingRun = false;
+      let shouldRecompileMarkdown = false;
+      // Read before the start-up build, so pages compiled against the table it
+      // replaces are recompiled too.
+      let routeTable = readRouteTable();
 
       const runContentBuild = (): void => {
         if (isRunning) {
@@ -67,16 +136,31 @@ export function regenerateGeneratedContent(
         }
 
         isRunning = true;
-        const child = spawn('bun', ['run', options.contentBuildScriptPath], {
-          cwd: options.workingDirectory,
-          stdio: 'inherit',
-        });
+        const child = spawn(
+          'bun',
+          ['run', options.contentBuildScriptPath, ...(options.contentBuildArguments ?? [])],
+          {
+            cwd: options.workingDirectory,
+            stdio: 'inherit',
+          },
+        );
 
         const finish = (success: boolean, reason?: string): void => {
           if (!isRunning) return;
           isRunning = false;
 
           if (success) {
+            const builtRouteTable = readRouteTable();
+            if (builtRouteTable !== routeTable) {
+              routeTable = builtRouteTable;
+              shouldRecompileMarkdown = true;
+            }
+            if (shouldRecompileMarkdown) {
+              shouldRecompileMarkdown = false;
+              for (const module of server.moduleGraph.idToModuleMap.values()) {
+                if (module.file?.endsWith('.md')) server.moduleGraph.invalidateModule(module);
+              }
+            }
             server.ws.send({ type: 'full-reload' });
           } else {
             server.config.logger.error(
@@ -101,6 +185,10 @@ export function regenerateGeneratedContent(
 
       const handleChange = (filePath: string): void => {
         if (!shouldRegenerate(filePath)) return;
+        const absolutePath = path.resolve(filePath);
+        if (isCodeSnippetSource(absolutePath) || isTransclusionSource(absolutePath)) {
+          shouldRecompileMarkdown = true;
+        }
 
         clearTimeout(debounceTimer);
         debounceTimer = setTimeout(() => {
@@ -112,6 +200,10 @@ export function regenerateGeneratedContent(
       server.watcher.on('add', handleChange);
       server.watcher.on('change', handleChange);
       server.watcher.on('unlink', handleChange);
+
+      if (options.runOnStart) {
+        runContentBuild();
+      }
     },
   };
 }
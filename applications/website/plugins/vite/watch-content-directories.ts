@@ -7,14 +7,24 @@ import type { PluginOption } from 'vite';
  * `import.meta.glob` with deep relative paths still triggers module
  * invalidation when new files appear. Vite's default watcher does not
  * always cover directories resolved via `../../../../` paths outside the
- * application root.
+ * application root. Every file is watched, not only Markdown, because a code
+ * fence can show an example file with `file="…"`. Individual files outside
+ * those directories, such as the tag registry at the workspace root, can be
+ * watched alongside them.
  */
-export function watchContentDirectories(directories: readonly string[]): PluginOption {
+export function watchContentDirectories(
+  directories: readonly string[],
+  files: readonly string[] = [],
+): PluginOption {
   return {
     name: 'watch-content-directories',
     configureServer(server) {
       for (const directory of directories) {
-        server.watcher.add(path.join(directory, '**', '*.{md,toml}'));
+        server.watcher.add(path.join(directory, '**', '*'));
+      }
+
+      if (files.length > 0) {
+        server.watcher.add([...files]);
       }
     },
   };
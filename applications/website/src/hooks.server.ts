@@ -1,13 +1,7 @@
 import type { Handle } from '@sveltejs/kit';
 import { redirect } from '@sveltejs/kit';
 
-const redirects: Record<string, string> = {
-  '/rss': '/writing/rss',
-  '/feed': '/writing/rss',
-  '/rss.xml': '/writing/rss',
-  '/atom.xml': '/writing/rss',
-  '/sitemap.xml.gz': '/sitemap.xml',
-};
+import { getRedirect } from '$lib/server/content';
 
 export const handle: Handle = async ({ event, resolve }) => {
   const { pathname } = event.url;
@@ -22,9 +16,11 @@ export const handle: Handle = async ({ event, resolve }) => {
     });
   }
 
-  const target = redirects[pathname];
+  // Prerendering passes through here too, which is how static builds get a
+  // meta-refresh page at each old path.
+  const target = getRedirect(pathname);
   if (target) {
-    redirect(301, target);
+    redirect(301, `${target}${event.url.search}`);
   }
 
   return await resolve(event);
@@ -1,5 +1,6 @@
 import { describe, expect, it } from 'vitest';
-import { extractAnnotations, injectAnnotations, renderAnnotationHtml } from './code-annotations';
+import { extractAnnotations } from '@stevekinney/utilities/code-fences';
+import { injectAnnotations, renderAnnotationHtml } from './code-annotations';
 
 describe('code annotations', () => {
   it('renders backtick-delimited segments as inline code', () => {
@@ -27,4 +28,13 @@ describe('code annotations', () => {
       `<pre><code><span class="line">const action = 's3:GetObject';</span><span class="code-annotation"><span class="code-annotation-indicator">Note</span> Use <code>s3:GetObject</code> on <code>arn:aws:s3:::bucket/*</code>.</span></code></pre>`,
     );
   });
+
+  it('finds lines that transformers have given extra classes', () => {
+    const annotations = new Map([[0, 'Renamed.']]);
+    const html = `<pre><code><span class="line diff add">const total = 1;</span>\n<span class="line">total;</span></code></pre>`;
+
+    expect(injectAnnotations(html, annotations)).toBe(
+      `<pre><code><span class="line diff add">const total = 1;</span>\n<span class="code-annotation"><span class="code-annotation-indicator">Note</span> Renamed.</span><span class="line">total;</span></code></pre>`,
+    );
+  });
 });
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { codeToHtml } from 'shiki';
+import { transformerNotationDiff } from '@shikijs/transformers';
+import { extractUnifiedDiff, parseDiffLanguage } from '@stevekinney/utilities/code-fences';
+import { transformerDiffLines } from './code-diff';
+
+describe('code diffs', () => {
+  it('reads the highlighted language from the fence or its meta', () => {
+    expect(parseDiffLanguage('diff=ts', 'title="counter.ts"')).toEqual({
+      language: 'ts',
+      remaining: 'title="counter.ts"',
+    });
+    expect(parseDiffLanguage('diff', 'diff=tsx {2}')).toEqual({
+      language: 'tsx',
+      remaining: '{2}',
+    });
+    expect(parseDiffLanguage('ts', '{1,3}')).toBeNull();
+    expect(parseDiffLanguage('diff', '')).toBeNull();
+  });
+
+  it('strips unified-diff prefixes and records the changed lines', () => {
+    const { cleanedCode, changes } = extractUnifiedDiff(
+      ['function add(a, b) {', '-  return a - b;', '+  return a + b;', ' }'].join('\n'),
+    );
+
+    expect(cleanedCode).toBe(
+      ['function add(a, b) {', '  return a - b;', '  return a + b;', '}'].join('\n'),
+    );
+    expect([...changes]).toEqual([
+      [1, 'remove'],
+      [2, 'add'],
+    ]);
+  });
+
+  it('marks changed lines the same way for prefixes and notation comments', async () => {
+    const { cleanedCode, changes } = extractUnifiedDiff('-let count = 0;\n+const count = 0;');
+    const fromPrefixes = await codeToHtml(cleanedCode, {
+      lang: 'ts',
+      theme: 'night-owl',
+      transformers: [transformerDiffLines(changes)],
+    });
+    const fromNotation = await codeToHtml(
+      'let count = 0; // [!code --]\nconst count = 0; // [!code ++]',
+      { lang: 'ts', theme: 'night-owl', transformers: [transformerNotationDiff()] },
+    );
+
+    for (const html of [fromPrefixes, fromNotation]) {
+      expect(html).toContain('has-diff');
+      expect(html.match(/class="line[^"]*"/g)).toEqual([
+        'class="line diff remove"',
+        'class="line diff add"',
+      ]);
+      expect(html).not.toContain('[!code');
+    }
+  });
+});
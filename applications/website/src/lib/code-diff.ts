@@ -0,0 +1,19 @@
+import type { DiffChange } from '@stevekinney/utilities/code-fences';
+import type { ShikiTransformer } from 'shiki';
+
+/**
+ * Mark changed lines with the same classes `transformerNotationDiff` uses,
+ * so both ways of writing a diff share one set of styles.
+ */
+export function transformerDiffLines(changes: Map<number, DiffChange>): ShikiTransformer {
+  return {
+    name: 'diff-lines',
+    pre(node) {
+      if (changes.size > 0) this.addClassToHast(node, 'has-diff');
+    },
+    line(node, line) {
+      const change = changes.get(line - 1);
+      if (change) this.addClassToHast(node, ['diff', change]);
+    },
+  };
+}
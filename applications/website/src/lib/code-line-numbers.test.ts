@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { codeToHtml } from 'shiki';
+import type { Code, Root } from 'mdast';
+import remarkCodeLineNumbers from '@stevekinney/markdown/remark-code-line-numbers';
+import { injectAnnotations } from './code-annotations';
+import { parseLineNumbers, transformerLineNumbers } from './code-line-numbers';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const transform = (remarkCodeLineNumbers as any)() as (tree: Root) => void;
+
+const code = (meta: string | null): Code => ({ type: 'code', lang: 'ts', meta, value: '' });
+
+describe('code line numbers', () => {
+  it('numbers fences that show line numbers by their place on the page', () => {
+    const tree: Root = {
+      type: 'root',
+      children: [
+        code(null),
+        code('showLineNumbers'),
+        code('title="a.ts" showLineNumbers{12}'),
+        code('showLineNumbers id="setup"'),
+        code('showLineNumbersish'),
+      ],
+    };
+    transform(tree);
+
+    expect(tree.children.map((node) => (node as Code).meta)).toEqual([
+      null,
+      'showLineNumbers id="code-2"',
+      'title="a.ts" showLineNumbers{12} id="code-3"',
+      'showLineNumbers id="setup"',
+      'showLineNumbersish',
+    ]);
+  });
+
+  it('reads the first line number and anchor, leaving other meta for the highlighter', () => {
+    expect(parseLineNumbers('{2} showLineNumbers{12} id="code-3"')).toEqual({
+      lineNumbers: { start: 12, id: 'code-3' },
+      remaining: '{2}',
+    });
+    expect(parseLineNumbers('showLineNumbers')).toEqual({
+      lineNumbers: { start: 1, id: null },
+      remaining: '',
+    });
+    expect(parseLineNumbers('{1,3}')).toEqual({ lineNumbers: null, remaining: '{1,3}' });
+  });
+
+  it('anchors each line and keeps annotations working', async () => {
+    const html = await codeToHtml(['const a = 1;', 'const b = 2;'].join('\n'), {
+      lang: 'ts',
+      theme: 'night-owl',
+      transformers: [transformerLineNumbers({ start: 12, id: 'code-3' })],
+    });
+
+    expect(html).toContain('data-line-numbers="code-3"');
+    expect(html).toContain(
+      '<span class="line" data-line="13" id="code-3-L13"><a class="line-number" href="#code-3-L13" aria-label="Link to line 13">13</a>',
+    );
+    expect(injectAnnotations(html, new Map([[0, 'First']]))).toMatch(
+      /id="code-3-L12">[^\n]*<\/span>\n<span class="code-annotation"/,
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import type { ShikiTransformer } from 'shiki';
+
+const LINE_NUMBERS_PATTERN = /(?:^|\s)showLineNumbers(?:\{(\d+)\})?(?=\s|$)/;
+const ID_PATTERN = /(?:^|\s)id="([^"]+)"/;
+
+export type LineNumbers = {
+  /** The number shown on the first line. */
+  start: number;
+  /** The block's anchor; each line is `#<id>-L<number>`. */
+  id: string | null;
+};
+
+/**
+ * Read `showLineNumbers` / `showLineNumbers{12}` and the `id="…"`
+ * remark-code-line-numbers gives the block. Returns the settings and the meta
+ * with both tokens removed, so `{12}` isn't mistaken for a line highlight.
+ */
+export function parseLineNumbers(metastring: string): {
+  lineNumbers: LineNumbers | null;
+  remaining: string;
+} {
+  const match = metastring.match(LINE_NUMBERS_PATTERN);
+  if (!match) return { lineNumbers: null, remaining: metastring };
+
+  const id = metastring.match(ID_PATTERN);
+  const remaining = metastring
+    .replace(LINE_NUMBERS_PATTERN, ' ')
+    .replace(ID_PATTERN, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return {
+    lineNumbers: { start: match[1] ? Number(match[1]) : 1, id: id ? id[1] : null },
+    remaining,
+  };
+}
+
+/**
+ * Number each line with a link to its own anchor. The link is a real
+ * `href`, so it works without JavaScript; enhance-line-links turns a click
+ * into a copied deep link and highlights the target on load.
+ */
+export function transformerLineNumbers({ start, id }: LineNumbers): ShikiTransformer {
+  return {
+    name: 'line-numbers',
+    pre(node) {
+      this.addClassToHast(node, 'has-line-numbers');
+      if (id) node.properties['data-line-numbers'] = id;
+    },
+    line(node, line) {
+      const number = start + line - 1;
+      const anchor = id ? `${id}-L${number}` : null;
+
+      node.properties['data-line'] = number;
+      if (anchor) node.properties.id = anchor;
+      node.children.unshift({
+        type: 'element',
+        tagName: anchor ? 'a' : 'span',
+        properties: {
+          class: 'line-number',
+          ...(anchor ? { href: `#${anchor}`, 'aria-label': `Link to line ${number}` } : {}),
+        },
+        children: [{ type: 'text', value: String(number) }],
+      });
+    },
+  };
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { codeToHtml } from 'shiki';
+import { prepareCodeFence } from '@stevekinney/utilities/code-fences';
+import { runTwoslash } from '@stevekinney/utilities/twoslash';
+import { injectAnnotations } from './code-annotations';
+import { transformerTwoslashResult } from './code-twoslash';
+
+const render = async (code: string) => {
+  const result = runTwoslash(code, 'ts');
+  return codeToHtml(result.code, {
+    lang: 'ts',
+    theme: 'night-owl',
+    transformers: [transformerTwoslashResult(result)],
+  });
+};
+
+describe('twoslash code blocks', () => {
+  it('adds type tooltips and answers queries under their line', async () => {
+    const html = await render(
+      [
+        'type Box<T> = { value: T };',
+        '// ---cut---',
+        'const box: Box<number> = { value: 1 };',
+        '//    ^?',
+      ].join('\n'),
+    );
+
+    expect(html).toContain('class="twoslash');
+    expect(html).not.toContain('---cut---');
+    expect(html).toContain(
+      '<span style="color:#82AAFF;font-style:italic" class="twoslash-hover">box<span class="twoslash-popup" role="tooltip">const box: Box&#x3C;number></span></span>',
+    );
+    expect(html).toMatch(
+      /<\/span><span class="twoslash-query" style="margin-left:6ch">const box: Box&#x3C;number><\/span>/,
+    );
+  });
+
+  it('underlines errors and shows the message after the line', async () => {
+    const html = await render(['// @errors: 2322', "const count: number = 'one';"].join('\n'));
+
+    expect(html).toContain('twoslash-error-underline');
+    expect(html).toContain(
+      `<span class="twoslash-error">Type 'string' is not assignable to type 'number'. (2322)</span>`,
+    );
+  });
+
+  it('keeps annotations on their line when twoslash removes lines above them', async () => {
+    const prepared = prepareCodeFence({
+      code: [
+        'type Box<T> = { value: T };',
+        '// ---cut---',
+        'const box: Box<number> = { value: 1 };',
+        '// [!note A box of one number.]',
+        'const value = box.value;',
+      ].join('\n'),
+      lang: 'ts',
+      meta: 'twoslash',
+      contentRoots: [],
+    });
+
+    if ('error' in prepared) throw new Error(prepared.error);
+    expect(prepared.code).toBe(
+      ['const box: Box<number> = { value: 1 };', 'const value = box.value;'].join('\n'),
+    );
+    expect([...prepared.annotations]).toEqual([[0, 'A box of one number.']]);
+
+    const html = injectAnnotations(
+      await codeToHtml(prepared.code, { lang: 'ts', theme: 'night-owl' }),
+      prepared.annotations,
+    );
+    const [, firstLine, secondLine] = html.split('<span class="line">');
+    expect(firstLine).toContain('A box of one number.');
+    expect(secondLine).not.toContain('A box of one number.');
+  });
+});
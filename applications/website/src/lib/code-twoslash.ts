@@ -0,0 +1,92 @@
+import type { Element, ElementContent } from 'hast';
+import type { ShikiTransformer, ThemedToken } from 'shiki';
+import type { TwoslashResult } from '@stevekinney/utilities/twoslash';
+
+const span = (className: string, text: string): Element => ({
+  type: 'element',
+  tagName: 'span',
+  properties: { class: className },
+  children: [{ type: 'text', value: text }],
+});
+
+/** Split tokens wherever a hover or error starts or ends, so each gets its own span. */
+const splitTokens = (tokens: ThemedToken[][], boundaries: Set<number>): ThemedToken[][] =>
+  tokens.map((line) =>
+    line.flatMap((token) => {
+      const end = token.offset + token.content.length;
+      const cuts = [...boundaries]
+        .filter((boundary) => boundary > token.offset && boundary < end)
+        .sort((a, b) => a - b);
+      if (cuts.length === 0) return [token];
+
+      return [token.offset, ...cuts].map((start, index) => ({
+        ...token,
+        offset: start,
+        content: token.content.slice(start - token.offset, (cuts[index] ?? end) - token.offset),
+      }));
+    }),
+  );
+
+/**
+ * Render what `runTwoslash` found: a tooltip on every identifier with type
+ * information, the answer to each `// ^?` query under its line, and a
+ * squiggle plus message for each compiler error. Highlight `result.code`,
+ * not the original block, so offsets line up.
+ */
+export function transformerTwoslashResult(result: TwoslashResult): ShikiTransformer {
+  const hovers = new Map(result.hovers.map((hover) => [hover.start, hover]));
+  const boundaries = new Set(
+    [...result.hovers, ...result.errors].flatMap(({ start, length }) => [start, start + length]),
+  );
+
+  return {
+    name: 'twoslash',
+    tokens(tokens) {
+      return splitTokens(tokens, boundaries);
+    },
+    pre(node) {
+      this.addClassToHast(node, 'twoslash');
+    },
+    span(node, _line, _column, _lineElement, token) {
+      const hover = hovers.get(token.offset);
+      if (hover && hover.length === token.content.length) {
+        this.addClassToHast(node, 'twoslash-hover');
+        node.children.push({
+          ...span('twoslash-popup', hover.text),
+          properties: { class: 'twoslash-popup', role: 'tooltip' },
+        });
+      }
+
+      const end = token.offset + token.content.length;
+      if (
+        result.errors.some(
+          (error) => token.offset < error.start + error.length && end > error.start,
+        )
+      ) {
+        this.addClassToHast(node, 'twoslash-error-underline');
+      }
+    },
+    code(node) {
+      // Queries and messages go after their line, working backwards so the indices hold.
+      const extras = [
+        ...result.queries.map(({ line, character, text }) => ({
+          line,
+          element: {
+            ...span('twoslash-query', text),
+            properties: { class: 'twoslash-query', style: `margin-left:${character}ch` },
+          } satisfies Element,
+        })),
+        ...result.errors.map(({ line, code, message }) => ({
+          line,
+          element: span('twoslash-error', `${message} (${code})`),
+        })),
+      ].sort((a, b) => b.line - a.line);
+
+      for (const { line, element } of extras) {
+        const lineElement = this.lines[line];
+        const index = lineElement ? node.children.indexOf(lineElement) : -1;
+        if (index !== -1) node.children.splice(index + 1, 0, element as ElementContent);
+      }
+    },
+  };
+}
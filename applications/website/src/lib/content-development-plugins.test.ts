@@ -1,11 +1,25 @@
+import { EventEmitter } from 'node:events';
 import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
 import os from 'node:os';
 import path from 'node:path';
 
-import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 import { contentDevelopmentPlugins } from '../../plugins/vite/content-development-plugins';
 
+// Content builds are child processes the tests end by hand.
+const builds = vi.hoisted(() => [] as import('node:events').EventEmitter[]);
+vi.mock('node:child_process', async () => {
+  const { EventEmitter } = await import('node:events');
+  return {
+    spawn: () => {
+      const build = new EventEmitter();
+      builds.push(build);
+      return build;
+    },
+  };
+});
+
 type Middleware = (
   request: { url?: string },
   response: {
@@ -15,9 +29,23 @@ type Middleware = (
   next: () => void,
 ) => void | Promise<void>;
 
+type ModuleNode = { file: string | null };
+
+/** The parts of Vite's dev server the content plugins use. */
+type DevelopmentServer = {
+  middlewares: { use: (middleware: Middleware) => void };
+  watcher: EventEmitter;
+  moduleGraph: {
+    idToModuleMap: Map<string, ModuleNode>;
+    invalidateModule: (module: ModuleNode) => void;
+  };
+  ws: { send: (payload: { type: string }) => void };
+  config: { logger: { error: (message: string) => void } };
+};
+
 type PluginWithServerHook = {
   name: string;
-  configureServer: (server: { middlewares: { use: (middleware: Middleware) => void } }) => void;
+  configureServer: (server: Partial<DevelopmentServer>) => void;
 };
 
 const isPluginWithServerHook = (
@@ -30,7 +58,11 @@ const isPluginWithServerHook = (
   return plugin.name === name && typeof plugin.configureServer === 'function';
 };
 
-const findPlugin = (name: string, generatedEnhancementsDirectory: string): PluginWithServerHook => {
+const findPlugin = (
+  name: string,
+  generatedEnhancementsDirectory: string,
+  overrides: Partial<Parameters<typeof contentDevelopmentPlugins>[0]> = {},
+): PluginWithServerHook => {
   const plugin = (
     contentDevelopmentPlugins({
       workspaceRoot: '/',
@@ -41,6 +73,9 @@ const findPlugin = (name: string, generatedEnhancementsDirectory: string): Plugi
       contentBuildWorkingDirectory: '/',
       generatedEnhancementsDirectory,
       generatedEnhancementsUrlPrefix: '/generated/content-enhancements/',
+      generatedSearchDirectory: generatedEnhancementsDirectory,
+      generatedSearchUrlPrefix: '/generated/search/',
+      ...overrides,
     }) as unknown[]
   ).find((candidate) => isPluginWithServerHook(candidate, name));
 
@@ -62,6 +97,8 @@ describe('contentDevelopmentPlugins', () => {
   });
 
   afterEach(async () => {
+    builds.length = 0;
+    vi.useRealTimers();
     await rm(temporaryDirectory, { recursive: true, force: true });
   });
 
@@ -99,4 +136,97 @@ describe('contentDevelopmentPlugins', () => {
     expect(headers.get('Content-Type')).toBe('text/css; charset=utf-8');
     expect(body).toBe('body {}\n');
   });
+
+  it('serves the generated search index as JSON during development', async () => {
+    await writeFile(path.join(generatedEnhancementsDirectory, 'search-index.json'), '{}');
+
+    const middlewares: Middleware[] = [];
+    findPlugin('serve-generated-search-index', generatedEnhancementsDirectory).configureServer({
+      middlewares: { use: (middleware: Middleware) => middlewares.push(middleware) },
+    });
+
+    const headers = new Map<string, number | string>();
+    await middlewares[0]?.(
+      { url: '/generated/search/search-index.json' },
+      { setHeader: (name, value) => headers.set(name, value), end: () => {} },
+      () => {
+        throw new Error('Expected middleware to serve the generated search index.');
+      },
+    );
+
+    expect(headers.get('Content-Type')).toBe('application/json; charset=utf-8');
+  });
+
+  it('recompiles every page after a transcluded note changes', async () => {
+    vi.useFakeTimers();
+    const contentDirectory = path.join(temporaryDirectory, 'writing');
+    const modules = new Map<string, ModuleNode>([
+      ['page', { file: path.join(contentDirectory, 'page.md') }],
+      ['layout', { file: '/src/routes/+layout.svelte' }],
+    ]);
+    const invalidated: ModuleNode[] = [];
+    const reloads: string[] = [];
+    const server = {
+      watcher: new EventEmitter(),
+      moduleGraph: {
+        idToModuleMap: modules,
+        invalidateModule: (module: ModuleNode) => invalidated.push(module),
+      },
+      ws: { send: (payload: { type: string }) => reloads.push(payload.type) },
+      config: { logger: { error: () => {} } },
+    };
+
+    findPlugin('regenerate-generated-content', generatedEnhancementsDirectory, {
+      contentDirectories: [contentDirectory],
+    }).configureServer(server);
+    builds[0]!.emit('exit', 0);
+    expect(invalidated).toEqual([]);
+
+    server.watcher.emit('change', path.join(contentDirectory, 'note.md'));
+    await vi.runAllTimersAsync();
+    builds[1]!.emit('exit', 0);
+
+    expect(invalidated).toEqual([modules.get('page')]);
+    expect(reloads).toEqual(['full-reload', 'full-reload']);
+  });
+
+  it('recompiles every page after a build changes the route table', async () => {
+    vi.useFakeTimers();
+    const contentDataPath = path.join(temporaryDirectory, 'content-data.json');
+    const writeRoutes = (title: string) =>
+      writeFile(
+        contentDataPath,
+        JSON.stringify({
+          routes: {
+            '/writing/note': { path: '/writing/note', title, sourcePath: 'writing/note.md' },
+          },
+        }),
+      );
+    const page: ModuleNode = { file: '/writing/page.md' };
+    const invalidated: ModuleNode[] = [];
+    const server = {
+      watcher: new EventEmitter(),
+      moduleGraph: {
+        idToModuleMap: new Map([['page', page]]),
+        invalidateModule: (module: ModuleNode) => invalidated.push(module),
+      },
+      ws: { send: () => {} },
+      config: { logger: { error: () => {} } },
+    };
+    await writeRoutes('Note');
+
+    // Pages compiled while the start-up build runs see the table it replaces.
+    findPlugin('regenerate-generated-content', generatedEnhancementsDirectory, {
+      contentFiles: ['/tags.toml'],
+      contentDataPath,
+    }).configureServer(server);
+    await writeRoutes('Renamed note');
+    builds[0]!.emit('exit', 0);
+    expect(invalidated).toEqual([page]);
+
+    server.watcher.emit('change', '/tags.toml');
+    await vi.runAllTimersAsync();
+    builds[1]!.emit('exit', 0);
+    expect(invalidated).toEqual([page]);
+  });
 });
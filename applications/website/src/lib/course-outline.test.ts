@@ -0,0 +1,58 @@
+import type { CourseContentsData } from '@stevekinney/utilities/content-types';
+import { describe, expect, test } from 'vitest';
+
+import { describeCourseItem, formatCourseOutline } from './course-outline';
+
+describe('describeCourseItem', () => {
+  test('labels everything but plain lessons', () => {
+    expect(describeCourseItem({})).toBe('');
+    expect(describeCourseItem({ kind: 'lesson', duration: 10 })).toBe('10 min');
+    expect(describeCourseItem({ kind: 'exercise', duration: 90, optional: true })).toBe(
+      'exercise · 2h · optional',
+    );
+  });
+});
+
+describe('formatCourseOutline', () => {
+  test('nests sub-sections a heading level deeper and links each item', () => {
+    const contents: CourseContentsData = {
+      section: [
+        {
+          title: 'Basics',
+          description: 'Where to start.',
+          item: [{ title: 'Intro', href: 'intro.md', duration: 5 }],
+          section: [
+            {
+              title: 'Practice',
+              item: [
+                { title: 'Mocks', href: 'mocks-exercise.md', kind: 'exercise', optional: true },
+                { title: 'Docs', href: 'https://vitest.dev', kind: 'reference' },
+              ],
+            },
+          ],
+        },
+      ],
+    };
+
+    expect(formatCourseOutline(contents, 'https://example.com/courses/testing')).toBe(
+      [
+        '## Outline',
+        '',
+        '### Basics',
+        '',
+        'Where to start.',
+        '',
+        '- [Intro](https://example.com/courses/testing/intro) (5 min)',
+        '',
+        '#### Practice',
+        '',
+        '- [Mocks](https://example.com/courses/testing/mocks-exercise) (exercise · optional)',
+        '- [Docs](https://vitest.dev) (reference)',
+      ].join('\n'),
+    );
+  });
+
+  test('is empty without an outline', () => {
+    expect(formatCourseOutline(undefined, 'https://example.com/courses/testing')).toBe('');
+  });
+});
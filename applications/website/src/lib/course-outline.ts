@@ -0,0 +1,52 @@
+import type { CourseContentsData, CourseContentsItem } from '@stevekinney/utilities/content-types';
+import { flattenCourseSections } from '@stevekinney/utilities/course-contents';
+
+import { formatReadingDuration } from './reading-time';
+
+/**
+ * Annotations shown beside an outline item, e.g. "exercise · 15 min · optional".
+ * Plain lessons carry no kind label since that is the default.
+ */
+export const describeCourseItem = (
+  item: Pick<CourseContentsItem, 'kind' | 'duration' | 'optional'>,
+): string =>
+  [
+    item.kind && item.kind !== 'lesson' ? item.kind : null,
+    item.duration ? formatReadingDuration(item.duration) : null,
+    item.optional ? 'optional' : null,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+/**
+ * The course outline as markdown for `llms.txt`: one heading per section,
+ * nested sections a level deeper, and each item as a link with its
+ * annotations. `coursePath` is the absolute URL lesson slugs resolve against.
+ */
+export const formatCourseOutline = (
+  contents: CourseContentsData | undefined,
+  coursePath: string,
+): string => {
+  const lines: string[] = [];
+
+  for (const section of flattenCourseSections(contents)) {
+    const heading = '#'.repeat(Math.min(section.depth + 3, 6));
+    lines.push(`${heading} ${section.title ?? 'Untitled section'}`, '');
+
+    if (section.description) lines.push(section.description, '');
+
+    const items = (section.item ?? []).filter((item) => typeof item.href === 'string');
+    for (const item of items) {
+      const href = /^https?:\/\//.test(item.href)
+        ? item.href
+        : `${coursePath}/${item.href.replace(/\.md$/i, '')}`;
+      const annotations = describeCourseItem(item);
+
+      lines.push(`- [${item.title}](${href})${annotations ? ` (${annotations})` : ''}`);
+    }
+
+    if (items.length > 0) lines.push('');
+  }
+
+  return lines.length > 0 ? ['## Outline', '', ...lines].join('\n').trimEnd() : '';
+};
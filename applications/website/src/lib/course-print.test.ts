@@ -0,0 +1,99 @@
+import type { CourseContentsData } from '@stevekinney/utilities/content-types';
+import { describe, expect, test } from 'vitest';
+
+import {
+  buildCoursePrintOutline,
+  coursePrintChapterId,
+  rewriteCoursePrintHtml,
+} from './course-print';
+
+const chapterIds = new Map([
+  ['/courses/testing', coursePrintChapterId()],
+  ['/courses/testing/mocks', coursePrintChapterId('mocks')],
+]);
+
+describe('rewriteCoursePrintHtml', () => {
+  test('prefixes ids and same-page fragments with the chapter', () => {
+    expect(
+      rewriteCoursePrintHtml(
+        '<h2 id="setup">Setup</h2><a href="#setup">Back</a>',
+        'lesson-spies',
+        chapterIds,
+      ),
+    ).toBe('<h2 id="lesson-spies--setup">Setup</h2><a href="#lesson-spies--setup">Back</a>');
+  });
+
+  test('keeps line links in numbered code blocks apart between chapters', () => {
+    expect(
+      rewriteCoursePrintHtml(
+        '<pre data-line-numbers="code-1"><span class="line" data-line="1" id="code-1-L1"><a class="line-number" href="#code-1-L1">1</a></span></pre>',
+        'lesson-spies',
+        chapterIds,
+      ),
+    ).toBe(
+      '<pre data-line-numbers="lesson-spies--code-1"><span class="line" data-line="1" id="lesson-spies--code-1-L1"><a class="line-number" href="#lesson-spies--code-1-L1">1</a></span></pre>',
+    );
+  });
+
+  test('points links at other chapters to their anchors', () => {
+    expect(
+      rewriteCoursePrintHtml(
+        [
+          '<a href="/courses/testing/mocks">Mocks</a>',
+          '<a href="/courses/testing/mocks/#spying">Spying</a>',
+          '<a href="/courses/testing">Overview</a>',
+        ].join(''),
+        'lesson-spies',
+        chapterIds,
+      ),
+    ).toBe(
+      [
+        '<a href="#lesson-mocks">Mocks</a>',
+        '<a href="#lesson-mocks--spying">Spying</a>',
+        '<a href="#introduction">Overview</a>',
+      ].join(''),
+    );
+  });
+
+  test('leaves links outside the course and escaped text alone', () => {
+    const html = [
+      '<a href="/writing/hooks">Hooks</a>',
+      '<a href="https://vitest.dev">Vitest</a>',
+      '<code>&lt;a href=&quot;/courses/testing/mocks&quot;&gt;</code>',
+    ].join('');
+
+    expect(rewriteCoursePrintHtml(html, 'lesson-spies', chapterIds)).toBe(html);
+  });
+});
+
+describe('buildCoursePrintOutline', () => {
+  test('groups chapters under their sections and gathers the rest at the end', () => {
+    const contents: CourseContentsData = {
+      section: [
+        {
+          title: 'Doubles',
+          item: [
+            { title: 'Mocks', href: 'mocks.md' },
+            { title: 'Vitest', href: 'https://vitest.dev' },
+          ],
+          section: [{ title: 'Drafts', item: [{ title: 'Unpublished', href: 'draft.md' }] }],
+        },
+      ],
+    };
+
+    expect(
+      buildCoursePrintOutline(contents, [
+        { id: coursePrintChapterId(), title: 'Introduction' },
+        { id: coursePrintChapterId('mocks'), title: 'Mocking' },
+        { id: coursePrintChapterId('running-tests'), title: 'Running Tests' },
+      ]),
+    ).toEqual([
+      { title: 'Doubles', depth: 0, chapters: [{ id: 'lesson-mocks', title: 'Mocking' }] },
+      {
+        title: 'More lessons',
+        depth: 0,
+        chapters: [{ id: 'lesson-running-tests', title: 'Running Tests' }],
+      },
+    ]);
+  });
+});
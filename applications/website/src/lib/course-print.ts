@@ -0,0 +1,86 @@
+import type { CourseContentsData } from '@stevekinney/utilities/content-types';
+import { flattenCourseSections } from '@stevekinney/utilities/course-contents';
+import { normalizeRoutePath } from '@stevekinney/utilities/routes';
+
+/** One rendered document in a course's print edition. */
+export type CoursePrintChapter = {
+  id: string;
+  title: string;
+  path: string;
+  html: string;
+};
+
+/** Anchor for a chapter; the README becomes the introduction. */
+export const coursePrintChapterId = (lessonSlug?: string): string =>
+  lessonSlug ? `lesson-${lessonSlug}` : 'introduction';
+
+const attributePattern = /(\s)(id|href|data-line-numbers)="([^"]*)"/g;
+
+/**
+ * Every chapter is concatenated into one page, so ids are prefixed with the
+ * chapter's id to keep them unique, along with the block names numbered code
+ * blocks keep in `data-line-numbers` for their line links. Links to other
+ * chapters of the course become links to their anchors on the same page.
+ * `chapterIds` maps each chapter's route path to its id. Rendered HTML always double-quotes
+ * attributes, and a quote inside text or code is escaped, so matching on the
+ * attribute text is enough.
+ */
+export const rewriteCoursePrintHtml = (
+  html: string,
+  chapterId: string,
+  chapterIds: ReadonlyMap<string, string>,
+): string =>
+  html.replace(attributePattern, (match, space: string, name: string, value: string) => {
+    if (name !== 'href') return `${space}${name}="${chapterId}--${value}"`;
+    if (value.startsWith('#')) return `${space}href="#${chapterId}--${value.slice(1)}"`;
+    if (!value.startsWith('/')) return match;
+
+    const [pathname = '', fragment] = value.split('#', 2);
+    const target = chapterIds.get(normalizeRoutePath(pathname.split('?')[0] ?? ''));
+    if (!target) return match;
+
+    return `${space}href="#${fragment ? `${target}--${fragment}` : target}"`;
+  });
+
+/** A section of the print edition's table of contents. */
+export type CoursePrintOutlineSection = {
+  title?: string;
+  depth: number;
+  chapters: Array<Pick<CoursePrintChapter, 'id' | 'title'>>;
+};
+
+/**
+ * The table of contents follows the course's `index.toml` sections, listing
+ * each chapter under the section that names it. Chapters the outline never
+ * mentions, such as unlisted lessons, are gathered at the end. Sections with
+ * nothing to print are dropped.
+ */
+export const buildCoursePrintOutline = (
+  contents: CourseContentsData | undefined,
+  chapters: ReadonlyArray<Pick<CoursePrintChapter, 'id' | 'title'>>,
+): CoursePrintOutlineSection[] => {
+  const chaptersById = new Map(chapters.map((chapter) => [chapter.id, chapter]));
+
+  const listed = new Set([coursePrintChapterId()]);
+
+  const sections = flattenCourseSections(contents).map(({ title, depth, item }) => ({
+    title,
+    depth,
+    chapters: (item ?? []).flatMap(({ href }) => {
+      const chapter =
+        typeof href === 'string' &&
+        chaptersById.get(coursePrintChapterId(href.replace(/\.md$/i, '')));
+      if (!chapter) return [];
+      listed.add(chapter.id);
+      return [{ id: chapter.id, title: chapter.title }];
+    }),
+  }));
+
+  sections.push({
+    title: 'More lessons',
+    depth: 0,
+    chapters: chapters.filter(({ id }) => !listed.has(id)).map(({ id, title }) => ({ id, title })),
+  });
+
+  return sections.filter((section) => section.chapters.length > 0);
+};
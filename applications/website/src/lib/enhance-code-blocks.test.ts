@@ -0,0 +1,60 @@
+// @vitest-environment jsdom
+import { enhanceCodeBlocks } from '@stevekinney/content-enhancements/enhance-code-blocks';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+
+// Shiki output for a block with one removed line, one added line, and an annotation.
+const markup = `<div data-language="ts"><pre class="shiki has-diff"><code><span class="line"><span>const total = items.reduce((sum, item) => {</span></span>
+<span class="line diff remove"><span>  return sum + item.price;</span></span>
+<span class="line diff add"><span>  return sum + item.price * item.quantity;</span></span><span class="code-annotation"><span class="code-annotation-indicator">Note</span> Count every unit.</span>
+<span class="line"><span>}, 0);</span></span></code></pre></div>`;
+
+describe('enhanceCodeBlocks', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    document.body.innerHTML = '';
+  });
+
+  test('copies the resulting code without removed lines or annotations', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    vi.stubGlobal('navigator', { clipboard: { writeText } });
+    const root = document.createElement('div');
+    root.innerHTML = markup;
+    document.body.appendChild(root);
+
+    const { destroy } = await enhanceCodeBlocks(root);
+    root.querySelector<HTMLButtonElement>('[aria-label="Copy code"]')!.click();
+    await vi.waitFor(() => expect(writeText).toHaveBeenCalled());
+
+    expect(writeText).toHaveBeenCalledWith(
+      [
+        'const total = items.reduce((sum, item) => {',
+        '  return sum + item.price * item.quantity;',
+        '}, 0);',
+      ].join('\n'),
+    );
+    expect(root.querySelector('.line.diff.remove')).not.toBeNull();
+
+    destroy();
+  });
+
+  test('gives a tab group one copy button that copies the selected tab', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    vi.stubGlobal('navigator', { clipboard: { writeText } });
+    const root = document.createElement('div');
+    root.innerHTML = `<div data-code-tabs><div class="code-block-header"><div role="tablist"></div></div>
+      <div role="tabpanel" hidden><div data-language="sh"><pre><code>npm install</code></pre></div></div>
+      <div role="tabpanel"><div data-language="sh"><pre><code>bun install</code></pre></div></div></div>`;
+    document.body.appendChild(root);
+
+    const { destroy } = await enhanceCodeBlocks(root);
+    const buttons = root.querySelectorAll<HTMLButtonElement>('[aria-label="Copy code"]');
+    buttons[0]!.click();
+    await vi.waitFor(() => expect(writeText).toHaveBeenCalled());
+
+    expect(buttons).toHaveLength(1);
+    expect(buttons[0]!.closest('.code-block-header')).not.toBeNull();
+    expect(writeText).toHaveBeenCalledWith('bun install');
+
+    destroy();
+  });
+});
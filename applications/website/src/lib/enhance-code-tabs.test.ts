@@ -0,0 +1,95 @@
+// @vitest-environment jsdom
+import {
+  codeTabStorageKey,
+  enhanceCodeTabs,
+} from '@stevekinney/content-enhancements/enhance-code-tabs';
+import { beforeEach, describe, expect, test } from 'vitest';
+
+/** The markup `remark-code-tabs` renders around highlighted blocks. */
+const group = (id: string, labels: string[]): string => `
+  <div data-code-tabs>
+    <div class="code-block-header"><div role="tablist">${labels
+      .map(
+        (label, index) =>
+          `<button type="button" role="tab" id="${id}-tab-${index}" aria-controls="${id}-panel-${index}" aria-selected="${index === 0}" tabindex="${index === 0 ? 0 : -1}" data-code-tab="${label}">${label}</button>`,
+      )
+      .join('')}</div></div>
+    ${labels
+      .map(
+        (label, index) =>
+          `<div role="tabpanel" id="${id}-panel-${index}" data-code-tab="${label}"${index === 0 ? '' : ' hidden'}><div data-language="sh"><pre><code>${label} install</code></pre></div></div>`,
+      )
+      .join('')}
+  </div>`;
+
+const createRoot = (): HTMLElement => {
+  const root = document.createElement('div');
+  root.innerHTML =
+    group('code-tabs-1', ['npm', 'pnpm', 'bun']) + group('code-tabs-2', ['npm', 'pnpm']);
+  document.body.appendChild(root);
+  return root;
+};
+
+const selectedLabels = (root: HTMLElement): string[] =>
+  [...root.querySelectorAll<HTMLElement>('[role="tab"][aria-selected="true"]')].map(
+    (tab) => tab.dataset.codeTab ?? '',
+  );
+
+const visiblePanels = (root: HTMLElement): string[] =>
+  [...root.querySelectorAll<HTMLElement>('[role="tabpanel"]:not([hidden])')].map(
+    (panel) => panel.dataset.codeTab ?? '',
+  );
+
+describe('enhanceCodeTabs', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    window.localStorage.clear();
+  });
+
+  test('selects a label in every group and remembers it', () => {
+    const root = createRoot();
+    const { destroy } = enhanceCodeTabs(root);
+
+    root.querySelector<HTMLButtonElement>('#code-tabs-1-tab-1')!.click();
+
+    expect(selectedLabels(root)).toEqual(['pnpm', 'pnpm']);
+    expect(visiblePanels(root)).toEqual(['pnpm', 'pnpm']);
+    expect(root.querySelector<HTMLElement>('#code-tabs-2-tab-1')!.tabIndex).toBe(0);
+    expect(window.localStorage.getItem(codeTabStorageKey)).toBe('pnpm');
+
+    destroy();
+  });
+
+  test('starts on the remembered label where a group has it', () => {
+    window.localStorage.setItem(codeTabStorageKey, 'bun');
+    const root = createRoot();
+
+    const { destroy } = enhanceCodeTabs(root);
+
+    expect(selectedLabels(root)).toEqual(['bun', 'npm']);
+    destroy();
+  });
+
+  test('moves between tabs with the arrow keys, Home, and End', () => {
+    const root = createRoot();
+    const { destroy } = enhanceCodeTabs(root);
+    const press = (key: string) =>
+      document.activeElement!.dispatchEvent(
+        new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true }),
+      );
+
+    root.querySelector<HTMLButtonElement>('#code-tabs-1-tab-0')!.focus();
+    press('ArrowLeft');
+    expect(document.activeElement?.id).toBe('code-tabs-1-tab-2');
+    expect(visiblePanels(root)[0]).toBe('bun');
+
+    press('Home');
+    press('ArrowRight');
+    expect(document.activeElement?.id).toBe('code-tabs-1-tab-1');
+
+    press('End');
+    expect(selectedLabels(root)).toEqual(['bun', 'pnpm']);
+
+    destroy();
+  });
+});
@@ -0,0 +1,118 @@
+// @vitest-environment jsdom
+import {
+  courseProgressStorageKey,
+  enhanceCourseProgress,
+  readCourseProgress,
+} from '@stevekinney/content-enhancements/enhance-course-progress';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+const sidebar = `
+  <aside data-course-progress="testing">
+    <ul>
+      <li data-course-progress-item="intro"><a href="/courses/testing/intro">Intro</a></li>
+      <li data-course-progress-item="mocks"><a href="/courses/testing/mocks">Mocks</a></li>
+    </ul>
+  </aside>`;
+
+const lessonControls = `
+  <div data-course-progress="testing" data-course-progress-lesson="mocks"
+    data-course-progress-lesson-title="Mocks" hidden>
+    <button data-course-progress-toggle aria-pressed="false">Mark as complete</button>
+  </div>`;
+
+const courseSummary = `
+  <div data-course-progress="testing" data-course-progress-summary
+    data-course-progress-total="2" hidden>
+    <p data-course-progress-count></p>
+    <p data-course-progress-resume hidden>
+      <a href="/courses/testing" data-course-progress-continue>Continue where you left off</a>
+    </p>
+    <button data-course-progress-export>Export progress</button>
+    <button data-course-progress-reset>Reset progress</button>
+  </div>`;
+
+const getCompletedItems = (): Array<string | undefined> =>
+  [...document.querySelectorAll<HTMLElement>('[data-course-progress-check]')].map(
+    (check) => check.closest<HTMLElement>('li')?.dataset.courseProgressItem,
+  );
+
+describe('enhanceCourseProgress', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    document.body.innerHTML = '';
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('records the visit and marks the lesson complete in the sidebar', () => {
+    document.body.innerHTML = sidebar + lessonControls;
+    const { destroy } = enhanceCourseProgress();
+
+    const controls = document.querySelector<HTMLElement>('[data-course-progress-lesson]')!;
+    const toggle = controls.querySelector<HTMLButtonElement>('button')!;
+    expect(controls.hidden).toBe(false);
+    expect(readCourseProgress(localStorage, 'testing')).toEqual({
+      visited: ['mocks'],
+      completed: [],
+      lastLesson: { slug: 'mocks', title: 'Mocks' },
+    });
+
+    toggle.click();
+    expect(toggle.getAttribute('aria-pressed')).toBe('true');
+    expect(getCompletedItems()).toEqual(['mocks']);
+
+    toggle.click();
+    expect(toggle.textContent).toBe('Mark as complete');
+    expect(getCompletedItems()).toEqual([]);
+
+    destroy();
+    expect(controls.hidden).toBe(true);
+  });
+
+  test('summarizes progress on the course page and resets it', () => {
+    localStorage.setItem(
+      courseProgressStorageKey('testing'),
+      JSON.stringify({
+        visited: ['intro', 'mocks'],
+        completed: ['intro'],
+        lastLesson: { slug: 'mocks', title: 'Mocks' },
+      }),
+    );
+    document.body.innerHTML = sidebar + courseSummary;
+    enhanceCourseProgress();
+
+    const summary = document.querySelector<HTMLElement>('[data-course-progress-summary]')!;
+    const link = summary.querySelector<HTMLAnchorElement>('[data-course-progress-continue]')!;
+    expect(summary.hidden).toBe(false);
+    expect(summary.querySelector('[data-course-progress-count]')?.textContent).toBe(
+      "You've completed 1 of 2 lessons.",
+    );
+    expect(link.getAttribute('href')).toBe('/courses/testing/mocks');
+    expect(link.closest<HTMLElement>('[data-course-progress-resume]')?.hidden).toBe(false);
+    expect(getCompletedItems()).toEqual(['intro']);
+
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    summary.querySelector<HTMLButtonElement>('[data-course-progress-reset]')!.click();
+
+    expect(localStorage.getItem(courseProgressStorageKey('testing'))).toBeNull();
+    expect(summary.hidden).toBe(true);
+    expect(getCompletedItems()).toEqual([]);
+  });
+
+  test('keeps the summary hidden before the first visit', () => {
+    document.body.innerHTML = courseSummary;
+    enhanceCourseProgress();
+
+    expect(document.querySelector<HTMLElement>('[data-course-progress-summary]')?.hidden).toBe(
+      true,
+    );
+  });
+
+  test('treats malformed stored progress as empty', () => {
+    localStorage.setItem(courseProgressStorageKey('testing'), '{"completed": "intro"}');
+
+    expect(readCourseProgress(localStorage, 'testing')).toEqual({ visited: [], completed: [] });
+  });
+});
@@ -0,0 +1,74 @@
+// @vitest-environment jsdom
+import {
+  enhanceLineLinks,
+  parseLineHash,
+} from '@stevekinney/content-enhancements/enhance-line-links';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+
+/** The markup the highlighter renders for a `showLineNumbers` fence. */
+const block = (id: string, lines: number): string =>
+  `<pre class="shiki has-line-numbers" data-line-numbers="${id}"><code>${Array.from(
+    { length: lines },
+    (_, index) =>
+      `<span class="line" data-line="${index + 1}" id="${id}-L${index + 1}"><a class="line-number" href="#${id}-L${index + 1}">${index + 1}</a><span>line ${index + 1}</span></span>`,
+  ).join('\n')}</code></pre>`;
+
+const createRoot = (): HTMLElement => {
+  const root = document.createElement('div');
+  root.innerHTML = block('code-1', 4) + block('code-2', 2);
+  document.body.appendChild(root);
+  return root;
+};
+
+const targeted = (root: HTMLElement): string[] =>
+  [...root.querySelectorAll('.line-targeted')].map((line) => line.id);
+
+const nextHashChange = (): Promise<void> =>
+  new Promise((resolve) => window.addEventListener('hashchange', () => resolve(), { once: true }));
+
+afterEach(() => {
+  document.body.innerHTML = '';
+  history.replaceState(null, '', '#');
+  vi.unstubAllGlobals();
+});
+
+describe('enhanceLineLinks', () => {
+  test('reads single lines and ranges, whatever order the range is written in', () => {
+    expect(parseLineHash('#code-3-L12')).toEqual({ block: 'code-3', from: 12, to: 12 });
+    expect(parseLineHash('#setup-step-L9-L4')).toEqual({ block: 'setup-step', from: 4, to: 9 });
+    expect(parseLineHash('#introduction')).toBeNull();
+  });
+
+  test('highlights the linked range when the page loads', () => {
+    history.replaceState(null, '', '#code-1-L2-L3');
+    const root = createRoot();
+    const { destroy } = enhanceLineLinks(root);
+
+    expect(targeted(root)).toEqual(['code-1-L2', 'code-1-L3']);
+    destroy();
+  });
+
+  test('copies a link to a clicked line and extends it with shift-click', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    vi.stubGlobal('navigator', { clipboard: { writeText } });
+    const root = createRoot();
+    const { destroy } = enhanceLineLinks(root);
+    const number = (id: string) => root.querySelector<HTMLElement>(`#${id} .line-number`)!;
+
+    let changed = nextHashChange();
+    number('code-1-L3').click();
+    await changed;
+    expect(location.hash).toBe('#code-1-L3');
+    expect(writeText).toHaveBeenLastCalledWith(location.href);
+    expect(targeted(root)).toEqual(['code-1-L3']);
+
+    changed = nextHashChange();
+    number('code-1-L1').dispatchEvent(
+      new MouseEvent('click', { bubbles: true, cancelable: true, shiftKey: true }),
+    );
+    await changed;
+    expect(location.hash).toBe('#code-1-L1-L3');
+    expect(targeted(root)).toEqual(['code-1-L1', 'code-1-L2', 'code-1-L3']);
+    destroy();
+  });
+});
@@ -0,0 +1,132 @@
+// @vitest-environment jsdom
+import {
+  enhanceRunnableCode,
+  runTimeoutMs,
+} from '@stevekinney/content-enhancements/enhance-runnable-code';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+/** Stands in for the runner worker: records what the page sends and lets a test reply. */
+class FakeWorker extends EventTarget {
+  static instances: FakeWorker[] = [];
+
+  readonly url: string;
+  readonly posted: unknown[] = [];
+  terminated = false;
+
+  constructor(url: URL | string) {
+    super();
+    this.url = String(url);
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(data: unknown): void {
+    this.posted.push(data);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  reply(data: unknown): void {
+    this.dispatchEvent(new MessageEvent('message', { data }));
+  }
+}
+
+/** The markup the highlighter renders for a fence marked `run`. */
+const createRoot = (language: string, lines: string[]): HTMLElement => {
+  const root = document.createElement('div');
+  root.innerHTML = `<div data-language="${language}" data-runnable><pre class="shiki"><code>${lines
+    .map((line) => `<span class="line"><span>${line}</span></span>`)
+    .join('\n')}</code></pre></div>`;
+  document.body.appendChild(root);
+  return root;
+};
+
+const button = (root: HTMLElement, label: string): HTMLButtonElement =>
+  [...root.querySelectorAll('button')].find((candidate) => candidate.textContent === label)!;
+
+/** Wait for the run to start its worker; TypeScript loads the compiler first. */
+const startedWorker = async (): Promise<FakeWorker> => {
+  await vi.waitFor(() => expect(FakeWorker.instances).toHaveLength(1), { timeout: 15_000 });
+  return FakeWorker.instances[0]!;
+};
+
+beforeEach(() => {
+  FakeWorker.instances = [];
+  vi.stubGlobal('Worker', FakeWorker);
+});
+
+afterEach(() => {
+  document.body.innerHTML = '';
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('enhanceRunnableCode', () => {
+  test('runs transpiled TypeScript in the runner worker', async () => {
+    const root = createRoot('ts', ['const total: number = 1 + 2;', 'console.log(total);']);
+    const { destroy } = enhanceRunnableCode(root);
+
+    button(root, 'Run').click();
+    const worker = await startedWorker();
+
+    // Vite serves the source for the built file's name.
+    expect(worker.url).toMatch(/\/runnable-code-worker\.[jt]s$/);
+    expect(worker.posted).toEqual([
+      { code: expect.stringContaining('const total = 1 + 2;\nconsole.log(total);') },
+    ]);
+    destroy();
+    expect(worker.terminated).toBe(true);
+  });
+
+  test('lists console output and reports done once the worker says so', async () => {
+    const root = createRoot('js', ["console.log('hello');"]);
+    const { destroy } = enhanceRunnableCode(root);
+
+    button(root, 'Run').click();
+    const worker = await startedWorker();
+    worker.reply({ source: 'runnable-code', type: 'console', level: 'log', text: 'hello' });
+    worker.reply({
+      source: 'runnable-code',
+      type: 'console',
+      level: 'error',
+      text: 'Uncaught boom',
+    });
+
+    const status = root.querySelector('[role="status"]')!;
+    expect(status.textContent).toBe('Running…');
+    worker.reply({ source: 'runnable-code', type: 'done' });
+
+    const output = root.querySelector<HTMLElement>('[role="log"]')!;
+    expect(
+      [...output.children].map((line) => [line.getAttribute('data-level'), line.textContent]),
+    ).toEqual([
+      ['log', 'hello'],
+      ['error', 'Uncaught boom'],
+    ]);
+    expect(status.textContent).toBe('Done');
+    destroy();
+  });
+
+  test('terminates a worker that is still running at the timeout, and resets', async () => {
+    vi.useFakeTimers();
+    const root = createRoot('js', ['while (true) {}']);
+    const { destroy } = enhanceRunnableCode(root);
+
+    button(root, 'Run').click();
+    const worker = FakeWorker.instances[0]!;
+    await vi.advanceTimersByTimeAsync(runTimeoutMs - 1);
+    expect(worker.terminated).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+
+    const output = root.querySelector<HTMLElement>('[role="log"]')!;
+    expect(worker.terminated).toBe(true);
+    expect(output.textContent).toBe('Stopped after 5 seconds.');
+
+    button(root, 'Reset').click();
+    expect(output.hidden).toBe(true);
+    expect(output.childElementCount).toBe(0);
+    expect(button(root, 'Reset').disabled).toBe(true);
+    destroy();
+  });
+});
@@ -0,0 +1,129 @@
+// @vitest-environment jsdom
+import {
+  enhanceSidenotes,
+  layoutSidenotes,
+} from '@stevekinney/content-enhancements/enhance-sidenotes';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+// The markup mdsvex renders for `remark-footnotes` output.
+const markup = `
+  <section>
+    <p>First claim.<sup id="fnref-a"><a href="#fn-a" class="footnote-ref">1</a></sup>
+    Second claim.<sup id="fnref-b"><a href="#fn-b" class="footnote-ref">2</a></sup>
+    First again.<sup id="fnref-a"><a href="#fn-a" class="footnote-ref">1</a></sup></p>
+    <div class="footnotes">
+      <hr>
+      <ol>
+        <li id="fn-a">A <em>first</em> note.<a href="#fnref-a" class="footnote-backref">↩</a></li>
+        <li id="fn-b">A second note.<a href="#fnref-b" class="footnote-backref">↩</a></li>
+      </ol>
+    </div>
+  </section>`;
+
+/** Stub `matchMedia` so the wide-screen query reports `matches` until changed. */
+const mockViewport = (wide: boolean) => {
+  const listeners = new Set<() => void>();
+  const media = {
+    matches: wide,
+    addEventListener: (_type: string, listener: () => void) => listeners.add(listener),
+    removeEventListener: (_type: string, listener: () => void) => listeners.delete(listener),
+  };
+  vi.stubGlobal('matchMedia', () => media);
+
+  return {
+    resize(nextWide: boolean) {
+      media.matches = nextWide;
+      for (const listener of listeners) listener();
+    },
+  };
+};
+
+const createRoot = (): HTMLElement => {
+  const root = document.createElement('div');
+  root.innerHTML = markup;
+  document.body.appendChild(root);
+  return root;
+};
+
+describe('layoutSidenotes', () => {
+  test('keeps notes beside their references until they would overlap', () => {
+    expect(
+      layoutSidenotes(
+        [
+          { top: 0, height: 50 },
+          { top: 30, height: 20 },
+          { top: 200, height: 10 },
+        ],
+        10,
+      ),
+    ).toEqual([0, 60, 200]);
+  });
+});
+
+describe('enhanceSidenotes', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test('moves each note into the margin on wide screens and hides the list', () => {
+    mockViewport(true);
+    const root = createRoot();
+
+    const { destroy } = enhanceSidenotes(root);
+    const sidenotes = [...root.querySelectorAll<HTMLElement>('[data-sidenote]')];
+
+    expect(sidenotes.map((sidenote) => sidenote.textContent)).toEqual([
+      '1.A first note.',
+      '2.A second note.',
+    ]);
+    expect(sidenotes[0]!.getAttribute('role')).toBe('note');
+    expect(root.querySelector<HTMLElement>('.footnotes')!.hidden).toBe(true);
+    expect(root.classList.contains('pr-72')).toBe(true);
+
+    destroy();
+
+    expect(root.querySelector('[data-sidenote]')).toBeNull();
+    expect(root.querySelector<HTMLElement>('.footnotes')!.hidden).toBe(false);
+    expect(root.classList.contains('pr-72')).toBe(false);
+  });
+
+  test('keeps the bottom list on narrow screens and follows viewport changes', () => {
+    const viewport = mockViewport(false);
+    const root = createRoot();
+
+    const { destroy } = enhanceSidenotes(root);
+    expect(root.querySelector('[data-sidenote]')).toBeNull();
+    expect(root.querySelector<HTMLElement>('.footnotes')!.hidden).toBe(false);
+
+    viewport.resize(true);
+    expect(root.querySelectorAll('[data-sidenote]')).toHaveLength(2);
+
+    viewport.resize(false);
+    expect(root.querySelector('[data-sidenote]')).toBeNull();
+    destroy();
+  });
+
+  test('shows the note in a popover when a reference is tapped on a narrow screen', () => {
+    mockViewport(false);
+    const showPopover = vi.fn();
+    HTMLElement.prototype.showPopover = showPopover;
+    const root = createRoot();
+
+    const { destroy } = enhanceSidenotes(root);
+    const click = new MouseEvent('click', { bubbles: true, cancelable: true });
+    root.querySelectorAll('a.footnote-ref')[1]!.dispatchEvent(click);
+
+    const popover = root.querySelector<HTMLElement>('[popover]')!;
+    expect(click.defaultPrevented).toBe(true);
+    expect(showPopover).toHaveBeenCalledOnce();
+    expect(popover.textContent).toBe('A second note.');
+
+    destroy();
+    expect(root.querySelector('[popover]')).toBeNull();
+    delete (HTMLElement.prototype as Partial<HTMLElement>).showPopover;
+  });
+});
@@ -35,6 +35,24 @@ describe('collectLessonItems', () => {
     expect(collectLessonItems(undefined)).toEqual([]);
   });
 
+  test('walks nested sections in order and flags optional lessons', () => {
+    const nested: CourseContentsData = {
+      section: [
+        {
+          item: [{ title: 'Intro', href: 'intro.md' }],
+          section: [{ item: [{ title: 'Aside', href: 'aside.md', optional: true }] }],
+        },
+        { item: [{ title: 'Setup', href: 'setup.md' }] },
+      ],
+    };
+
+    expect(collectLessonItems(nested)).toEqual([
+      { title: 'Intro', slug: 'intro' },
+      { title: 'Aside', slug: 'aside', optional: true },
+      { title: 'Setup', slug: 'setup' },
+    ]);
+  });
+
   test('drops items with a missing href without throwing', () => {
     const malformed = {
       section: [{ item: [{ title: 'No href' }, { title: 'Real', href: 'real.md' }] }],
@@ -133,4 +151,31 @@ describe('getLessonNavigation', () => {
       slug: 'advanced',
     });
   });
+
+  test('steps over optional lessons, which still link back into the main path', () => {
+    const withOptional: CourseContentsData = {
+      section: [
+        {
+          item: [
+            { title: 'Intro', href: 'intro.md' },
+            { title: 'Aside', href: 'aside.md', optional: true },
+            { title: 'Setup', href: 'setup.md' },
+          ],
+        },
+      ],
+    };
+
+    expect(getLessonNavigation(withOptional, 'intro').next).toEqual({
+      title: 'Setup',
+      slug: 'setup',
+    });
+    expect(getLessonNavigation(withOptional, 'setup').previous).toEqual({
+      title: 'Intro',
+      slug: 'intro',
+    });
+    expect(getLessonNavigation(withOptional, 'aside')).toEqual({
+      previous: { title: 'Intro', slug: 'intro' },
+      next: { title: 'Setup', slug: 'setup' },
+    });
+  });
 });
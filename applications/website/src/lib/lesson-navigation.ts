@@ -1,9 +1,12 @@
 import type { CourseContentsData } from '@stevekinney/utilities/content-types';
+import { collectCourseItems } from '@stevekinney/utilities/course-contents';
 
 /** A single navigable lesson, identified by its slug and display title. */
 export type LessonNavigationItem = {
   title: string;
   slug: string;
+  /** Set when `index.toml` marks the item optional, so navigation can step over it. */
+  optional?: true;
 };
 
 /**
@@ -35,7 +38,8 @@ export type LessonNavigation = {
 };
 
 /**
- * Flattens a course's sections into an ordered list of internal lessons,
+ * Flattens a course's sections, nested sub-sections included, into an ordered
+ * list of internal lessons,
  * dropping items without an `href` and items that point at external URLs or
  * non-markdown targets. `href` is typed as a string in the content model, but
  * the underlying TOML is untyped, so guard defensively to match the validation
@@ -44,18 +48,23 @@ export type LessonNavigation = {
 export const collectLessonItems = (
   contents: CourseContentsData | undefined,
 ): LessonNavigationItem[] =>
-  (contents?.section ?? [])
-    .flatMap((section) => section.item ?? [])
+  collectCourseItems(contents)
     .filter(
       (item): item is typeof item & { href: string } =>
         typeof item.href === 'string' && !isExternalHref(item.href) && /\.md$/i.test(item.href),
     )
-    .map((item) => ({ title: item.title, slug: item.href.replace(/\.md$/i, '') }));
+    .map((item) => ({
+      title: item.title,
+      slug: item.href.replace(/\.md$/i, ''),
+      ...(item.optional === true ? { optional: true as const } : {}),
+    }));
 
 /**
  * Resolves the previous and next lessons relative to `currentSlug` within a
- * course. Returns `null` for either direction when the current lesson is at an
- * edge, is not found in the list, the list is empty, or the slug is undefined.
+ * course, skipping optional lessons so the main path stays unbroken. An
+ * optional lesson still links back into that path on either side. Returns
+ * `null` for either direction when the current lesson is at an edge, is not
+ * found in the list, the list is empty, or the slug is undefined.
  */
 export const getLessonNavigation = (
   contents: CourseContentsData | undefined,
@@ -69,7 +78,7 @@ export const getLessonNavigation = (
   }
 
   return {
-    previous: currentIndex > 0 ? lessons[currentIndex - 1] : null,
-    next: currentIndex < lessons.length - 1 ? lessons[currentIndex + 1] : null,
+    previous: lessons.slice(0, currentIndex).findLast((lesson) => !lesson.optional) ?? null,
+    next: lessons.slice(currentIndex + 1).find((lesson) => !lesson.optional) ?? null,
   };
 };
@@ -22,3 +22,8 @@ export function buildWritingPageHref(page: number): string {
   if (page <= 1) return '/writing';
   return `/writing/page/${page}`;
 }
+
+export function buildTagPageHref(tag: string, page: number): string {
+  if (page <= 1) return `/tags/${tag}`;
+  return `/tags/${tag}/page/${page}`;
+}
@@ -0,0 +1,33 @@
+import { describe, expect, test } from 'vitest';
+
+import {
+  describeCourseReadingTime,
+  formatReadingDuration,
+  formatReadingTime,
+} from './reading-time';
+
+describe('formatReadingTime', () => {
+  test('labels a post in whole minutes, never less than one', () => {
+    expect(formatReadingTime(6)).toBe('6 min read');
+    expect(formatReadingTime(0)).toBe('1 min read');
+  });
+});
+
+describe('formatReadingDuration', () => {
+  test('switches from minutes to rounded hours at an hour', () => {
+    expect(formatReadingDuration(45)).toBe('45 min');
+    expect(formatReadingDuration(60)).toBe('1h');
+    expect(formatReadingDuration(235)).toBe('4h');
+  });
+});
+
+describe('describeCourseReadingTime', () => {
+  test('summarizes the reading time across the listed lessons', () => {
+    expect(describeCourseReadingTime({ readingMinutes: 240, lessonCount: 62 })).toBe(
+      '~4h of reading across 62 lessons',
+    );
+    expect(describeCourseReadingTime({ readingMinutes: 8, lessonCount: 1 })).toBe(
+      '~8 min of reading across 1 lesson',
+    );
+  });
+});
@@ -0,0 +1,21 @@
+/** Label for a single post or lesson, e.g. "6 min read". */
+export const formatReadingTime = (readingMinutes: number): string =>
+  `${Math.max(1, readingMinutes)} min read`;
+
+/** Rough duration for a whole course: minutes under an hour, whole hours after that. */
+export const formatReadingDuration = (readingMinutes: number): string =>
+  readingMinutes < 60
+    ? `${Math.max(1, readingMinutes)} min`
+    : `${Math.round(readingMinutes / 60)}h`;
+
+/** Course summary, e.g. "~4h of reading across 62 lessons". */
+export const describeCourseReadingTime = ({
+  readingMinutes,
+  lessonCount,
+}: {
+  readingMinutes: number;
+  lessonCount: number;
+}): string =>
+  `~${formatReadingDuration(readingMinutes)} of reading across ${lessonCount} ${
+    lessonCount === 1 ? 'lesson' : 'lessons'
+  }`;
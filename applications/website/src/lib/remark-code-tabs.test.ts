@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import type { Code, Html, Root } from 'mdast';
+import remarkCodeTabs, { parseTabLabel } from '@stevekinney/markdown/remark-code-tabs';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const transform = (remarkCodeTabs as any)() as (tree: Root) => void;
+
+const code = (lang: string, meta: string | null, value = ''): Code => ({
+  type: 'code',
+  lang,
+  meta,
+  value,
+});
+
+const run = (tree: Root): Root => {
+  transform(tree);
+  return tree;
+};
+
+describe('remarkCodeTabs', () => {
+  it('reads the tab label next to other meta', () => {
+    expect(parseTabLabel('title="install.sh" tab="pnpm"')).toBe('pnpm');
+    expect(parseTabLabel('data-tab="pnpm"')).toBeUndefined();
+    expect(parseTabLabel(null)).toBeUndefined();
+  });
+
+  it('wraps consecutive tabbed fences in one tab list with a panel each', () => {
+    const tree = run({
+      type: 'root',
+      children: [
+        code('sh', 'tab="npm"', 'npm install'),
+        code('sh', 'tab="bun"', 'bun install'),
+        { type: 'paragraph', children: [{ type: 'text', value: 'Then:' }] },
+        code('sh', null, 'npm test'),
+      ],
+    });
+
+    expect(tree.children.map((child) => child.type)).toEqual([
+      'html',
+      'code',
+      'html',
+      'code',
+      'html',
+      'paragraph',
+      'code',
+    ]);
+
+    const markup = tree.children
+      .map((child) => (child.type === 'html' ? child.value : `[${child.type}]`))
+      .join('');
+    expect(markup).toContain('role="tablist"');
+    expect(markup).toMatch(
+      /<button[^>]*role="tab" id="code-tabs-1-tab-0" aria-controls="code-tabs-1-panel-0" aria-selected="true" tabindex="0"[^>]*data-code-tab="npm">npm<\/button>/,
+    );
+    expect(markup).toMatch(/aria-selected="false" tabindex="-1"[^>]*data-code-tab="bun">bun</);
+    expect(markup).toContain(
+      '<div role="tabpanel" id="code-tabs-1-panel-0" aria-labelledby="code-tabs-1-tab-0" data-code-tab="npm">[code]</div>',
+    );
+    expect(markup).toContain(
+      '<div role="tabpanel" id="code-tabs-1-panel-1" aria-labelledby="code-tabs-1-tab-1" data-code-tab="bun" hidden>[code]</div></div>',
+    );
+  });
+
+  it('numbers each group and escapes labels for Svelte', () => {
+    const tree = run({
+      type: 'root',
+      children: [
+        code('ts', 'tab="{TS}"'),
+        { type: 'thematicBreak' },
+        code('js', 'tab="JS"'),
+        code('ts', 'tab="TS"'),
+      ],
+    });
+    const markup = (tree.children.filter((child) => child.type === 'html') as Html[])
+      .map((child) => child.value)
+      .join('');
+
+    expect(markup).toContain('data-code-tab="&#123;TS&#125;">&#123;TS&#125;</button>');
+    expect(markup).toContain('id="code-tabs-2-tab-1"');
+    expect(markup).not.toContain('code-tabs-3');
+  });
+});
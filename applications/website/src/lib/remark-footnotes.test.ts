@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import type { LinkReference, Root } from 'mdast';
+import remarkFootnotes from '@stevekinney/markdown/remark-footnotes';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const transform = (remarkFootnotes as any)() as (tree: Root) => void;
+
+/** A `[^label]` the way mdsvex's remark reads it: a shortcut reference. */
+const reference = (label: string): LinkReference => ({
+  type: 'linkReference',
+  identifier: `^${label}`,
+  label: `^${label}`,
+  referenceType: 'shortcut',
+  children: [{ type: 'text', value: `^${label}` }],
+});
+
+describe('remarkFootnotes', () => {
+  it('rebuilds footnotes from the nodes mdsvex parses them into', () => {
+    // Some text.[^a] More.[^Word] Again.[^a]
+    //
+    // [^a]: A *first* note.
+    // [^b]: Unused.
+    // [^Word]: Single.
+    const tree: Root = {
+      type: 'root',
+      children: [
+        {
+          type: 'paragraph',
+          children: [
+            { type: 'text', value: 'Some text.' },
+            reference('a'),
+            { type: 'text', value: ' More.' },
+            reference('Word'),
+            { type: 'text', value: ' Again.' },
+            reference('a'),
+          ],
+        },
+        {
+          type: 'paragraph',
+          children: [
+            reference('a'),
+            { type: 'text', value: ': A ' },
+            { type: 'emphasis', children: [{ type: 'text', value: 'first' }] },
+            { type: 'text', value: ' note.\n' },
+            reference('b'),
+            { type: 'text', value: ': Unused.' },
+          ],
+        },
+        { type: 'definition', identifier: '^word', label: '^Word', url: 'Single.', title: null },
+      ],
+    };
+
+    transform(tree);
+
+    expect(tree.children[0]).toMatchObject({
+      children: [
+        { type: 'text' },
+        { type: 'footnoteReference', identifier: 'a', label: '1' },
+        { type: 'text' },
+        { type: 'footnoteReference', identifier: 'word', label: '2' },
+        { type: 'text' },
+        { type: 'footnoteReference', identifier: 'a', label: '1' },
+      ],
+    });
+    expect(tree.children.slice(1)).toEqual([
+      {
+        type: 'footnoteDefinition',
+        identifier: 'a',
+        label: 'a',
+        children: [
+          {
+            type: 'paragraph',
+            children: [
+              { type: 'text', value: 'A ' },
+              { type: 'emphasis', children: [{ type: 'text', value: 'first' }] },
+              { type: 'text', value: ' note.' },
+            ],
+          },
+        ],
+      },
+      {
+        type: 'footnoteDefinition',
+        identifier: 'b',
+        label: 'b',
+        children: [{ type: 'paragraph', children: [{ type: 'text', value: 'Unused.' }] }],
+      },
+      {
+        type: 'footnoteDefinition',
+        identifier: 'word',
+        label: 'Word',
+        children: [{ type: 'paragraph', children: [{ type: 'text', value: 'Single.' }] }],
+      },
+    ]);
+  });
+
+  it('leaves ordinary links and paragraphs alone', () => {
+    const tree: Root = {
+      type: 'root',
+      children: [
+        {
+          type: 'paragraph',
+          children: [
+            {
+              type: 'linkReference',
+              identifier: 'docs',
+              label: 'docs',
+              referenceType: 'shortcut',
+              children: [{ type: 'text', value: 'docs' }],
+            },
+            { type: 'text', value: ': see the docs.' },
+          ],
+        },
+      ],
+    };
+    const before = structuredClone(tree);
+
+    transform(tree);
+
+    expect(tree).toEqual(before);
+  });
+});
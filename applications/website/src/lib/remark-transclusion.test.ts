@@ -0,0 +1,108 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterAll, describe, expect, it } from 'vitest';
+import type { Root } from 'mdast';
+import remarkParse from 'remark-parse';
+import { unified } from 'unified';
+import { VFile } from 'vfile';
+import remarkTransclusion from '@stevekinney/markdown/remark-transclusion';
+
+const repositoryRoot = mkdtempSync(path.join(tmpdir(), 'remark-transclusion-'));
+const write = (sourcePath: string, content: string) => {
+  mkdirSync(path.dirname(path.join(repositoryRoot, sourcePath)), { recursive: true });
+  writeFileSync(path.join(repositoryRoot, sourcePath), content);
+};
+
+write(
+  'courses/shared/setup.md',
+  [
+    '---',
+    'title: Setup',
+    '---',
+    '',
+    '## Installing Dependencies',
+    '',
+    'Run `npm install`.',
+    '',
+    '![Terminal](./assets/terminal.png)',
+    '',
+    '### On Windows',
+    '',
+    'Use PowerShell.',
+    '',
+    '## Running Tests',
+    '',
+    'Run `npm test`.',
+  ].join('\n'),
+);
+write('courses/testing/loop.md', 'Before.\n\n![[loop]]');
+
+afterAll(() => rmSync(repositoryRoot, { recursive: true, force: true }));
+
+const routes = [
+  { path: '/courses/shared/setup', title: 'Setup', sourcePath: 'courses/shared/setup.md' },
+  { path: '/courses/testing/loop', title: 'Loop', sourcePath: 'courses/testing/loop.md' },
+];
+
+const processor = unified().use(remarkParse);
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const transform = (remarkTransclusion as any).call(processor, { routes, repositoryRoot }) as (
+  tree: Root,
+  file: VFile,
+) => void;
+
+/** Run the plugin on a lesson in `courses/testing` and return its top-level nodes. */
+const run = (markdown: string, sourcePath = 'courses/testing/mocks.md') => {
+  const tree = processor.parse(markdown) as Root;
+  transform(tree, new VFile({ path: path.join(repositoryRoot, sourcePath) }));
+  return tree.children;
+};
+
+describe('remarkTransclusion', () => {
+  it('replaces an embed with the section under the heading, including subsections', () => {
+    const children = run('Intro.\n\n![[setup#Installing Dependencies]]\n\nOutro.');
+
+    expect(children.map((node) => node.type)).toEqual([
+      'paragraph',
+      'paragraph',
+      'paragraph',
+      'heading',
+      'paragraph',
+      'paragraph',
+    ]);
+    expect(children[1]).toMatchObject({
+      children: [
+        { type: 'text', value: 'Run ' },
+        { type: 'inlineCode', value: 'npm install' },
+        { type: 'text', value: '.' },
+      ],
+    });
+    expect(children[3]).toMatchObject({ depth: 3, children: [{ value: 'On Windows' }] });
+  });
+
+  it('points relative images at the included note’s files', () => {
+    const [, image] = run('![[setup#Installing Dependencies]]');
+
+    expect(image).toMatchObject({
+      children: [{ type: 'image', url: '../shared/assets/terminal.png' }],
+    });
+  });
+
+  it('expands each line of an include block', () => {
+    const children = run('```include\nsetup#Running Tests\n```');
+
+    expect(children).toMatchObject([
+      { type: 'paragraph', children: [{ value: 'Run ' }, { value: 'npm test' }, { value: '.' }] },
+    ]);
+  });
+
+  it('leaves unresolved and cyclic transclusions in place', () => {
+    expect(run('![[ghost]]')).toMatchObject([
+      { type: 'paragraph', children: [{ type: 'text', value: '![[ghost]]' }] },
+    ]);
+    expect(run('![[loop]]', 'courses/testing/loop.md')).toMatchObject([
+      { type: 'paragraph', children: [{ type: 'text', value: '![[loop]]' }] },
+    ]);
+  });
+});
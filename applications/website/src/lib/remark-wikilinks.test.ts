@@ -0,0 +1,155 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterAll, describe, expect, it } from 'vitest';
+import type { Root } from 'mdast';
+import { fromMarkdown } from 'mdast-util-from-markdown';
+import { VFile } from 'vfile';
+import remarkWikilinks from '@stevekinney/markdown/remark-wikilinks';
+import { parseWikilinks } from '@stevekinney/utilities/wikilinks';
+
+const repositoryRoot = mkdtempSync(path.join(tmpdir(), 'remark-wikilinks-'));
+mkdirSync(path.join(repositoryRoot, 'writing', 'assets'), { recursive: true });
+writeFileSync(path.join(repositoryRoot, 'writing', 'assets', 'diagram.png'), '');
+writeFileSync(path.join(repositoryRoot, 'writing', 'photo.jpg'), '');
+
+afterAll(() => rmSync(repositoryRoot, { recursive: true, force: true }));
+
+const routes = [
+  { path: '/writing/post', title: 'A Post', sourcePath: 'writing/post.md' },
+  { path: '/courses/testing', title: 'Testing', sourcePath: 'courses/testing/README.md' },
+  { path: '/courses/testing/mocks', title: 'Mocks', sourcePath: 'courses/testing/mocks.md' },
+];
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const transform = (remarkWikilinks as any)({ routes, repositoryRoot }) as (
+  tree: Root,
+  file: VFile,
+) => void;
+
+/** Run the plugin on a one-paragraph document and return the paragraph's children. */
+const run = (markdown: string) => {
+  const tree = fromMarkdown(markdown) as Root;
+  transform(tree, new VFile({ path: path.join(repositoryRoot, 'writing', 'post.md') }));
+  const [paragraph] = tree.children;
+  return paragraph.type === 'paragraph' ? paragraph.children : [];
+};
+
+describe('parseWikilinks', () => {
+  it('splits targets, headings, and labels', () => {
+    expect(
+      parseWikilinks('[[Note]] [[Note.md#Setup#Install\\|the install]] ![[a.png|300]] [[#Top]]'),
+    ).toEqual([
+      { start: 0, end: 8, embed: false, target: 'Note' },
+      { start: 9, end: 47, embed: false, target: 'Note', heading: 'Install', label: 'the install' },
+      { start: 48, end: 62, embed: true, target: 'a.png', label: '300' },
+      { start: 63, end: 71, embed: false, target: '', heading: 'Top' },
+    ]);
+  });
+
+  it('drops block references, which have no anchor on the site', () => {
+    expect(parseWikilinks('[[Note#^a1b2c3]]')).toEqual([
+      { start: 0, end: 16, embed: false, target: 'Note' },
+    ]);
+  });
+});
+
+describe('remarkWikilinks', () => {
+  it('links notes by file name, using the route title as the default label', () => {
+    expect(run('Read [[mocks]] and [[testing]].')).toEqual([
+      { type: 'text', value: 'Read ' },
+      {
+        type: 'link',
+        url: '/courses/testing/mocks',
+        children: [{ type: 'text', value: 'Mocks' }],
+      },
+      { type: 'text', value: ' and ' },
+      { type: 'link', url: '/courses/testing', children: [{ type: 'text', value: 'Testing' }] },
+      { type: 'text', value: '.' },
+    ]);
+  });
+
+  it('turns headings into rehype-slug anchors', () => {
+    expect(run('[[Mocks#Spying on Methods|spies]] [[#Further Reading]]')).toMatchObject([
+      {
+        type: 'link',
+        url: '/courses/testing/mocks#spying-on-methods',
+        children: [{ value: 'spies' }],
+      },
+      { type: 'text', value: ' ' },
+      { type: 'link', url: '#further-reading', children: [{ value: 'Further Reading' }] },
+    ]);
+  });
+
+  it('leaves unresolved links as plain text', () => {
+    expect(run('See [[ghost|the ghost]].')).toEqual([
+      { type: 'text', value: 'See ' },
+      { type: 'text', value: 'the ghost' },
+      { type: 'text', value: '.' },
+    ]);
+  });
+
+  it('embeds images from the attachments folder or next to the note', () => {
+    expect(run('![[diagram.png|300]] ![[photo.jpg|A photo]]')).toEqual([
+      {
+        type: 'image',
+        url: './assets/diagram.png',
+        alt: 'diagram',
+        data: { hProperties: { width: '300' } },
+      },
+      { type: 'text', value: ' ' },
+      { type: 'image', url: './photo.jpg', alt: 'A photo' },
+    ]);
+  });
+
+  it('reads wikilinks that an older remark parsed as shortcut references', () => {
+    // mdsvex's bundled remark turns `[[mocks]]` into `[`, a reference to `mocks`, and `]`.
+    const tree: Root = {
+      type: 'root',
+      children: [
+        {
+          type: 'paragraph',
+          children: [
+            { type: 'text', value: 'See [' },
+            {
+              type: 'linkReference',
+              identifier: 'mocks',
+              label: 'mocks',
+              referenceType: 'shortcut',
+              children: [{ type: 'text', value: 'mocks' }],
+            },
+            { type: 'text', value: '] and ![' },
+            {
+              type: 'linkReference',
+              identifier: 'diagram.png|300',
+              label: 'diagram.png|300',
+              referenceType: 'shortcut',
+              children: [{ type: 'text', value: 'diagram.png|300' }],
+            },
+            { type: 'text', value: '].' },
+          ],
+        },
+      ],
+    };
+    transform(tree, new VFile({ path: path.join(repositoryRoot, 'writing', 'post.md') }));
+
+    expect(tree.children[0]).toMatchObject({
+      children: [
+        { type: 'text', value: 'See ' },
+        { type: 'link', url: '/courses/testing/mocks' },
+        { type: 'text', value: ' and ' },
+        { type: 'image', url: './assets/diagram.png' },
+        { type: 'text', value: '.' },
+      ],
+    });
+  });
+
+  it('ignores wikilink syntax inside code', () => {
+    const tree = fromMarkdown('`[[rules]]`') as Root;
+    transform(tree, new VFile({ path: path.join(repositoryRoot, 'writing', 'post.md') }));
+
+    expect(tree.children[0]).toMatchObject({
+      children: [{ type: 'inlineCode', value: '[[rules]]' }],
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  querySearchIndex,
+  searchIndexVersion,
+  type SearchIndex,
+  type SearchIndexSection,
+} from '@stevekinney/utilities/search-index';
+
+/** A section short enough to show whole. */
+const section = (
+  document: number,
+  anchor: string | null,
+  heading: string | null,
+  text: string,
+): SearchIndexSection => [document, anchor, heading, text, text];
+
+const index: SearchIndex = {
+  version: searchIndexVersion,
+  documents: [
+    ['/writing/hooks', 'React Hooks', 'Managing state in components.', 'writing'],
+    ['/courses/testing/mocks', 'Mocks', 'Replacing dependencies.', 'lesson', 'Testing'],
+  ],
+  sections: [
+    section(0, null, null, 'Hooks let function components hold state.'),
+    section(
+      0,
+      'use-effect',
+      'useEffect',
+      'Effects synchronize a component with an external system.',
+    ),
+    section(1, null, null, 'A mock stands in for a real dependency, like a React context.'),
+    section(1, 'spying', 'Spying on calls', 'Spies record how a function was called.'),
+  ],
+};
+
+describe('querySearchIndex', () => {
+  it('deep-links to the matching section and ranks title matches first', () => {
+    const results = querySearchIndex(index, 'react');
+
+    expect(results.map((result) => result.href)).toEqual([
+      '/writing/hooks',
+      '/writing/hooks#use-effect',
+      '/courses/testing/mocks',
+    ]);
+    expect(results[2]).toMatchObject({ title: 'Mocks', courseTitle: 'Testing' });
+    expect(querySearchIndex(index, 'spies')[0]).toMatchObject({
+      href: '/courses/testing/mocks#spying',
+      heading: 'Spying on calls',
+    });
+  });
+
+  it('requires every term to match somewhere in the section', () => {
+    expect(querySearchIndex(index, 'effects external').map((result) => result.href)).toEqual([
+      '/writing/hooks#use-effect',
+    ]);
+    expect(querySearchIndex(index, 'effects sourdough')).toEqual([]);
+    expect(querySearchIndex(index, '   ')).toEqual([]);
+  });
+
+  it('trims the excerpt around the first match', () => {
+    const [result] = querySearchIndex(
+      {
+        ...index,
+        sections: [section(0, null, null, `${'lorem '.repeat(40)}needle ${'ipsum '.repeat(40)}`)],
+      },
+      'needle',
+    );
+
+    expect(result.excerpt.startsWith('…')).toBe(true);
+    expect(result.excerpt.endsWith('…')).toBe(true);
+    expect(result.excerpt).toContain('needle');
+  });
+
+  it('matches text past the excerpt and shows the excerpt', () => {
+    const [result] = querySearchIndex(
+      {
+        ...index,
+        sections: [[0, null, null, 'Setup steps. Later: configure the needle.', 'Setup steps.']],
+      },
+      'needle',
+    );
+
+    expect(result).toMatchObject({ href: '/writing/hooks', excerpt: 'Setup steps.' });
+  });
+});
@@ -0,0 +1,41 @@
+import type { WritingSeriesEntry } from '@stevekinney/utilities/content-types';
+import { describe, expect, test } from 'vitest';
+
+import { getSeriesNavigation } from './series-navigation';
+
+const createPart = (slug: string, order: number) => ({
+  slug,
+  title: `Part ${order}`,
+  description: 'Example.',
+  date: '2025-01-01',
+  path: `/writing/${slug}`,
+  order,
+});
+
+const series: WritingSeriesEntry = {
+  slug: 'agent-internals',
+  title: 'Agent Internals',
+  path: '/writing/series/agent-internals',
+  posts: [createPart('first', 1), createPart('second', 2), createPart('third', 3)],
+};
+
+describe('getSeriesNavigation', () => {
+  test('returns the neighbouring parts and the position in the series', () => {
+    expect(getSeriesNavigation(series, 'second')).toEqual({
+      position: 2,
+      total: 3,
+      previous: series.posts[0],
+      next: series.posts[2],
+    });
+  });
+
+  test('returns null at the edges of the series', () => {
+    expect(getSeriesNavigation(series, 'first')?.previous).toBeNull();
+    expect(getSeriesNavigation(series, 'third')?.next).toBeNull();
+  });
+
+  test('returns null when the post is not part of the series', () => {
+    expect(getSeriesNavigation(series, 'unrelated')).toBeNull();
+    expect(getSeriesNavigation(null, 'first')).toBeNull();
+  });
+});
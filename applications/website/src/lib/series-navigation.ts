@@ -0,0 +1,37 @@
+import type { WritingSeriesEntry, WritingSeriesPart } from '@stevekinney/utilities/content-types';
+
+/** Where a post sits in its series, with its neighbours on either side. */
+export type SeriesNavigation = {
+  position: number;
+  total: number;
+  previous: WritingSeriesPart | null;
+  next: WritingSeriesPart | null;
+};
+
+/**
+ * Resolves the previous and next parts relative to `currentSlug`, mirroring
+ * `getLessonNavigation`. Returns `null` when there is no series or the post is
+ * not one of its parts.
+ */
+export const getSeriesNavigation = (
+  series: WritingSeriesEntry | null | undefined,
+  currentSlug: string | undefined,
+): SeriesNavigation | null => {
+  const posts = series?.posts ?? [];
+  const currentIndex = posts.findIndex((post) => post.slug === currentSlug);
+
+  if (currentIndex === -1) {
+    return null;
+  }
+
+  return {
+    position: currentIndex + 1,
+    total: posts.length,
+    previous: currentIndex > 0 ? posts[currentIndex - 1] : null,
+    next: currentIndex < posts.length - 1 ? posts[currentIndex + 1] : null,
+  };
+};
+
+/** Description used for a series landing page and its Open Graph image. */
+export const describeSeries = (series: WritingSeriesEntry): string =>
+  `A ${series.posts.length}-part series, starting with “${series.posts[0]?.title}”.`;
@@ -2,12 +2,17 @@ import { afterEach, describe, expect, it, vi } from 'vitest';
 
 import {
   findCourseForLessonSlug,
+  getBacklinks,
   getCourseRoute,
   getLessonRoute,
   getPostIndex,
   getPrerenderEntries,
   getProjectIndex,
   getProjectRoute,
+  getRedirect,
+  getSeriesEntry,
+  getTagEntry,
+  getTaggedRoutes,
   getWritingRoute,
 } from './content';
 
@@ -81,6 +86,60 @@ describe('generated content lookups', () => {
     expect(first.name.localeCompare(second.name)).toBeLessThanOrEqual(0);
   });
 
+  it('resolves tagged posts and lessons newest first', () => {
+    const tag = getTagEntry('react');
+    const routes = getTaggedRoutes('react');
+
+    expect(tag).toMatchObject({ tag: 'react', title: 'React', path: '/tags/react' });
+    expect(routes).toHaveLength(tag!.postCount + tag!.lessonCount);
+    expect(routes.every((route) => route.tags.includes('react'))).toBe(true);
+    expect(new Date(routes[0].date).getTime()).toBeGreaterThanOrEqual(
+      new Date(routes[1].date).getTime(),
+    );
+    expect(getTagEntry('does-not-exist')).toBeNull();
+  });
+
+  it('resolves series parts in order', () => {
+    const series = getSeriesEntry('how-ai-agents-work');
+
+    expect(series).toMatchObject({
+      title: 'How AI Agents Work',
+      path: '/writing/series/how-ai-agents-work',
+    });
+    expect(series!.posts.map((post) => post.order)).toEqual([1, 2, 3]);
+    expect(getWritingRoute('agent-loops')?.series).toEqual({
+      slug: 'how-ai-agents-work',
+      title: 'How AI Agents Work',
+      order: 2,
+    });
+    expect(getSeriesEntry('does-not-exist')).toBeNull();
+  });
+
+  it('resolves backlinks to the routes that link to a page', () => {
+    expect(getBacklinks('/courses/testing/the-basics')).toContainEqual({
+      path: '/courses/testing/mocking-dom-methods',
+      title: getLessonRoute('testing', 'mocking-dom-methods')?.title,
+      contentType: 'lesson',
+      courseTitle: getLessonRoute('testing', 'mocking-dom-methods')?.courseTitle,
+    });
+    expect(getBacklinks('/writing/does-not-exist')).toEqual([]);
+  });
+
+  it('pairs exercise lessons with their solutions in both directions', () => {
+    expect(getLessonRoute('testing', 'asymmetric-matchers-exercise')?.solution).toMatchObject({
+      path: '/courses/testing/asymmetric-matchers-solution',
+    });
+    expect(getLessonRoute('testing', 'vitest-hooks-solution')?.exercise).toMatchObject({
+      path: '/courses/testing/vitests-hooks-exercise',
+    });
+  });
+
+  it('serves site redirects from the generated redirect table', () => {
+    expect(getRedirect('/rss')).toBe('/writing/rss');
+    expect(getRedirect('/feed/')).toBe('/writing/rss');
+    expect(getRedirect('/writing/setup-python')).toBeNull();
+  });
+
   it('includes canonical and legacy prerender entries for content detail routes', () => {
     const entries = getPrerenderEntries();
 
@@ -95,6 +154,8 @@ describe('generated content lookups', () => {
     expect(entries.lessons).toContainEqual({ course: 'testing', lesson: 'the-basics.md' });
 
     expect(entries.projects).toContainEqual({ project: 'weft' });
+    expect(entries.tags).toContainEqual({ tag: 'react' });
+    expect(entries.series).toContainEqual({ series: 'codex-in-claude-code' });
   });
 
   it('omits legacy markdown prerender entries during Vercel builds', () => {
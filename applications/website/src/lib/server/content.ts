@@ -1,6 +1,7 @@
 import generatedContent from '../../../.generated/content-data.json';
 
 import type {
+  BacklinkReference,
   ContentRoute,
   CourseContentRoute,
   CourseIndexEntry,
@@ -8,8 +9,10 @@ import type {
   LessonContentRoute,
   ProjectContentRoute,
   ProjectIndexEntry,
+  TagIndexEntry,
   WritingContentRoute,
   WritingIndexEntry,
+  WritingSeriesEntry,
 } from '@stevekinney/utilities/content-types';
 import { normalizeRoutePath } from '@stevekinney/utilities/routes';
 
@@ -18,6 +21,8 @@ const content = generatedContent as GeneratedContent;
 const writingIndexBySlug = new Map(content.writing.map((entry) => [entry.slug, entry]));
 const courseIndexBySlug = new Map(content.courses.map((entry) => [entry.slug, entry]));
 const projectIndexBySlug = new Map(content.projects.map((entry) => [entry.slug, entry]));
+const tagIndexByTag = new Map(content.tags.map((entry) => [entry.tag, entry]));
+const seriesIndexBySlug = new Map(content.series.map((entry) => [entry.slug, entry]));
 
 const lessonSlugCourseMap = content.lessons.reduce<Map<string, string | null>>((map, lesson) => {
   const existing = map.get(lesson.slug);
@@ -40,6 +45,8 @@ export const getCourseIndex = (): CourseIndexEntry[] => content.siteIndex.course
 
 export const getProjectIndex = (): ProjectIndexEntry[] => content.siteIndex.projects;
 
+export const getTagIndex = (): TagIndexEntry[] => content.tags;
+
 export const getRouteByPath = (pathname: string): ContentRoute | null =>
   content.routes[normalizeRoutePath(pathname)] ?? null;
 
@@ -52,6 +59,36 @@ export const getCourseEntry = (slug: string): CourseIndexEntry | null =>
 export const getProjectEntry = (slug: string): ProjectIndexEntry | null =>
   projectIndexBySlug.get(slug) ?? null;
 
+export const getTagEntry = (tag: string): TagIndexEntry | null => tagIndexByTag.get(tag) ?? null;
+
+/** Posts and lessons carrying a tag, newest first. */
+export const getTaggedRoutes = (tag: string): Array<WritingContentRoute | LessonContentRoute> =>
+  (getTagEntry(tag)?.routes ?? [])
+    .map((routePath) => getRouteByPath(routePath))
+    .filter(
+      (route): route is WritingContentRoute | LessonContentRoute =>
+        route?.contentType === 'writing' || route?.contentType === 'lesson',
+    );
+
+/** Routes linking to `pathname`, in path order, ready for a "Referenced from" block. */
+export const getBacklinks = (pathname: string): BacklinkReference[] =>
+  (content.backlinks[normalizeRoutePath(pathname)] ?? [])
+    .map((routePath) => getRouteByPath(routePath))
+    .filter((route): route is ContentRoute => route !== null)
+    .map((route) => ({
+      path: route.path,
+      title: route.title,
+      contentType: route.contentType,
+      ...(route.contentType === 'lesson' ? { courseTitle: route.courseTitle } : {}),
+    }));
+
+/** Where an old path now lives, from the site redirects and `redirectFrom` frontmatter. */
+export const getRedirect = (pathname: string): string | null =>
+  content.redirects[normalizeRoutePath(pathname)] ?? null;
+
+export const getSeriesEntry = (slug: string): WritingSeriesEntry | null =>
+  seriesIndexBySlug.get(slug) ?? null;
+
 export const getWritingRoute = (slug: string): WritingContentRoute | null => {
   const route = getRouteByPath(`/writing/${slug}`);
   return route?.contentType === 'writing' ? route : null;
@@ -92,6 +129,8 @@ export const getPrerenderEntries = () => ({
   courses: filterLegacyMarkdownEntries(content.prerenderEntries.courses),
   lessons: filterLegacyMarkdownEntries(content.prerenderEntries.lessons),
   projects: content.prerenderEntries.projects,
+  tags: content.prerenderEntries.tags,
+  series: content.prerenderEntries.series,
 });
 
 export const findCourseForLessonSlug = (lessonSlug: string): string | null =>
@@ -19,6 +19,12 @@ describe('resolveOpenGraphMetadata', () => {
     await expect(resolveOpenGraphMetadata('/projects')).resolves.toMatchObject({
       title: 'Projects',
     });
+    await expect(resolveOpenGraphMetadata('/tags')).resolves.toMatchObject({
+      title: 'Tags',
+    });
+    await expect(resolveOpenGraphMetadata('/search')).resolves.toMatchObject({
+      title: 'Search',
+    });
     await expect(resolveOpenGraphMetadata('/dashboard')).resolves.toMatchObject({
       title: 'Dashboard',
     });
@@ -52,6 +58,27 @@ describe('resolveOpenGraphMetadata', () => {
     });
   });
 
+  it('uses generated metadata for tag routes', async () => {
+    await expect(resolveOpenGraphMetadata('/tags/react')).resolves.toMatchObject({
+      title: 'React',
+    });
+    await expect(resolveOpenGraphMetadata('/tags/react/page/2')).resolves.toMatchObject({
+      title: 'React',
+    });
+    await expect(resolveOpenGraphMetadata('/tags/does-not-exist')).resolves.toBeNull();
+    await expect(resolveOpenGraphMetadata('/tags/react/extra')).resolves.toBeNull();
+  });
+
+  it('uses generated metadata for series routes', async () => {
+    await expect(
+      resolveOpenGraphMetadata('/writing/series/how-ai-agents-work'),
+    ).resolves.toMatchObject({
+      title: 'How AI Agents Work',
+      description: expect.stringContaining('3-part series'),
+    });
+    await expect(resolveOpenGraphMetadata('/writing/series/does-not-exist')).resolves.toBeNull();
+  });
+
   it('normalizes trailing slashes and rejects malformed nested paths', async () => {
     await expect(resolveOpenGraphMetadata('/courses/testing/')).resolves.toMatchObject({
       title: 'Introduction to Testing',
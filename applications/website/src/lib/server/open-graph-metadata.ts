@@ -4,8 +4,12 @@ import {
   getCourseEntry,
   getProjectEntry,
   getRouteByPath,
+  getSeriesEntry,
+  getTagEntry,
   getWritingEntry,
 } from '$lib/server/content';
+import { describeSeries } from '$lib/series-navigation';
+import { describeTag } from '$lib/server/tag-pages';
 
 import type { OpenGraphOptions } from './open-graph';
 
@@ -31,6 +35,16 @@ const PROJECTS_INDEX: StaticRoute = {
     'A collection of tools, experiments, and open source projects that I maintain or keep nearby.',
 };
 
+const TAGS_INDEX: StaticRoute = {
+  title: 'Tags',
+  description: 'Every topic I have written or taught about, with the posts and lessons for each.',
+};
+
+const SEARCH_INDEX: StaticRoute = {
+  title: 'Search',
+  description: 'Search every post, course lesson, and project on the site.',
+};
+
 const DASHBOARD_INDEX: StaticRoute = {
   title: 'Dashboard',
   description:
@@ -42,6 +56,8 @@ const STATIC_ROUTES = new Map<string, StaticRoute>([
   ['/writing', WRITING_INDEX],
   ['/courses', COURSES_INDEX],
   ['/projects', PROJECTS_INDEX],
+  ['/tags', TAGS_INDEX],
+  ['/search', SEARCH_INDEX],
   ['/dashboard', DASHBOARD_INDEX],
 ]);
 
@@ -62,12 +78,23 @@ const getStaticMetadata = (pathname: string): OpenGraphOptions | null => {
   };
 };
 
+const resolveSeriesMetadata = (slug: string): OpenGraphOptions | null => {
+  const series = getSeriesEntry(slug);
+  if (!series) return null;
+
+  return {
+    title: series.title,
+    description: describeSeries(series),
+  };
+};
+
 const resolveWritingMetadata = (pathname: string): OpenGraphOptions | null => {
   if (!pathname.startsWith('/writing/')) return null;
 
   const slug = safeDecode(pathname.replace('/writing/', ''));
   if (!slug) return null;
   if (slug.startsWith('page/')) return WRITING_INDEX;
+  if (slug.startsWith('series/')) return resolveSeriesMetadata(slug.replace('series/', ''));
   if (slug.includes('/')) return null;
 
   const post = getWritingEntry(slug);
@@ -126,6 +153,22 @@ const resolveProjectMetadata = (pathname: string): OpenGraphOptions | null => {
   };
 };
 
+const resolveTagMetadata = (pathname: string): OpenGraphOptions | null => {
+  if (!pathname.startsWith('/tags/')) return null;
+
+  const [tagId, ...rest] = safeDecode(pathname.replace('/tags/', '')).split('/').filter(Boolean);
+  if (!tagId) return null;
+  if (rest.length > 0 && (rest[0] !== 'page' || rest.length !== 2)) return null;
+
+  const tag = getTagEntry(tagId);
+  if (!tag) return null;
+
+  return {
+    title: tag.title,
+    description: describeTag(tag.title, tag.description),
+  };
+};
+
 export const resolveOpenGraphMetadata = async (
   pathname: string,
 ): Promise<OpenGraphOptions | null> => {
@@ -143,6 +186,9 @@ export const resolveOpenGraphMetadata = async (
   const projectMetadata = resolveProjectMetadata(normalized);
   if (projectMetadata) return projectMetadata;
 
+  const tagMetadata = resolveTagMetadata(normalized);
+  if (tagMetadata) return tagMetadata;
+
   return null;
 };
 
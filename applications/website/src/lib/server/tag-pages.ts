@@ -0,0 +1,39 @@
+import { error } from '@sveltejs/kit';
+
+import { paginate, POSTS_PER_PAGE } from '$lib/pagination';
+import { getTagEntry, getTaggedRoutes, getTagIndex } from '$lib/server/content';
+
+export const describeTag = (title: string, description?: string): string =>
+  description ?? `Writing and course lessons about ${title}.`;
+
+/** Shared loader for the first and subsequent pages of a tag listing. */
+export const loadTagPage = (tag: string, page: number) => {
+  const entry = getTagEntry(tag);
+  if (!entry) {
+    error(404, 'Tag not found');
+  }
+
+  const { items: routes, currentPage, totalPages } = paginate(getTaggedRoutes(tag), page);
+  if (page > totalPages) {
+    error(404, 'Page not found');
+  }
+
+  return {
+    title: page > 1 ? `${entry.title} — Page ${page}` : entry.title,
+    description: describeTag(entry.title, entry.description),
+    tag: entry,
+    routes,
+    currentPage,
+    totalPages,
+  };
+};
+
+/** Prerender entries for every page after the first of every tag listing. */
+export const getTagPageEntries = () =>
+  getTagIndex().flatMap((entry) => {
+    const totalPages = Math.ceil((entry.postCount + entry.lessonCount) / POSTS_PER_PAGE);
+    return Array.from({ length: Math.max(0, totalPages - 1) }, (_, index) => ({
+      tag: entry.tag,
+      page: String(index + 2),
+    }));
+  });
@@ -1,5 +1,6 @@
 import { error } from '@sveltejs/kit';
 
+import { formatCourseOutline } from '$lib/course-outline';
 import { url } from '$lib/metadata';
 import {
   getCourseEntry,
@@ -55,6 +56,7 @@ const resolveCourse = async (courseSlug: string): Promise<string | null> => {
 
   try {
     const body = await loadRawCourseReadme(courseSlug);
+    const outline = formatCourseOutline(course.contents, `${url}/courses/${courseSlug}`);
 
     return [
       `# ${course.title}`,
@@ -65,6 +67,7 @@ const resolveCourse = async (courseSlug: string): Promise<string | null> => {
       '---',
       '',
       body,
+      ...(outline ? ['', outline] : []),
     ].join('\n');
   } catch {
     return null;
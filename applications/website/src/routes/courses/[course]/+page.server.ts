@@ -21,6 +21,9 @@ export const load: PageServerLoad = async ({ params }) => {
     description: course.description,
     date: course.date,
     modified: course.modified,
+    publication: course.publication,
+    readingMinutes: course.readingMinutes,
+    lessonCount: course.lessonCount,
     sourcePath: course.sourcePath as RepositoryPath,
     contentHtml: await renderCourseDocument(course.sourcePath),
   };
@@ -1,7 +1,12 @@
 import { error, redirect } from '@sveltejs/kit';
 
 import type { RepositoryPath } from '$lib/repository-path';
-import { getCourseEntry, getLessonRoute, getPrerenderEntries } from '$lib/server/content';
+import {
+  getBacklinks,
+  getCourseEntry,
+  getLessonRoute,
+  getPrerenderEntries,
+} from '$lib/server/content';
 import { renderLessonDocument } from '$lib/server/content-documents';
 
 import type { PageServerLoad } from './$types';
@@ -30,6 +35,13 @@ export const load: PageServerLoad = async ({ params }) => {
     description: lesson.description,
     date: lesson.date,
     modified: lesson.modified,
+    tags: lesson.tags,
+    readingMinutes: lesson.readingMinutes,
+    publication: lesson.publication,
+    related: lesson.related ?? [],
+    backlinks: getBacklinks(lesson.path),
+    solution: lesson.solution,
+    exercise: lesson.exercise,
     sourcePath: lesson.sourcePath as RepositoryPath,
     contentHtml: await renderLessonDocument(lesson.sourcePath),
   };
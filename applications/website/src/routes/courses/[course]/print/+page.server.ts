@@ -0,0 +1,79 @@
+import { error } from '@sveltejs/kit';
+
+import {
+  buildCoursePrintOutline,
+  coursePrintChapterId,
+  rewriteCoursePrintHtml,
+  type CoursePrintChapter,
+} from '$lib/course-print';
+import { collectLessonItems } from '$lib/lesson-navigation';
+import {
+  getCourseEntry,
+  getCourseRoute,
+  getLessonRoute,
+  getPrerenderEntries,
+} from '$lib/server/content';
+import { renderCourseDocument, renderLessonDocument } from '$lib/server/content-documents';
+
+import type { PageServerLoad } from './$types';
+
+export const prerender = true;
+export const csr = false;
+
+export const load: PageServerLoad = async ({ params }) => {
+  const course = getCourseRoute(params.course);
+  const entry = getCourseEntry(params.course);
+  if (!course || !entry) {
+    throw error(404, 'Course not found');
+  }
+
+  // Lessons appear once, in `index.toml` order, with unlisted lessons after the outline.
+  const lessonSlugs = [
+    ...new Set([
+      ...collectLessonItems(entry.contents).map(({ slug }) => slug),
+      ...(entry.contents?.metadata?.unlisted ?? []).map((href) => href.replace(/\.md$/i, '')),
+    ]),
+  ];
+  const lessons = lessonSlugs.flatMap((slug) => getLessonRoute(entry.slug, slug) ?? []);
+
+  const chapterIds = new Map([
+    [course.path, coursePrintChapterId()],
+    ...lessons.map((lesson) => [lesson.path, coursePrintChapterId(lesson.lessonSlug)] as const),
+  ]);
+
+  const chapters: CoursePrintChapter[] = [
+    {
+      id: coursePrintChapterId(),
+      title: 'Introduction',
+      path: course.path,
+      html: rewriteCoursePrintHtml(
+        await renderCourseDocument(course.sourcePath),
+        coursePrintChapterId(),
+        chapterIds,
+      ),
+    },
+  ];
+
+  for (const lesson of lessons) {
+    const id = coursePrintChapterId(lesson.lessonSlug);
+    chapters.push({
+      id,
+      title: lesson.title,
+      path: lesson.path,
+      html: rewriteCoursePrintHtml(await renderLessonDocument(lesson.sourcePath), id, chapterIds),
+    });
+  }
+
+  return {
+    title: course.title,
+    description: course.description,
+    modified: course.modified,
+    outline: buildCoursePrintOutline(entry.contents, chapters),
+    chapters,
+  };
+};
+
+// Redirected course slugs are prerendered as courses too; only live courses get a print edition.
+export function entries() {
+  return getPrerenderEntries().courses.filter(({ course }) => getCourseEntry(course));
+}
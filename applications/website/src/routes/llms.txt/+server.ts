@@ -1,4 +1,5 @@
 import { url } from '$lib/metadata';
+import { describeCourseReadingTime, formatReadingTime } from '$lib/reading-time';
 import { getCourseIndex, getPostIndex, getProjectIndex } from '$lib/server/content';
 
 export const prerender = true;
@@ -19,14 +20,14 @@ export function GET() {
     '',
     ...posts.map(
       (post) =>
-        `- [${post.title}](${url}/writing/${post.slug}): ${post.description} ([llms.txt](${url}/writing/${post.slug}/llms.txt))`,
+        `- [${post.title}](${url}/writing/${post.slug}): ${post.description} (${formatReadingTime(post.readingMinutes)}) ([llms.txt](${url}/writing/${post.slug}/llms.txt))`,
     ),
     '',
     '## Course Walkthroughs',
     '',
     ...courses.map(
       (course) =>
-        `- [${course.title}](${url}/courses/${course.slug}): ${course.description} ([llms.txt](${url}/courses/${course.slug}/llms.txt))`,
+        `- [${course.title}](${url}/courses/${course.slug}): ${course.description} (${describeCourseReadingTime(course)}) ([llms.txt](${url}/courses/${course.slug}/llms.txt))`,
     ),
     '',
     '## Projects',
@@ -1,7 +1,7 @@
 import { error } from '@sveltejs/kit';
 
 import type { RepositoryPath } from '$lib/repository-path';
-import { getPrerenderEntries, getProjectRoute } from '$lib/server/content';
+import { getBacklinks, getPrerenderEntries, getProjectRoute } from '$lib/server/content';
 import { renderProjectDocument } from '$lib/server/content-documents';
 
 import type { PageServerLoad } from './$types';
@@ -42,7 +42,10 @@ export const load: PageServerLoad = async ({ params }) => {
       writingPath: route.writingPath,
       youtubeUrl: route.youtubeUrl,
       youtubeEmbedUrl: getYouTubeEmbedUrl(route.youtubeUrl),
+      publication: route.publication,
     },
+    related: route.related ?? [],
+    backlinks: getBacklinks(route.path),
     sourcePath: route.sourcePath as RepositoryPath,
     contentHtml: await renderProjectDocument(route.sourcePath),
   };
@@ -0,0 +1,14 @@
+import type { PageServerLoad } from './$types';
+
+export const prerender = true;
+
+/**
+ * The search page is a static shell: the index is fetched and queried in the
+ * browser, so it works on the static adapter with no server behind it.
+ */
+export const load: PageServerLoad = async () => {
+  return {
+    title: 'Search',
+    description: 'Search every post, course lesson, and project on the site.',
+  };
+};
@@ -1,7 +1,7 @@
 import { stat } from 'node:fs/promises';
 import path from 'node:path';
 
-import { getGeneratedContent } from '$lib/server/content';
+import { getGeneratedContent, getTaggedRoutes } from '$lib/server/content';
 import metadata from '$lib/metadata';
 import type { Element } from 'hast';
 import { toHtml } from 'hast-util-to-html';
@@ -107,6 +107,33 @@ export const GET = async () => {
     );
   }
 
+  for (const tag of getGeneratedContent().tags) {
+    const url = `${metadata.url}${tag.path}`;
+    if (checked.has(url)) continue;
+    checked.add(url);
+
+    const lastModified = getTaggedRoutes(tag.tag).reduce<Date | null>((latest, route) => {
+      const routeModified = getContentLastModified(route.modified, route.date);
+      return routeModified && (!latest || routeModified > latest) ? routeModified : latest;
+    }, null);
+
+    paths.push(
+      h('url', [
+        h('loc', url),
+        h('priority', 0.5),
+        ...(lastModified ? [h('lastmod', lastModified.toISOString())] : []),
+      ]),
+    );
+  }
+
+  for (const series of getGeneratedContent().series) {
+    const url = `${metadata.url}${series.path}`;
+    if (checked.has(url)) continue;
+    checked.add(url);
+
+    paths.push(h('url', [h('loc', url), h('priority', 0.6)]));
+  }
+
   const sitemap = h('urlset', { xmlns: 'http://www.sitemaps.org/schemas/sitemap/0.9' }, ...paths);
 
   const xml = await prettier.format(`<?xml version="1.0" encoding="utf-8"?>\n${toHtml(sitemap)}`, {
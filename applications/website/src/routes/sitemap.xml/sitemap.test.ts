@@ -14,9 +14,13 @@ describe('sitemap metadata generation', () => {
     expect(xml).toContain('https://stevekinney.com/courses/testing');
     expect(xml).toContain('https://stevekinney.com/courses/testing/the-basics');
     expect(xml).toContain('https://stevekinney.com/projects/weft');
+    expect(xml).toContain('<loc>https://stevekinney.com/tags</loc>');
+    expect(xml).toContain('<loc>https://stevekinney.com/tags/react</loc>');
+    expect(xml).toContain('<loc>https://stevekinney.com/writing/series/codex-in-claude-code</loc>');
     expect(xml).toContain('<loc>https://stevekinney.com/</loc>');
     expect(xml).not.toContain('[course]');
     expect(xml).not.toContain('[project]');
+    expect(xml).not.toContain('[tag]');
     expect(xml.match(/https:\/\/stevekinney\.com\/courses\/testing<\/loc>/g)).toHaveLength(1);
     expect(
       xml.match(/https:\/\/stevekinney\.com\/courses\/testing\/the-basics<\/loc>/g),
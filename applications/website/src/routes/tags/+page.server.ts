@@ -0,0 +1,12 @@
+import { getTagIndex } from '$lib/server/content';
+import type { PageServerLoad } from './$types';
+
+export const prerender = true;
+
+export const load: PageServerLoad = async () => {
+  return {
+    title: 'Tags',
+    description: 'Every topic I have written or taught about, with the posts and lessons for each.',
+    tags: getTagIndex(),
+  };
+};
@@ -0,0 +1,11 @@
+import { getPrerenderEntries } from '$lib/server/content';
+import { loadTagPage } from '$lib/server/tag-pages';
+import type { PageServerLoad } from './$types';
+
+export const prerender = true;
+
+export const load: PageServerLoad = async ({ params }) => loadTagPage(params.tag, 1);
+
+export function entries() {
+  return getPrerenderEntries().tags;
+}
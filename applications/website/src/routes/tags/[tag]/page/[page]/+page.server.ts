@@ -0,0 +1,19 @@
+import { error } from '@sveltejs/kit';
+import { getTagPageEntries, loadTagPage } from '$lib/server/tag-pages';
+import type { PageServerLoad } from './$types';
+
+export const prerender = true;
+
+export const load: PageServerLoad = async ({ params }) => {
+  const page = parseInt(params.page, 10);
+
+  if (isNaN(page) || page < 2) {
+    error(404, 'Page not found');
+  }
+
+  return loadTagPage(params.tag, page);
+};
+
+export function entries() {
+  return getTagPageEntries();
+}
@@ -1,7 +1,12 @@
 import { error, redirect } from '@sveltejs/kit';
 
 import type { RepositoryPath } from '$lib/repository-path';
-import { getPrerenderEntries, getWritingRoute } from '$lib/server/content';
+import {
+  getBacklinks,
+  getPrerenderEntries,
+  getSeriesEntry,
+  getWritingRoute,
+} from '$lib/server/content';
 import { renderWritingDocument } from '$lib/server/content-documents';
 
 import type { PageServerLoad } from './$types';
@@ -31,7 +36,11 @@ export const load: PageServerLoad = async ({ params }) => {
       date: route.date,
       modified: route.modified,
       tags: route.tags,
+      publication: route.publication,
     },
+    related: route.related ?? [],
+    backlinks: getBacklinks(route.path),
+    series: route.series ? getSeriesEntry(route.series.slug) : null,
     contentHtml: await renderWritingDocument(route.sourcePath),
   };
 };
@@ -1,4 +1,5 @@
 import { author, description as siteDescription, title as siteTitle, url } from '$lib/metadata';
+import { formatReadingTime } from '$lib/reading-time';
 import { getPostIndex } from '$lib/server/content';
 import { toHtml } from 'hast-util-to-html';
 import { h } from 'hastscript';
@@ -12,10 +13,10 @@ export async function GET() {
   const [first] = posts;
   const updated = new Date(first.date);
 
-  const entries = posts.map(({ slug, title, date, description, modified }) => {
+  const entries = posts.map(({ slug, title, date, description, modified, readingMinutes }) => {
     return h('entry', [
       h('title', title),
-      h('summary', description),
+      h('summary', `${description} (${formatReadingTime(readingMinutes)})`),
       h('link', { type: 'text/html', href: `${url}/writing/${slug}` }),
       h('id', `${url}/writing/${slug}`),
       h('published', new Date(date).toISOString()),
@@ -0,0 +1,24 @@
+import { error } from '@sveltejs/kit';
+
+import { describeSeries } from '$lib/series-navigation';
+import { getPrerenderEntries, getSeriesEntry } from '$lib/server/content';
+import type { PageServerLoad } from './$types';
+
+export const prerender = true;
+
+export const load: PageServerLoad = async ({ params }) => {
+  const series = getSeriesEntry(params.series);
+  if (!series) {
+    error(404, 'Series not found');
+  }
+
+  return {
+    title: series.title,
+    description: describeSeries(series),
+    series,
+  };
+};
+
+export function entries() {
+  return getPrerenderEntries().series;
+}
@@ -43,3 +43,6 @@ declare module 'sharp' {
 
 /** Injected at build time by Vite define — the content-enhancements bundle build hash for cache busting. */
 declare const __CONTENT_ENHANCEMENTS_BUILD_HASH__: string;
+
+/** Injected at build time by Vite define — the search index build hash for cache busting. */
+declare const __SEARCH_INDEX_BUILD_HASH__: string;
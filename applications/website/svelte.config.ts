@@ -2,10 +2,16 @@ import staticAdapter from '@sveltejs/adapter-static';
 import vercelAdapter from '@sveltejs/adapter-vercel';
 import { vitePreprocess } from '@sveltejs/vite-plugin-svelte';
 import remarkCallouts from '@stevekinney/markdown/remark-callouts';
+import remarkCodeLineNumbers from '@stevekinney/markdown/remark-code-line-numbers';
+import remarkCodeTabs, { parseTabLabel } from '@stevekinney/markdown/remark-code-tabs';
 import remarkEscapeComparators from '@stevekinney/markdown/remark-escape-comparators';
 import { fixMarkdownUrls } from '@stevekinney/markdown/remark-fix-urls';
+import remarkFootnotes from '@stevekinney/markdown/remark-footnotes';
 import remarkTailwindPlayground from '@stevekinney/markdown/remark-tailwind-playground';
+import remarkTransclusion from '@stevekinney/markdown/remark-transclusion';
+import remarkWikilinks from '@stevekinney/markdown/remark-wikilinks';
 import rehypeEnhanceImages from '@stevekinney/markdown/rehype-enhance-images';
+import { prepareCodeFence } from '@stevekinney/utilities/code-fences';
 import type { Config } from '@sveltejs/kit';
 import type { MdsvexOptions } from 'mdsvex';
 import { escapeSvelte, mdsvex } from 'mdsvex';
@@ -13,11 +19,14 @@ import rehypeSlug from 'rehype-slug';
 import unwrapImages from 'rehype-unwrap-images';
 import remarkGfm from 'remark-gfm';
 import { bundledLanguages, codeToHtml } from 'shiki';
-import { transformerMetaHighlight } from '@shikijs/transformers';
+import { transformerMetaHighlight, transformerNotationDiff } from '@shikijs/transformers';
 import { dirname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
 
-import { extractAnnotations, injectAnnotations } from './src/lib/code-annotations.ts';
+import { injectAnnotations } from './src/lib/code-annotations.ts';
+import { transformerDiffLines } from './src/lib/code-diff.ts';
+import { parseLineNumbers, transformerLineNumbers } from './src/lib/code-line-numbers.ts';
+import { transformerTwoslashResult } from './src/lib/code-twoslash.ts';
 
 // Determine site URL for prerendering (used in Open Graph meta tags)
 const siteUrl =
@@ -29,17 +38,27 @@ const siteUrl =
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 const imageManifestPath = join(__dirname, '../../image-manifest.json');
-const strictImageManifest =
+const contentDataPath = join(__dirname, '.generated/content-data.json');
+const contentRoots = ['writing', 'courses', 'projects'].map((directory) =>
+  join(__dirname, '../..', directory),
+);
+// Production builds fail on broken images and code snippets; dev shows the problem and keeps going.
+const strictBuild =
   process.env.NODE_ENV === 'production' || Boolean(process.env.VERCEL) || Boolean(process.env.CI);
 
 const parseTitle = (
   metastring: string | null | undefined,
-): { title: string | null; remaining: string } => {
-  if (!metastring) return { title: null, remaining: '' };
+): { title: string | null; tab: string | null; remaining: string } => {
+  if (!metastring) return { title: null, tab: null, remaining: '' };
   const match = metastring.match(/title="([^"]+)"/);
   const title = match ? match[1] : null;
-  const remaining = metastring.replace(/title="[^"]+"\s*/, '').trim();
-  return { title, remaining };
+  // `tab="…"` groups the block with its neighbours; remark-code-tabs builds the tabs.
+  const tab = parseTabLabel(metastring) ?? null;
+  const remaining = metastring
+    .replace(/title="[^"]+"\s*/, '')
+    .replace(/(^|\s)tab="[^"]+"\s*/, '$1')
+    .trim();
+  return { title, tab, remaining };
 };
 
 // mdsvex bundles an older `unified` type than the remark/rehype plugins
@@ -55,11 +74,19 @@ const mdsvexOptions: MdsvexOptions = {
   extensions: ['.md'],
 
   remarkPlugins: [
+    // Runs first so the plugins below also see the sections it pulls in.
+    asPluggable([remarkTransclusion, { contentDataPath }]),
+    // Before remark-fix-urls, which would treat a one-word note's definition as a link.
+    asPluggable(remarkFootnotes),
     asPluggable(remarkEscapeComparators),
     asPluggable([fixMarkdownUrls, ['../../writing', '../../courses']]),
     asPluggable(remarkGfm),
+    asPluggable([remarkWikilinks, { contentDataPath }]),
     asPluggable(remarkCallouts),
     asPluggable(remarkTailwindPlayground),
+    asPluggable(remarkCodeTabs),
+    // Last, so the block numbers in line anchors count every fence on the page.
+    asPluggable(remarkCodeLineNumbers),
   ],
   rehypePlugins: [
     asPluggable(rehypeSlug),
@@ -71,7 +98,7 @@ const mdsvexOptions: MdsvexOptions = {
         sizes: '(min-width: 1280px) 800px, (min-width: 768px) 80vw, 100vw',
         firstImagePriority: true,
         classes: ['max-w-full'],
-        strictManifest: strictImageManifest,
+        strictManifest: strictBuild,
       },
     ]),
   ],
@@ -82,7 +109,7 @@ const mdsvexOptions: MdsvexOptions = {
   },
 
   highlight: {
-    highlighter: async (code, lang = 'text', metastring) => {
+    highlighter: async (code, lang = 'text', metastring, filename) => {
       if (!lang) lang = 'text';
 
       // Mermaid blocks render as diagrams on the client, not syntax-highlighted.
@@ -93,17 +120,40 @@ const mdsvexOptions: MdsvexOptions = {
         return `<div data-mermaid class="not-prose overflow-x-auto rounded-md border-2 border-slate-800 bg-[#011627] p-4 not-last:mb-4"><pre class="mermaid-source" style="margin:0;color:#d6deeb;white-space:pre-wrap">${escaped}</pre></div>`;
       }
 
-      const { title, remaining: remainingMeta } = parseTitle(metastring);
-      const { cleanedCode, annotations } = extractAnnotations(code);
+      const { title, tab, remaining } = parseTitle(metastring);
+      // `file="./assets/counter.ts#L10-L32"` shows part of a real file; content:validate checks it.
+      // `diff=ts` fences are unified diffs of TypeScript: `+`/`-` prefixes mark the changes.
+      // `ts twoslash` fences are type-checked; content:validate prepares them the same way
+      // and reports unexpected errors.
+      const prepared = prepareCodeFence({ code, lang, meta: remaining, filename, contentRoots });
+      if ('error' in prepared) {
+        const message = `${filename ?? 'Unknown file'}: ${prepared.error}`;
+        if (strictBuild) throw new Error(message);
+        console.warn(`[code-snippets] ${message}`);
+        const escaped = escapeSvelte(
+          message.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;'),
+        );
+        return `<div role="alert" class="not-prose rounded-md border-2 border-red-700 bg-red-950 p-4 text-red-200 not-last:mb-4"><pre style="margin:0;white-space:pre-wrap"><code>${escaped}</code></pre></div>`;
+      }
+      const { code: cleanedCode, annotations, changes, twoslash } = prepared;
+      lang = prepared.lang;
+      // `showLineNumbers{12}` numbers the lines from 12 and anchors each one.
+      const { lineNumbers, remaining: remainingMeta } = parseLineNumbers(prepared.meta);
+      // `run` adds a Run button; enhance-runnable-code executes the block in a worker.
+      const runnable =
+        /^(js|javascript|ts|typescript)$/.test(lang) && /(?:^|\s)run(?=\s|$)/.test(remainingMeta);
 
-      const baseClasses = [
-        'bg-[#011627]',
-        'not-prose',
-        'rounded-md',
-        'border-2',
-        'border-slate-800',
-        'not-last:mb-4',
-      ];
+      // A tab's border and spacing come from the group around it.
+      const baseClasses = tab
+        ? ['bg-[#011627]', 'not-prose']
+        : [
+            'bg-[#011627]',
+            'not-prose',
+            'rounded-md',
+            'border-2',
+            'border-slate-800',
+            'not-last:mb-4',
+          ];
 
       // Unsupported Shiki languages (e.g. "text") get a plain <pre>
       // wrapper so whitespace and newlines are preserved.
@@ -122,10 +172,12 @@ const mdsvexOptions: MdsvexOptions = {
         return `<div class="${wrapperClasses.join(' ')}" data-language="${lang}">${titleHtml}${contentWrapper}</div>`;
       }
 
-      const transformers = [];
+      const transformers = [transformerNotationDiff(), transformerDiffLines(changes)];
       if (remainingMeta && /\{[\d,\s-]+\}/.test(remainingMeta)) {
         transformers.push(transformerMetaHighlight());
       }
+      if (twoslash) transformers.push(transformerTwoslashResult(twoslash));
+      if (lineNumbers) transformers.push(transformerLineNumbers(lineNumbers));
 
       let html = escapeSvelte(
         await codeToHtml(cleanedCode, {
@@ -144,7 +196,7 @@ const mdsvexOptions: MdsvexOptions = {
       const wrapperClasses = title ? baseClasses : [...baseClasses, 'overflow-x-scroll', 'p-4'];
       const contentWrapper = title ? `<div class="overflow-x-auto p-4">${html}</div>` : html;
 
-      return `<div class="${wrapperClasses.join(' ')}" data-language="${lang}">${titleHtml}${contentWrapper}</div>`;
+      return `<div class="${wrapperClasses.join(' ')}" data-language="${lang}"${runnable ? ' data-runnable' : ''}>${titleHtml}${contentWrapper}</div>`;
     },
   },
 };
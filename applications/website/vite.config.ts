@@ -11,7 +11,7 @@ import { contentDevelopmentPlugins } from './plugins/vite/content-development-pl
 const enableBundleStats = process.env.BUNDLE_STATS === '1';
 const workspaceRoot = searchForWorkspaceRoot(process.cwd());
 
-const readContentEnhancementsBuildHash = (): string => {
+const readGeneratedBuildHash = (directory: string): string => {
   try {
     return readFileSync(
       path.resolve(
@@ -19,7 +19,7 @@ const readContentEnhancementsBuildHash = (): string => {
         'applications',
         'website',
         '.generated',
-        'content-enhancements',
+        directory,
         '.build-hash',
       ),
       'utf8',
@@ -57,6 +57,13 @@ const generatedEnhancementsDirectory = path.resolve(
   '.generated',
   'content-enhancements',
 );
+const generatedSearchDirectory = path.resolve(
+  workspaceRoot,
+  'applications',
+  'website',
+  '.generated',
+  'search',
+);
 const contentBuildScriptPath = path.resolve(
   workspaceRoot,
   'packages',
@@ -66,19 +73,32 @@ const contentBuildScriptPath = path.resolve(
 
 export default defineConfig({
   define: {
-    __CONTENT_ENHANCEMENTS_BUILD_HASH__: JSON.stringify(readContentEnhancementsBuildHash()),
+    __CONTENT_ENHANCEMENTS_BUILD_HASH__: JSON.stringify(
+      readGeneratedBuildHash('content-enhancements'),
+    ),
+    __SEARCH_INDEX_BUILD_HASH__: JSON.stringify(readGeneratedBuildHash('search')),
   },
   plugins: [
     sveltekit(),
     ...contentDevelopmentPlugins({
       workspaceRoot,
       contentDirectories,
+      contentFiles: [path.resolve(workspaceRoot, 'tags.toml')],
       contentAssetPathPrefixes: ['/courses/', '/projects/', '/writing/'],
       enhancementSourceDirectories: [contentEnhancementsSourceDirectory],
       contentBuildScriptPath,
+      contentDataPath: path.resolve(
+        workspaceRoot,
+        'applications',
+        'website',
+        '.generated',
+        'content-data.json',
+      ),
       contentBuildWorkingDirectory: process.cwd(),
       generatedEnhancementsDirectory,
       generatedEnhancementsUrlPrefix: '/generated/content-enhancements/',
+      generatedSearchDirectory,
+      generatedSearchUrlPrefix: '/generated/search/',
     }),
     ViteToml(),
     tailwindcss(),
@@ -1,3 +1,5 @@
+import { searchIndexPath } from '@stevekinney/utilities/search-index';
+
 type EnhancerResult = { destroy?: () => void } | void;
 type Enhancer = (root: HTMLElement) => EnhancerResult | Promise<EnhancerResult>;
 
@@ -10,10 +12,22 @@ const enhancers: ReadonlyArray<{ selector: string; load: () => Promise<Enhancer>
     selector: '[data-tailwind-playground]',
     load: async () => (await import('./enhance-tailwind-playgrounds')).enhanceTailwindPlaygrounds,
   },
+  {
+    selector: '[data-code-tabs]',
+    load: async () => (await import('./enhance-code-tabs')).enhanceCodeTabs,
+  },
   {
     selector: '[data-language]',
     load: async () => (await import('./enhance-code-blocks')).enhanceCodeBlocks,
   },
+  {
+    selector: '[data-runnable]',
+    load: async () => (await import('./enhance-runnable-code')).enhanceRunnableCode,
+  },
+  {
+    selector: 'pre[data-line-numbers]',
+    load: async () => (await import('./enhance-line-links')).enhanceLineLinks,
+  },
   {
     selector: '[data-mermaid]',
     load: async () => (await import('./enhance-mermaid-diagrams')).enhanceMermaidDiagrams,
@@ -22,8 +36,55 @@ const enhancers: ReadonlyArray<{ selector: string; load: () => Promise<Enhancer>
     selector: 'table',
     load: async () => (await import('./enhance-tables')).enhanceTables,
   },
+  {
+    selector: 'a.footnote-ref, a[data-footnote-ref]',
+    load: async () => (await import('./enhance-sidenotes')).enhanceSidenotes,
+  },
 ];
 
+// Search is site-wide rather than tied to a content root: the navigation's
+// `/search` link and Cmd/Ctrl-K open a dialog that is only loaded on first use.
+const searchTriggerSelector = 'a[href="/search"]';
+
+const openSearch = async (): Promise<void> => {
+  const indexUrl =
+    document.querySelector<HTMLMetaElement>('meta[name="search-index"]')?.content ??
+    searchIndexPath;
+  (await import('./search-dialog')).openSearchDialog(indexUrl);
+};
+
+document.addEventListener('keydown', (event) => {
+  if (event.key.toLowerCase() !== 'k' || !(event.metaKey || event.ctrlKey)) return;
+  event.preventDefault();
+  void openSearch();
+});
+
+document.addEventListener('click', (event) => {
+  if (event.defaultPrevented || event.button !== 0) return;
+  if (event.metaKey || event.ctrlKey || event.shiftKey || event.altKey) return;
+  if (!(event.target as Element | null)?.closest?.(searchTriggerSelector)) return;
+  event.preventDefault();
+  void openSearch();
+});
+
+// Course progress also lives outside the content roots: the sidebar, the
+// lesson's "Mark as complete" toggle, and the course page summary all read
+// the same localStorage entry, so one enhancer handles the whole page.
+const courseProgressSelector = '[data-course-progress]';
+let destroyCourseProgress: (() => void) | null = null;
+
+const applyCourseProgress = async (): Promise<void> => {
+  if (!document.querySelector(courseProgressSelector)) return;
+  const { enhanceCourseProgress } = await import('./enhance-course-progress');
+  destroyCourseProgress?.();
+  destroyCourseProgress = enhanceCourseProgress(document).destroy;
+};
+
+const cleanupCourseProgress = (): void => {
+  destroyCourseProgress?.();
+  destroyCourseProgress = null;
+};
+
 const cleanupsByRoot = new WeakMap<HTMLElement, Array<() => void>>();
 
 const getRoots = (): HTMLElement[] => [
@@ -64,19 +125,25 @@ const applyEnhancements = async (): Promise<void> => {
   );
 };
 
+const applyAll = (): void => {
+  void applyEnhancements();
+  void applyCourseProgress();
+};
+
 if (document.readyState === 'loading') {
-  document.addEventListener('DOMContentLoaded', applyEnhancements, { once: true });
+  document.addEventListener('DOMContentLoaded', applyAll, { once: true });
 } else {
-  applyEnhancements();
+  applyAll();
 }
 
 window.addEventListener('pagehide', () => {
   for (const root of getRoots()) cleanupRoot(root);
+  cleanupCourseProgress();
 });
 
 // If the browser restores the document from the back/forward cache the
 // pagehide listener above has already torn every enhancement down. Re-run
-// them so copy buttons, diagrams, and playgrounds come back.
+// them so copy buttons, diagrams, playgrounds, and progress come back.
 window.addEventListener('pageshow', (event) => {
-  if (event.persisted) applyEnhancements();
+  if (event.persisted) applyAll();
 });
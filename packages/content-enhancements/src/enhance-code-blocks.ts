@@ -50,7 +50,49 @@ function showFeedback(button: HTMLButtonElement, success: boolean, originalSvg:
   }, 2000);
 }
 
-function createCopyTextButton(codeBlock: HTMLElement): HTMLButtonElement {
+/**
+ * Remove a line from cloned Shiki output along with the newline that
+ * separates it from its neighbours, so a removed diff line leaves no gap.
+ */
+function removeLine(line: Element): void {
+  const separator =
+    line.nextSibling?.textContent === '\n' ? line.nextSibling : line.previousSibling;
+  if (separator?.nodeType === Node.TEXT_NODE && separator.textContent === '\n') {
+    separator.remove();
+  }
+  line.remove();
+}
+
+/**
+ * The code a block shows, as the reader would type it: without annotations,
+ * line numbers, twoslash output, or the removed side of a diff.
+ */
+export function readCodeBlockText(codeBlock: HTMLElement): string {
+  const codeElement = codeBlock.querySelector('pre code');
+  if (!codeElement) return codeBlock.querySelector('pre')?.textContent ?? '';
+
+  const clone = codeElement.cloneNode(true) as HTMLElement;
+  clone
+    .querySelectorAll(
+      '.code-annotation, .line-number, .twoslash-popup, .twoslash-query, .twoslash-error',
+    )
+    .forEach((el) => el.remove());
+  clone.querySelectorAll('.line.diff.remove').forEach(removeLine);
+  return clone.textContent ?? '';
+}
+
+/**
+ * The block a group's buttons act on: the one in the selected tab of a
+ * `[data-code-tabs]` group, or the block itself.
+ */
+function activeCodeBlock(target: HTMLElement): HTMLElement {
+  if (!target.matches('[data-code-tabs]')) return target;
+  return (
+    target.querySelector<HTMLElement>('[role="tabpanel"]:not([hidden]) [data-language]') ?? target
+  );
+}
+
+function createCopyTextButton(target: HTMLElement): HTMLButtonElement {
   const button = document.createElement('button');
   button.type = 'button';
   button.className = BUTTON_CLASSES;
@@ -59,16 +101,7 @@ function createCopyTextButton(codeBlock: HTMLElement): HTMLButtonElement {
 
   button.addEventListener('click', async () => {
     try {
-      const codeElement = codeBlock.querySelector('pre code');
-      let text = '';
-      if (codeElement) {
-        const clone = codeElement.cloneNode(true) as HTMLElement;
-        clone.querySelectorAll('.code-annotation').forEach((el) => el.remove());
-        text = clone.textContent ?? '';
-      } else {
-        text = codeBlock.querySelector('pre')?.textContent ?? '';
-      }
-      await navigator.clipboard.writeText(text);
+      await navigator.clipboard.writeText(readCodeBlockText(activeCodeBlock(target)));
       showFeedback(button, true, CLIPBOARD_SVG);
     } catch (error) {
       console.error('Failed to copy code:', error);
@@ -80,7 +113,7 @@ function createCopyTextButton(codeBlock: HTMLElement): HTMLButtonElement {
 }
 
 function createCopyImageButton(
-  codeBlock: HTMLElement,
+  target: HTMLElement,
   container: HTMLElement,
   imageCopyModule: ImageCopyModule,
 ): HTMLButtonElement {
@@ -93,7 +126,7 @@ function createCopyImageButton(
   button.addEventListener('click', async () => {
     try {
       container.style.display = 'none';
-      await imageCopyModule.copyCodeBlockAsImage(codeBlock);
+      await imageCopyModule.copyCodeBlockAsImage(activeCodeBlock(target));
       container.style.display = '';
       showFeedback(button, true, CAMERA_SVG);
     } catch (error) {
@@ -107,7 +140,10 @@ function createCopyImageButton(
 }
 
 export async function enhanceCodeBlocks(node: HTMLElement): Promise<{ destroy: () => void }> {
-  const codeBlocks = node.querySelectorAll<HTMLElement>('[data-language]');
+  // A tab group gets one set of buttons, in its tab bar, for whichever tab is selected.
+  const codeBlocks = [
+    ...node.querySelectorAll<HTMLElement>('[data-code-tabs], [data-language]'),
+  ].filter((block) => block.matches('[data-code-tabs]') || !block.closest('[data-code-tabs]'));
   const containers: HTMLElement[] = [];
   const imageCopyModule = await loadImageCopyModuleIfSupported();
   const canCopyImage = imageCopyModule !== null;
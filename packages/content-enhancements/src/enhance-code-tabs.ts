@@ -0,0 +1,124 @@
+/** Where the reader's last choice of tab label is kept, for every page on the site. */
+export const codeTabStorageKey = 'code-tabs:preferred';
+
+const getStorage = (): Storage | null => {
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+};
+
+const readPreferredTab = (storage: Storage | null): string | null => {
+  try {
+    return storage?.getItem(codeTabStorageKey) ?? null;
+  } catch {
+    return null;
+  }
+};
+
+const writePreferredTab = (storage: Storage | null, label: string): void => {
+  try {
+    storage?.setItem(codeTabStorageKey, label);
+  } catch {
+    // The preference is a convenience; losing a write is better than throwing.
+  }
+};
+
+type CodeTabGroup = {
+  tabs: HTMLButtonElement[];
+  panels: Array<HTMLElement | null>;
+};
+
+// Look panels up inside the group: the print edition puts several lessons, and so
+// several `code-tabs-1`s, on one page.
+const collectGroup = (group: HTMLElement): CodeTabGroup => {
+  const tabs = [...group.querySelectorAll<HTMLButtonElement>('[role="tab"]')];
+  const panels = tabs.map((tab) =>
+    group.querySelector<HTMLElement>(`[id="${tab.getAttribute('aria-controls')}"]`),
+  );
+  return { tabs, panels };
+};
+
+const selectTab = ({ tabs, panels }: CodeTabGroup, index: number): void => {
+  tabs.forEach((tab, tabIndex) => {
+    const selected = tabIndex === index;
+    tab.setAttribute('aria-selected', String(selected));
+    tab.tabIndex = selected ? 0 : -1;
+    const panel = panels[tabIndex];
+    if (panel) panel.hidden = !selected;
+  });
+};
+
+/**
+ * Switch between the tabs `remark-code-tabs` renders for consecutive
+ * `tab="…"` fences. Arrow keys, Home, and End move between tabs as the ARIA
+ * tabs pattern describes. Choosing a label selects it in every group on the
+ * page that has it and is remembered in localStorage, so a reader who picks
+ * "pnpm" once sees pnpm first everywhere.
+ */
+export function enhanceCodeTabs(node: HTMLElement): { destroy: () => void } {
+  const storage = getStorage();
+  const groups = [...node.querySelectorAll<HTMLElement>('[data-code-tabs]')].map(collectGroup);
+  if (groups.length === 0) return { destroy() {} };
+
+  const selectLabel = (label: string): void => {
+    for (const group of groups) {
+      const index = group.tabs.findIndex((tab) => tab.dataset.codeTab === label);
+      if (index !== -1) selectTab(group, index);
+    }
+  };
+
+  const preferred = readPreferredTab(storage);
+  if (preferred) selectLabel(preferred);
+
+  const choose = (tab: HTMLButtonElement): void => {
+    const label = tab.dataset.codeTab;
+    if (!label) return;
+    selectLabel(label);
+    writePreferredTab(storage, label);
+  };
+
+  const onClick = (event: MouseEvent): void => {
+    const tab = (event.target as Element | null)?.closest<HTMLButtonElement>(
+      '[data-code-tabs] [role="tab"]',
+    );
+    if (tab) choose(tab);
+  };
+
+  const onKeydown = (event: KeyboardEvent): void => {
+    const tab = (event.target as Element | null)?.closest<HTMLButtonElement>(
+      '[data-code-tabs] [role="tab"]',
+    );
+    const group = groups.find((candidate) => tab && candidate.tabs.includes(tab));
+    if (!tab || !group) return;
+
+    const current = group.tabs.indexOf(tab);
+    const last = group.tabs.length - 1;
+    const next =
+      event.key === 'ArrowRight'
+        ? (current + 1) % group.tabs.length
+        : event.key === 'ArrowLeft'
+          ? (current - 1 + group.tabs.length) % group.tabs.length
+          : event.key === 'Home'
+            ? 0
+            : event.key === 'End'
+              ? last
+              : -1;
+    if (next === -1) return;
+
+    event.preventDefault();
+    group.tabs[next]!.focus();
+    choose(group.tabs[next]!);
+  };
+
+  node.addEventListener('click', onClick);
+  node.addEventListener('keydown', onKeydown);
+
+  return {
+    destroy() {
+      node.removeEventListener('click', onClick);
+      node.removeEventListener('keydown', onKeydown);
+    },
+  };
+}
@@ -0,0 +1,216 @@
+/** What a reader has done in one course, as stored in localStorage. */
+export type CourseProgress = {
+  visited: string[];
+  completed: string[];
+  lastLesson?: { slug: string; title: string };
+};
+
+const STORAGE_PREFIX = 'course-progress:';
+
+const CHECK_CLASSES = ['ml-1', 'text-emerald-600', 'dark:text-emerald-400'].join(' ');
+
+export const courseProgressStorageKey = (courseSlug: string): string =>
+  `${STORAGE_PREFIX}${courseSlug}`;
+
+const emptyProgress = (): CourseProgress => ({ visited: [], completed: [] });
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((entry) => typeof entry === 'string');
+
+/**
+ * Storage can be missing, full, or blocked outright (private browsing, strict
+ * cookie settings), and the stored value may have been edited by hand. Every
+ * failure reads as "no progress yet" rather than breaking the page.
+ */
+export const readCourseProgress = (storage: Storage, courseSlug: string): CourseProgress => {
+  try {
+    const stored: unknown = JSON.parse(storage.getItem(courseProgressStorageKey(courseSlug)) ?? '');
+    if (!stored || typeof stored !== 'object') return emptyProgress();
+
+    const { visited, completed, lastLesson } = stored as Record<string, unknown>;
+    const last = lastLesson as CourseProgress['lastLesson'] | undefined;
+
+    return {
+      visited: isStringArray(visited) ? visited : [],
+      completed: isStringArray(completed) ? completed : [],
+      ...(typeof last?.slug === 'string' && typeof last.title === 'string'
+        ? { lastLesson: { slug: last.slug, title: last.title } }
+        : {}),
+    };
+  } catch {
+    return emptyProgress();
+  }
+};
+
+export const writeCourseProgress = (
+  storage: Storage,
+  courseSlug: string,
+  progress: CourseProgress,
+): void => {
+  try {
+    storage.setItem(courseProgressStorageKey(courseSlug), JSON.stringify(progress));
+  } catch {
+    // Progress is a convenience; losing a write is better than throwing.
+  }
+};
+
+const getStorage = (): Storage | null => {
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+};
+
+const withLesson = (lessons: string[], slug: string): string[] =>
+  lessons.includes(slug) ? lessons : [...lessons, slug];
+
+/**
+ * Wire up every `[data-course-progress]` element on the page. A lesson page
+ * records the visit and reveals its "Mark as complete" toggle, the course
+ * sidebar gains a checkmark beside each completed lesson, and the course page
+ * reveals a summary with a "Continue where you left off" link and export and
+ * reset controls. The markup ships hidden, so without JavaScript none of it
+ * shows.
+ */
+export function enhanceCourseProgress(root: ParentNode = document): { destroy: () => void } {
+  const storage = getStorage();
+  const elements = [...root.querySelectorAll<HTMLElement>('[data-course-progress]')];
+  if (!storage || elements.length === 0) return { destroy: () => {} };
+
+  const revealed = new Set<HTMLElement>();
+  const checks: HTMLElement[] = [];
+  const listeners: Array<() => void> = [];
+
+  const show = (element: HTMLElement, visible: boolean) => {
+    element.hidden = !visible;
+    if (visible) revealed.add(element);
+  };
+
+  const listen = (element: Element, handler: () => void) => {
+    element.addEventListener('click', handler);
+    listeners.push(() => element.removeEventListener('click', handler));
+  };
+
+  const render = () => {
+    for (const check of checks.splice(0)) check.remove();
+
+    for (const element of elements) {
+      const courseSlug = element.dataset.courseProgress;
+      if (!courseSlug) continue;
+      const progress = readCourseProgress(storage, courseSlug);
+      const completed = new Set(progress.completed);
+
+      for (const item of element.querySelectorAll<HTMLElement>('[data-course-progress-item]')) {
+        if (!completed.has(item.dataset.courseProgressItem ?? '')) continue;
+        const check = document.createElement('span');
+        check.className = CHECK_CLASSES;
+        check.textContent = '✓';
+        check.setAttribute('role', 'img');
+        check.setAttribute('aria-label', 'Completed');
+        check.dataset.courseProgressCheck = '';
+        item.querySelector('a')?.after(check);
+        checks.push(check);
+      }
+
+      const lessonSlug = element.dataset.courseProgressLesson;
+      const toggle = element.querySelector<HTMLElement>('[data-course-progress-toggle]');
+      if (lessonSlug && toggle) {
+        const isComplete = completed.has(lessonSlug);
+        toggle.setAttribute('aria-pressed', String(isComplete));
+        toggle.textContent = isComplete ? 'Completed ✓' : 'Mark as complete';
+        show(element, true);
+      }
+
+      if (element.hasAttribute('data-course-progress-summary')) {
+        const total = Number(element.dataset.courseProgressTotal) || 0;
+        const count = element.querySelector<HTMLElement>('[data-course-progress-count]');
+        if (count) {
+          count.textContent = `You've completed ${progress.completed.length} of ${total} ${
+            total === 1 ? 'lesson' : 'lessons'
+          }.`;
+        }
+
+        const resume = element.querySelector<HTMLElement>('[data-course-progress-resume]');
+        const link = element.querySelector<HTMLAnchorElement>('[data-course-progress-continue]');
+        if (link && progress.lastLesson) {
+          link.href = `/courses/${courseSlug}/${progress.lastLesson.slug}`;
+          link.textContent = `Continue where you left off: ${progress.lastLesson.title}`;
+        }
+        if (resume) show(resume, Boolean(progress.lastLesson));
+
+        show(element, progress.visited.length > 0 || progress.completed.length > 0);
+      }
+    }
+  };
+
+  for (const element of elements) {
+    const courseSlug = element.dataset.courseProgress;
+    if (!courseSlug) continue;
+
+    const lessonSlug = element.dataset.courseProgressLesson;
+    if (lessonSlug) {
+      const progress = readCourseProgress(storage, courseSlug);
+      writeCourseProgress(storage, courseSlug, {
+        ...progress,
+        visited: withLesson(progress.visited, lessonSlug),
+        lastLesson: {
+          slug: lessonSlug,
+          title: element.dataset.courseProgressLessonTitle ?? lessonSlug,
+        },
+      });
+
+      const toggle = element.querySelector('[data-course-progress-toggle]');
+      if (toggle) {
+        listen(toggle, () => {
+          const current = readCourseProgress(storage, courseSlug);
+          const completed = current.completed.includes(lessonSlug)
+            ? current.completed.filter((slug) => slug !== lessonSlug)
+            : [...current.completed, lessonSlug];
+          writeCourseProgress(storage, courseSlug, { ...current, completed });
+          render();
+        });
+      }
+    }
+
+    const exportButton = element.querySelector('[data-course-progress-export]');
+    if (exportButton) {
+      listen(exportButton, () => {
+        const blob = new Blob([JSON.stringify(readCourseProgress(storage, courseSlug), null, 2)], {
+          type: 'application/json',
+        });
+        const url = URL.createObjectURL(blob);
+        const anchor = document.createElement('a');
+        anchor.href = url;
+        anchor.download = `${courseSlug}-progress.json`;
+        anchor.click();
+        // Firefox and Safari start the download after the click returns; revoking now cancels it.
+        setTimeout(() => URL.revokeObjectURL(url));
+      });
+    }
+
+    const resetButton = element.querySelector('[data-course-progress-reset]');
+    if (resetButton) {
+      listen(resetButton, () => {
+        if (!window.confirm('Reset your progress in this course?')) return;
+        try {
+          storage.removeItem(courseProgressStorageKey(courseSlug));
+        } catch {
+          // Nothing to clear if storage is unavailable.
+        }
+        render();
+      });
+    }
+  }
+
+  render();
+
+  return {
+    destroy: () => {
+      for (const remove of listeners.splice(0)) remove();
+      for (const check of checks.splice(0)) check.remove();
+      for (const element of revealed) element.hidden = true;
+      revealed.clear();
+    },
+  };
+}
@@ -0,0 +1,78 @@
+const TARGETED_CLASS = 'line-targeted';
+
+type LineRange = { block: string; from: number; to: number };
+
+/** Read `#code-3-L12` or `#code-3-L12-L15`; the block id may itself contain hyphens. */
+export const parseLineHash = (hash: string): LineRange | null => {
+  const match = hash.match(/^#(.+?)-L(\d+)(?:-L(\d+))?$/);
+  if (!match) return null;
+  const first = Number(match[2]);
+  const last = match[3] ? Number(match[3]) : first;
+  return { block: match[1], from: Math.min(first, last), to: Math.max(first, last) };
+};
+
+const formatLineHash = ({ block, from, to }: LineRange): string =>
+  from === to ? `#${block}-L${from}` : `#${block}-L${from}-L${to}`;
+
+/**
+ * Deep links to lines in fences with `showLineNumbers`. Clicking a line
+ * number copies a link to it and highlights it; shift-clicking a second
+ * number in the same block extends that to a range. A link opened later, or
+ * a hash change, highlights the same lines and scrolls them into view.
+ */
+export function enhanceLineLinks(node: HTMLElement): { destroy: () => void } {
+  let anchor: { block: string; line: number } | null = null;
+
+  const highlight = (range: LineRange | null): void => {
+    node.querySelectorAll(`.${TARGETED_CLASS}`).forEach((line) => {
+      line.classList.remove(TARGETED_CLASS);
+    });
+    if (!range) return;
+
+    const block = node.querySelector(`pre[data-line-numbers="${range.block}"]`);
+    const lines = [...(block?.querySelectorAll<HTMLElement>('.line[data-line]') ?? [])].filter(
+      (line) => {
+        const number = Number(line.dataset.line);
+        return number >= range.from && number <= range.to;
+      },
+    );
+    for (const line of lines) line.classList.add(TARGETED_CLASS);
+    lines[0]?.scrollIntoView?.({ block: 'center' });
+  };
+
+  const onClick = (event: MouseEvent): void => {
+    const link = (event.target as Element | null)?.closest<HTMLAnchorElement>(
+      'pre[data-line-numbers] a.line-number',
+    );
+    const block = link?.closest<HTMLElement>('pre[data-line-numbers]')?.dataset.lineNumbers;
+    const line = Number(link?.closest<HTMLElement>('.line[data-line]')?.dataset.line);
+    if (!link || !block || Number.isNaN(line)) return;
+
+    event.preventDefault();
+    const range =
+      event.shiftKey && anchor?.block === block
+        ? { block, from: Math.min(anchor.line, line), to: Math.max(anchor.line, line) }
+        : { block, from: line, to: line };
+    if (!event.shiftKey || anchor?.block !== block) anchor = { block, line };
+
+    // Going through `location` rather than `history` keeps SvelteKit's router in step;
+    // the hashchange listener does the highlighting.
+    location.hash = formatLineHash(range);
+    navigator.clipboard?.writeText(location.href).catch(() => {
+      // The address bar already holds the link; a failed copy loses nothing.
+    });
+  };
+
+  const onHashChange = (): void => highlight(parseLineHash(location.hash));
+
+  highlight(parseLineHash(location.hash));
+  node.addEventListener('click', onClick);
+  window.addEventListener('hashchange', onHashChange);
+
+  return {
+    destroy() {
+      node.removeEventListener('click', onClick);
+      window.removeEventListener('hashchange', onHashChange);
+    },
+  };
+}
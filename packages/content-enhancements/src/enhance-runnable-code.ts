@@ -0,0 +1,222 @@
+import { readCodeBlockText } from './enhance-code-blocks';
+
+/** How long a run may take before its worker is terminated. */
+export const runTimeoutMs = 5000;
+
+type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+type RunMessage =
+  | { source: 'runnable-code'; type: 'console'; level: ConsoleLevel; text: string }
+  | { source: 'runnable-code'; type: 'done' };
+
+// Built next to this bundle's chunks; see runnable-code-worker.ts.
+const workerUrl = (): URL => new URL('./runnable-code-worker.js', import.meta.url);
+
+const LEVEL_CLASSES: Record<ConsoleLevel, string> = {
+  log: 'text-slate-200',
+  info: 'text-sky-300',
+  warn: 'text-amber-300',
+  error: 'text-red-400',
+  debug: 'text-slate-400',
+};
+
+const BUTTON_CLASSES = [
+  'rounded',
+  'border',
+  'border-slate-600',
+  'bg-slate-800/80',
+  'px-2',
+  'py-0.5',
+  'text-slate-200',
+  'hover:bg-slate-700',
+  'hover:text-white',
+  'cursor-pointer',
+  'disabled:cursor-default',
+  'disabled:opacity-50',
+].join(' ');
+
+const isTypeScript = (language: string | undefined): boolean =>
+  language === 'ts' || language === 'typescript';
+
+// Only loaded when a reader runs TypeScript; the compiler is by far the largest chunk.
+let typescriptPromise: Promise<typeof import('typescript')> | null = null;
+
+const transpile = async (code: string): Promise<string> => {
+  typescriptPromise ??= import('typescript').then((module) => module.default);
+  const ts = await typescriptPromise;
+  return ts.transpileModule(code, {
+    // It runs as a module script, so compile it as one.
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.ESNext,
+      moduleDetection: ts.ModuleDetectionKind.Force,
+    },
+  }).outputText;
+};
+
+const isRunMessage = (data: unknown): data is RunMessage =>
+  typeof data === 'object' && data !== null && (data as RunMessage).source === 'runnable-code';
+
+type Runner = {
+  block: HTMLElement;
+  controls: HTMLElement;
+  output: HTMLElement;
+  status: HTMLElement;
+  reset: HTMLButtonElement;
+  worker: Worker | null;
+  timer: ReturnType<typeof setTimeout> | undefined;
+  done: boolean;
+  /** Bumped by every stop, so a run still compiling when it's reset or rerun is dropped. */
+  attempt: number;
+};
+
+const appendLine = (runner: Runner, level: ConsoleLevel, text: string): void => {
+  const line = document.createElement('div');
+  line.className = LEVEL_CLASSES[level];
+  line.dataset.level = level;
+  line.textContent = text;
+  runner.output.appendChild(line);
+};
+
+const stop = (runner: Runner): void => {
+  runner.attempt += 1;
+  clearTimeout(runner.timer);
+  runner.timer = undefined;
+  runner.worker?.terminate();
+  runner.worker = null;
+};
+
+const run = async (runner: Runner): Promise<void> => {
+  stop(runner);
+  const { attempt } = runner;
+  runner.done = false;
+  runner.output.replaceChildren();
+  runner.output.hidden = false;
+  runner.reset.disabled = false;
+  runner.status.textContent = 'Running…';
+
+  let code = readCodeBlockText(runner.block);
+  if (isTypeScript(runner.block.dataset.language)) {
+    try {
+      code = await transpile(code);
+    } catch (error) {
+      if (attempt !== runner.attempt) return;
+      appendLine(runner, 'error', `Couldn't compile the TypeScript: ${String(error)}`);
+      runner.status.textContent = 'Failed';
+      return;
+    }
+    if (attempt !== runner.attempt) return;
+  }
+
+  // A worker has no DOM, so the code can't touch the page, its cookies, or its
+  // localStorage. It does share the site's origin, so it can still open the
+  // origin's IndexedDB, CacheStorage, and BroadcastChannels, and only the
+  // production CSP on the worker file keeps it off the network. That suits the
+  // site's own examples, not untrusted code. It runs on its own thread, so a
+  // loop that never ends can still be terminated.
+  const worker = new Worker(workerUrl(), { name: 'Code runner' });
+  worker.addEventListener('message', (event: MessageEvent<unknown>) => {
+    if (!isRunMessage(event.data)) return;
+    if (event.data.type === 'done') {
+      runner.done = true;
+      runner.status.textContent = 'Done';
+      return;
+    }
+    appendLine(runner, event.data.level, event.data.text);
+  });
+  worker.addEventListener('error', () => {
+    appendLine(runner, 'error', "Couldn't start the code runner.");
+    runner.status.textContent = 'Failed';
+    stop(runner);
+  });
+
+  runner.worker = worker;
+  runner.timer = setTimeout(() => {
+    if (!runner.done) {
+      appendLine(runner, 'error', `Stopped after ${runTimeoutMs / 1000} seconds.`);
+      runner.status.textContent = 'Stopped';
+    }
+    stop(runner);
+  }, runTimeoutMs);
+  worker.postMessage({ code });
+};
+
+const reset = (runner: Runner, runButton: HTMLButtonElement): void => {
+  stop(runner);
+  runner.output.replaceChildren();
+  runner.output.hidden = true;
+  runner.status.textContent = '';
+  runner.reset.disabled = true;
+  runButton.focus();
+};
+
+const createButton = (label: string): HTMLButtonElement => {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = BUTTON_CLASSES;
+  button.textContent = label;
+  return button;
+};
+
+/**
+ * Add Run and Reset buttons to `js`/`ts` fences marked `run`. A run executes
+ * the code, transpiled first if it is TypeScript, as a module in a worker and
+ * lists its console output under the block. The worker is terminated after
+ * `runTimeoutMs`, which also ends code that never finishes.
+ */
+export function enhanceRunnableCode(node: HTMLElement): { destroy: () => void } {
+  const runners: Runner[] = [];
+
+  for (const block of node.querySelectorAll<HTMLElement>('[data-runnable]')) {
+    const controls = document.createElement('div');
+    // Untitled blocks pad the code themselves, so the panel reaches out to their edges.
+    const edges = block.querySelector('.code-block-header') ? [] : ['-mx-4', '-mb-4', 'mt-4'];
+    controls.className = ['border-t', 'border-slate-800', 'text-xs', ...edges].join(' ');
+
+    const bar = document.createElement('div');
+    bar.className = 'flex items-center gap-2 px-4 py-2';
+
+    const runButton = createButton('Run');
+    const resetButton = createButton('Reset');
+    resetButton.disabled = true;
+
+    const status = document.createElement('span');
+    status.className = 'text-slate-400';
+    status.setAttribute('role', 'status');
+
+    const output = document.createElement('pre');
+    output.className =
+      'max-h-64 overflow-auto border-t border-slate-800 px-4 py-2 whitespace-pre-wrap';
+    output.setAttribute('role', 'log');
+    output.setAttribute('aria-label', 'Output');
+    output.hidden = true;
+
+    bar.append(runButton, resetButton, status);
+    controls.append(bar, output);
+    block.append(controls);
+
+    const runner: Runner = {
+      block,
+      controls,
+      output,
+      status,
+      reset: resetButton,
+      worker: null,
+      timer: undefined,
+      done: false,
+      attempt: 0,
+    };
+    runButton.addEventListener('click', () => void run(runner));
+    resetButton.addEventListener('click', () => reset(runner, runButton));
+    runners.push(runner);
+  }
+
+  return {
+    destroy() {
+      for (const runner of runners) {
+        stop(runner);
+        runner.controls.remove();
+      }
+    },
+  };
+}
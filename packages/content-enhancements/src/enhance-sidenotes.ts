@@ -0,0 +1,225 @@
+const WIDE_QUERY = '(min-width: 80rem)';
+const SIDENOTE_GAP = 12;
+
+const ROOT_WIDE_CLASSES = ['relative', 'pr-72'];
+
+const SIDENOTE_CLASSES = [
+  'absolute',
+  'right-0',
+  'w-64',
+  'border-l-2',
+  'border-slate-200',
+  'pl-3',
+  'text-sm',
+  'leading-snug',
+  'text-slate-600',
+  'transition-colors',
+  'dark:border-slate-700',
+  'dark:text-slate-300',
+].join(' ');
+
+const SIDENOTE_ACTIVE_CLASSES = ['border-primary-500', 'dark:border-primary-400'];
+
+const NUMBER_CLASSES = ['mr-1', 'font-semibold', 'text-slate-900', 'dark:text-white'].join(' ');
+
+const POPOVER_CLASSES = [
+  'fixed',
+  'inset-auto',
+  'm-0',
+  'max-w-[min(24rem,calc(100vw-1rem))]',
+  'rounded-md',
+  'border',
+  'border-slate-200',
+  'bg-white',
+  'p-3',
+  'text-sm',
+  'leading-snug',
+  'text-slate-700',
+  'shadow-lg',
+  'dark:border-slate-700',
+  'dark:bg-slate-900',
+  'dark:text-slate-200',
+].join(' ');
+
+type Footnote = {
+  reference: HTMLAnchorElement;
+  number: string;
+  content: DocumentFragment;
+};
+
+/**
+ * Where each sidenote goes, given where it would like to sit (its reference's
+ * offset) and how tall it is. Notes keep their order and are pushed down just
+ * far enough to clear the one above.
+ */
+export const layoutSidenotes = (
+  notes: ReadonlyArray<{ top: number; height: number }>,
+  gap = SIDENOTE_GAP,
+): number[] => {
+  let bottom = -Infinity;
+
+  return notes.map(({ top, height }) => {
+    const placed = Math.max(top, bottom + gap);
+    bottom = placed + height;
+    return placed;
+  });
+};
+
+/**
+ * Pair each footnote reference with its note. The markdown pipeline renders
+ * references as `a.footnote-ref` and notes as `li` elements in a closing
+ * `.footnotes` list (GFM's `data-footnote-*` markup works too); a note's
+ * content is copied without its "back to text" link.
+ */
+const collectFootnotes = (node: HTMLElement): Footnote[] => {
+  const footnotes: Footnote[] = [];
+
+  for (const reference of node.querySelectorAll<HTMLAnchorElement>(
+    'a.footnote-ref, a[data-footnote-ref]',
+  )) {
+    const id = decodeURIComponent(reference.getAttribute('href')?.slice(1) ?? '');
+    const item = id ? node.ownerDocument.getElementById(id) : null;
+    if (!item || !node.contains(item)) continue;
+
+    const content = document.createDocumentFragment();
+    for (const child of item.childNodes) content.appendChild(child.cloneNode(true));
+    for (const backReference of content.querySelectorAll(
+      '.footnote-backref, [data-footnote-backref]',
+    )) {
+      backReference.remove();
+    }
+
+    footnotes.push({ reference, number: reference.textContent?.trim() ?? '', content });
+  }
+
+  return footnotes;
+};
+
+/**
+ * Move footnotes next to the text that cites them. On wide screens each note
+ * becomes a sidenote in a margin carved out of the content root, aligned with
+ * its reference and stacked so notes never overlap, and the list at the
+ * bottom is hidden. On narrow screens the list stays, and tapping a reference
+ * shows the note in a popover instead of jumping away from the text.
+ */
+export function enhanceSidenotes(node: HTMLElement): { destroy: () => void } {
+  const footnotes = collectFootnotes(node);
+  const list = node.querySelector<HTMLElement>('.footnotes, [data-footnotes]');
+  if (footnotes.length === 0 || !list) return { destroy() {} };
+
+  const media = window.matchMedia(WIDE_QUERY);
+  let sidenotes: HTMLElement[] = [];
+  let frame = 0;
+
+  // Repeated citations of one note share a single sidenote, at the first citation.
+  const distinct = footnotes.filter(
+    (footnote, index) =>
+      footnotes.findIndex((other) => other.reference.hash === footnote.reference.hash) === index,
+  );
+
+  const position = (): void => {
+    frame = 0;
+    const rootTop = node.getBoundingClientRect().top;
+    const tops = layoutSidenotes(
+      sidenotes.map((sidenote, index) => ({
+        top: distinct[index]!.reference.getBoundingClientRect().top - rootTop,
+        height: sidenote.offsetHeight,
+      })),
+    );
+    sidenotes.forEach((sidenote, index) => (sidenote.style.top = `${tops[index]}px`));
+  };
+
+  const schedulePosition = (): void => {
+    if (!frame) frame = requestAnimationFrame(position);
+  };
+
+  // Images loading and fonts swapping move the references, so re-place the notes.
+  const resizeObserver =
+    typeof ResizeObserver === 'undefined' ? null : new ResizeObserver(schedulePosition);
+
+  const showSidenotes = (): void => {
+    node.classList.add(...ROOT_WIDE_CLASSES);
+    list.hidden = true;
+
+    sidenotes = distinct.map(({ number, content }) => {
+      const sidenote = document.createElement('aside');
+      sidenote.className = SIDENOTE_CLASSES;
+      sidenote.setAttribute('role', 'note');
+      sidenote.dataset.sidenote = '';
+
+      const label = document.createElement('span');
+      label.className = NUMBER_CLASSES;
+      label.textContent = `${number}.`;
+      sidenote.append(label, content.cloneNode(true));
+
+      node.appendChild(sidenote);
+      return sidenote;
+    });
+
+    resizeObserver?.observe(node);
+    position();
+  };
+
+  const hideSidenotes = (): void => {
+    resizeObserver?.disconnect();
+    if (frame) cancelAnimationFrame(frame);
+    frame = 0;
+    for (const sidenote of sidenotes) sidenote.remove();
+    sidenotes = [];
+    node.classList.remove(...ROOT_WIDE_CLASSES);
+    list.hidden = false;
+  };
+
+  const update = (): void => {
+    hideSidenotes();
+    if (media.matches) showSidenotes();
+  };
+
+  // Narrow screens: a popover with the note, closed by tapping elsewhere or pressing Escape.
+  const supportsPopover = 'showPopover' in HTMLElement.prototype;
+  const popover = document.createElement('div');
+  popover.className = POPOVER_CLASSES;
+  popover.setAttribute('popover', 'auto');
+  popover.setAttribute('role', 'note');
+  if (supportsPopover) node.appendChild(popover);
+
+  const onClick = (event: MouseEvent): void => {
+    const reference = (event.target as Element | null)?.closest<HTMLAnchorElement>(
+      'a.footnote-ref, a[data-footnote-ref]',
+    );
+    const footnote = distinct.find((candidate) => candidate.reference.hash === reference?.hash);
+    // Without popovers, narrow screens fall back to jumping to the list.
+    if (!reference || !footnote || (!media.matches && !supportsPopover)) return;
+
+    event.preventDefault();
+
+    if (media.matches) {
+      // The note is already beside the text; point at it instead of jumping away.
+      const sidenote = sidenotes[distinct.indexOf(footnote)];
+      sidenote?.classList.add(...SIDENOTE_ACTIVE_CLASSES);
+      setTimeout(() => sidenote?.classList.remove(...SIDENOTE_ACTIVE_CLASSES), 1500);
+      return;
+    }
+
+    popover.replaceChildren(footnote.content.cloneNode(true));
+    popover.showPopover();
+    // Measure once it's showing, then keep it under the reference and inside the viewport.
+    const rect = reference.getBoundingClientRect();
+    const left = Math.min(rect.left, window.innerWidth - popover.offsetWidth - 8);
+    popover.style.top = `${rect.bottom + 8}px`;
+    popover.style.left = `${Math.max(8, left)}px`;
+  };
+
+  node.addEventListener('click', onClick);
+  media.addEventListener('change', update);
+  update();
+
+  return {
+    destroy() {
+      node.removeEventListener('click', onClick);
+      media.removeEventListener('change', update);
+      hideSidenotes();
+      popover.remove();
+    },
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * Runs one `run` snippet for enhance-runnable-code. The page creates a worker
+ * per run, posts it the code, and terminates it when the run times out or is
+ * reset, which also ends code that never returns. Console calls and uncaught
+ * errors come back as text, since functions and DOM nodes can't be posted.
+ *
+ * Built as its own entry next to the enhancement bundle. In production
+ * `vercel.json` serves it with a policy that allows `blob:` scripts and
+ * nothing else, so the snippet can load as a module but can't reach the
+ * network. The dev server sends no policy.
+ */
+
+type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+const levels: ConsoleLevel[] = ['log', 'info', 'warn', 'error', 'debug'];
+
+// The DOM library types `postMessage` for windows, which take a target origin.
+const scope = self as unknown as {
+  postMessage: (message: unknown) => void;
+  addEventListener: typeof addEventListener;
+};
+
+const format = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (value instanceof Error) return `${value.name}: ${value.message}`;
+  if (typeof value === 'function') return `[Function ${value.name || 'anonymous'}]`;
+  if (typeof value === 'bigint') return `${value}n`;
+  if (typeof value !== 'object' || value === null) return String(value);
+
+  try {
+    const seen = new WeakSet<object>();
+    return JSON.stringify(
+      value,
+      (_key, item: unknown) => {
+        if (typeof item === 'bigint') return `${item}n`;
+        if (typeof item === 'object' && item !== null) {
+          if (seen.has(item)) return '[Circular]';
+          seen.add(item);
+        }
+        return item;
+      },
+      2,
+    );
+  } catch {
+    return String(value);
+  }
+};
+
+const send = (level: ConsoleLevel, text: string): void =>
+  scope.postMessage({ source: 'runnable-code', type: 'console', level, text });
+
+for (const level of levels) {
+  console[level] = (...values: unknown[]) => send(level, values.map(format).join(' '));
+}
+
+// Handled here, so the page's `error` listener on the worker only hears about a
+// worker that failed to start.
+scope.addEventListener('error', (event: ErrorEvent) => {
+  event.preventDefault();
+  send('error', event.error ? `Uncaught ${format(event.error)}` : event.message);
+});
+scope.addEventListener('unhandledrejection', (event: PromiseRejectionEvent) => {
+  event.preventDefault();
+  send('error', `Uncaught (in promise) ${format(event.reason)}`);
+});
+
+// Importing the snippet as a module lets it use top-level `await`, and the
+// import settles only once that has finished, so `done` means done.
+scope.addEventListener(
+  'message',
+  async (event: MessageEvent<{ code: string }>) => {
+    const { code } = event.data;
+    const url = URL.createObjectURL(new Blob([code], { type: 'text/javascript' }));
+    try {
+      await import(/* @vite-ignore */ url);
+    } catch (error) {
+      send('error', `Uncaught ${format(error)}`);
+    } finally {
+      URL.revokeObjectURL(url);
+      scope.postMessage({ source: 'runnable-code', type: 'done' });
+    }
+  },
+  { once: true },
+);
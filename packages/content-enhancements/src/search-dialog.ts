@@ -0,0 +1,249 @@
+import {
+  querySearchIndex,
+  searchIndexVersion,
+  type SearchIndex,
+  type SearchResult,
+} from '@stevekinney/utilities/search-index';
+
+const DIALOG_CLASSES = [
+  'm-auto',
+  'mt-[10vh]',
+  'w-full',
+  'max-w-2xl',
+  'rounded-lg',
+  'border',
+  'border-slate-200',
+  'bg-white',
+  'p-0',
+  'text-slate-900',
+  'shadow-xl',
+  'backdrop:bg-slate-900/50',
+  'dark:border-slate-700',
+  'dark:bg-slate-900',
+  'dark:text-slate-100',
+].join(' ');
+
+const INPUT_CLASSES = [
+  'w-full',
+  'border-0',
+  'border-b',
+  'border-slate-200',
+  'bg-transparent',
+  'px-5',
+  'py-4',
+  'text-lg',
+  'focus:ring-0',
+  'focus:outline-none',
+  'dark:border-slate-700',
+].join(' ');
+
+const LIST_CLASSES = ['m-0', 'max-h-[60vh]', 'list-none', 'overflow-y-auto', 'p-2'].join(' ');
+
+const LINK_CLASSES = [
+  'block',
+  'rounded-md',
+  'px-3',
+  'py-2',
+  'no-underline',
+  'aria-selected:bg-slate-100',
+  'dark:aria-selected:bg-slate-800',
+].join(' ');
+
+const STATUS_CLASSES = ['px-5', 'py-4', 'text-sm', 'text-slate-500', 'dark:text-slate-400'].join(
+  ' ',
+);
+
+const FOOTER_CLASSES = [
+  'border-t',
+  'border-slate-200',
+  'px-5',
+  'py-2',
+  'text-right',
+  'text-xs',
+  'dark:border-slate-700',
+].join(' ');
+
+const RESULT_LIMIT = 12;
+
+let dialog: HTMLDialogElement | null = null;
+let indexPromise: Promise<SearchIndex> | null = null;
+
+/** Fetched once per page and shared by every later open. A failed fetch is retried on the next open. */
+const loadSearchIndex = (indexUrl: string): Promise<SearchIndex> => {
+  indexPromise ??= fetch(indexUrl)
+    .then(async (response) => {
+      if (!response.ok) throw new Error(`Search index request failed (${response.status}).`);
+      const index = (await response.json()) as SearchIndex;
+      if (index.version !== searchIndexVersion) throw new Error('Search index is out of date.');
+      return index;
+    })
+    .catch((error: unknown) => {
+      indexPromise = null;
+      throw error;
+    });
+
+  return indexPromise;
+};
+
+const describeResult = (result: SearchResult): string => {
+  const location =
+    result.contentType === 'lesson'
+      ? result.courseTitle
+      : result.contentType === 'project'
+        ? 'Project'
+        : result.contentType === 'course'
+          ? 'Course'
+          : 'Writing';
+
+  return result.heading ? `${location} · ${result.title}` : (location ?? '');
+};
+
+const renderResult = (result: SearchResult, index: number): HTMLLIElement => {
+  const item = document.createElement('li');
+  const link = document.createElement('a');
+  link.href = result.href;
+  link.id = `search-dialog-result-${index}`;
+  link.className = LINK_CLASSES;
+  link.setAttribute('role', 'option');
+  link.setAttribute('aria-selected', String(index === 0));
+
+  const title = document.createElement('span');
+  title.className = 'block font-semibold';
+  title.textContent = result.heading ?? result.title;
+
+  const context = document.createElement('span');
+  context.className = 'block text-xs text-slate-500 dark:text-slate-400';
+  context.textContent = describeResult(result);
+
+  const excerpt = document.createElement('span');
+  excerpt.className = 'block text-sm text-slate-600 dark:text-slate-300';
+  excerpt.textContent = result.excerpt;
+
+  link.append(title, context, excerpt);
+  item.appendChild(link);
+  return item;
+};
+
+const createDialog = (indexUrl: string): HTMLDialogElement => {
+  const element = document.createElement('dialog');
+  element.className = DIALOG_CLASSES;
+  element.setAttribute('aria-label', 'Search');
+  element.dataset.searchDialog = '';
+
+  const input = document.createElement('input');
+  input.type = 'search';
+  input.placeholder = 'Search writing, courses, and projects…';
+  input.className = INPUT_CLASSES;
+  input.setAttribute('aria-label', 'Search');
+  input.setAttribute('role', 'combobox');
+  input.setAttribute('aria-controls', 'search-dialog-results');
+  input.setAttribute('aria-expanded', 'false');
+  input.autocomplete = 'off';
+
+  const status = document.createElement('p');
+  status.className = STATUS_CLASSES;
+  status.setAttribute('role', 'status');
+
+  const list = document.createElement('ul');
+  list.id = 'search-dialog-results';
+  list.className = LIST_CLASSES;
+  list.setAttribute('role', 'listbox');
+
+  const footer = document.createElement('p');
+  footer.className = FOOTER_CLASSES;
+  const searchPageLink = document.createElement('a');
+  searchPageLink.href = '/search';
+  searchPageLink.textContent = 'Open the search page';
+  footer.appendChild(searchPageLink);
+
+  element.append(input, status, list, footer);
+
+  let activeIndex = 0;
+
+  const options = (): HTMLAnchorElement[] => [...list.querySelectorAll<HTMLAnchorElement>('a')];
+
+  const setActive = (nextIndex: number): void => {
+    const links = options();
+    if (links.length === 0) return;
+    activeIndex = (nextIndex + links.length) % links.length;
+    links.forEach((link, index) =>
+      link.setAttribute('aria-selected', String(index === activeIndex)),
+    );
+    input.setAttribute('aria-activedescendant', links[activeIndex].id);
+    links[activeIndex].scrollIntoView({ block: 'nearest' });
+  };
+
+  const update = async (): Promise<void> => {
+    const query = input.value;
+    searchPageLink.href = query ? `/search?q=${encodeURIComponent(query)}` : '/search';
+
+    if (!query.trim()) {
+      list.replaceChildren();
+      status.textContent = '';
+      input.setAttribute('aria-expanded', 'false');
+      return;
+    }
+
+    let index: SearchIndex;
+    try {
+      status.textContent = 'Loading…';
+      index = await loadSearchIndex(indexUrl);
+    } catch {
+      status.textContent = 'Search is unavailable right now.';
+      return;
+    }
+
+    // A slower response for an earlier keystroke must not overwrite newer results.
+    if (input.value !== query) return;
+
+    const results = querySearchIndex(index, query, RESULT_LIMIT);
+    list.replaceChildren(...results.map(renderResult));
+    status.textContent = results.length === 0 ? `No results for “${query}”.` : '';
+    input.setAttribute('aria-expanded', String(results.length > 0));
+    activeIndex = 0;
+    if (results.length > 0) input.setAttribute('aria-activedescendant', 'search-dialog-result-0');
+    else input.removeAttribute('aria-activedescendant');
+  };
+
+  input.addEventListener('input', () => void update());
+  input.addEventListener('keydown', (event) => {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      setActive(activeIndex + (event.key === 'ArrowDown' ? 1 : -1));
+    } else if (event.key === 'Enter') {
+      const link = options()[activeIndex];
+      if (!link) return;
+      event.preventDefault();
+      element.close();
+      window.location.assign(link.href);
+    }
+  });
+
+  // Following a result to an anchor on the current page leaves the document in
+  // place, so close the dialog rather than leaving it over the target heading.
+  list.addEventListener('click', (event) => {
+    if ((event.target as Element | null)?.closest('a')) element.close();
+  });
+
+  // Clicks on the backdrop land on the dialog element itself.
+  element.addEventListener('click', (event) => {
+    if (event.target === element) element.close();
+  });
+
+  return element;
+};
+
+/**
+ * Open the site-wide search dialog, creating it on first use. The index is
+ * only fetched once someone types, so opening the dialog costs nothing.
+ */
+export function openSearchDialog(indexUrl: string): HTMLDialogElement {
+  if (!dialog || !dialog.isConnected) {
+    dialog = createDialog(indexUrl);
+    document.body.appendChild(dialog);
+  }
+
+  if (!dialog.open) dialog.showModal();
+  dialog.querySelector('input')?.focus();
+  return dialog;
+}
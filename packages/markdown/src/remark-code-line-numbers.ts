@@ -0,0 +1,27 @@
+import { visit } from 'unist-util-visit';
+import type { Root } from 'mdast';
+import type { Transformer } from 'unified';
+
+const LINE_NUMBERS_PATTERN = /(?:^|\s)showLineNumbers(?:\{\d+\})?(?=\s|$)/;
+const ID_PATTERN = /(?:^|\s)id="[^"]+"/;
+
+/**
+ * Give every fence with `showLineNumbers` an `id="code-N"` meta, where N
+ * counts the page's fences from 1, so the highlighter can anchor each line as
+ * `#code-N-L12`. A fence that already has an `id="…"` keeps it, which is how
+ * an author pins anchors that survive blocks being added above. This runs
+ * after the plugins that add or move fences.
+ */
+export default function remarkCodeLineNumbers(): Transformer<Root> {
+  return function transformer(tree: Root): void {
+    let blocks = 0;
+
+    visit(tree, 'code', (node) => {
+      blocks += 1;
+      if (!node.meta || !LINE_NUMBERS_PATTERN.test(node.meta) || ID_PATTERN.test(node.meta)) {
+        return;
+      }
+      node.meta = `${node.meta} id="code-${blocks}"`;
+    });
+  };
+}
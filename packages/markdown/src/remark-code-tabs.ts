@@ -0,0 +1,91 @@
+import { visit } from 'unist-util-visit';
+import type { Code, Html, Parent, Root, RootContent } from 'mdast';
+import type { Transformer } from 'unified';
+
+const TAB_PATTERN = /(?:^|\s)tab="([^"]+)"/;
+
+const GROUP_CLASSES =
+  'not-prose not-last:mb-4 overflow-hidden rounded-md border-2 border-slate-800 bg-[#011627]';
+const TAB_CLASSES =
+  'cursor-pointer border-b-2 border-transparent px-3 py-1.5 text-slate-400 hover:text-slate-200 focus-visible:outline-2 focus-visible:outline-offset-[-2px] focus-visible:outline-primary-400 aria-selected:border-primary-400 aria-selected:text-white';
+
+/** The label of a fence's `tab="…"` meta, if it has one. */
+export const parseTabLabel = (meta: string | null | undefined): string | undefined =>
+  meta?.match(TAB_PATTERN)?.[1];
+
+// Labels end up inside a Svelte template, so braces have to be entities too.
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\{/g, '&#123;')
+    .replace(/\}/g, '&#125;');
+
+const html = (value: string): Html => ({ type: 'html', value });
+
+/**
+ * Wrap a run of fences in a tab list and one tab panel per fence. The fences
+ * themselves stay `code` nodes so the highlighter still renders them.
+ */
+const createGroup = (blocks: Code[], id: string): RootContent[] => {
+  const labels = blocks.map((block) => escapeHtml(parseTabLabel(block.meta)!));
+  const tabs = labels
+    .map(
+      (label, index) =>
+        `<button type="button" role="tab" id="${id}-tab-${index}" aria-controls="${id}-panel-${index}" aria-selected="${index === 0}" tabindex="${index === 0 ? 0 : -1}" class="${TAB_CLASSES}" data-code-tab="${label}">${label}</button>`,
+    )
+    .join('');
+  const panel = (index: number) =>
+    `<div role="tabpanel" id="${id}-panel-${index}" aria-labelledby="${id}-tab-${index}" data-code-tab="${labels[index]}"${index === 0 ? '' : ' hidden'}>`;
+
+  return [
+    html(
+      `<div class="${GROUP_CLASSES}" data-code-tabs><div class="code-block-header"><div role="tablist" aria-label="Code variants" class="flex flex-wrap gap-1">${tabs}</div></div>${panel(0)}`,
+    ),
+    ...blocks.flatMap((block, index) =>
+      index === 0 ? [block] : [html(`</div>${panel(index)}`), block],
+    ),
+    html('</div></div>'),
+  ];
+};
+
+/**
+ * Group consecutive fences that carry a `tab="…"` meta, such as the same
+ * install command for npm, pnpm, and Bun, into one tabbed block. The first tab
+ * is selected in the markup; `enhance-code-tabs` switches tabs and remembers
+ * the reader's choice of label across the site.
+ */
+export default function remarkCodeTabs(): Transformer<Root> {
+  return function transformer(tree: Root): void {
+    let groups = 0;
+
+    visit(tree, (node) => {
+      if (!('children' in node)) return;
+      const parent = node as Parent;
+      const children: RootContent[] = [];
+      let run: Code[] = [];
+
+      const flush = () => {
+        if (run.length > 0) {
+          groups += 1;
+          children.push(...createGroup(run, `code-tabs-${groups}`));
+        }
+        run = [];
+      };
+
+      for (const child of parent.children as RootContent[]) {
+        if (child.type === 'code' && parseTabLabel(child.meta)) {
+          run.push(child);
+          continue;
+        }
+        flush();
+        children.push(child);
+      }
+      flush();
+
+      parent.children = children as Parent['children'];
+    });
+  };
+}
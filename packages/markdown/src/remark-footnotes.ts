@@ -0,0 +1,101 @@
+import { SKIP, visit } from 'unist-util-visit';
+import type {
+  Definition,
+  FootnoteDefinition,
+  FootnoteReference,
+  LinkReference,
+  Paragraph,
+  PhrasingContent,
+  Root,
+} from 'mdast';
+import type { Transformer } from 'unified';
+
+const footnoteLabel = (node: { label?: string | null }): string | undefined =>
+  node.label?.startsWith('^') ? node.label.slice(1) : undefined;
+
+const isFootnoteReference = (node: PhrasingContent | undefined): node is LinkReference =>
+  node?.type === 'linkReference' && footnoteLabel(node) !== undefined;
+
+const createDefinition = (label: string, children: PhrasingContent[]): FootnoteDefinition => ({
+  type: 'footnoteDefinition',
+  identifier: label.toLowerCase(),
+  label,
+  children: [{ type: 'paragraph', children }],
+});
+
+/**
+ * Split a paragraph of `[^label]: text` lines into one definition per label,
+ * or return `undefined` when the paragraph isn't footnote definitions.
+ */
+const splitDefinitions = (paragraph: Paragraph): FootnoteDefinition[] | undefined => {
+  const definitions: Array<{ label: string; children: PhrasingContent[] }> = [];
+  const { children } = paragraph;
+
+  for (let index = 0; index < children.length; index += 1) {
+    const node = children[index]!;
+    const next = children[index + 1];
+    const previous = children[index - 1];
+    const startsLine = index === 0 || (previous?.type === 'text' && previous.value.endsWith('\n'));
+
+    if (startsLine && isFootnoteReference(node) && next?.type === 'text' && next.value[0] === ':') {
+      if (previous?.type === 'text') previous.value = previous.value.trimEnd();
+      definitions.push({ label: footnoteLabel(node)!, children: [] });
+      children[index + 1] = { ...next, value: next.value.slice(1).trimStart() };
+      continue;
+    }
+
+    if (definitions.length === 0) return undefined;
+    definitions.at(-1)!.children.push(node);
+  }
+
+  return definitions.map(({ label, children }) => createDefinition(label, children));
+};
+
+/**
+ * Turn `[^label]` references and `[^label]: text` definitions into footnote
+ * nodes. The remark bundled with mdsvex predates footnote syntax: it reads a
+ * reference as a shortcut link reference, and a definition as a paragraph, or
+ * as a link definition when the note is a single word. Its HTML compiler
+ * still renders footnote nodes, as `sup > a.footnote-ref` references and a
+ * closing `div.footnotes` list, which `enhance-sidenotes` moves into the
+ * margin. A tree from a current parser with `remark-gfm` already has these
+ * nodes, and passes through unchanged.
+ */
+export default function remarkFootnotes(): Transformer<Root> {
+  return function transformer(tree: Root): void {
+    visit(tree, ['paragraph', 'definition'], (node, index, parent) => {
+      if (!parent || index === undefined) return;
+
+      if (node.type === 'definition') {
+        const label = footnoteLabel(node as Definition);
+        if (!label) return;
+        const { url, title } = node as Definition;
+        const text = title ? `${url} ${title}` : url;
+        parent.children.splice(index, 1, createDefinition(label, [{ type: 'text', value: text }]));
+        return SKIP;
+      }
+
+      const definitions = splitDefinitions(node as Paragraph);
+      if (!definitions) return;
+      parent.children.splice(index, 1, ...definitions);
+      return [SKIP, index + definitions.length];
+    });
+
+    // Number notes in the order they're cited, as GitHub does, rather than showing the label.
+    const numbers = new Map<string, number>();
+
+    visit(tree, 'linkReference', (node, index, parent) => {
+      const label = footnoteLabel(node);
+      if (!parent || index === undefined || !label) return;
+
+      const identifier = label.toLowerCase();
+      if (!numbers.has(identifier)) numbers.set(identifier, numbers.size + 1);
+      const reference: FootnoteReference = {
+        type: 'footnoteReference',
+        identifier,
+        label: String(numbers.get(identifier)),
+      };
+      parent.children.splice(index, 1, reference);
+    });
+  };
+}
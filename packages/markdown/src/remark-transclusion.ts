@@ -0,0 +1,171 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import GithubSlugger from 'github-slugger';
+import { toString } from 'mdast-util-to-string';
+import { SKIP, visit } from 'unist-util-visit';
+import type { Heading, Root, RootContent } from 'mdast';
+import type { Plugin, Processor } from 'unified';
+import type { VFile } from 'vfile';
+import { parseFrontmatter } from '@stevekinney/utilities/frontmatter';
+import {
+  createWikilinkResolver,
+  parseIncludeBlock,
+  parseTransclusionEmbed,
+  wikilinkHeadingAnchor,
+  type Wikilink,
+  type WikilinkResolver,
+  type WikilinkRoute,
+} from '@stevekinney/utilities/wikilinks';
+
+import { loadWikilinkResolver, mergeShortcutReferences } from './wikilink-routes.ts';
+
+type Options = {
+  /** The generated content data whose route table included notes resolve against. */
+  contentDataPath?: string;
+  /** Routes to resolve against instead of reading `contentDataPath`. */
+  routes?: WikilinkRoute[];
+  repositoryRoot?: string;
+};
+
+// ---------------------------------------------------------------------------
+// Sections
+// ---------------------------------------------------------------------------
+
+/**
+ * The blocks under the heading with this anchor, up to the next heading of
+ * the same or a higher level. The heading itself is left out so the including
+ * page can introduce the section at whatever level suits it.
+ */
+const extractSection = (tree: Root, anchor: string | undefined): RootContent[] | undefined => {
+  if (!anchor) return tree.children;
+
+  // Anchors are counted across every heading, as `rehype-slug` does.
+  const slugger = new GithubSlugger();
+  const anchors = new Map<Heading, string>();
+  visit(tree, 'heading', (node) => {
+    anchors.set(node, slugger.slug(toString(node)));
+  });
+
+  const start = tree.children.findIndex(
+    (node) => node.type === 'heading' && anchors.get(node) === anchor,
+  );
+  if (start === -1) return undefined;
+
+  const { depth } = tree.children[start] as Heading;
+  const end = tree.children.findIndex(
+    (node, index) => index > start && node.type === 'heading' && node.depth <= depth,
+  );
+  return tree.children.slice(start + 1, end === -1 ? undefined : end);
+};
+
+const externalUrlPattern = /^([a-z][a-z+.-]*:|\/|#)/i;
+
+/** Point relative links and images in an included section at the same files from the host. */
+const rebaseUrls = (nodes: RootContent[], fromDirectory: string, toDirectory: string): void => {
+  if (fromDirectory === toDirectory) return;
+
+  for (const node of nodes) {
+    visit(node, ['link', 'image', 'definition'], (child) => {
+      const reference = child as { url?: string };
+      if (!reference.url || externalUrlPattern.test(reference.url)) return;
+
+      const rebased = path
+        .relative(toDirectory, path.resolve(fromDirectory, reference.url))
+        .split(path.sep)
+        .join('/');
+      reference.url = rebased.startsWith('.') ? rebased : `./${rebased}`;
+    });
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Plugin
+// ---------------------------------------------------------------------------
+
+/**
+ * Replace a paragraph holding only `![[Note#Heading]]`, or a fenced `include`
+ * block listing such references, with that section of the other note. Notes
+ * resolve like wikilinks, included sections may include others, and a cycle
+ * leaves the reference in place for content:validate to report. This runs
+ * before the other remark plugins so they see the included Markdown too.
+ */
+const remarkTransclusion: Plugin<[Options?], Root> = function (this: Processor, options = {}) {
+  // Parse included notes with the same parser, so mdsvex's older remark reads them as it
+  // reads the page.
+  const parse = (content: string): Root => this.parse(content) as Root;
+  const repositoryRoot = options.repositoryRoot ?? path.resolve(process.cwd(), '..', '..');
+  const contentDataPath =
+    options.contentDataPath ?? path.resolve(process.cwd(), '.generated', 'content-data.json');
+  const staticResolver = options.routes ? createWikilinkResolver(options.routes) : null;
+
+  const include = (
+    wikilink: Wikilink,
+    filename: string,
+    resolve: WikilinkResolver,
+    stack: string[],
+  ): RootContent[] | undefined => {
+    const sourcePath = path.relative(repositoryRoot, filename).split(path.sep).join('/');
+    const [route, ...others] = resolve(wikilink.target, sourcePath);
+    if (!route || others.length > 0) return undefined;
+
+    const anchor = wikilink.heading ? wikilinkHeadingAnchor(wikilink.heading) : undefined;
+    const key = `${route.sourcePath}#${anchor ?? ''}`;
+    if (stack.includes(key)) return undefined;
+
+    const includedFilename = path.join(repositoryRoot, route.sourcePath);
+    const { content } = parseFrontmatter(readFileSync(includedFilename, 'utf8'));
+    const section = extractSection(parse(content), anchor);
+    if (!section) return undefined;
+
+    const expanded = expand({ type: 'root', children: section }, includedFilename, resolve, [
+      ...stack,
+      key,
+    ]);
+    rebaseUrls(expanded, path.dirname(includedFilename), path.dirname(filename));
+    return expanded;
+  };
+
+  const expand = (
+    tree: Root,
+    filename: string,
+    resolve: WikilinkResolver,
+    stack: string[],
+  ): RootContent[] => {
+    mergeShortcutReferences(tree);
+
+    visit(tree, (node, index, parent) => {
+      if (!parent || index === undefined) return;
+
+      let wikilinks: Wikilink[] = [];
+      if (node.type === 'code' && node.lang === 'include') {
+        wikilinks = parseIncludeBlock(node.value).map(({ wikilink }) => wikilink);
+      } else if (node.type === 'paragraph' && node.children.length === 1) {
+        const [child] = node.children;
+        const wikilink = child?.type === 'text' ? parseTransclusionEmbed(child.value) : undefined;
+        if (wikilink) wikilinks = [wikilink];
+      }
+      if (wikilinks.length === 0) return;
+
+      const sections = wikilinks.map((wikilink) => include(wikilink, filename, resolve, stack));
+      // Anything unresolved stays visible, and content:validate says why.
+      if (sections.some((section) => !section)) return SKIP;
+
+      const replacement = sections.flatMap((section) => section!);
+      parent.children.splice(index, 1, ...(replacement as typeof parent.children));
+      return [SKIP, index + replacement.length];
+    });
+
+    return tree.children;
+  };
+
+  return function transformer(tree: Root, file: VFile): void {
+    const filename =
+      file.path ?? (file as unknown as { filename?: string }).filename ?? file.history[0] ?? '';
+    const sourcePath = path.relative(repositoryRoot, filename).split(path.sep).join('/');
+    const resolve = staticResolver ?? loadWikilinkResolver(contentDataPath);
+
+    expand(tree, filename, resolve, [`${sourcePath}#`]);
+  };
+};
+
+export default remarkTransclusion;
@@ -0,0 +1,132 @@
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import { SKIP, visit } from 'unist-util-visit';
+import type { Image, Link, PhrasingContent, Root, Text } from 'mdast';
+import type { Plugin } from 'unified';
+import type { VFile } from 'vfile';
+import {
+  createWikilinkResolver,
+  isWikilinkAsset,
+  parseWikilinks,
+  wikilinkAssetCandidates,
+  wikilinkHeadingAnchor,
+  type Wikilink,
+  type WikilinkResolver,
+  type WikilinkRoute,
+} from '@stevekinney/utilities/wikilinks';
+
+import { loadWikilinkResolver, mergeShortcutReferences } from './wikilink-routes.ts';
+
+type Options = {
+  /** The generated content data whose route table wikilinks resolve against. */
+  contentDataPath?: string;
+  /** Routes to resolve against instead of reading `contentDataPath`. */
+  routes?: WikilinkRoute[];
+  repositoryRoot?: string;
+};
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+const embedSizePattern = /^(\d+)(?:x(\d+))?$/;
+
+const renderAsset = (wikilink: Wikilink, filename: string): Image => {
+  const candidates = wikilinkAssetCandidates(wikilink.target);
+  const url =
+    candidates.find((candidate) => existsSync(path.resolve(path.dirname(filename), candidate))) ??
+    candidates[0];
+  // `![[diagram.png|300]]` sets the width, as in Obsidian; any other label is the alt text.
+  const size = wikilink.label?.match(embedSizePattern);
+  const alt = size ? path.basename(wikilink.target).replace(/\.[^.]+$/, '') : wikilink.label;
+
+  return {
+    type: 'image',
+    url,
+    alt: alt ?? path.basename(wikilink.target).replace(/\.[^.]+$/, ''),
+    ...(size && { data: { hProperties: { width: size[1], ...(size[2] && { height: size[2] }) } } }),
+  };
+};
+
+const renderLink = (url: string, label: string): Link => ({
+  type: 'link',
+  url,
+  children: [{ type: 'text', value: label }],
+});
+
+const renderWikilink = (
+  wikilink: Wikilink,
+  filename: string,
+  sourcePath: string,
+  resolve: WikilinkResolver,
+): PhrasingContent => {
+  const { target, heading, label } = wikilink;
+  const fragment = heading ? `#${wikilinkHeadingAnchor(heading)}` : '';
+
+  if (wikilink.embed && isWikilinkAsset(target)) return renderAsset(wikilink, filename);
+  if (!target) return renderLink(fragment, label ?? heading ?? '');
+
+  const matches = resolve(target, sourcePath);
+  if (matches.length !== 1) {
+    // Unresolved and ambiguous links fail content:validate; the text keeps the page readable.
+    return { type: 'text', value: label ?? heading ?? target };
+  }
+
+  const [route] = matches;
+  return renderLink(`${route.path}${fragment}`, label ?? heading ?? route.title);
+};
+
+// ---------------------------------------------------------------------------
+// Plugin
+// ---------------------------------------------------------------------------
+
+/**
+ * Turn Obsidian `[[Note]]`, `[[Note#Heading|label]]`, and `![[image.png]]`
+ * syntax into ordinary links and images. Notes resolve against the generated
+ * route table by file name, headings become `rehype-slug` anchors, and embedded
+ * images resolve like Obsidian attachments so `rehype-enhance-images` can
+ * find them in the manifest.
+ */
+const remarkWikilinks: Plugin<[Options?], Root> = (options = {}) => {
+  const repositoryRoot = options.repositoryRoot ?? path.resolve(process.cwd(), '..', '..');
+  const contentDataPath =
+    options.contentDataPath ?? path.resolve(process.cwd(), '.generated', 'content-data.json');
+  const staticResolver = options.routes ? createWikilinkResolver(options.routes) : null;
+
+  return function transformer(tree: Root, file: VFile): void {
+    const filename =
+      file.path ?? (file as unknown as { filename?: string }).filename ?? file.history[0] ?? '';
+    const sourcePath = path.relative(repositoryRoot, filename).split(path.sep).join('/');
+    let resolve: WikilinkResolver | undefined;
+
+    mergeShortcutReferences(tree);
+
+    visit(tree, 'text', (node: Text, index, parent) => {
+      if (!parent || index === undefined || parent.type === 'link') return;
+
+      const wikilinks = parseWikilinks(node.value);
+      if (wikilinks.length === 0) return;
+
+      resolve ??= staticResolver ?? loadWikilinkResolver(contentDataPath);
+      const replacement: PhrasingContent[] = [];
+      let offset = 0;
+
+      for (const wikilink of wikilinks) {
+        if (wikilink.start > offset) {
+          replacement.push({ type: 'text', value: node.value.slice(offset, wikilink.start) });
+        }
+        replacement.push(renderWikilink(wikilink, filename, sourcePath, resolve));
+        offset = wikilink.end;
+      }
+
+      if (offset < node.value.length) {
+        replacement.push({ type: 'text', value: node.value.slice(offset) });
+      }
+
+      parent.children.splice(index, 1, ...replacement);
+      return [SKIP, index + replacement.length];
+    });
+  };
+};
+
+export default remarkWikilinks;
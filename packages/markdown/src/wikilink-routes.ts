@@ -0,0 +1,60 @@
+import { readFileSync, statSync } from 'node:fs';
+import { visit } from 'unist-util-visit';
+import { toString } from 'mdast-util-to-string';
+import type { LinkReference, Parent, Text } from 'mdast';
+import type { GeneratedContent } from '@stevekinney/utilities/content-types';
+import { createWikilinkResolver, type WikilinkResolver } from '@stevekinney/utilities/wikilinks';
+
+// ---------------------------------------------------------------------------
+// Route table loading (reloaded when content:build rewrites it)
+// ---------------------------------------------------------------------------
+
+let cachedResolver: { path: string; modified: number; resolve: WikilinkResolver } | null = null;
+
+export const loadWikilinkResolver = (contentDataPath: string): WikilinkResolver => {
+  let modified: number;
+  try {
+    modified = statSync(contentDataPath).mtimeMs;
+  } catch {
+    // Without a content build nothing resolves, and content:validate reports why.
+    return createWikilinkResolver([]);
+  }
+
+  if (cachedResolver?.path === contentDataPath && cachedResolver.modified === modified) {
+    return cachedResolver.resolve;
+  }
+
+  const { routes } = JSON.parse(readFileSync(contentDataPath, 'utf8')) as GeneratedContent;
+  const resolve = createWikilinkResolver(Object.values(routes));
+  cachedResolver = { path: contentDataPath, modified, resolve };
+  return resolve;
+};
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/**
+ * The remark bundled with mdsvex reads `[[Note]]` as a `[` text, a shortcut
+ * reference to `Note`, and a `]` text, since it doesn't check that a
+ * definition exists. Stitch those back into one text node so wikilinks look
+ * the same whichever parser produced the tree.
+ */
+export const mergeShortcutReferences = (tree: Parent): void => {
+  visit(tree, 'linkReference', (node: LinkReference, index, parent) => {
+    if (!parent || index === undefined || node.referenceType !== 'shortcut') return;
+
+    const before = parent.children[index - 1];
+    const after = parent.children[index + 1];
+    if (before?.type !== 'text' || !before.value.endsWith('[')) return;
+    if (after?.type !== 'text' || !after.value.startsWith(']')) return;
+
+    const merged: Text = {
+      type: 'text',
+      value: `${before.value}[${node.label ?? toString(node)}]${after.value}`,
+    };
+    parent.children.splice(index - 1, 3, merged);
+    // The merged text may end in the `[` of the next wikilink, so look at this index again.
+    return index;
+  });
+};
@@ -0,0 +1,83 @@
+#!/usr/bin/env bun
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+
+import type { ImageManifest } from '@stevekinney/utilities/image-manifest';
+
+import {
+  courseEpubOutputDirectory,
+  imageManifestPath,
+  resolveRepositoryPath,
+  websitePrerenderedPagesRoot,
+} from './content-paths.ts';
+import { buildCourseEpub } from './course-epub/epub.ts';
+import { createZipArchive } from './course-epub/zip.ts';
+
+const usage = `Usage: bun build-course-epub.ts <course> [--source <file or URL>] [--output <file>]
+
+Packages a course's print edition as an EPUB. By default it reads the page the
+website build prerendered at /courses/<course>/print, so run the build first,
+or pass --source http://localhost:4444/courses/<course>/print while the dev
+server is running.`;
+
+const readArguments = () => {
+  try {
+    const { positionals, values } = parseArgs({
+      allowPositionals: true,
+      options: { source: { type: 'string' }, output: { type: 'string' } },
+    });
+    const [courseSlug] = positionals;
+    if (!courseSlug || positionals.length > 1) throw new Error('Expected exactly one course.');
+    return { courseSlug, ...values };
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : error}\n\n${usage}`);
+    process.exit(1);
+  }
+};
+
+const readSource = async (source: string): Promise<string> => {
+  if (!/^https?:\/\//.test(source)) return readFile(source, 'utf8');
+
+  const response = await fetch(source);
+  if (!response.ok) throw new Error(`Request for ${source} failed (${response.status}).`);
+  return response.text();
+};
+
+const readImage = async (repositoryPath: string): Promise<Uint8Array | null> => {
+  try {
+    return await readFile(resolveRepositoryPath(repositoryPath));
+  } catch {
+    return null;
+  }
+};
+
+const main = async (): Promise<void> => {
+  const { courseSlug, source, output } = readArguments();
+  const sourcePath =
+    source ?? path.join(websitePrerenderedPagesRoot, 'courses', courseSlug, 'print.html');
+  const outputPath = path.resolve(
+    output ?? path.join(courseEpubOutputDirectory, `${courseSlug}.epub`),
+  );
+
+  let html: string;
+  try {
+    html = await readSource(sourcePath);
+  } catch (error) {
+    console.error(`Could not read the print edition of '${courseSlug}' from ${sourcePath}.`);
+    console.error(error instanceof Error ? error.message : error);
+    console.error(`\n${usage}`);
+    process.exit(1);
+  }
+
+  const manifest = JSON.parse(await readFile(imageManifestPath, 'utf8')) as ImageManifest;
+  const { entries, warnings } = await buildCourseEpub({ html, manifest, readImage });
+
+  for (const warning of warnings) console.warn(`- ${warning}`);
+
+  await mkdir(path.dirname(outputPath), { recursive: true });
+  await writeFile(outputPath, createZipArchive(entries));
+  console.log(`Wrote ${outputPath}.`);
+};
+
+await main();
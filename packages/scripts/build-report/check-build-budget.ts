@@ -15,9 +15,11 @@ const REPORT_PATH = path.resolve(
 );
 
 // Thresholds are set at ~40% above current actuals so routine changes don't trip them.
-// Current actuals: largestClientChunk ~30 kB, mainStylesheet ~176 kB.
+// Current actuals: largestClientChunk ~30 kB, mainStylesheet ~176 kB, largestEnhancementChunk
+// ~4.2 MB (the TypeScript compiler, loaded only when a reader runs a `ts run` block).
 const LARGEST_CLIENT_CHUNK_LIMIT = 50_000; // 50 kB uncompressed
 const MAIN_STYLESHEET_LIMIT = 250_000; // 250 kB uncompressed
+const LARGEST_ENHANCEMENT_CHUNK_LIMIT = 6_000_000; // 6 MB uncompressed
 
 let report: BuildReport;
 try {
@@ -47,6 +49,14 @@ if (cssBytes > MAIN_STYLESHEET_LIMIT) {
   );
 }
 
+const enhancementBytes = report.assets.largestEnhancementChunk?.bytes ?? 0;
+if (enhancementBytes > LARGEST_ENHANCEMENT_CHUNK_LIMIT) {
+  violations.push(
+    `Largest content enhancement chunk: ${enhancementBytes} bytes exceeds limit of ${LARGEST_ENHANCEMENT_CHUNK_LIMIT} bytes` +
+      ` (${report.assets.largestEnhancementChunk?.path ?? 'unknown'})`,
+  );
+}
+
 if (violations.length > 0) {
   console.error('Build budget exceeded:');
   for (const violation of violations) {
@@ -56,5 +66,5 @@ if (violations.length > 0) {
 }
 
 console.log(
-  `Build budget check passed: JS chunk ${chunkBytes} bytes (<= ${LARGEST_CLIENT_CHUNK_LIMIT}), CSS ${cssBytes} bytes (<= ${MAIN_STYLESHEET_LIMIT}).`,
+  `Build budget check passed: JS chunk ${chunkBytes} bytes (<= ${LARGEST_CLIENT_CHUNK_LIMIT}), CSS ${cssBytes} bytes (<= ${MAIN_STYLESHEET_LIMIT}), enhancement chunk ${enhancementBytes} bytes (<= ${LARGEST_ENHANCEMENT_CHUNK_LIMIT}).`,
 );
@@ -0,0 +1,71 @@
+#!/usr/bin/env bun
+import { parseArgs } from 'node:util';
+
+import fg from 'fast-glob';
+
+import {
+  contentRepositoryCachePath,
+  coursesRoot,
+  externalLinkCachePath,
+  projectsRoot,
+  writingRoot,
+} from './content-paths.ts';
+import { loadContentRepositoryCache } from './content-repository/cache.ts';
+import { loadMarkdownSource } from './content-repository/markdown.ts';
+import {
+  loadExternalLinkCache,
+  saveExternalLinkCache,
+  type ExternalLinkCache,
+} from './external-links/cache.ts';
+import { checkExternalLinks } from './external-links/check.ts';
+import { collectExternalLinks } from './external-links/collect.ts';
+import { formatExternalLinkReport } from './external-links/report.ts';
+
+const usage = `Usage: bun check-external-links.ts [--refresh] [--json]
+
+Checks every external link in writing, courses, and project frontmatter.
+Results are cached in ${externalLinkCachePath}; --refresh ignores
+the cache. --json prints every result instead of the report. Exits with 1
+when a link is dead.`;
+
+const readArguments = () => {
+  try {
+    return parseArgs({
+      options: { refresh: { type: 'boolean' }, json: { type: 'boolean' } },
+    }).values;
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : error}\n\n${usage}`);
+    process.exit(1);
+  }
+};
+
+const main = async (): Promise<void> => {
+  const { refresh = false, json = false } = readArguments();
+
+  const files = [
+    ...(await fg('*.md', { cwd: writingRoot, absolute: true, onlyFiles: true })),
+    ...(await fg('*/*.md', { cwd: coursesRoot, absolute: true, onlyFiles: true })),
+    ...(await fg('*.md', { cwd: projectsRoot, absolute: true, onlyFiles: true })),
+  ].sort();
+  // Parsed Markdown from the last content build is reused, but never written back.
+  const repositoryCache = await loadContentRepositoryCache(contentRepositoryCachePath);
+  const sources = await Promise.all(files.map((file) => loadMarkdownSource(file, repositoryCache)));
+  const occurrences = collectExternalLinks(sources);
+
+  const cache: ExternalLinkCache = refresh
+    ? new Map()
+    : await loadExternalLinkCache(externalLinkCachePath);
+  const results = await checkExternalLinks(occurrences.keys(), { cache });
+  await saveExternalLinkCache(externalLinkCachePath, cache, occurrences.keys());
+
+  if (json) {
+    console.log(JSON.stringify(results, null, 2));
+  } else {
+    console.log(formatExternalLinkReport(results, occurrences));
+  }
+
+  // Bun can keep these CLI tasks alive after the work is done, so exit explicitly.
+  process.exit(results.some((result) => result.state === 'dead') ? 1 : 0);
+};
+
+await main();
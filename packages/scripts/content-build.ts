@@ -11,11 +11,16 @@ import {
   generatedContentDataPath,
   generatedContentDirectory,
   generatedContentEnhancementsDirectory,
+  generatedSearchDirectory,
+  generatedSearchIndexPath,
   repositoryRoot,
+  runnableCodeWorkerEntryPath,
   tailwindPlaygroundSourcePath,
 } from './content-paths.ts';
 import { computeContentEnhancementBuildHash } from './content-enhancement-build-hash.ts';
-import { collectContentRepository } from './content-repository.ts';
+import { collectContentRepository, type ContentRepository } from './content-repository.ts';
+import { hashContents } from './content-repository/markdown.ts';
+import { formatIssueLocation } from './validation-report.ts';
 
 const writeIfChanged = async (filePath: string, contents: string): Promise<boolean> => {
   try {
@@ -62,7 +67,7 @@ const buildContentEnhancements = async (): Promise<boolean> => {
   await rm(generatedContentEnhancementsDirectory, { recursive: true, force: true });
 
   const result = await Bun.build({
-    entrypoints: [contentEnhancementsEntryPath],
+    entrypoints: [contentEnhancementsEntryPath, runnableCodeWorkerEntryPath],
     outdir: generatedContentEnhancementsDirectory,
     target: 'browser',
     format: 'esm',
@@ -82,8 +87,29 @@ const buildContentEnhancements = async (): Promise<boolean> => {
   return true;
 };
 
+const searchIndexBuildHashPath = path.resolve(generatedSearchDirectory, '.build-hash');
+
+/**
+ * The index is fetched by the browser, so it is written compact rather than
+ * through Prettier. Its `.build-hash` sidecar versions the asset URL.
+ */
+const writeSearchIndex = async (
+  searchIndex: ContentRepository['searchIndex'],
+): Promise<boolean> => {
+  const contents = JSON.stringify(searchIndex);
+
+  await mkdir(generatedSearchDirectory, { recursive: true });
+  const didWriteIndex = await writeIfChanged(generatedSearchIndexPath, contents);
+  await writeIfChanged(searchIndexBuildHashPath, hashContents(contents));
+  return didWriteIndex;
+};
+
 const main = async (): Promise<void> => {
-  const repository = await collectContentRepository();
+  // Development servers pass this flag so drafts and scheduled entries render
+  // behind a banner; every other build leaves them out.
+  const repository = await collectContentRepository({
+    includeUnpublished: process.argv.includes('--include-unpublished'),
+  });
 
   const buildErrors = repository.validationIssues.filter((i) => i.severity !== 'warning');
   const buildWarnings = repository.validationIssues.filter((i) => i.severity === 'warning');
@@ -91,14 +117,14 @@ const main = async (): Promise<void> => {
   if (buildWarnings.length > 0) {
     console.warn(`Content build: ${buildWarnings.length} warning(s):`);
     for (const issue of buildWarnings) {
-      console.warn(`- ${issue.file}: ${issue.message}`);
+      console.warn(`- ${formatIssueLocation(issue)}: ${issue.message}`);
     }
   }
 
   if (buildErrors.length > 0) {
     console.error('Content build failed validation:');
     for (const issue of buildErrors) {
-      console.error(`- ${issue.file}: ${issue.message}`);
+      console.error(`- ${formatIssueLocation(issue)}: ${issue.message}`);
     }
     process.exit(1);
   }
@@ -114,6 +140,10 @@ const main = async (): Promise<void> => {
     courses: repository.courses,
     lessons: repository.lessons,
     projects: repository.projects,
+    tags: repository.tags,
+    series: repository.series,
+    backlinks: repository.backlinks,
+    redirects: repository.redirects,
     prerenderEntries: repository.prerenderEntries,
   };
 
@@ -125,8 +155,14 @@ const main = async (): Promise<void> => {
     tailwindPlaygroundSourcePath,
     repository.tailwindPlaygroundSource,
   );
-
-  if (!didWriteContentData && !didWriteTailwindSource && !didBuildEnhancements) {
+  const didWriteSearchIndex = await writeSearchIndex(repository.searchIndex);
+
+  if (
+    !didWriteContentData &&
+    !didWriteTailwindSource &&
+    !didWriteSearchIndex &&
+    !didBuildEnhancements
+  ) {
     console.log('Generated content artifacts are already up to date.');
     // Bun can keep these CLI tasks alive after the work is done, so exit explicitly.
     process.exit(0);
@@ -19,12 +19,29 @@ export const websiteSvelteKitClientRoot = path.resolve(
   'output',
   'client',
 );
+/** SvelteKit writes every prerendered page here, whichever adapter runs afterwards. */
+export const websitePrerenderedPagesRoot = path.resolve(
+  websiteRoot,
+  '.svelte-kit',
+  'output',
+  'prerendered',
+  'pages',
+);
 export const websiteVercelStaticRoot = path.resolve(websiteRoot, '.vercel', 'output', 'static');
 export const generatedContentDirectory = path.resolve(websiteRoot, '.generated');
 export const generatedContentDataPath = path.resolve(
   generatedContentDirectory,
   'content-data.json',
 );
+export const contentRepositoryCachePath = path.resolve(
+  generatedContentDirectory,
+  'content-repository-cache.json',
+);
+/** Results of `check-external-links`, kept between runs until each result's TTL passes. */
+export const externalLinkCachePath = path.resolve(
+  generatedContentDirectory,
+  'external-link-cache.json',
+);
 export const tailwindPlaygroundSourcePath = path.resolve(
   generatedContentDirectory,
   'tailwind-playground-source.html',
@@ -42,11 +59,21 @@ export const contentEnhancementsEntryPath = path.resolve(
   contentEnhancementsSourceDirectory,
   'content-enhancements.ts',
 );
+/** Built as its own file so enhance-runnable-code can start it as a worker. */
+export const runnableCodeWorkerEntryPath = path.resolve(
+  contentEnhancementsSourceDirectory,
+  'runnable-code-worker.ts',
+);
 export const generatedContentEnhancementsDirectory = path.resolve(
   generatedContentDirectory,
   'content-enhancements',
 );
+export const generatedSearchDirectory = path.resolve(generatedContentDirectory, 'search');
+export const generatedSearchIndexPath = path.resolve(generatedSearchDirectory, 'search-index.json');
+export const tagRegistryPath = path.resolve(repositoryRoot, 'tags.toml');
+export const frontmatterSchemasDirectory = path.resolve(repositoryRoot, 'schemas', 'frontmatter');
 export const imageManifestPath = path.resolve(repositoryRoot, 'image-manifest.json');
+export const courseEpubOutputDirectory = path.resolve(repositoryRoot, 'dist', 'epub');
 
 export const normalizeRepositoryPath = (absolutePath: string): string =>
   normalizePath(path.relative(repositoryRoot, absolutePath));
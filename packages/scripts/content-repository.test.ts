@@ -1,13 +1,18 @@
 import { randomUUID } from 'node:crypto';
-import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
 import path from 'node:path';
 
-import { beforeAll, describe, expect, test } from 'bun:test';
+import { beforeAll, describe, expect, setDefaultTimeout, test } from 'bun:test';
 
 import type { ContentRepository } from './content-repository.ts';
 import { coursesRoot, writingRoot } from './content-paths.ts';
 import { collectContentRepository } from './content-repository.ts';
 
+// Each collection parses every source in the repository, which takes well over bun's
+// five-second default on a slow machine.
+setDefaultTimeout(60_000);
+
 const createTemporaryName = (prefix: string): string => `${prefix}-${randomUUID()}`;
 
 const writeTextFile = async (filePath: string, contents: string): Promise<void> => {
@@ -19,7 +24,8 @@ describe('collectContentRepository', () => {
   let repositoryPromise: Promise<ContentRepository>;
 
   beforeAll(() => {
-    repositoryPromise = collectContentRepository();
+    // Never read or write the developer's own parse cache.
+    repositoryPromise = collectContentRepository({ cachePath: null });
   });
 
   test('validates the current repository content graph', async () => {
@@ -30,6 +36,25 @@ describe('collectContentRepository', () => {
     expect(repository.meta.sourceFileCount).toBeGreaterThan(800);
   });
 
+  test('produces the same repository from a warm parse cache', async () => {
+    const repository = await repositoryPromise;
+    const cacheDirectory = await mkdtemp(path.join(tmpdir(), 'content-repository-cache-'));
+    const cachePath = path.join(cacheDirectory, 'cache.json');
+
+    try {
+      await collectContentRepository({ cachePath });
+      const cached = await collectContentRepository({ cachePath });
+
+      expect(cached.meta).toEqual(repository.meta);
+      expect(cached.routes).toEqual(repository.routes);
+      expect(cached.backlinks).toEqual(repository.backlinks);
+      expect(cached.validationIssues).toEqual(repository.validationIssues);
+      expect(cached.tailwindPlaygroundSource).toBe(repository.tailwindPlaygroundSource);
+    } finally {
+      await rm(cacheDirectory, { recursive: true, force: true });
+    }
+  });
+
   test('builds a route map for writing, course, lesson, and project content', async () => {
     const repository = await repositoryPromise;
     expect(repository.routes['/writing/setup-python']).toMatchObject({
@@ -113,6 +138,84 @@ describe('collectContentRepository', () => {
     expect(repository.prerenderEntries.projects).toContainEqual({ project: 'weft' });
   });
 
+  test('indexes posts and lessons under their canonical tags', async () => {
+    const repository = await repositoryPromise;
+    const react = repository.tags.find((entry) => entry.tag === 'react');
+
+    expect(react).toMatchObject({ title: 'React', path: '/tags/react' });
+    expect(react!.postCount + react!.lessonCount).toBe(react!.routes.length);
+    expect(repository.prerenderEntries.tags).toContainEqual({ tag: 'react' });
+    expect(
+      [...repository.writing, ...repository.lessons].flatMap((entry) => entry.tags),
+    ).not.toContain('React');
+  });
+
+  test('groups series posts in part order', async () => {
+    const repository = await repositoryPromise;
+    const series = repository.series.find((entry) => entry.slug === 'codex-in-claude-code');
+
+    expect(series).toMatchObject({ path: '/writing/series/codex-in-claude-code' });
+    expect(series!.posts.map((post) => post.slug)).toEqual([
+      'codex-as-a-second-opinion',
+      'codex-as-a-worker',
+    ]);
+    expect(repository.routes['/writing/codex-as-a-worker']).toMatchObject({
+      series: { slug: 'codex-in-claude-code', order: 2 },
+    });
+    expect(repository.prerenderEntries.series).toContainEqual({ series: 'codex-in-claude-code' });
+  });
+
+  test('attaches related reading to posts, lessons, and projects but not courses', async () => {
+    const repository = await repositoryPromise;
+    const related = repository.routes['/writing/agent-loops'].related ?? [];
+
+    expect(related.length).toBeGreaterThan(0);
+    expect(related.every((link) => link.path !== '/writing/agent-loops')).toBe(true);
+    expect(related.every((link) => repository.routes[link.path])).toBe(true);
+    expect(repository.routes['/courses/testing'].related).toBeUndefined();
+  });
+
+  test('records backlinks, and every orphan has opted out of the warning', async () => {
+    const repository = await repositoryPromise;
+
+    expect(repository.backlinks['/courses/testing/the-basics']).toContain(
+      '/courses/testing/mocking-dom-methods',
+    );
+    expect(repository.backlinks['/writing/introducing-prose-writer']).toEqual([
+      '/projects/prose-writer',
+    ]);
+    expect(
+      repository.validationIssues.filter(
+        ({ message }) =>
+          message.includes('only linked from index.toml') ||
+          message.startsWith('No other content links to'),
+      ),
+    ).toEqual([]);
+  });
+
+  test('sums course reading time across the lessons in index.toml', async () => {
+    const repository = await repositoryPromise;
+    const course = repository.courses.find((entry) => entry.slug === 'testing');
+    const listedSlugs = new Set(
+      course?.contents?.section.flatMap((section) =>
+        section.item.map((item) => item.href.replace(/\.md$/i, '')),
+      ),
+    );
+    const listedLessons = repository.lessons.filter(
+      (lesson) => lesson.courseSlug === 'testing' && listedSlugs.has(lesson.slug),
+    );
+
+    expect(course?.lessonCount).toBe(listedLessons.length);
+    expect(course?.wordCount).toBe(
+      listedLessons.reduce((total, lesson) => total + lesson.wordCount, 0),
+    );
+    expect(repository.routes['/courses/testing/the-basics']).toMatchObject({
+      wordCount: expect.any(Number),
+      readingMinutes: expect.any(Number),
+    });
+    expect(repository.writing.every((post) => post.readingMinutes > 0)).toBe(true);
+  });
+
   test('extracts sanitized Tailwind playground source', async () => {
     const repository = await repositoryPromise;
     expect(repository.tailwindPlaygroundSource).toContain('bg-blue-600');
@@ -120,6 +223,56 @@ describe('collectContentRepository', () => {
     expect(repository.tailwindPlaygroundSource).not.toContain('<script');
   });
 
+  test('holds drafts and scheduled posts back unless unpublished content is included', async () => {
+    const draftSlug = createTemporaryName('zz-content-draft');
+    const scheduledSlug = createTemporaryName('zz-content-scheduled');
+    const linkingSlug = createTemporaryName('zz-content-links-to-draft');
+    const cacheDirectory = await mkdtemp(path.join(tmpdir(), 'content-repository-cache-'));
+    const cachePath = path.join(cacheDirectory, 'cache.json');
+    const frontmatter = (title: string, extra: string) =>
+      `---\ntitle: ${title}\ndescription: Temporary publication test.\n${extra}\nmodified: 2025-01-01\n---\n\n`;
+
+    try {
+      await writeTextFile(
+        path.join(writingRoot, `${draftSlug}.md`),
+        `${frontmatter('Temporary Draft', 'date: 2025-01-01\ndraft: true')}Draft body.\n`,
+      );
+      await writeTextFile(
+        path.join(writingRoot, `${scheduledSlug}.md`),
+        `${frontmatter('Temporary Scheduled', 'date: 2999-01-01')}Scheduled body.\n`,
+      );
+      await writeTextFile(
+        path.join(writingRoot, `${linkingSlug}.md`),
+        `${frontmatter('Temporary Link', 'date: 2025-01-01')}[Draft](/writing/${draftSlug})\n`,
+      );
+
+      const production = await collectContentRepository({ cachePath });
+      const development = await collectContentRepository({ cachePath, includeUnpublished: true });
+
+      expect(production.routes[`/writing/${draftSlug}`]).toBeUndefined();
+      expect(production.routes[`/writing/${scheduledSlug}`]).toBeUndefined();
+      expect(production.writing.map((entry) => entry.slug)).not.toContain(draftSlug);
+      expect(production.prerenderEntries.writing).not.toContainEqual({ slug: scheduledSlug });
+      expect(production.validationIssues).toContainEqual({
+        file: `writing/${linkingSlug}.md`,
+        message: `Links to draft '/writing/${draftSlug}', which will 404 in production.`,
+        severity: 'warning',
+      });
+
+      expect(development.routes[`/writing/${draftSlug}`]).toMatchObject({
+        publication: { state: 'draft' },
+      });
+      expect(development.routes[`/writing/${scheduledSlug}`]).toMatchObject({
+        publication: { state: 'scheduled', publishAt: expect.stringContaining('2999-01-01') },
+      });
+    } finally {
+      await rm(path.join(writingRoot, `${draftSlug}.md`), { force: true });
+      await rm(path.join(writingRoot, `${scheduledSlug}.md`), { force: true });
+      await rm(path.join(writingRoot, `${linkingSlug}.md`), { force: true });
+      await rm(cacheDirectory, { recursive: true, force: true });
+    }
+  });
+
   test('reports missing course readmes, reserved slugs, broken links, and bad course contents', async () => {
     const courseWithoutReadme = path.join(
       coursesRoot,
@@ -156,7 +309,7 @@ describe('collectContentRepository', () => {
         `---\ntitle: Temporary Broken Link\ndescription: Triggers broken link validation issues.\ndate: 2025-01-01\nmodified: 2025-01-01\n---\n\n## Temporary Heading\n\n[Missing asset](/zz-temporary-missing-asset-${randomUUID()}.png)\n[Missing section](#does-not-exist)\n`,
       );
 
-      const repository = await collectContentRepository();
+      const repository = await collectContentRepository({ cachePath: null });
       const issues = repository.validationIssues.map((issue) => `${issue.file}: ${issue.message}`);
 
       expect(issues).toEqual(
@@ -168,6 +321,12 @@ describe('collectContentRepository', () => {
           expect.stringContaining("Unknown heading anchor '#does-not-exist'."),
         ]),
       );
+      // Link positions are reported against the whole file, frontmatter included.
+      expect(
+        repository.validationIssues.find(
+          (issue) => issue.message === "Unknown heading anchor '#does-not-exist'.",
+        ),
+      ).toMatchObject({ line: 11, column: 1 });
     } finally {
       await rm(courseWithoutReadme, { recursive: true, force: true });
       await rm(courseWithBadContents, { recursive: true, force: true });
@@ -1,2 +1,5 @@
 export { collectContentRepository } from './content-repository/collect.ts';
-export type { ContentRepository } from './content-repository/types.ts';
+export type {
+  CollectContentRepositoryOptions,
+  ContentRepository,
+} from './content-repository/types.ts';
@@ -0,0 +1,133 @@
+import { describe, expect, test } from 'bun:test';
+
+import type { ContentRoute } from '@stevekinney/utilities/content-types';
+
+import { resolveRepositoryPath } from '../content-paths.ts';
+
+import { buildBacklinks, validateOrphanedContent } from './backlinks.ts';
+import type { ContentValidationIssue, MarkdownLinkTargets } from './types.ts';
+
+const createRoute = (path: string, extra: Partial<ContentRoute> = {}) =>
+  ({
+    path,
+    title: path.split('/').at(-1)!,
+    description: 'Example.',
+    date: '2025-01-01',
+    modified: '2025-01-01',
+    sourcePath: `${path.slice(1)}.md`,
+    sourceHash: path,
+    llmsPath: `${path}/llms.txt`,
+    openGraphPath: `${path}/open-graph.jpg`,
+    contentType: 'writing',
+    slug: path.split('/').at(-1)!,
+    tags: [],
+    ...extra,
+  }) as ContentRoute;
+
+const createLesson = (lesson: string) =>
+  createRoute(`/courses/testing/${lesson}`, {
+    contentType: 'lesson',
+    courseSlug: 'testing',
+    courseTitle: 'Testing',
+    lessonSlug: lesson,
+  } as Partial<ContentRoute>);
+
+const toRecord = (routes: ContentRoute[]) =>
+  Object.fromEntries(routes.map((route) => [route.path, route]));
+
+const links = (routes: string[], assets: string[] = []): MarkdownLinkTargets => ({
+  routes,
+  assets: assets.map((asset) => ({ path: resolveRepositoryPath(asset), exists: true })),
+});
+
+describe('buildBacklinks', () => {
+  test('maps root links, relative links, and project writing paths back to their sources', () => {
+    const routes = toRecord([
+      createRoute('/writing/hooks'),
+      createRoute('/writing/effects'),
+      createLesson('mocks'),
+      createLesson('spies'),
+      createRoute('/projects/weft', {
+        contentType: 'project',
+        projectSlug: 'weft',
+        writingPath: '/writing/effects',
+      } as Partial<ContentRoute>),
+    ]);
+
+    const backlinks = buildBacklinks(
+      routes,
+      new Map([
+        ['writing/hooks.md', links(['/writing/effects', '/writing/hooks', '/tags/react'])],
+        ['courses/testing/mocks.md', links([], ['courses/testing/spies.md'])],
+      ]),
+    );
+
+    expect(backlinks).toEqual({
+      '/courses/testing/spies': ['/courses/testing/mocks'],
+      '/writing/effects': ['/projects/weft', '/writing/hooks'],
+    });
+  });
+
+  test('ignores links from routes that are not being published', () => {
+    const routes = toRecord([createRoute('/writing/hooks')]);
+
+    expect(
+      buildBacklinks(routes, new Map([['writing/draft.md', links(['/writing/hooks'])]])),
+    ).toEqual({});
+  });
+});
+
+describe('validateOrphanedContent', () => {
+  test('warns about unlinked posts and lessons only reachable from index.toml', () => {
+    const routes = toRecord([
+      createRoute('/writing/hooks'),
+      createRoute('/writing/effects'),
+      createRoute('/writing/draft', { publication: { state: 'draft' } }),
+      createRoute('/courses/testing', {
+        contentType: 'course',
+        courseSlug: 'testing',
+        contents: {
+          section: [{ item: [{ title: 'Mocks', href: 'mocks.md' }] }],
+        },
+      } as Partial<ContentRoute>),
+      createLesson('mocks'),
+      createLesson('unlisted'),
+    ]);
+    const issues: ContentValidationIssue[] = [];
+
+    validateOrphanedContent(routes, { '/writing/effects': ['/writing/hooks'] }, issues);
+
+    expect(issues).toEqual([
+      {
+        file: 'courses/testing/mocks.md',
+        message: "Lesson '/courses/testing/mocks' is only linked from index.toml.",
+        severity: 'warning',
+      },
+      {
+        file: 'writing/hooks.md',
+        message: "No other content links to '/writing/hooks'.",
+        severity: 'warning',
+      },
+    ]);
+  });
+
+  test('skips standalone posts and courses read through their outline', () => {
+    const routes = toRecord([
+      createRoute('/writing/hooks'),
+      createRoute('/courses/testing', {
+        contentType: 'course',
+        courseSlug: 'testing',
+        contents: {
+          section: [{ item: [{ title: 'Mocks', href: 'mocks.md' }] }],
+          metadata: { outlineOnly: true },
+        },
+      } as Partial<ContentRoute>),
+      createLesson('mocks'),
+    ]);
+    const issues: ContentValidationIssue[] = [];
+
+    validateOrphanedContent(routes, {}, issues, new Set(['writing/hooks.md']));
+
+    expect(issues).toEqual([]);
+  });
+});
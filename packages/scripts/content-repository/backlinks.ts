@@ -0,0 +1,117 @@
+import type { ContentRoute } from '@stevekinney/utilities/content-types';
+import { collectCourseItems } from '@stevekinney/utilities/course-contents';
+import { normalizeRoutePath } from '@stevekinney/utilities/routes';
+
+import { normalizeRepositoryPath } from '../content-paths.ts';
+
+import type { ContentValidationIssue, MarkdownLinkTargets } from './types.ts';
+
+/**
+ * Invert the link targets recorded while validating each source into a map
+ * from every linked route to the routes that link to it. Root links resolve
+ * by route path and relative `.md` links by source file. Project
+ * `writingPath` frontmatter counts as a link from the project page. Only
+ * routes present in `routes` appear on either side, so unpublished content
+ * neither gains nor grants backlinks in a production build.
+ */
+export const buildBacklinks = (
+  routes: Record<string, ContentRoute>,
+  linkTargets: Map<string, MarkdownLinkTargets>,
+): Record<string, string[]> => {
+  const routePathsBySource = new Map(
+    Object.values(routes).map((route) => [route.sourcePath, route.path]),
+  );
+  const linkers = new Map<string, Set<string>>();
+
+  const addLink = (from: string, to: string | undefined) => {
+    if (!to || to === from || !routes[to]) return;
+    const existing = linkers.get(to) ?? new Set<string>();
+    existing.add(from);
+    linkers.set(to, existing);
+  };
+
+  for (const [sourcePath, targets] of linkTargets) {
+    const from = routePathsBySource.get(sourcePath);
+    if (!from) continue;
+
+    for (const target of targets.routes) addLink(from, target);
+    for (const asset of targets.assets) {
+      addLink(from, routePathsBySource.get(normalizeRepositoryPath(asset.path)));
+    }
+  }
+
+  for (const route of Object.values(routes)) {
+    if (route.contentType === 'project' && route.writingPath) {
+      addLink(route.path, normalizeRoutePath(route.writingPath));
+    }
+  }
+
+  return Object.fromEntries(
+    [...linkers.keys()].sort().map((path) => [path, [...linkers.get(path)!].sort()]),
+  );
+};
+
+/** Every lesson slug `index.toml` mentions, whether listed, a solution, related, or unlisted. */
+const collectIndexedLessonSlugs = (route: ContentRoute): Set<string> => {
+  if (route.contentType !== 'course' || !route.contents) return new Set();
+
+  return new Set(
+    [
+      ...collectCourseItems(route.contents).flatMap((item) => [
+        item.href,
+        ...(item.solution ? [item.solution] : []),
+        ...(item.related ?? []).flatMap(({ href, solution }) => [
+          href,
+          ...(solution ? [solution] : []),
+        ]),
+      ]),
+      ...(route.contents.metadata?.unlisted ?? []),
+    ].map((href) => href.replace(/\.md$/i, '')),
+  );
+};
+
+/**
+ * Warn about published posts and projects nothing links to, and lessons only
+ * reachable through their course outline. Lessons missing from `index.toml`
+ * are already reported by `validateCourseContents`. Posts and projects with
+ * `standalone` frontmatter, listed in `standaloneSourcePaths`, and courses
+ * whose `index.toml` sets `outlineOnly` opt out.
+ */
+export const validateOrphanedContent = (
+  routes: Record<string, ContentRoute>,
+  backlinks: Record<string, string[]>,
+  issues: ContentValidationIssue[],
+  standaloneSourcePaths: ReadonlySet<string> = new Set(),
+): void => {
+  const indexedLessonsByCourse = new Map(
+    Object.values(routes)
+      .filter(
+        (route) => route.contentType === 'course' && route.contents?.metadata?.outlineOnly !== true,
+      )
+      .map((route) => [route.courseSlug, collectIndexedLessonSlugs(route)]),
+  );
+
+  for (const route of Object.values(routes).sort((left, right) =>
+    left.path.localeCompare(right.path),
+  )) {
+    if (route.publication || backlinks[route.path]?.length) continue;
+    if (standaloneSourcePaths.has(route.sourcePath)) continue;
+
+    if (route.contentType === 'writing' || route.contentType === 'project') {
+      issues.push({
+        file: route.sourcePath,
+        message: `No other content links to '${route.path}'.`,
+        severity: 'warning',
+      });
+    } else if (
+      route.contentType === 'lesson' &&
+      indexedLessonsByCourse.get(route.courseSlug)?.has(route.lessonSlug)
+    ) {
+      issues.push({
+        file: route.sourcePath,
+        message: `Lesson '${route.path}' is only linked from index.toml.`,
+        severity: 'warning',
+      });
+    }
+  }
+};
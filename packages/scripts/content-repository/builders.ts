@@ -5,16 +5,31 @@ import fg from 'fast-glob';
 
 import type {
   CourseContentsData,
+  CourseContentsSection,
   ContentRoute,
   GeneratedContent,
   ProjectIndexEntry,
   SiteContentIndex,
+  TagIndexEntry,
   WritingIndexEntry,
+  WritingSeriesEntry,
 } from '@stevekinney/utilities/content-types';
 import { normalizePath } from '@stevekinney/utilities/frontmatter';
 
 import { repositoryRoot } from '../content-paths.ts';
 
+import type { ContentRepositoryCache } from './cache.ts';
+import {
+  courseFrontmatterSchema,
+  lessonFrontmatterSchema,
+  projectFrontmatterSchema,
+  validateFrontmatter,
+  writingFrontmatterSchema,
+} from './frontmatter-schemas.ts';
+import { pairExercises } from './exercises.ts';
+import { measureReadingTime, sumCourseReadingTime } from './reading-time.ts';
+import { buildRedirectPrerenderEntries, resolveRedirectSources } from './redirects.ts';
+import { resolveSeriesMembership } from './series.ts';
 import { lessonReservedSlugs } from './constants.ts';
 import {
   fileExists,
@@ -32,14 +47,7 @@ import type {
   MarkdownSource,
   ProjectRecord,
 } from './types.ts';
-import {
-  optionalString,
-  optionalStringArray,
-  requiredString,
-  safeDateString,
-  validateCourseContents,
-  validateUrlFrontmatter,
-} from './validation.ts';
+import { resolvePublication, validateCourseContents } from './validation.ts';
 
 const compareByDate = (left: { date: string }, right: { date: string }): number =>
   new Date(right.date).getTime() - new Date(left.date).getTime();
@@ -79,26 +87,37 @@ const loadCourseContentsSource = async (
 export const buildWritingEntry = async (
   source: MarkdownSource,
   issues: ContentValidationIssue[],
+  now = new Date(),
 ): Promise<WritingIndexEntry> => {
-  const { data, sourceHash, sourcePath } = source;
+  const { sourceHash, sourcePath } = source;
   const slug = path.basename(source.absolutePath, '.md');
+  const data = validateFrontmatter(source, writingFrontmatterSchema, issues);
+  const publication = resolvePublication(data, now);
+  const series = resolveSeriesMembership(data);
+  const redirectFrom = resolveRedirectSources(data, `/writing/${slug}`);
 
   return {
-    title: requiredString(sourcePath, data.title, 'title', issues),
-    description: requiredString(sourcePath, data.description, 'description', issues),
-    date: safeDateString(sourcePath, data.date, 'date', issues),
-    modified: safeDateString(sourcePath, data.modified, 'modified', issues),
-    tags: Array.isArray(data.tags) ? data.tags.map(String) : [],
+    title: data.title ?? '',
+    description: data.description ?? '',
+    date: data.date ?? '',
+    modified: data.modified ?? '',
+    tags: data.tags ?? [],
     slug,
     sourcePath,
     sourceHash,
     path: `/writing/${slug}`,
+    ...measureReadingTime(source.tree),
+    ...(publication ? { publication } : {}),
+    ...(series ? { series } : {}),
+    ...(redirectFrom.length ? { redirectFrom } : {}),
   };
 };
 
 export const buildCourseEntry = async (
   courseDirectory: string,
   issues: ContentValidationIssue[],
+  cache?: ContentRepositoryCache,
+  now = new Date(),
 ): Promise<CourseRecord | null> => {
   const courseSlug = path.basename(courseDirectory);
   const readmePath = path.join(courseDirectory, 'README.md');
@@ -113,10 +132,11 @@ export const buildCourseEntry = async (
     return null;
   }
 
-  const readmeSource = await loadMarkdownSource(readmePath);
-  const { data } = readmeSource;
+  const readmeSource = await loadMarkdownSource(readmePath, cache);
+  const data = validateFrontmatter(readmeSource, courseFrontmatterSchema, issues);
   const lessons: LessonRecord[] = [];
-  const courseTitle = requiredString(readmeSource.sourcePath, data.title, 'title', issues);
+  const courseTitle = data.title ?? '';
+  const coursePublication = resolvePublication(data, now);
 
   const lessonFiles = await fg('*.md', {
     cwd: courseDirectory,
@@ -147,21 +167,29 @@ export const buildCourseEntry = async (
 
     lessonSlugSet.add(lessonSlug);
 
-    const lessonSource = await loadMarkdownSource(lessonPath);
+    const lessonSource = await loadMarkdownSource(lessonPath, cache);
     const sourcePath = lessonSource.sourcePath;
+    const lessonData = validateFrontmatter(lessonSource, lessonFrontmatterSchema, issues);
+    // An unpublished course holds back every lesson in it.
+    const publication = resolvePublication(lessonData, now) ?? coursePublication;
+    const lessonRoutePath = `/courses/${courseSlug}/${lessonSlug}`;
+    const lessonRedirectFrom = resolveRedirectSources(lessonData, lessonRoutePath);
 
     lessons.push({
-      title: requiredString(sourcePath, lessonSource.data.title, 'title', issues),
-      description: requiredString(sourcePath, lessonSource.data.description, 'description', issues),
-      date: safeDateString(sourcePath, lessonSource.data.date, 'date', issues),
-      modified: safeDateString(sourcePath, lessonSource.data.modified, 'modified', issues),
+      title: lessonData.title ?? '',
+      description: lessonData.description ?? '',
+      date: lessonData.date ?? '',
+      modified: lessonData.modified ?? '',
       slug: lessonSlug,
       courseSlug,
       courseTitle,
-      tags: Array.isArray(lessonSource.data.tags) ? lessonSource.data.tags.map(String) : [],
+      tags: lessonData.tags ?? [],
       sourcePath,
       sourceHash: lessonSource.sourceHash,
-      path: `/courses/${courseSlug}/${lessonSlug}`,
+      path: lessonRoutePath,
+      ...measureReadingTime(lessonSource.tree),
+      ...(publication ? { publication } : {}),
+      ...(lessonRedirectFrom.length ? { redirectFrom: lessonRedirectFrom } : {}),
       source: lessonSource,
     });
   }
@@ -173,17 +201,21 @@ export const buildCourseEntry = async (
     lessonSlugSet,
     issues,
   );
+  const redirectFrom = resolveRedirectSources(data, `/courses/${courseSlug}`);
 
   return {
     title: courseTitle,
-    description: requiredString(readmeSource.sourcePath, data.description, 'description', issues),
-    date: safeDateString(readmeSource.sourcePath, data.date, 'date', issues),
-    modified: safeDateString(readmeSource.sourcePath, data.modified, 'modified', issues),
+    description: data.description ?? '',
+    date: data.date ?? '',
+    modified: data.modified ?? '',
     slug: courseSlug,
     sourcePath: readmeSource.sourcePath,
     sourceHash: readmeSource.sourceHash,
     path: `/courses/${courseSlug}`,
     contents: courseContentsSource?.contents,
+    ...sumCourseReadingTime(courseContentsSource?.contents, lessons),
+    ...(coursePublication ? { publication: coursePublication } : {}),
+    ...(redirectFrom.length ? { redirectFrom } : {}),
     source: readmeSource,
     contentsSource: courseContentsSource,
     lessons,
@@ -193,24 +225,20 @@ export const buildCourseEntry = async (
 export const buildProjectEntry = async (
   source: MarkdownSource,
   issues: ContentValidationIssue[],
+  now = new Date(),
 ): Promise<ProjectRecord> => {
-  const { data, sourceHash, sourcePath } = source;
+  const { sourceHash, sourcePath } = source;
   const slug = path.basename(source.absolutePath, '.md');
-  const githubUrl = requiredString(sourcePath, data.githubUrl, 'githubUrl', issues);
-  const npmPackages = optionalStringArray(sourcePath, data.npmPackages, 'npmPackages', issues);
-  const productionUrl = optionalString(sourcePath, data.productionUrl, 'productionUrl', issues);
-  const writingPath = optionalString(sourcePath, data.writingPath, 'writingPath', issues);
-  const youtubeUrl = optionalString(sourcePath, data.youtubeUrl, 'youtubeUrl', issues);
-
-  validateUrlFrontmatter(sourcePath, githubUrl, 'githubUrl', issues);
-  validateUrlFrontmatter(sourcePath, productionUrl, 'productionUrl', issues);
-  validateUrlFrontmatter(sourcePath, youtubeUrl, 'youtubeUrl', issues);
+  const data = validateFrontmatter(source, projectFrontmatterSchema, issues);
+  const publication = resolvePublication(data, now);
+  const { npmPackages, productionUrl, writingPath, youtubeUrl } = data;
+  const redirectFrom = resolveRedirectSources(data, `/projects/${slug}`);
 
   return {
-    name: requiredString(sourcePath, data.name, 'name', issues),
-    description: requiredString(sourcePath, data.description, 'description', issues),
-    githubUrl,
-    ...(npmPackages ? { npmPackages } : {}),
+    name: data.name ?? '',
+    description: data.description ?? '',
+    githubUrl: data.githubUrl ?? '',
+    ...(npmPackages?.length ? { npmPackages } : {}),
     ...(productionUrl ? { productionUrl } : {}),
     ...(writingPath ? { writingPath } : {}),
     ...(youtubeUrl ? { youtubeUrl } : {}),
@@ -218,10 +246,70 @@ export const buildProjectEntry = async (
     sourcePath,
     sourceHash,
     path: `/projects/${slug}`,
+    ...(publication ? { publication } : {}),
+    ...(redirectFrom.length ? { redirectFrom } : {}),
     source,
   };
 };
 
+const withoutLessons = (
+  contents: CourseContentsData | undefined,
+  lessonSlugs: Set<string>,
+): CourseContentsData | undefined => {
+  if (!contents || lessonSlugs.size === 0) return contents;
+
+  const isKept = (href: string | undefined): boolean =>
+    !href || !lessonSlugs.has(href.replace(/\.md$/i, ''));
+
+  const filterSections = (sections: CourseContentsSection[]): CourseContentsSection[] =>
+    sections.map((section) => ({
+      ...section,
+      item: (section.item ?? [])
+        .filter((item) => isKept(item.href))
+        .map((item) =>
+          item.related
+            ? { ...item, related: item.related.filter((related) => isKept(related.href)) }
+            : item,
+        ),
+      ...(section.section ? { section: filterSections(section.section) } : {}),
+    }));
+
+  return { ...contents, section: filterSections(contents.section ?? []) };
+};
+
+/**
+ * Drop drafts and scheduled entries so production builds never route to them.
+ * Lessons are removed from their course's table of contents as well.
+ */
+export const omitUnpublished = (
+  writingEntries: WritingIndexEntry[],
+  courseEntries: CourseRecord[],
+  projectEntries: ProjectRecord[],
+): {
+  writingEntries: WritingIndexEntry[];
+  courseEntries: CourseRecord[];
+  projectEntries: ProjectRecord[];
+} => ({
+  writingEntries: writingEntries.filter((entry) => !entry.publication),
+  courseEntries: courseEntries
+    .filter((course) => !course.publication)
+    .map((course) => {
+      const unpublishedSlugs = new Set(
+        course.lessons.filter((lesson) => lesson.publication).map((lesson) => lesson.slug),
+      );
+      const contents = withoutLessons(course.contents, unpublishedSlugs);
+      const lessons = course.lessons.filter((lesson) => !lesson.publication);
+
+      return {
+        ...course,
+        contents,
+        ...sumCourseReadingTime(contents, lessons),
+        lessons,
+      };
+    }),
+  projectEntries: projectEntries.filter((entry) => !entry.publication),
+});
+
 export const buildRoutes = (
   writingEntries: WritingIndexEntry[],
   courseEntries: CourseRecord[],
@@ -252,9 +340,24 @@ export const buildRoutes = (
       contentType: 'course',
       courseSlug: course.slug,
       contents: course.contents,
+      wordCount: course.wordCount,
+      readingMinutes: course.readingMinutes,
+      lessonCount: course.lessonCount,
+      ...(course.publication ? { publication: course.publication } : {}),
     });
 
+    const lessonsBySlug = new Map(course.lessons.map((lesson) => [lesson.slug, lesson]));
+    const solutions = pairExercises(course.contents, new Set(lessonsBySlug.keys()));
+    const exercises = new Map([...solutions].map(([exercise, solution]) => [solution, exercise]));
+    const toPairLink = (slug: string | undefined) => {
+      const lesson = slug ? lessonsBySlug.get(slug) : undefined;
+      return lesson ? { path: lesson.path, title: lesson.title } : undefined;
+    };
+
     for (const lesson of course.lessons) {
+      const solution = toPairLink(solutions.get(lesson.slug));
+      const exercise = toPairLink(exercises.get(lesson.slug));
+
       routes.set(lesson.path, {
         path: lesson.path,
         title: lesson.title,
@@ -270,6 +373,11 @@ export const buildRoutes = (
         courseTitle: lesson.courseTitle,
         lessonSlug: lesson.slug,
         tags: lesson.tags,
+        wordCount: lesson.wordCount,
+        readingMinutes: lesson.readingMinutes,
+        ...(lesson.publication ? { publication: lesson.publication } : {}),
+        ...(solution ? { solution } : {}),
+        ...(exercise ? { exercise } : {}),
       });
     }
   }
@@ -291,6 +399,7 @@ export const buildRoutes = (
       ...(project.productionUrl ? { productionUrl: project.productionUrl } : {}),
       ...(project.writingPath ? { writingPath: project.writingPath } : {}),
       ...(project.youtubeUrl ? { youtubeUrl: project.youtubeUrl } : {}),
+      ...(project.publication ? { publication: project.publication } : {}),
     });
   }
 
@@ -342,7 +451,11 @@ export const buildPrerenderEntries = (
   courseEntries: CourseRecord[],
   lessonEntries: ContentRepository['lessons'],
   projectEntries: ProjectIndexEntry[],
+  tagEntries: TagIndexEntry[],
+  seriesEntries: WritingSeriesEntry[],
+  redirects: Record<string, string>,
 ): GeneratedContent['prerenderEntries'] => {
+  const redirectEntries = buildRedirectPrerenderEntries(redirects);
   const uniqueLessonRedirectSlugs = lessonEntries
     .reduce<Map<string, string | null>>((map, lesson) => {
       const existing = map.get(lesson.slug);
@@ -367,15 +480,23 @@ export const buildPrerenderEntries = (
     writing: [
       ...writingEntries.map((entry) => ({ slug: entry.slug })),
       ...writingEntries.map((entry) => ({ slug: `${entry.slug}.md` })),
+      ...redirectEntries.writing,
     ],
     courses: [
       ...courseEntries.map((entry) => ({ course: entry.slug })),
       ...legacyCourseRedirectEntries,
+      ...redirectEntries.courses,
     ],
     lessons: [
       ...lessonEntries.map((entry) => ({ course: entry.courseSlug, lesson: entry.slug })),
       ...lessonEntries.map((entry) => ({ course: entry.courseSlug, lesson: `${entry.slug}.md` })),
+      ...redirectEntries.lessons,
+    ],
+    projects: [
+      ...projectEntries.map((entry) => ({ project: entry.slug })),
+      ...redirectEntries.projects,
     ],
-    projects: projectEntries.map((entry) => ({ project: entry.slug })),
+    tags: tagEntries.map((entry) => ({ tag: entry.tag })),
+    series: seriesEntries.map((entry) => ({ series: entry.slug })),
   };
 };
@@ -0,0 +1,128 @@
+import { randomUUID } from 'node:crypto';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+
+import {
+  createContentRepositoryCache,
+  getCachedLinkIssues,
+  getCachedMarkdownSource,
+  getCachedTwoslashIssues,
+  getChangedRoutePaths,
+  loadContentRepositoryCache,
+  saveContentRepositoryCache,
+  setCachedLinkIssues,
+  setCachedMarkdownSource,
+  setCachedTwoslashIssues,
+} from './cache.ts';
+import type { MarkdownSource } from './types.ts';
+
+const createSource = (sourceHash: string): MarkdownSource => ({
+  absolutePath: '/repository/writing/example.md',
+  sourcePath: 'writing/example.md',
+  sourceHash,
+  data: { title: 'Example' },
+  frontmatterLines: { title: 2 },
+  bodyLineOffset: 3,
+  content: '## Heading\n',
+  tree: { type: 'root', children: [] },
+  headingAnchors: new Set(['heading']),
+  tailwindPlaygrounds: [],
+});
+
+describe('content repository cache', () => {
+  let directory: string;
+  let cachePath: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'content-repository-cache-'));
+    cachePath = path.join(directory, 'cache.json');
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  test('round-trips parsed sources and prunes entries the run did not use', async () => {
+    const cache = createContentRepositoryCache();
+    setCachedMarkdownSource(cache, createSource('used'));
+    cache.sources.set('stale', cache.sources.get('used')!);
+
+    await saveContentRepositoryCache(cachePath, cache);
+    const reloaded = await loadContentRepositoryCache(cachePath);
+
+    expect([...reloaded.sources.keys()]).toEqual(['used']);
+    expect(getCachedMarkdownSource(reloaded, 'used')).toMatchObject({
+      data: { title: 'Example' },
+      headingAnchors: ['heading'],
+    });
+    expect(reloaded.usedSourceHashes.has('used')).toBe(true);
+  });
+
+  test('starts empty when the cache file is missing, corrupt, or from another version', async () => {
+    expect((await loadContentRepositoryCache(cachePath)).sources.size).toBe(0);
+
+    await writeFile(cachePath, '{ not json', 'utf8');
+    expect((await loadContentRepositoryCache(cachePath)).sources.size).toBe(0);
+
+    const cache = createContentRepositoryCache();
+    setCachedMarkdownSource(cache, createSource('used'));
+    await saveContentRepositoryCache(cachePath, cache);
+    const file = JSON.parse(await readFile(cachePath, 'utf8'));
+    await writeFile(cachePath, JSON.stringify({ ...file, version: -1 }), 'utf8');
+
+    expect((await loadContentRepositoryCache(cachePath)).sources.size).toBe(0);
+  });
+
+  test('reuses link issues only while the source and its targets are unchanged', async () => {
+    const assetPath = path.join(directory, `${randomUUID()}.png`);
+    const issues = [{ file: 'writing/example.md', message: 'Broken.', line: 3 }];
+    const cache = createContentRepositoryCache();
+    cache.routePaths = new Set(['/writing/example', '/writing/target']);
+
+    setCachedLinkIssues(
+      cache,
+      createSource('hash'),
+      { routes: ['/writing/target'], assets: [{ path: assetPath, exists: false }] },
+      issues,
+    );
+    await saveContentRepositoryCache(cachePath, cache);
+
+    const unchanged = await loadContentRepositoryCache(cachePath);
+    unchanged.routePaths = new Set(['/writing/example', '/writing/target']);
+    expect(
+      getCachedLinkIssues(unchanged, createSource('hash'), getChangedRoutePaths(unchanged)),
+    ).toEqual(issues);
+    expect(
+      getCachedLinkIssues(unchanged, createSource('edited'), getChangedRoutePaths(unchanged)),
+    ).toBeUndefined();
+
+    const removedTarget = await loadContentRepositoryCache(cachePath);
+    removedTarget.routePaths = new Set(['/writing/example']);
+    expect(
+      getCachedLinkIssues(removedTarget, createSource('hash'), getChangedRoutePaths(removedTarget)),
+    ).toBeUndefined();
+
+    await writeFile(assetPath, '', 'utf8');
+    const addedAsset = await loadContentRepositoryCache(cachePath);
+    addedAsset.routePaths = new Set(['/writing/example', '/writing/target']);
+    expect(
+      getCachedLinkIssues(addedAsset, createSource('hash'), getChangedRoutePaths(addedAsset)),
+    ).toBeUndefined();
+  });
+
+  test('reuses twoslash issues until the source changes, and prunes unchecked sources', async () => {
+    const issues = [{ file: 'writing/example.md', message: 'Unexpected error.', line: 5 }];
+    const cache = createContentRepositoryCache();
+    setCachedTwoslashIssues(cache, createSource('hash'), issues);
+    cache.twoslash.set('writing/deleted.md', { sourceHash: 'gone', issues: [] });
+    await saveContentRepositoryCache(cachePath, cache);
+
+    const reloaded = await loadContentRepositoryCache(cachePath);
+    expect([...reloaded.twoslash.keys()]).toEqual(['writing/example.md']);
+    expect(getCachedTwoslashIssues(reloaded, createSource('hash'))).toEqual(issues);
+    expect(getCachedTwoslashIssues(reloaded, createSource('edited'))).toBeUndefined();
+  });
+});
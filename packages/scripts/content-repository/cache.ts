@@ -0,0 +1,221 @@
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { ContentValidationIssue, MarkdownLinkTargets, MarkdownSource } from './types.ts';
+
+/**
+ * Bump whenever the shape of a parsed source or the link or twoslash
+ * validation rules change so stale cache files are discarded instead of
+ * trusted.
+ */
+const contentRepositoryCacheVersion = 4;
+
+/** Everything `loadMarkdownSource` derives from the raw file, minus its location. */
+export type CachedMarkdownSource = Pick<
+  MarkdownSource,
+  'data' | 'frontmatterLines' | 'bodyLineOffset' | 'content' | 'tree' | 'tailwindPlaygrounds'
+> & {
+  headingAnchors: string[];
+};
+
+export type CachedLinkValidation = MarkdownLinkTargets & {
+  sourceHash: string;
+  issues: ContentValidationIssue[];
+};
+
+export type CachedTwoslashValidation = {
+  sourceHash: string;
+  issues: ContentValidationIssue[];
+};
+
+type ContentRepositoryCacheFile = {
+  version: number;
+  routePaths: string[];
+  sources: Record<string, CachedMarkdownSource>;
+  links: Record<string, CachedLinkValidation>;
+  twoslash: Record<string, CachedTwoslashValidation>;
+};
+
+export type ContentRepositoryCache = {
+  /** Route table from the run that wrote the cache, used to find changed link targets. */
+  previousRoutePaths: Set<string>;
+  /** Parsed sources keyed by `MarkdownSource.sourceHash`. */
+  sources: Map<string, CachedMarkdownSource>;
+  /** Link validation results keyed by `MarkdownSource.sourcePath`. */
+  links: Map<string, CachedLinkValidation>;
+  /** Twoslash validation results keyed by `MarkdownSource.sourcePath`. */
+  twoslash: Map<string, CachedTwoslashValidation>;
+  /** Source hashes read during this run; anything else is pruned on save. */
+  usedSourceHashes: Set<string>;
+  /** Source paths validated during this run; anything else is pruned on save. */
+  usedLinkPaths: Set<string>;
+  /** Source paths type-checked during this run; anything else is pruned on save. */
+  usedTwoslashPaths: Set<string>;
+  /** Route table of the current run, written back on save. */
+  routePaths: Set<string>;
+};
+
+export const createContentRepositoryCache = (
+  file?: ContentRepositoryCacheFile,
+): ContentRepositoryCache => ({
+  previousRoutePaths: new Set(file?.routePaths ?? []),
+  sources: new Map(Object.entries(file?.sources ?? {})),
+  links: new Map(Object.entries(file?.links ?? {})),
+  twoslash: new Map(Object.entries(file?.twoslash ?? {})),
+  usedSourceHashes: new Set(),
+  usedLinkPaths: new Set(),
+  usedTwoslashPaths: new Set(),
+  routePaths: new Set(),
+});
+
+/**
+ * Read the persisted parse cache. A missing, unreadable, or outdated cache is
+ * not an error: the repository is simply collected from scratch.
+ */
+export const loadContentRepositoryCache = async (
+  cachePath: string,
+): Promise<ContentRepositoryCache> => {
+  try {
+    const file = JSON.parse(await readFile(cachePath, 'utf8')) as ContentRepositoryCacheFile;
+    if (file.version !== contentRepositoryCacheVersion) {
+      return createContentRepositoryCache();
+    }
+
+    return createContentRepositoryCache(file);
+  } catch {
+    return createContentRepositoryCache();
+  }
+};
+
+/** Persist only the entries used by the current run so deleted files don't accumulate. */
+export const saveContentRepositoryCache = async (
+  cachePath: string,
+  cache: ContentRepositoryCache,
+): Promise<void> => {
+  const file: ContentRepositoryCacheFile = {
+    version: contentRepositoryCacheVersion,
+    routePaths: [...cache.routePaths].sort(),
+    sources: Object.fromEntries(
+      [...cache.sources.entries()].filter(([sourceHash]) => cache.usedSourceHashes.has(sourceHash)),
+    ),
+    links: Object.fromEntries(
+      [...cache.links.entries()].filter(([sourcePath]) => cache.usedLinkPaths.has(sourcePath)),
+    ),
+    twoslash: Object.fromEntries(
+      [...cache.twoslash.entries()].filter(([sourcePath]) =>
+        cache.usedTwoslashPaths.has(sourcePath),
+      ),
+    ),
+  };
+
+  // Write to a sibling file and rename so a concurrent reader never sees a
+  // half-written cache.
+  const temporaryPath = `${cachePath}.${process.pid}.tmp`;
+  await mkdir(path.dirname(cachePath), { recursive: true });
+  await writeFile(temporaryPath, JSON.stringify(file), 'utf8');
+  await rename(temporaryPath, cachePath);
+};
+
+export const getCachedMarkdownSource = (
+  cache: ContentRepositoryCache,
+  sourceHash: string,
+): CachedMarkdownSource | undefined => {
+  const cached = cache.sources.get(sourceHash);
+  if (cached) {
+    cache.usedSourceHashes.add(sourceHash);
+  }
+
+  return cached;
+};
+
+export const setCachedMarkdownSource = (
+  cache: ContentRepositoryCache,
+  source: MarkdownSource,
+): void => {
+  cache.usedSourceHashes.add(source.sourceHash);
+  cache.sources.set(source.sourceHash, {
+    data: source.data,
+    frontmatterLines: source.frontmatterLines,
+    bodyLineOffset: source.bodyLineOffset,
+    content: source.content,
+    tree: source.tree,
+    headingAnchors: [...source.headingAnchors],
+    tailwindPlaygrounds: source.tailwindPlaygrounds,
+  });
+};
+
+/** Routes that exist in exactly one of the previous and current route tables. */
+export const getChangedRoutePaths = (cache: ContentRepositoryCache): Set<string> => {
+  const changed = new Set<string>();
+
+  for (const routePath of cache.routePaths) {
+    if (!cache.previousRoutePaths.has(routePath)) changed.add(routePath);
+  }
+
+  for (const routePath of cache.previousRoutePaths) {
+    if (!cache.routePaths.has(routePath)) changed.add(routePath);
+  }
+
+  return changed;
+};
+
+/**
+ * Return the cached link issues for a source when neither the source itself
+ * nor any of its link targets changed since they were computed.
+ */
+export const getCachedLinkIssues = (
+  cache: ContentRepositoryCache,
+  source: Pick<MarkdownSource, 'sourcePath' | 'sourceHash'>,
+  changedRoutePaths: Set<string>,
+): ContentValidationIssue[] | undefined => {
+  const cached = cache.links.get(source.sourcePath);
+  if (!cached || cached.sourceHash !== source.sourceHash) return undefined;
+  if (cached.routes.some((routePath) => changedRoutePaths.has(routePath))) return undefined;
+  if (cached.assets.some((asset) => existsSync(asset.path) !== asset.exists)) return undefined;
+
+  cache.usedLinkPaths.add(source.sourcePath);
+  return cached.issues;
+};
+
+export const setCachedLinkIssues = (
+  cache: ContentRepositoryCache,
+  source: Pick<MarkdownSource, 'sourcePath' | 'sourceHash'>,
+  targets: MarkdownLinkTargets,
+  issues: ContentValidationIssue[],
+): void => {
+  cache.usedLinkPaths.add(source.sourcePath);
+  cache.links.set(source.sourcePath, {
+    sourceHash: source.sourceHash,
+    routes: [...new Set(targets.routes)].sort(),
+    assets: targets.assets,
+    issues,
+  });
+};
+
+/**
+ * Return the cached twoslash issues for a source when it hasn't changed since
+ * they were computed. The hash covers the files its `file="…"` fences show
+ * and the notes it includes; modules a block imports are not tracked, so
+ * editing one is only picked up once the source changes or the cache is
+ * cleared.
+ */
+export const getCachedTwoslashIssues = (
+  cache: ContentRepositoryCache,
+  source: Pick<MarkdownSource, 'sourcePath' | 'sourceHash'>,
+): ContentValidationIssue[] | undefined => {
+  const cached = cache.twoslash.get(source.sourcePath);
+  if (!cached || cached.sourceHash !== source.sourceHash) return undefined;
+
+  cache.usedTwoslashPaths.add(source.sourcePath);
+  return cached.issues;
+};
+
+export const setCachedTwoslashIssues = (
+  cache: ContentRepositoryCache,
+  source: Pick<MarkdownSource, 'sourcePath' | 'sourceHash'>,
+  issues: ContentValidationIssue[],
+): void => {
+  cache.usedTwoslashPaths.add(source.sourcePath);
+  cache.twoslash.set(source.sourcePath, { sourceHash: source.sourceHash, issues });
+};
@@ -0,0 +1,155 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { prepareCodeFence } from '@stevekinney/utilities/code-fences';
+import { loadCodeSnippet, type CodeSnippetReference } from '@stevekinney/utilities/code-snippets';
+import remarkParse from 'remark-parse';
+import { unified } from 'unified';
+
+import { resolveCodeSnippets } from './code-snippets.ts';
+import type { ContentValidationIssue, MarkdownSource } from './types.ts';
+
+const parser = unified().use(remarkParse);
+
+const counterTest = [
+  "import { describe, expect, it } from 'vitest';",
+  '',
+  "describe('counter', () => {",
+  '  // #region setup',
+  '  const counter = createCounter();',
+  '  // #endregion',
+  "  it('increments', () => {",
+  '    expect(counter.increment()).toBe(1);',
+  '  });',
+  '});',
+].join('\n');
+
+describe('code snippets', () => {
+  let directory: string;
+  let lessonPath: string;
+
+  const source = (content: string): MarkdownSource => ({
+    absolutePath: lessonPath,
+    sourcePath: 'courses/testing/counter.md',
+    sourceHash: 'lesson',
+    data: {},
+    frontmatterLines: {},
+    bodyLineOffset: 4,
+    content,
+    tree: parser.parse(content),
+    headingAnchors: new Set(),
+    tailwindPlaygrounds: [],
+  });
+
+  const resolve = (content: string) => {
+    const issues: ContentValidationIssue[] = [];
+    const resolved = resolveCodeSnippets([source(content)], issues, [directory]);
+    return { resolved: resolved.get('courses/testing/counter.md'), issues };
+  };
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'code-snippets-'));
+    lessonPath = path.join(directory, 'testing', 'counter.md');
+    await mkdir(path.join(directory, 'testing', 'assets'), { recursive: true });
+    await writeFile(path.join(directory, 'testing', 'assets', 'counter.test.ts'), counterTest);
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  test('shows a line range or a region, dedented and without region markers', () => {
+    const load = (range: Omit<CodeSnippetReference, 'path'>) =>
+      loadCodeSnippet(lessonPath, { path: './assets/counter.test.ts', ...range }, [directory]);
+
+    expect(load({ lines: { from: 7, to: 9 } })).toMatchObject({
+      code: ["it('increments', () => {", '  expect(counter.increment()).toBe(1);', '});'].join(
+        '\n',
+      ),
+    });
+    expect(load({ region: 'setup' })).toMatchObject({
+      code: 'const counter = createCounter();',
+    });
+  });
+
+  test('reports missing files, ranges, and regions on the fence line', () => {
+    const { resolved, issues } = resolve(
+      [
+        '```ts file="./assets/counter.test.ts#L8-L40"',
+        '```',
+        '',
+        '```ts file="./assets/counter.test.ts" region=teardown',
+        '```',
+        '',
+        '```ts file="./assets/missing.ts"',
+        '```',
+        '',
+        '```ts file="../../../etc/passwd"',
+        '```',
+      ].join('\n'),
+    );
+
+    expect(resolved).toBeUndefined();
+    expect(issues).toEqual([
+      {
+        file: 'courses/testing/counter.md',
+        message:
+          "Code snippet range L8-L40 doesn't fit './assets/counter.test.ts', which has 10 lines.",
+        line: 5,
+      },
+      {
+        file: 'courses/testing/counter.md',
+        message:
+          "Code snippet region 'teardown' isn't in './assets/counter.test.ts'. Mark it with '#region teardown' and '#endregion' comments.",
+        line: 8,
+      },
+      {
+        file: 'courses/testing/counter.md',
+        message: "Code snippet file './assets/missing.ts' doesn't exist.",
+        line: 11,
+      },
+      {
+        file: 'courses/testing/counter.md',
+        message: "Code snippet file '../../../etc/passwd' is outside the content folders.",
+        line: 14,
+      },
+    ]);
+  });
+
+  test("folds the shown file's hash into the lesson's", async () => {
+    const content = '```ts file="./assets/counter.test.ts" region=setup\n```';
+    const before = resolve(content);
+
+    await writeFile(
+      path.join(directory, 'testing', 'assets', 'counter.test.ts'),
+      counterTest.replace('createCounter()', 'createCounter(10)'),
+    );
+    const after = resolve(content);
+
+    expect(before.issues).toEqual([]);
+    expect(before.resolved?.files).toHaveLength(1);
+    expect(before.resolved?.sourceHash).toMatch(/^[a-f0-9]{64}$/);
+    expect(after.resolved?.sourceHash).not.toBe(before.resolved?.sourceHash);
+  });
+
+  test('prepares the snippet a fence shows, and reports one it cannot load', () => {
+    const fence = {
+      code: '',
+      lang: 'ts',
+      meta: 'file="./assets/counter.test.ts" region=setup',
+      contentRoots: [directory],
+    };
+
+    expect(prepareCodeFence({ ...fence, filename: lessonPath })).toMatchObject({
+      code: 'const counter = createCounter();',
+      meta: '',
+      writtenLines: null,
+    });
+    expect(prepareCodeFence(fence)).toEqual({
+      error:
+        "Code snippet './assets/counter.test.ts' can't be loaded without the path of the Markdown file that shows it.",
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { loadCodeSnippet, parseCodeSnippetReference } from '@stevekinney/utilities/code-snippets';
+import { visit } from 'unist-util-visit';
+
+import { coursesRoot, projectsRoot, writingRoot } from '../content-paths.ts';
+
+import { hashContents, relativeSourcePath } from './markdown.ts';
+import type { ContentValidationIssue, MarkdownSource } from './types.ts';
+
+/** The files a source's `file="…"` fences show. */
+export type ResolvedCodeSnippets = {
+  files: Array<{ sourcePath: string; sourceHash: string }>;
+  /** Its own hash combined with the hash of every file it shows. */
+  sourceHash: string;
+};
+
+/**
+ * Load every `file="…"` fence the way the site's highlighter does, reporting
+ * missing files, line ranges past the end of the file, and unknown regions.
+ * Sources that show files get a combined hash, so editing an example file
+ * rebuilds the pages that show it.
+ */
+export const resolveCodeSnippets = (
+  sources: Iterable<MarkdownSource>,
+  issues: ContentValidationIssue[],
+  contentRoots: readonly string[] = [writingRoot, coursesRoot, projectsRoot],
+): Map<string, ResolvedCodeSnippets> => {
+  const resolved = new Map<string, ResolvedCodeSnippets>();
+
+  for (const source of sources) {
+    if (!source.content.includes('file="')) continue;
+    const files = new Map<string, string>();
+
+    visit(source.tree, 'code', (node) => {
+      const { reference } = parseCodeSnippetReference(node.meta);
+      if (!reference) return;
+
+      const snippet = loadCodeSnippet(source.absolutePath, reference, contentRoots);
+      if ('error' in snippet) {
+        issues.push({
+          file: source.sourcePath,
+          message: snippet.error,
+          ...(node.position ? { line: node.position.start.line + source.bodyLineOffset } : {}),
+        });
+        return;
+      }
+
+      files.set(relativeSourcePath(snippet.absolutePath), hashContents(snippet.contents));
+    });
+
+    if (files.size === 0) continue;
+
+    const sorted = [...files].sort(([a], [b]) => a.localeCompare(b));
+    resolved.set(source.sourcePath, {
+      files: sorted.map(([sourcePath, sourceHash]) => ({ sourcePath, sourceHash })),
+      sourceHash: hashContents(
+        [source.sourceHash, ...sorted.map(([sourcePath, hash]) => `${sourcePath}:${hash}`)].join(
+          '|',
+        ),
+      ),
+    });
+  }
+
+  return resolved;
+};
@@ -1,9 +1,18 @@
 import fg from 'fast-glob';
 
+import type { PublicationStatus } from '@stevekinney/utilities/content-types';
 import { buildTailwindPlaygroundSource } from '@stevekinney/utilities/tailwind-playground';
+import { createWikilinkResolver, type WikilinkResolver } from '@stevekinney/utilities/wikilinks';
 
-import { coursesRoot, projectsRoot, writingRoot } from '../content-paths.ts';
+import {
+  contentRepositoryCachePath,
+  coursesRoot,
+  projectsRoot,
+  tagRegistryPath as defaultTagRegistryPath,
+  writingRoot,
+} from '../content-paths.ts';
 
+import { buildBacklinks, validateOrphanedContent } from './backlinks.ts';
 import {
   buildCourseEntry,
   buildPrerenderEntries,
@@ -12,45 +21,216 @@ import {
   buildRoutes,
   buildSiteIndex,
   buildWritingEntry,
+  omitUnpublished,
 } from './builders.ts';
+import type { ContentRepositoryCache } from './cache.ts';
+import {
+  createContentRepositoryCache,
+  getCachedLinkIssues,
+  getCachedTwoslashIssues,
+  getChangedRoutePaths,
+  loadContentRepositoryCache,
+  saveContentRepositoryCache,
+  setCachedLinkIssues,
+  setCachedTwoslashIssues,
+} from './cache.ts';
+import { resolveCodeSnippets } from './code-snippets.ts';
+import { validateExercises } from './exercises.ts';
 import { loadMarkdownSource } from './markdown.ts';
+import { buildRedirects, validateRedirects } from './redirects.ts';
+import { attachRelatedContent } from './related.ts';
+import { buildSearchIndex } from './search.ts';
+import { buildSeriesIndex, validateSeries } from './series.ts';
+import { buildTagIndex, loadTagRegistry, normalizeEntryTags } from './tags.ts';
+import { resolveTransclusions, type ResolvedTransclusions } from './transclusion.ts';
+import { validateTwoslashBlocks } from './twoslash.ts';
 import type {
+  CollectContentRepositoryOptions,
   ContentRepository,
   ContentValidationIssue,
   CourseRecord,
+  MarkdownLinkTargets,
   MarkdownSource,
 } from './types.ts';
 import {
   validateMarkdownLinks,
   validateProjectFrontmatterLinks,
   validateRouteCollisions,
+  validateWikilinks,
+  type WikilinkTarget,
 } from './validation.ts';
 
+type SourceArtifactContext = {
+  routePaths: Set<string>;
+  courseDirectorySlugs: Set<string>;
+  /** Routes added or removed since the cached run; links to them must be re-checked. */
+  changedRoutePaths: Set<string>;
+  cache: ContentRepositoryCache;
+  /** Drafts and scheduled entries keyed by both route path and absolute source path. */
+  unpublished: Map<string, PublicationStatus>;
+  sourceHashes: Map<string, string>;
+  /** What each source links to, keyed by source path, for the backlinks map. */
+  linkTargets: Map<string, MarkdownLinkTargets>;
+  tailwindPlaygrounds: string[];
+  validationIssues: ContentValidationIssue[];
+  resolveWikilink: WikilinkResolver<WikilinkTarget>;
+  transclusions: Map<string, ResolvedTransclusions>;
+};
+
 const collectSourceArtifacts = async (
   source: MarkdownSource,
-  routePaths: Set<string>,
-  courseDirectorySlugs: Set<string>,
-  sourceHashes: Map<string, string>,
-  tailwindPlaygrounds: string[],
-  validationIssues: ContentValidationIssue[],
+  context: SourceArtifactContext,
 ): Promise<void> => {
-  sourceHashes.set(source.sourcePath, source.sourceHash);
-  tailwindPlaygrounds.push(...source.tailwindPlaygrounds);
+  context.sourceHashes.set(source.sourcePath, source.sourceHash);
+  context.tailwindPlaygrounds.push(...source.tailwindPlaygrounds);
+
+  const targets = await collectMarkdownLinkTargets(source, context);
+
+  // Wikilinks also depend on the headings of the notes they name, which the
+  // link cache doesn't track, so they are checked on every run.
+  if (source.content.includes('[[')) {
+    const wikilinkTargets: MarkdownLinkTargets = { routes: [], assets: [] };
+    await validateWikilinks(
+      source,
+      context.resolveWikilink,
+      context.validationIssues,
+      wikilinkTargets,
+      context.unpublished,
+    );
+    targets.routes.push(...wikilinkTargets.routes);
+    targets.assets.push(...wikilinkTargets.assets);
+  }
+
+  if (source.content.includes('twoslash')) {
+    collectTwoslashIssues(source, context);
+  }
+
+  const includes = context.transclusions.get(source.sourcePath)?.includes ?? [];
+  targets.routes.push(...includes.map((target) => target.path));
+
+  context.linkTargets.set(source.sourcePath, targets);
+  warnAboutUnpublishedLinks(source, targets, context);
+};
+
+/**
+ * Validate a source's ordinary links, reusing the cached result when neither
+ * the source nor the routes it links to changed. Returns a copy of the
+ * targets so callers can add to them without touching the cache.
+ */
+const collectMarkdownLinkTargets = async (
+  source: MarkdownSource,
+  context: SourceArtifactContext,
+): Promise<MarkdownLinkTargets> => {
+  const cachedIssues = getCachedLinkIssues(context.cache, source, context.changedRoutePaths);
+  if (cachedIssues) {
+    const cachedTargets = context.cache.links.get(source.sourcePath)!;
+    context.validationIssues.push(...cachedIssues);
+    return { routes: [...cachedTargets.routes], assets: [...cachedTargets.assets] };
+  }
+
+  const issues: ContentValidationIssue[] = [];
+  const targets: MarkdownLinkTargets = { routes: [], assets: [] };
 
   await validateMarkdownLinks(
-    source.sourcePath,
-    source.tree,
-    source.headingAnchors,
-    routePaths,
-    courseDirectorySlugs,
-    validationIssues,
+    source,
+    context.routePaths,
+    context.courseDirectorySlugs,
+    issues,
+    targets,
   );
+
+  setCachedLinkIssues(context.cache, source, targets, issues);
+  context.validationIssues.push(...issues);
+  return { routes: [...targets.routes], assets: [...targets.assets] };
+};
+
+/**
+ * Type-check a source's twoslash blocks, reusing the cached result while the
+ * source, including the snippets and notes it pulls in, is unchanged.
+ */
+const collectTwoslashIssues = (source: MarkdownSource, context: SourceArtifactContext): void => {
+  const cachedIssues = getCachedTwoslashIssues(context.cache, source);
+  if (cachedIssues) {
+    context.validationIssues.push(...cachedIssues);
+    return;
+  }
+
+  const issues: ContentValidationIssue[] = [];
+  validateTwoslashBlocks(source, issues);
+  setCachedTwoslashIssues(context.cache, source, issues);
+  context.validationIssues.push(...issues);
+};
+
+/**
+ * Published content linking to a draft or scheduled entry would 404 in
+ * production. Unpublished sources may link to each other freely.
+ */
+const warnAboutUnpublishedLinks = (
+  source: MarkdownSource,
+  targets: MarkdownLinkTargets,
+  context: SourceArtifactContext,
+): void => {
+  if (context.unpublished.has(source.absolutePath)) return;
+
+  const linked = new Set([...targets.routes, ...targets.assets.map((asset) => asset.path)]);
+
+  for (const target of [...linked].sort()) {
+    const publication = context.unpublished.get(target);
+    if (!publication) continue;
+
+    context.validationIssues.push({
+      file: source.sourcePath,
+      message:
+        publication.state === 'draft'
+          ? `Links to draft '${target}', which will 404 in production.`
+          : `Links to '${target}', which is scheduled for ${publication.publishAt} and will 404 in production until then.`,
+      severity: 'warning',
+    });
+  }
+};
+
+/**
+ * Entries and routes copied each file's own hash before code snippets and
+ * transclusions were resolved, so swap in the combined hash wherever a
+ * host's hash appears.
+ */
+const applySourceHashes = (
+  combined: Map<string, { sourceHash: string }>,
+  records: Iterable<{ sourcePath: string; sourceHash: string }>,
+): void => {
+  for (const record of records) {
+    const resolved = combined.get(record.sourcePath);
+    if (resolved) record.sourceHash = resolved.sourceHash;
+  }
+};
+
+const collectUnpublished = (
+  entries: Array<{ path: string; publication?: PublicationStatus; source: MarkdownSource }>,
+): Map<string, PublicationStatus> => {
+  const unpublished = new Map<string, PublicationStatus>();
+
+  for (const entry of entries) {
+    if (!entry.publication) continue;
+    unpublished.set(entry.path, entry.publication);
+    unpublished.set(entry.source.absolutePath, entry.publication);
+  }
+
+  return unpublished;
 };
 
 export type { ContentRepository } from './types.ts';
 
-export const collectContentRepository = async (): Promise<ContentRepository> => {
+export const collectContentRepository = async ({
+  cachePath = contentRepositoryCachePath,
+  tagRegistryPath = defaultTagRegistryPath,
+  includeUnpublished = false,
+  now = new Date(),
+}: CollectContentRepositoryOptions = {}): Promise<ContentRepository> => {
   const validationIssues: ContentValidationIssue[] = [];
+  const cache = cachePath
+    ? await loadContentRepositoryCache(cachePath)
+    : createContentRepositoryCache();
+  const tagRegistry = await loadTagRegistry(tagRegistryPath, validationIssues);
   const writingFiles = await fg('*.md', {
     cwd: writingRoot,
     absolute: true,
@@ -67,85 +247,178 @@ export const collectContentRepository = async (): Promise<ContentRepository> =>
     onlyFiles: true,
   });
   const writingSources = await Promise.all(
-    writingFiles.sort().map((file) => loadMarkdownSource(file)),
+    writingFiles.sort().map((file) => loadMarkdownSource(file, cache)),
   );
   const projectSources = await Promise.all(
-    projectFiles.sort().map((file) => loadMarkdownSource(file)),
+    projectFiles.sort().map((file) => loadMarkdownSource(file, cache)),
   );
 
-  const writingEntries = await Promise.all(
-    writingSources.map((source) => buildWritingEntry(source, validationIssues)),
+  const allWritingEntries = await Promise.all(
+    writingSources.map((source) => buildWritingEntry(source, validationIssues, now)),
   );
-  const projectEntries = await Promise.all(
-    projectSources.map((source) => buildProjectEntry(source, validationIssues)),
+  const allProjectEntries = await Promise.all(
+    projectSources.map((source) => buildProjectEntry(source, validationIssues, now)),
   );
-  const courseEntries = (
+  const allCourseEntries = (
     await Promise.all(
-      courseDirectories.sort().map((directory) => buildCourseEntry(directory, validationIssues)),
+      courseDirectories
+        .sort()
+        .map((directory) => buildCourseEntry(directory, validationIssues, cache, now)),
     )
   ).filter((entry): entry is CourseRecord => entry !== null);
+  const allLessonRecords = allCourseEntries.flatMap((course) => course.lessons);
+
+  normalizeEntryTags(allWritingEntries, tagRegistry, validationIssues);
+  normalizeEntryTags(allLessonRecords, tagRegistry, validationIssues);
+  validateSeries(allWritingEntries, validationIssues);
+  for (const course of allCourseEntries) validateExercises(course, validationIssues);
 
-  const routes = buildRoutes(writingEntries, courseEntries, projectEntries);
-  validateRouteCollisions(writingEntries, courseEntries, projectEntries, routes, validationIssues);
+  // Collisions and link targets are checked against every entry, published or
+  // not, so drafts stay valid while they are being written.
+  const allRoutes = buildRoutes(allWritingEntries, allCourseEntries, allProjectEntries);
+  validateRouteCollisions(
+    allWritingEntries,
+    allCourseEntries,
+    allProjectEntries,
+    allRoutes,
+    validationIssues,
+  );
 
-  const routePaths = new Set(Object.keys(routes));
-  const courseDirectorySlugs = new Set(courseEntries.map((entry) => entry.slug));
-  const tailwindPlaygrounds: string[] = [];
-  const sourceHashes = new Map<string, string>();
+  const sourcesByPath = new Map(
+    [
+      ...writingSources,
+      ...projectSources,
+      ...allCourseEntries.flatMap((course) => [
+        course.source,
+        ...course.lessons.map((lesson) => lesson.source),
+      ]),
+    ].map((source) => [source.sourcePath, source]),
+  );
+  const resolveWikilink = createWikilinkResolver(
+    Object.values(allRoutes).map(({ path, title, sourcePath }) => ({
+      path,
+      title,
+      sourcePath,
+      headingAnchors: sourcesByPath.get(sourcePath)?.headingAnchors ?? new Set<string>(),
+    })),
+  );
+  const hashedRecords = [
+    ...allWritingEntries,
+    ...allCourseEntries,
+    ...allLessonRecords,
+    ...allProjectEntries,
+    ...Object.values(allRoutes),
+    ...sourcesByPath.values(),
+  ];
+  // Before transclusions, so a page that includes a note also picks up the files that note shows.
+  const codeSnippets = resolveCodeSnippets(sourcesByPath.values(), validationIssues);
+  applySourceHashes(codeSnippets, hashedRecords);
+  const allEntriesWithSources = [
+    ...allWritingEntries.map((entry, index) => ({ ...entry, source: writingSources[index] })),
+    ...allCourseEntries,
+    ...allLessonRecords,
+    ...allProjectEntries,
+  ];
+  const unpublished = collectUnpublished(allEntriesWithSources);
+  const transclusions = resolveTransclusions(
+    sourcesByPath.values(),
+    resolveWikilink,
+    validationIssues,
+    unpublished,
+  );
+  applySourceHashes(transclusions, hashedRecords);
+
+  const { writingEntries, courseEntries, projectEntries } = includeUnpublished
+    ? {
+        writingEntries: allWritingEntries,
+        courseEntries: allCourseEntries,
+        projectEntries: allProjectEntries,
+      }
+    : omitUnpublished(allWritingEntries, allCourseEntries, allProjectEntries);
+  const routes = includeUnpublished
+    ? allRoutes
+    : buildRoutes(writingEntries, courseEntries, projectEntries);
+  const tags = buildTagIndex(
+    tagRegistry,
+    writingEntries,
+    courseEntries.flatMap((course) => course.lessons),
+  );
+  const series = buildSeriesIndex(writingEntries);
+  attachRelatedContent(
+    routes,
+    new Map([...sourcesByPath].map(([sourcePath, source]) => [sourcePath, source.content])),
+  );
+
+  // Tag and series pages are valid link targets even though they are not content routes.
+  const routePaths = new Set([
+    ...Object.keys(allRoutes),
+    ...tags.map((entry) => entry.path),
+    ...series.map((entry) => entry.path),
+  ]);
+  cache.routePaths = routePaths;
+
+  const context: SourceArtifactContext = {
+    routePaths,
+    courseDirectorySlugs: new Set(allCourseEntries.map((entry) => entry.slug)),
+    changedRoutePaths: getChangedRoutePaths(cache),
+    cache,
+    unpublished,
+    sourceHashes: new Map<string, string>(),
+    linkTargets: new Map<string, MarkdownLinkTargets>(),
+    tailwindPlaygrounds: [],
+    validationIssues,
+    resolveWikilink,
+    transclusions,
+  };
 
   for (const writingSource of writingSources) {
-    await collectSourceArtifacts(
-      writingSource,
-      routePaths,
-      courseDirectorySlugs,
-      sourceHashes,
-      tailwindPlaygrounds,
-      validationIssues,
-    );
+    await collectSourceArtifacts(writingSource, context);
   }
 
   for (const projectSource of projectSources) {
-    await collectSourceArtifacts(
-      projectSource,
-      routePaths,
-      courseDirectorySlugs,
-      sourceHashes,
-      tailwindPlaygrounds,
-      validationIssues,
-    );
+    await collectSourceArtifacts(projectSource, context);
   }
 
-  for (const course of courseEntries) {
-    await collectSourceArtifacts(
-      course.source,
-      routePaths,
-      courseDirectorySlugs,
-      sourceHashes,
-      tailwindPlaygrounds,
-      validationIssues,
-    );
+  for (const course of allCourseEntries) {
+    await collectSourceArtifacts(course.source, context);
 
     if (course.contentsSource) {
-      sourceHashes.set(course.contentsSource.sourcePath, course.contentsSource.sourceHash);
+      context.sourceHashes.set(course.contentsSource.sourcePath, course.contentsSource.sourceHash);
     }
 
     for (const lesson of course.lessons) {
-      await collectSourceArtifacts(
-        lesson.source,
-        routePaths,
-        courseDirectorySlugs,
-        sourceHashes,
-        tailwindPlaygrounds,
-        validationIssues,
-      );
+      await collectSourceArtifacts(lesson.source, context);
     }
   }
 
-  validateProjectFrontmatterLinks(projectEntries, routePaths, validationIssues);
+  validateProjectFrontmatterLinks(allProjectEntries, routePaths, validationIssues);
+  validateRedirects(allEntriesWithSources, routePaths, validationIssues);
+
+  const backlinks = buildBacklinks(routes, context.linkTargets);
+  const standaloneSourcePaths = new Set(
+    [...writingSources, ...projectSources]
+      .filter((source) => source.data.standalone === true)
+      .map((source) => source.sourcePath),
+  );
+  validateOrphanedContent(routes, backlinks, validationIssues, standaloneSourcePaths);
+
+  if (tagRegistry) {
+    context.sourceHashes.set(tagRegistry.sourcePath, tagRegistry.sourceHash);
+  }
+
+  for (const { files } of codeSnippets.values()) {
+    for (const file of files) context.sourceHashes.set(file.sourcePath, file.sourceHash);
+  }
+
+  if (cachePath) {
+    await saveContentRepositoryCache(cachePath, cache);
+  }
 
+  const { sourceHashes, tailwindPlaygrounds } = context;
   const sourceFiles = [...sourceHashes.keys()].sort();
   const repositoryHash = buildRepositoryHash(sourceHashes);
   const { lessons, siteIndex } = buildSiteIndex(writingEntries, courseEntries, projectEntries);
+  const redirects = buildRedirects(writingEntries, courseEntries, projectEntries);
 
   return {
     meta: {
@@ -160,13 +433,21 @@ export const collectContentRepository = async (): Promise<ContentRepository> =>
     courses: siteIndex.courses,
     lessons,
     projects: siteIndex.projects,
+    tags,
+    series,
+    backlinks,
+    redirects,
     prerenderEntries: buildPrerenderEntries(
       writingEntries,
       courseEntries,
       lessons,
       siteIndex.projects,
+      tags,
+      series,
+      redirects,
     ),
     validationIssues,
+    searchIndex: buildSearchIndex(routes, sourcesByPath),
     tailwindPlaygroundSource: buildTailwindPlaygroundSource(tailwindPlaygrounds),
     sourceFiles,
   };
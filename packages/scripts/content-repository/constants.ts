@@ -1,7 +1,14 @@
-export const writingReservedSlugs = new Set(['page', 'rss', 'open-graph.jpg', 'llms.txt']);
+export const writingReservedSlugs = new Set([
+  'page',
+  'rss',
+  'series',
+  'open-graph.jpg',
+  'llms.txt',
+]);
 export const courseReservedSlugs = new Set(['open-graph.jpg', 'llms.txt']);
-export const lessonReservedSlugs = new Set(['open-graph.jpg', 'llms.txt']);
+export const lessonReservedSlugs = new Set(['open-graph.jpg', 'llms.txt', 'print']);
 export const projectReservedSlugs = new Set(['open-graph.jpg', 'llms.txt']);
+export const tagReservedSlugs = new Set(['page', 'open-graph.jpg']);
 export const staticRoutes = new Set([
   '/',
   '/courses',
@@ -11,8 +18,20 @@ export const staticRoutes = new Set([
   '/open-graph.jpg',
   '/projects',
   '/projects/open-graph.jpg',
+  '/search',
   '/sitemap.xml',
+  '/tags',
+  '/tags/open-graph.jpg',
   '/writing',
   '/writing/open-graph.jpg',
   '/writing/rss',
 ]);
+
+/** Redirects that predate the content, served alongside frontmatter `redirectFrom`. */
+export const siteRedirects: Record<string, string> = {
+  '/rss': '/writing/rss',
+  '/feed': '/writing/rss',
+  '/rss.xml': '/writing/rss',
+  '/atom.xml': '/writing/rss',
+  '/sitemap.xml.gz': '/sitemap.xml',
+};
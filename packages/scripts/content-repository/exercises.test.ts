@@ -0,0 +1,82 @@
+import { describe, expect, test } from 'bun:test';
+
+import type { CourseContentsData } from '@stevekinney/utilities/content-types';
+
+import { pairExercises, validateExercises } from './exercises.ts';
+import type { ContentValidationIssue, CourseRecord } from './types.ts';
+
+const createLesson = (slug: string, headingAnchors: string[] = []) => ({
+  slug,
+  sourcePath: `courses/testing/${slug}.md`,
+  source: { headingAnchors: new Set(headingAnchors) },
+});
+
+describe('pairExercises', () => {
+  test('prefers an explicit solution and infers the rest from lesson names', () => {
+    const contents: CourseContentsData = {
+      section: [
+        {
+          item: [
+            {
+              title: 'Hooks',
+              href: 'hooks.md',
+              related: [
+                {
+                  title: 'Exercise',
+                  href: 'vitests-hooks-exercise.md',
+                  solution: 'vitest-hooks-solution.md',
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    };
+
+    const pairs = pairExercises(
+      contents,
+      new Set([
+        'hooks',
+        'vitests-hooks-exercise',
+        'vitest-hooks-solution',
+        'matchers-exercise',
+        'matchers-solution',
+        'emmet-exercises',
+        'emmet-solutions',
+        'spies-exercise',
+      ]),
+    );
+
+    expect([...pairs]).toEqual([
+      ['vitests-hooks-exercise', 'vitest-hooks-solution'],
+      ['emmet-exercises', 'emmet-solutions'],
+      ['matchers-exercise', 'matchers-solution'],
+    ]);
+  });
+});
+
+describe('validateExercises', () => {
+  test('warns about exercises with no solution lesson or solution section', () => {
+    const issues: ContentValidationIssue[] = [];
+    const course = {
+      contents: { section: [] },
+      lessons: [
+        createLesson('matchers-exercise'),
+        createLesson('matchers-solution'),
+        createLesson('spies-exercise'),
+        createLesson('mocks-exercise', ['setup', 'solution']),
+      ],
+    } as unknown as CourseRecord;
+
+    validateExercises(course, issues);
+
+    expect(issues).toEqual([
+      {
+        file: 'courses/testing/spies-exercise.md',
+        message:
+          "Exercise 'spies-exercise' has no solution. Name it 'spies-solution.md' or set 'solution' on its index.toml item.",
+        severity: 'warning',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,68 @@
+import type { CourseContentsData } from '@stevekinney/utilities/content-types';
+import { collectCourseItems } from '@stevekinney/utilities/course-contents';
+
+import type { ContentValidationIssue, CourseRecord } from './types.ts';
+
+const exerciseSlugPattern = /^(.+)-exercise(s?)$/;
+
+const toSlug = (href: string): string => href.replace(/\.md$/i, '');
+
+/**
+ * Pair each exercise lesson with its solution, keyed by exercise slug. A
+ * `solution` on an `index.toml` item or related link wins; otherwise
+ * `<name>-exercise` pairs with `<name>-solution` (and `-exercises` with
+ * `-solutions`) when both exist.
+ */
+export const pairExercises = (
+  contents: CourseContentsData | undefined,
+  lessonSlugs: Set<string>,
+): Map<string, string> => {
+  const pairs = new Map<string, string>();
+  const pairedSolutions = new Set<string>();
+
+  const items = collectCourseItems(contents).flatMap((item) => [item, ...(item.related ?? [])]);
+
+  for (const item of items) {
+    if (!item.href || !item.solution) continue;
+    const exercise = toSlug(item.href);
+    const solution = toSlug(item.solution);
+    if (!lessonSlugs.has(exercise) || !lessonSlugs.has(solution)) continue;
+
+    pairs.set(exercise, solution);
+    pairedSolutions.add(solution);
+  }
+
+  for (const slug of [...lessonSlugs].sort()) {
+    const match = slug.match(exerciseSlugPattern);
+    if (!match || pairs.has(slug)) continue;
+
+    const solution = `${match[1]}-solution${match[2]}`;
+    if (lessonSlugs.has(solution) && !pairedSolutions.has(solution)) {
+      pairs.set(slug, solution);
+      pairedSolutions.add(solution);
+    }
+  }
+
+  return pairs;
+};
+
+/**
+ * Warn about `-exercise` lessons with no paired solution. An exercise that
+ * answers itself under a "Solution" heading is complete on its own.
+ */
+export const validateExercises = (course: CourseRecord, issues: ContentValidationIssue[]): void => {
+  const pairs = pairExercises(course.contents, new Set(course.lessons.map(({ slug }) => slug)));
+
+  for (const lesson of course.lessons) {
+    if (!exerciseSlugPattern.test(lesson.slug) || pairs.has(lesson.slug)) continue;
+    if ([...lesson.source.headingAnchors].some((anchor) => /^solutions?(?:-|$)/.test(anchor))) {
+      continue;
+    }
+
+    issues.push({
+      file: lesson.sourcePath,
+      message: `Exercise '${lesson.slug}' has no solution. Name it '${lesson.slug.replace(exerciseSlugPattern, '$1-solution$2')}.md' or set 'solution' on its index.toml item.`,
+      severity: 'warning',
+    });
+  }
+};
@@ -0,0 +1,144 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+import { describe, expect, test } from 'bun:test';
+
+import { frontmatterSchemasDirectory } from '../content-paths.ts';
+
+import {
+  frontmatterSchemas,
+  lessonFrontmatterSchema,
+  projectFrontmatterSchema,
+  toFrontmatterJsonSchema,
+  validateFrontmatter,
+  writingFrontmatterSchema,
+} from './frontmatter-schemas.ts';
+import { loadMarkdownSource } from './markdown.ts';
+import type { ContentValidationIssue } from './types.ts';
+
+const loadSource = async (markdown: string) => {
+  const directory = await mkdtemp(path.join(tmpdir(), 'frontmatter-schemas-'));
+  const filePath = path.join(directory, 'post.md');
+
+  try {
+    await writeFile(filePath, markdown, 'utf8');
+    return { ...(await loadMarkdownSource(filePath)), sourcePath: 'writing/post.md' };
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+};
+
+const validate = async (
+  markdown: string,
+  schema: Parameters<typeof validateFrontmatter>[1] = writingFrontmatterSchema,
+) => {
+  const issues: ContentValidationIssue[] = [];
+  const data = validateFrontmatter(await loadSource(markdown), schema, issues);
+  return { data, issues };
+};
+
+describe('validateFrontmatter', () => {
+  test('returns normalized frontmatter when everything validates', async () => {
+    const { data, issues } = await validate(
+      "---\ntitle: '  Hooks  '\ndescription: About hooks.\ndate: 2025-01-02\nmodified: '2025-01-03'\ntags: [react]\n---\nBody.\n",
+    );
+
+    expect(issues).toEqual([]);
+    expect(data).toEqual({
+      title: 'Hooks',
+      description: 'About hooks.',
+      date: '2025-01-02',
+      modified: '2025-01-03',
+      tags: ['react'],
+    });
+  });
+
+  test('reports each failure at the line of its key and keeps the valid fields', async () => {
+    const { data, issues } = await validate(
+      '---\ntitle: Hooks\ndate: someday\nmodified: 2025-01-03\ndraft: yes\ntittle: Typo\n---\nBody.\n',
+    );
+
+    expect(issues).toEqual([
+      { file: 'writing/post.md', message: "Missing required 'description' frontmatter." },
+      {
+        file: 'writing/post.md',
+        message: "Invalid 'date' frontmatter: expected a YYYY-MM-DD date.",
+        line: 3,
+      },
+      {
+        file: 'writing/post.md',
+        message: "Invalid 'draft' frontmatter: expected true or false.",
+        line: 5,
+      },
+      {
+        file: 'writing/post.md',
+        message: "Unknown frontmatter key 'tittle'. Did you mean 'title'?",
+        line: 6,
+      },
+    ]);
+    expect(data).toEqual({ title: 'Hooks', modified: '2025-01-03' });
+  });
+
+  test('requires series and seriesOrder together', async () => {
+    const frontmatter = (extra: string) =>
+      `---\ntitle: Hooks\ndescription: About hooks.\ndate: 2025-01-02\nmodified: 2025-01-02\n${extra}\n---\n`;
+
+    expect((await validate(frontmatter('series: Agent Internals'))).issues).toEqual([
+      {
+        file: 'writing/post.md',
+        message: "Missing 'seriesOrder' frontmatter for series 'Agent Internals'.",
+        line: 6,
+      },
+    ]);
+    expect((await validate(frontmatter('seriesOrder: 1'))).issues).toEqual([
+      {
+        file: 'writing/post.md',
+        message: "'seriesOrder' frontmatter requires a 'series'.",
+        line: 6,
+      },
+    ]);
+    expect((await validate(frontmatter('series: Agent Internals\nseriesOrder: 0'))).data).toEqual(
+      expect.not.objectContaining({ seriesOrder: expect.anything() }),
+    );
+  });
+
+  test('checks project URLs and package names', async () => {
+    const { issues } = await validate(
+      "---\nname: Weft\ndescription: A tool.\ngithubUrl: github.com/weft\nnpmPackages: ['weft', '']\n---\n",
+      projectFrontmatterSchema,
+    );
+
+    expect(issues.map((issue) => [issue.message, issue.line])).toEqual([
+      ["Invalid 'githubUrl' frontmatter: expected an http(s) URL.", 4],
+      ["Invalid 'npmPackages' frontmatter: expected non-empty text.", 5],
+    ]);
+  });
+});
+
+describe('toFrontmatterJsonSchema', () => {
+  test('describes the authored shape and rejects unknown keys', () => {
+    const schema = toFrontmatterJsonSchema(lessonFrontmatterSchema);
+
+    expect(schema).toMatchObject({
+      title: 'Course lesson frontmatter',
+      type: 'object',
+      required: ['title', 'description', 'date', 'modified'],
+      additionalProperties: false,
+    });
+    expect(Object.keys(schema.properties ?? {})).toContain('tags');
+  });
+
+  test('matches the committed schema files', async () => {
+    for (const [name, schema] of Object.entries(frontmatterSchemas)) {
+      const committed = await readFile(
+        path.join(frontmatterSchemasDirectory, `${name}.schema.json`),
+        'utf8',
+      );
+
+      expect(JSON.parse(committed), `${name}.schema.json is stale; run content:schemas`).toEqual(
+        toFrontmatterJsonSchema(schema),
+      );
+    }
+  });
+});
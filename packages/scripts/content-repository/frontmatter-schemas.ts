@@ -0,0 +1,214 @@
+import { z } from 'zod';
+
+import { toDateString } from '@stevekinney/utilities/frontmatter';
+
+import type { ContentValidationIssue, MarkdownSource } from './types.ts';
+import { suggestClosest } from './validation.ts';
+
+const nonEmptyString = z
+  .string({ error: 'expected text' })
+  .trim()
+  .min(1, { error: 'expected non-empty text' });
+
+const dateString = z
+  .string({ error: 'expected a YYYY-MM-DD date' })
+  .refine((value) => toDateString(value) !== null, { error: 'expected a YYYY-MM-DD date' })
+  .transform((value) => toDateString(value)!)
+  .meta({ description: 'A YYYY-MM-DD date.' });
+
+const httpUrl = z.url({ protocol: /^https?$/, error: 'expected an http(s) URL' });
+
+const tags = z
+  .array(z.string({ error: 'expected a list of tags' }), { error: 'expected a list of tags' })
+  .meta({ description: 'Tags from the root tags.toml registry.' });
+
+const draft = z
+  .boolean({ error: 'expected true or false' })
+  .meta({ description: 'Hold the entry back from production builds.' });
+
+const standalone = z.boolean({ error: 'expected true or false' }).meta({
+  description: 'Nothing else needs to link here, so content:validate doesn’t warn about it.',
+});
+
+const redirectPaths = z
+  .array(
+    nonEmptyString.refine((value) => !/^(?:[a-z][a-z\d+.-]*:|\/\/)/i.test(value), {
+      error: 'expected a path on this site',
+    }),
+    { error: 'expected a list of paths' },
+  )
+  .meta({
+    description:
+      'Old URLs that should redirect here: root paths such as `/writing/old-name`, or slugs resolved next to this entry.',
+  });
+
+/** `aliases` is accepted alongside `redirectFrom` because other static site generators use it. */
+const redirectShape = {
+  redirectFrom: redirectPaths.optional(),
+  aliases: redirectPaths.optional(),
+};
+
+/** Frontmatter every post, lesson, and course README shares. */
+const documentShape = {
+  title: nonEmptyString,
+  description: nonEmptyString,
+  date: dateString,
+  modified: dateString,
+  draft: draft.optional(),
+  ...redirectShape,
+};
+
+export const writingFrontmatterSchema = z
+  .strictObject({
+    ...documentShape,
+    tags: tags.optional(),
+    series: nonEmptyString
+      .optional()
+      .meta({ description: 'The series title. Posts sharing a title form one series.' }),
+    seriesOrder: z
+      .number({ error: 'expected a positive integer' })
+      .int({ error: 'expected a positive integer' })
+      .positive({ error: 'expected a positive integer' })
+      .optional()
+      .meta({ description: 'This post’s part number within its series, starting at 1.' }),
+    standalone: standalone.optional(),
+  })
+  .superRefine(({ series, seriesOrder }, context) => {
+    if (series !== undefined && seriesOrder === undefined) {
+      context.addIssue({
+        code: 'custom',
+        path: ['series'],
+        params: { standalone: true },
+        message: `Missing 'seriesOrder' frontmatter for series '${series}'.`,
+      });
+    } else if (series === undefined && seriesOrder !== undefined) {
+      context.addIssue({
+        code: 'custom',
+        path: ['seriesOrder'],
+        params: { standalone: true },
+        message: `'seriesOrder' frontmatter requires a 'series'.`,
+      });
+    }
+  })
+  .meta({ title: 'Writing post frontmatter' });
+
+export const lessonFrontmatterSchema = z
+  .strictObject({
+    ...documentShape,
+    tags: tags.optional(),
+    status: z
+      .literal('published')
+      .optional()
+      .meta({ description: 'Unused. Use `draft` instead.', deprecated: true }),
+    exclude: z.boolean().optional().meta({ description: 'Unused.', deprecated: true }),
+  })
+  .meta({ title: 'Course lesson frontmatter' });
+
+export const courseFrontmatterSchema = z
+  .strictObject({
+    ...documentShape,
+    url: httpUrl.optional().meta({ description: 'Where the recorded workshop can be watched.' }),
+    layout: z.literal('page').optional().meta({ description: 'Unused.', deprecated: true }),
+  })
+  .meta({ title: 'Course README frontmatter' });
+
+export const projectFrontmatterSchema = z
+  .strictObject({
+    name: nonEmptyString,
+    description: nonEmptyString,
+    githubUrl: httpUrl,
+    npmPackages: z
+      .array(nonEmptyString, { error: 'expected a list of package names' })
+      .optional()
+      .meta({ description: 'Packages published from this project.' }),
+    productionUrl: httpUrl.optional(),
+    writingPath: nonEmptyString
+      .optional()
+      .meta({ description: 'The `/writing/…` route of the post introducing this project.' }),
+    youtubeUrl: httpUrl.optional(),
+    date: dateString.optional(),
+    draft: draft.optional(),
+    standalone: standalone.optional(),
+    ...redirectShape,
+  })
+  .meta({ title: 'Project frontmatter' });
+
+/** Keyed by the file name each schema is exported under. */
+export const frontmatterSchemas = {
+  writing: writingFrontmatterSchema,
+  lesson: lessonFrontmatterSchema,
+  course: courseFrontmatterSchema,
+  project: projectFrontmatterSchema,
+};
+
+type FrontmatterSchema = (typeof frontmatterSchemas)[keyof typeof frontmatterSchemas];
+
+/** The JSON Schema editors use to autocomplete and check frontmatter as it is written. */
+export const toFrontmatterJsonSchema = (schema: FrontmatterSchema) =>
+  z.toJSONSchema(schema, { io: 'input', unrepresentable: 'any' });
+
+const describeIssue = (
+  issue: z.core.$ZodIssue,
+  key: string,
+  data: Record<string, unknown>,
+): string => {
+  // Cross-field checks word their own message; everything else is about one key.
+  if (issue.code === 'custom' && issue.params?.standalone) return issue.message;
+  if (issue.code === 'invalid_type' && issue.path.length === 1 && data[key] === undefined) {
+    return `Missing required '${key}' frontmatter.`;
+  }
+
+  return `Invalid '${key}' frontmatter: ${issue.message}.`;
+};
+
+/**
+ * Check a source's frontmatter against its content type's schema, reporting
+ * each failure at the line of the offending key. Returns the fields that did
+ * validate so the entry can still be built and later checks still run.
+ */
+export const validateFrontmatter = <Schema extends FrontmatterSchema>(
+  source: Pick<MarkdownSource, 'sourcePath' | 'data' | 'frontmatterLines'>,
+  schema: Schema,
+  issues: ContentValidationIssue[],
+): Partial<z.output<Schema>> => {
+  const data = source.data as Record<string, unknown>;
+  const result = schema.safeParse(data);
+  if (result.success) return result.data as z.output<Schema>;
+
+  const knownKeys = Object.keys(schema.shape);
+  const invalidKeys = new Set<string>();
+
+  for (const issue of result.error.issues) {
+    if (issue.code === 'unrecognized_keys') {
+      for (const key of issue.keys) {
+        const suggestion = suggestClosest(key, knownKeys);
+        invalidKeys.add(key);
+        issues.push({
+          file: source.sourcePath,
+          message: `Unknown frontmatter key '${key}'.${suggestion ? ` Did you mean '${suggestion}'?` : ''}`,
+          line: source.frontmatterLines[key],
+        });
+      }
+      continue;
+    }
+
+    const key = String(issue.path[0]);
+    // One message per key is enough, even when several list items fail.
+    if (invalidKeys.has(key)) continue;
+    invalidKeys.add(key);
+    issues.push({
+      file: source.sourcePath,
+      message: describeIssue(issue, key, data),
+      line: source.frontmatterLines[key],
+    });
+  }
+
+  const valid: Record<string, unknown> = {};
+  for (const key of knownKeys) {
+    if (invalidKeys.has(key) || data[key] === undefined) continue;
+    const field = schema.shape[key as keyof typeof schema.shape] as z.ZodType;
+    valid[key] = field.parse(data[key]);
+  }
+
+  return valid as Partial<z.output<Schema>>;
+};
@@ -14,6 +14,8 @@ import { normalizePath, parseFrontmatter } from '@stevekinney/utilities/frontmat
 
 import { repositoryRoot } from '../content-paths.ts';
 
+import type { ContentRepositoryCache } from './cache.ts';
+import { getCachedMarkdownSource, setCachedMarkdownSource } from './cache.ts';
 import type { MarkdownSource } from './types.ts';
 
 const markdownParser = unified().use(remarkParse);
@@ -65,6 +67,21 @@ const collectHeadingAnchors = (tree: Root): Set<string> => {
   return headingAnchors;
 };
 
+/**
+ * Map each top-level key to its line in the file. gray-matter's `matter` is
+ * the text after the opening `---`, so its first line is the rest of line 1.
+ */
+const locateFrontmatterKeys = (matter: string): Record<string, number> => {
+  const lines: Record<string, number> = {};
+
+  matter.split('\n').forEach((line, index) => {
+    const key = line.match(/^(['"]?)([^\s'":#][^'":]*)\1\s*:(?:\s|$)/)?.[2];
+    if (key && !(key in lines)) lines[key] = index + 1;
+  });
+
+  return lines;
+};
+
 const extractTailwindPlaygrounds = (tree: Root): string[] => {
   const playgrounds: string[] = [];
 
@@ -81,19 +98,53 @@ const extractTailwindPlaygrounds = (tree: Root): string[] => {
   return playgrounds;
 };
 
-export const loadMarkdownSource = async (absolutePath: string): Promise<MarkdownSource> => {
+/**
+ * Read and parse a markdown file. When a cache is given, a file whose hash
+ * matches a previous run reuses that run's frontmatter, tree, and derived
+ * artifacts instead of being parsed again.
+ */
+export const loadMarkdownSource = async (
+  absolutePath: string,
+  cache?: ContentRepositoryCache,
+): Promise<MarkdownSource> => {
   const raw = await readText(absolutePath);
-  const { data, content } = parseFrontmatter(raw);
-  const tree = markdownParser.parse(content);
+  const sourcePath = relativeSourcePath(absolutePath);
+  const sourceHash = hashContents(raw);
+  const cached = cache ? getCachedMarkdownSource(cache, sourceHash) : undefined;
+
+  if (cached) {
+    return {
+      absolutePath,
+      sourcePath,
+      sourceHash,
+      data: cached.data,
+      frontmatterLines: cached.frontmatterLines,
+      bodyLineOffset: cached.bodyLineOffset,
+      content: cached.content,
+      tree: cached.tree,
+      headingAnchors: new Set(cached.headingAnchors),
+      tailwindPlaygrounds: cached.tailwindPlaygrounds,
+    };
+  }
 
-  return {
+  const { data, content, matter } = parseFrontmatter(raw);
+  const tree = markdownParser.parse(content);
+  const source: MarkdownSource = {
     absolutePath,
-    sourcePath: relativeSourcePath(absolutePath),
-    sourceHash: hashContents(raw),
+    sourcePath,
+    sourceHash,
     data,
+    frontmatterLines: locateFrontmatterKeys(matter),
+    bodyLineOffset: raw.slice(0, raw.length - content.length).split('\n').length - 1,
     content,
     tree,
     headingAnchors: collectHeadingAnchors(tree),
     tailwindPlaygrounds: extractTailwindPlaygrounds(tree),
   };
+
+  if (cache) {
+    setCachedMarkdownSource(cache, source);
+  }
+
+  return source;
 };
@@ -0,0 +1,79 @@
+import { describe, expect, test } from 'bun:test';
+
+import remarkParse from 'remark-parse';
+import { unified } from 'unified';
+
+import {
+  measureReadingTime,
+  sumCourseReadingTime,
+  toReadingMinutes,
+  wordsPerMinute,
+} from './reading-time.ts';
+
+const parse = (markdown: string) => unified().use(remarkParse).parse(markdown);
+
+describe('measureReadingTime', () => {
+  test('counts prose and inline code but skips code blocks and raw HTML', () => {
+    const tree = parse(
+      [
+        '# A short title',
+        '',
+        'Call `useEffect` when the component mounts.',
+        '',
+        '```ts',
+        'const ignored = "these words are not counted";',
+        '```',
+        '',
+        '<div class="playground">Nor are these.</div>',
+      ].join('\n'),
+    );
+
+    expect(measureReadingTime(tree)).toEqual({ wordCount: 9, readingMinutes: 1 });
+  });
+
+  test('reports zero minutes for an empty document', () => {
+    expect(measureReadingTime(parse(''))).toEqual({ wordCount: 0, readingMinutes: 0 });
+  });
+});
+
+describe('toReadingMinutes', () => {
+  test('rounds to the nearest minute with a floor of one', () => {
+    expect(toReadingMinutes(10)).toBe(1);
+    expect(toReadingMinutes(wordsPerMinute * 6 + 20)).toBe(6);
+  });
+});
+
+describe('sumCourseReadingTime', () => {
+  const lessons = [
+    { slug: 'introduction', wordCount: 230, readingMinutes: 1 },
+    { slug: 'setup', wordCount: 460, readingMinutes: 2 },
+    { slug: 'scratchpad', wordCount: 2300, readingMinutes: 10 },
+  ];
+
+  test('only counts lessons listed in index.toml', () => {
+    expect(
+      sumCourseReadingTime(
+        {
+          section: [
+            {
+              title: 'Basics',
+              item: [
+                { title: 'Introduction', href: 'introduction.md' },
+                { title: 'Setup', href: 'setup' },
+              ],
+            },
+          ],
+        },
+        lessons,
+      ),
+    ).toEqual({ wordCount: 690, readingMinutes: 3, lessonCount: 2 });
+  });
+
+  test('counts every lesson when the course has no outline', () => {
+    expect(sumCourseReadingTime(undefined, lessons)).toEqual({
+      wordCount: 2990,
+      readingMinutes: 13,
+      lessonCount: 3,
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import type { Root } from 'mdast';
+import { visit, SKIP } from 'unist-util-visit';
+
+import type { CourseContentsData } from '@stevekinney/utilities/content-types';
+import { collectCourseItems } from '@stevekinney/utilities/course-contents';
+
+/** A typical adult reading speed for technical prose. */
+export const wordsPerMinute = 230;
+
+export type ReadingTime = {
+  wordCount: number;
+  readingMinutes: number;
+};
+
+/** Code blocks (Tailwind playgrounds included) and raw HTML are skimmed or run, not read. */
+const skippedNodeTypes = new Set(['code', 'html', 'yaml']);
+
+export const toReadingMinutes = (wordCount: number): number =>
+  wordCount === 0 ? 0 : Math.max(1, Math.round(wordCount / wordsPerMinute));
+
+/** Count the prose words in a parsed Markdown document. Inline code counts as a word. */
+export const measureReadingTime = (tree: Root): ReadingTime => {
+  let wordCount = 0;
+
+  visit(tree, (node) => {
+    if (skippedNodeTypes.has(node.type)) return SKIP;
+    if (node.type !== 'text' && node.type !== 'inlineCode') return;
+
+    wordCount += node.value.split(/\s+/).filter(Boolean).length;
+  });
+
+  return { wordCount, readingMinutes: toReadingMinutes(wordCount) };
+};
+
+/**
+ * Sum the lessons a course lists in its `index.toml`, falling back to every
+ * lesson when the course has no outline. Minutes are derived from the summed
+ * words rather than added per lesson so rounding does not accumulate.
+ */
+export const sumCourseReadingTime = (
+  contents: CourseContentsData | undefined,
+  lessons: Array<ReadingTime & { slug: string }>,
+): ReadingTime & { lessonCount: number } => {
+  const listedSlugs = contents
+    ? new Set(collectCourseItems(contents).map((item) => item.href.replace(/\.md$/i, '')))
+    : null;
+  const counted = listedSlugs ? lessons.filter((lesson) => listedSlugs.has(lesson.slug)) : lessons;
+  const wordCount = counted.reduce((total, lesson) => total + lesson.wordCount, 0);
+
+  return { wordCount, readingMinutes: toReadingMinutes(wordCount), lessonCount: counted.length };
+};
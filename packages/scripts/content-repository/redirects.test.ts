@@ -0,0 +1,157 @@
+import { describe, expect, test } from 'bun:test';
+
+import type { WritingIndexEntry } from '@stevekinney/utilities/content-types';
+
+import {
+  buildRedirectPrerenderEntries,
+  buildRedirects,
+  resolveRedirectSources,
+  validateRedirects,
+} from './redirects.ts';
+import type { ContentValidationIssue, CourseRecord, LessonRecord } from './types.ts';
+
+const createSource = (
+  sourcePath: string,
+  data: { redirectFrom?: string[]; aliases?: string[] },
+) => ({
+  sourcePath,
+  data,
+  frontmatterLines: { redirectFrom: 6, aliases: 7 },
+});
+
+describe('resolveRedirectSources', () => {
+  test('resolves slugs next to the route and merges both frontmatter keys', () => {
+    expect(
+      resolveRedirectSources(
+        { redirectFrom: ['old-name', '/writing/older-name/'], aliases: ['../../writing/hooks'] },
+        '/courses/testing/new-name',
+      ),
+    ).toEqual(['/courses/testing/old-name', '/writing/hooks', '/writing/older-name']);
+  });
+});
+
+describe('buildRedirects', () => {
+  test('keeps site redirects and carries a renamed course’s lessons across', () => {
+    const course = {
+      slug: 'testing',
+      path: '/courses/testing',
+      redirectFrom: ['/courses/old-testing'],
+      lessons: [
+        {
+          slug: 'mocks',
+          path: '/courses/testing/mocks',
+          redirectFrom: ['/courses/testing/stubs'],
+        } as LessonRecord,
+      ],
+    } as CourseRecord;
+    const post = {
+      path: '/writing/hooks',
+      redirectFrom: ['/writing/react-hooks'],
+    } as WritingIndexEntry;
+
+    const redirects = buildRedirects([post], [course], []);
+
+    expect(redirects).toMatchObject({
+      '/rss': '/writing/rss',
+      '/writing/react-hooks': '/writing/hooks',
+      '/courses/old-testing': '/courses/testing',
+      '/courses/old-testing/mocks': '/courses/testing/mocks',
+      '/courses/testing/stubs': '/courses/testing/mocks',
+    });
+    expect(buildRedirectPrerenderEntries(redirects)).toEqual({
+      writing: [{ slug: 'react-hooks' }],
+      courses: [{ course: 'old-testing' }],
+      lessons: [
+        { course: 'old-testing', lesson: 'mocks' },
+        { course: 'testing', lesson: 'stubs' },
+      ],
+      projects: [],
+    });
+  });
+});
+
+describe('validateRedirects', () => {
+  test('reports redirects that shadow routes, are claimed twice, or leave the content routes', () => {
+    const issues: ContentValidationIssue[] = [];
+
+    validateRedirects(
+      [
+        {
+          path: '/writing/hooks',
+          source: createSource('writing/hooks.md', {
+            redirectFrom: [
+              '/writing/effects',
+              '/writing/react-hooks',
+              '/writing/page',
+              '/blog/hooks',
+            ],
+          }),
+        },
+        {
+          path: '/writing/use-effect',
+          source: createSource('writing/use-effect.md', {
+            redirectFrom: ['/writing/react-hooks', '/writing/use-effect'],
+          }),
+        },
+      ],
+      new Set(['/writing/hooks', '/writing/effects', '/writing/use-effect']),
+      issues,
+    );
+
+    expect(issues).toEqual([
+      {
+        file: 'writing/hooks.md',
+        message: "Redirect '/blog/hooks' must be a /writing, /courses, or /projects path.",
+        line: 6,
+      },
+      {
+        file: 'writing/hooks.md',
+        message: "Redirect '/writing/effects' collides with a live route.",
+        line: 6,
+      },
+      {
+        file: 'writing/hooks.md',
+        message: "Redirect '/writing/page' collides with a live route.",
+        line: 6,
+      },
+      {
+        file: 'writing/use-effect.md',
+        message: "Redirect '/writing/react-hooks' is already claimed by 'writing/hooks.md'.",
+        line: 6,
+      },
+      {
+        file: 'writing/use-effect.md',
+        message: "Redirect '/writing/use-effect' points at its own route.",
+        line: 6,
+      },
+    ]);
+  });
+
+  test('reports aliases on their own line and redirects that land on another redirect', () => {
+    const issues: ContentValidationIssue[] = [];
+
+    validateRedirects(
+      [
+        {
+          path: '/writing/signals',
+          source: createSource('writing/signals.md', { redirectFrom: ['/writing/observables'] }),
+        },
+        {
+          path: '/writing/runes',
+          source: createSource('writing/runes.md', { aliases: ['signals'] }),
+        },
+      ],
+      new Set(['/writing/runes']),
+      issues,
+    );
+
+    expect(issues).toEqual([
+      {
+        file: 'writing/runes.md',
+        message:
+          "Redirect '/writing/observables' in 'writing/signals.md' points at '/writing/signals', which now redirects to '/writing/runes'. Point it at '/writing/runes' instead.",
+        line: 7,
+      },
+    ]);
+  });
+});
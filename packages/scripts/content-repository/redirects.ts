@@ -0,0 +1,202 @@
+import type {
+  GeneratedContentPrerenderEntries,
+  WritingIndexEntry,
+} from '@stevekinney/utilities/content-types';
+import { normalizeRoutePath } from '@stevekinney/utilities/routes';
+
+import {
+  courseReservedSlugs,
+  lessonReservedSlugs,
+  projectReservedSlugs,
+  siteRedirects,
+  staticRoutes,
+  writingReservedSlugs,
+} from './constants.ts';
+import type {
+  ContentValidationIssue,
+  CourseRecord,
+  MarkdownSource,
+  ProjectRecord,
+} from './types.ts';
+
+/**
+ * Resolve `redirectFrom` and `aliases` frontmatter against the entry's own
+ * route, so a bare slug names a sibling: `old-name` on `/courses/git/new-name`
+ * becomes `/courses/git/old-name`.
+ */
+export const resolveRedirectSources = (
+  data: { redirectFrom?: string[]; aliases?: string[] },
+  routePath: string,
+): string[] => {
+  const values = [...(data.redirectFrom ?? []), ...(data.aliases ?? [])];
+  const resolved = values.map((value) =>
+    normalizeRoutePath(new URL(value, `https://redirect.invalid${routePath}`).pathname),
+  );
+
+  return [...new Set(resolved)].sort();
+};
+
+/** The content routes a redirect can be prerendered under, by path shape. */
+const redirectSourcePatterns = {
+  writing: /^\/writing\/([^/]+)$/,
+  courses: /^\/courses\/([^/]+)$/,
+  lessons: /^\/courses\/([^/]+)\/([^/]+)$/,
+  projects: /^\/projects\/([^/]+)$/,
+};
+
+const isContentRedirectSource = (source: string): boolean =>
+  Object.values(redirectSourcePatterns).some((pattern) => pattern.test(source));
+
+/** Reserved slugs are served by fixed routes, so a redirect there would never be reached. */
+const isReservedRedirectSource = (source: string): boolean => {
+  const writing = source.match(redirectSourcePatterns.writing)?.[1];
+  const course = source.match(redirectSourcePatterns.courses)?.[1];
+  const lesson = source.match(redirectSourcePatterns.lessons)?.[2];
+  const project = source.match(redirectSourcePatterns.projects)?.[1];
+
+  return (
+    (writing !== undefined && writingReservedSlugs.has(writing)) ||
+    (course !== undefined && courseReservedSlugs.has(course)) ||
+    (lesson !== undefined && lessonReservedSlugs.has(lesson)) ||
+    (project !== undefined && projectReservedSlugs.has(project))
+  );
+};
+
+/**
+ * Map every old path to the route it now lives at. Site redirects come first;
+ * a renamed course also carries each of its lessons across.
+ */
+export const buildRedirects = (
+  writingEntries: WritingIndexEntry[],
+  courseEntries: CourseRecord[],
+  projectEntries: ProjectRecord[],
+): Record<string, string> => {
+  const redirects = new Map(Object.entries(siteRedirects));
+  const add = (sources: string[] | undefined, target: string) => {
+    for (const source of sources ?? []) {
+      if (!redirects.has(source)) redirects.set(source, target);
+    }
+  };
+
+  for (const entry of [...writingEntries, ...projectEntries]) add(entry.redirectFrom, entry.path);
+
+  for (const course of courseEntries) {
+    add(course.redirectFrom, course.path);
+    for (const lesson of course.lessons) {
+      add(lesson.redirectFrom, lesson.path);
+      add(
+        course.redirectFrom?.map((source) => `${source}/${lesson.slug}`),
+        lesson.path,
+      );
+    }
+  }
+
+  return Object.fromEntries(
+    [...redirects.entries()].sort(([left], [right]) => left.localeCompare(right)),
+  );
+};
+
+/**
+ * Prerender entries for each content redirect, so static builds get a
+ * meta-refresh page at the old path. Site redirects outside the content
+ * routes are only served by `hooks.server.ts`.
+ */
+export const buildRedirectPrerenderEntries = (
+  redirects: Record<string, string>,
+): Pick<GeneratedContentPrerenderEntries, 'writing' | 'courses' | 'lessons' | 'projects'> => {
+  const entries: ReturnType<typeof buildRedirectPrerenderEntries> = {
+    writing: [],
+    courses: [],
+    lessons: [],
+    projects: [],
+  };
+
+  for (const source of Object.keys(redirects)) {
+    const writing = source.match(redirectSourcePatterns.writing);
+    const course = source.match(redirectSourcePatterns.courses);
+    const lesson = source.match(redirectSourcePatterns.lessons);
+    const project = source.match(redirectSourcePatterns.projects);
+
+    if (writing) entries.writing.push({ slug: writing[1]! });
+    if (course) entries.courses.push({ course: course[1]! });
+    if (lesson) entries.lessons.push({ course: lesson[1]!, lesson: lesson[2]! });
+    if (project) entries.projects.push({ project: project[1]! });
+  }
+
+  return entries;
+};
+
+type RedirectingEntry = {
+  path: string;
+  source: Pick<MarkdownSource, 'sourcePath' | 'frontmatterLines' | 'data'>;
+};
+
+type RedirectSource = {
+  redirect: string;
+  path: string;
+  file: string;
+  line: number | undefined;
+};
+
+/** Both frontmatter keys are checked separately, so each issue points at the key that names it. */
+const redirectKeys = ['redirectFrom', 'aliases'] as const;
+
+/**
+ * Check every entry's redirects against the live routes and each other. A
+ * redirect may not shadow a route, be claimed twice, or sit in the middle of
+ * a chain where another redirect points at a path that has since moved.
+ */
+export const validateRedirects = (
+  entries: RedirectingEntry[],
+  routePaths: Set<string>,
+  issues: ContentValidationIssue[],
+): void => {
+  const redirectSources: RedirectSource[] = entries.flatMap(({ path, source }) =>
+    redirectKeys.flatMap((key) =>
+      resolveRedirectSources({ [key]: source.data[key] }, path).map((redirect) => ({
+        redirect,
+        path,
+        file: source.sourcePath,
+        line: source.frontmatterLines[key],
+      })),
+    ),
+  );
+
+  // Where each redirect target is reached from, to spot one redirect landing on another's source.
+  const redirectsByTarget = new Map<string, string>();
+  for (const [from, target] of Object.entries(siteRedirects)) {
+    redirectsByTarget.set(target, `Site redirect '${from}'`);
+  }
+  for (const { redirect, path, file } of redirectSources) {
+    if (!redirectsByTarget.has(path)) {
+      redirectsByTarget.set(path, `Redirect '${redirect}' in '${file}'`);
+    }
+  }
+
+  const claims = new Map<string, string>();
+
+  for (const { redirect, path, file, line } of redirectSources) {
+    const report = (message: string) => issues.push({ file, message, line });
+    const chainedFrom = redirectsByTarget.get(redirect);
+
+    if (redirect === path) {
+      report(`Redirect '${redirect}' points at its own route.`);
+    } else if (!isContentRedirectSource(redirect)) {
+      report(`Redirect '${redirect}' must be a /writing, /courses, or /projects path.`);
+    } else if (
+      routePaths.has(redirect) ||
+      staticRoutes.has(redirect) ||
+      isReservedRedirectSource(redirect)
+    ) {
+      report(`Redirect '${redirect}' collides with a live route.`);
+    } else if (claims.has(redirect)) {
+      report(`Redirect '${redirect}' is already claimed by '${claims.get(redirect)}'.`);
+    } else if (chainedFrom) {
+      report(
+        `${chainedFrom} points at '${redirect}', which now redirects to '${path}'. Point it at '${path}' instead.`,
+      );
+    } else {
+      claims.set(redirect, file);
+    }
+  }
+};
@@ -0,0 +1,110 @@
+import { describe, expect, test } from 'bun:test';
+
+import type { ContentRoute } from '@stevekinney/utilities/content-types';
+
+import { attachRelatedContent } from './related.ts';
+
+const createRoute = (path: string, tags: string[], extra: Partial<ContentRoute> = {}) =>
+  ({
+    path,
+    title: path.split('/').at(-1)!,
+    description: 'Example.',
+    date: '2025-01-01',
+    modified: '2025-01-01',
+    sourcePath: `${path.slice(1)}.md`,
+    sourceHash: path,
+    llmsPath: `${path}/llms.txt`,
+    openGraphPath: `${path}/open-graph.jpg`,
+    contentType: 'writing',
+    slug: path.split('/').at(-1)!,
+    tags,
+    ...extra,
+  }) as ContentRoute;
+
+const createLesson = (course: string, lesson: string, tags: string[]) =>
+  createRoute(`/courses/${course}/${lesson}`, tags, {
+    contentType: 'lesson',
+    courseSlug: course,
+    courseTitle: course,
+    lessonSlug: lesson,
+  } as Partial<ContentRoute>);
+
+const relate = (routes: ContentRoute[], content: Record<string, string>) => {
+  const record = Object.fromEntries(routes.map((route) => [route.path, route]));
+  attachRelatedContent(
+    record,
+    new Map(routes.map((route) => [route.sourcePath, content[route.path] ?? ''])),
+  );
+  return record;
+};
+
+describe('attachRelatedContent', () => {
+  test('ranks shared tags and overlapping vocabulary above unrelated content', () => {
+    const routes = relate(
+      [
+        createRoute('/writing/hooks', ['react']),
+        createRoute('/writing/effects', ['react']),
+        createRoute('/writing/reducers', ['redux']),
+        createRoute('/writing/sourdough', ['baking']),
+      ],
+      {
+        '/writing/hooks': 'React hooks manage component state and effects.',
+        '/writing/effects': 'Effects synchronize component state with external systems.',
+        '/writing/reducers':
+          'Reducers manage state transitions, much as hooks manage component state.',
+        '/writing/sourdough': 'Starter, flour, water, salt, and patience.',
+      },
+    );
+
+    expect(routes['/writing/hooks'].related?.map((link) => link.path)).toEqual([
+      '/writing/effects',
+      '/writing/reducers',
+    ]);
+    expect(routes['/writing/sourdough'].related).toBeUndefined();
+  });
+
+  test('skips sibling lessons, courses, and drafts', () => {
+    const routes = relate(
+      [
+        createLesson('testing', 'mocks', ['testing']),
+        createLesson('testing', 'spies', ['testing']),
+        createLesson('vitest', 'mocking', ['testing']),
+        createRoute('/writing/draft-on-mocks', ['testing'], {
+          publication: { state: 'draft' },
+        }),
+        createRoute('/courses/testing', [], { contentType: 'course' } as Partial<ContentRoute>),
+      ],
+      {},
+    );
+
+    expect(routes['/courses/testing/mocks'].related).toEqual([
+      {
+        path: '/courses/vitest/mocking',
+        title: 'mocking',
+        contentType: 'lesson',
+        courseTitle: 'vitest',
+      },
+    ]);
+    expect(routes['/courses/testing'].related).toBeUndefined();
+  });
+
+  test('produces the same suggestions regardless of input order', () => {
+    const build = (order: number[]) => {
+      const routes = [
+        createRoute('/writing/a', ['react']),
+        createRoute('/writing/b', ['react']),
+        createRoute('/writing/c', ['react']),
+      ];
+      return relate(
+        order.map((index) => routes[index]),
+        {},
+      );
+    };
+
+    expect(build([0, 1, 2])['/writing/a'].related).toEqual(build([2, 0, 1])['/writing/a'].related);
+    expect(build([0, 1, 2])['/writing/a'].related?.map((link) => link.path)).toEqual([
+      '/writing/b',
+      '/writing/c',
+    ]);
+  });
+});
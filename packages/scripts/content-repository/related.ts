@@ -0,0 +1,170 @@
+import type { ContentRoute, RelatedContentLink } from '@stevekinney/utilities/content-types';
+
+/** How many suggestions each route keeps. */
+export const relatedContentLimit = 4;
+
+/** Suggestions scoring below this are noise rather than related reading. */
+const minimumScore = 0.05;
+
+/** Only the strongest terms of each document take part in text similarity. */
+const termsPerDocument = 48;
+
+const textWeight = 0.6;
+const tagWeight = 0.4;
+
+const stopWords = new Set(
+  `about above after again against all also and any are because been before being below between
+both but can could did does doing down during each few for from further had has have having her
+here hers him his how into its itself just let like made make many more most much must myself
+not now off once only other our ours out over own same she should some such than that the their
+theirs them then there these they this those through too under until use used using very want
+was way were what when where which while who whom why will with would you your yours`.split(/\s+/),
+);
+
+type RelatedDocument = {
+  route: ContentRoute & { contentType: RelatedContentLink['contentType'] };
+  tags: Set<string>;
+  terms: Map<string, number>;
+};
+
+const isRelatable = (route: ContentRoute): route is RelatedDocument['route'] =>
+  route.contentType !== 'course';
+
+/** Drop code, markup, and link targets so identifiers and URLs do not dominate the vocabulary. */
+const tokenize = (content: string): string[] =>
+  content
+    .replace(/^(`{3,}|~{3,})[^\n]*\n[\s\S]*?^\1[^\n]*$/gm, ' ')
+    .replace(/`[^`\n]*`/g, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/\]\([^)]*\)/g, ' ')
+    .replace(/https?:\/\/\S+/g, ' ')
+    .toLowerCase()
+    .match(/[a-z][a-z0-9]+/g)
+    ?.filter((token) => token.length > 2 && !stopWords.has(token)) ?? [];
+
+const countTerms = (tokens: string[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const token of tokens) {
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+  }
+  return counts;
+};
+
+/**
+ * Weight each document's terms by TF-IDF, keep the strongest, and normalize
+ * to unit length so similarity is a plain dot product. Ties are broken by the
+ * term itself so the output never depends on iteration order.
+ */
+const buildTermVectors = (termCounts: Array<Map<string, number>>): Array<Map<string, number>> => {
+  const documentFrequency = new Map<string, number>();
+  for (const counts of termCounts) {
+    for (const term of counts.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  return termCounts.map((counts) => {
+    const total = [...counts.values()].reduce((sum, count) => sum + count, 0);
+    const weighted = [...counts.entries()]
+      .map(([term, count]): [string, number] => [
+        term,
+        (count / total) * Math.log(termCounts.length / documentFrequency.get(term)!),
+      ])
+      .filter(([, weight]) => weight > 0)
+      .sort(
+        ([leftTerm, left], [rightTerm, right]) => right - left || leftTerm.localeCompare(rightTerm),
+      )
+      .slice(0, termsPerDocument);
+    const length = Math.hypot(...weighted.map(([, weight]) => weight));
+
+    return new Map(weighted.map(([term, weight]) => [term, weight / length]));
+  });
+};
+
+const textSimilarity = (left: Map<string, number>, right: Map<string, number>): number => {
+  const [smaller, larger] = left.size <= right.size ? [left, right] : [right, left];
+  let similarity = 0;
+  for (const [term, weight] of smaller) {
+    similarity += weight * (larger.get(term) ?? 0);
+  }
+  return similarity;
+};
+
+const tagSimilarity = (left: Set<string>, right: Set<string>): number => {
+  if (left.size === 0 || right.size === 0) return 0;
+
+  let shared = 0;
+  for (const tag of left) {
+    if (right.has(tag)) shared += 1;
+  }
+  return shared / Math.sqrt(left.size * right.size);
+};
+
+/**
+ * Drafts are never suggested, even in development builds. Lessons already link
+ * to their siblings through course navigation, so only look outside the course.
+ */
+const isCandidate = (document: RelatedDocument, candidate: RelatedDocument): boolean => {
+  if (candidate.route.path === document.route.path || candidate.route.publication) return false;
+  if (document.route.contentType === 'lesson' && candidate.route.contentType === 'lesson') {
+    return document.route.courseSlug !== candidate.route.courseSlug;
+  }
+  return true;
+};
+
+const toLink = (route: RelatedDocument['route']): RelatedContentLink => ({
+  path: route.path,
+  title: route.title,
+  contentType: route.contentType,
+  ...(route.contentType === 'lesson' ? { courseTitle: route.courseTitle } : {}),
+});
+
+/**
+ * Rank related posts, lessons, and projects for every route, blending TF-IDF
+ * similarity over the Markdown body with shared tags, and store the result on
+ * `route.related`. Documents are visited in path order and ties fall back to
+ * path, so the same sources always produce the same suggestions.
+ */
+export const attachRelatedContent = (
+  routes: Record<string, ContentRoute>,
+  contentBySourcePath: Map<string, string>,
+): void => {
+  const relatable = Object.values(routes)
+    .filter(isRelatable)
+    .sort((left, right) => left.path.localeCompare(right.path));
+  const termVectors = buildTermVectors(
+    relatable.map((route) =>
+      countTerms(
+        tokenize(
+          `${route.title}\n${route.title}\n${contentBySourcePath.get(route.sourcePath) ?? ''}`,
+        ),
+      ),
+    ),
+  );
+  const documents: RelatedDocument[] = relatable.map((route, index) => ({
+    route,
+    tags: new Set('tags' in route ? route.tags : []),
+    terms: termVectors[index],
+  }));
+
+  for (const document of documents) {
+    const related = documents
+      .filter((candidate) => isCandidate(document, candidate))
+      .map((candidate) => ({
+        route: candidate.route,
+        score:
+          textWeight * textSimilarity(document.terms, candidate.terms) +
+          tagWeight * tagSimilarity(document.tags, candidate.tags),
+      }))
+      .filter(({ score }) => score >= minimumScore)
+      .sort(
+        (left, right) =>
+          right.score - left.score || left.route.path.localeCompare(right.route.path),
+      )
+      .slice(0, relatedContentLimit);
+
+    if (related.length > 0) {
+      document.route.related = related.map(({ route }) => toLink(route));
+    }
+  }
+};
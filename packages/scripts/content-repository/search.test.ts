@@ -0,0 +1,94 @@
+import { describe, expect, test } from 'bun:test';
+
+import type { ContentRoute } from '@stevekinney/utilities/content-types';
+import { parseFrontmatter } from '@stevekinney/utilities/frontmatter';
+import remarkParse from 'remark-parse';
+import { unified } from 'unified';
+
+import { buildSearchIndex, searchSectionExcerptLimit } from './search.ts';
+import type { MarkdownSource } from './types.ts';
+
+const createSource = (sourcePath: string, markdown: string): MarkdownSource => {
+  const { data, content } = parseFrontmatter(markdown);
+
+  return {
+    absolutePath: `/${sourcePath}`,
+    sourcePath,
+    sourceHash: sourcePath,
+    data,
+    frontmatterLines: {},
+    bodyLineOffset: 0,
+    content,
+    tree: unified().use(remarkParse).parse(content),
+    headingAnchors: new Set(),
+    tailwindPlaygrounds: [],
+  };
+};
+
+const createRoute = (path: string, sourcePath: string) =>
+  ({
+    path,
+    title: 'Example',
+    description: 'An example post.',
+    date: '2025-01-01',
+    modified: '2025-01-01',
+    sourcePath,
+    sourceHash: sourcePath,
+    llmsPath: `${path}/llms.txt`,
+    openGraphPath: `${path}/open-graph.jpg`,
+    contentType: 'writing',
+    slug: 'example',
+    tags: [],
+  }) as ContentRoute;
+
+describe('buildSearchIndex', () => {
+  test('chunks prose at h2 and h3 headings with anchors matching the rendered ids', () => {
+    const source = createSource(
+      'writing/example.md',
+      [
+        'Intro paragraph.',
+        '## Setup',
+        'Install the *tools*.',
+        '```ts',
+        'const secret = 1;',
+        '```',
+        '#### Setup',
+        'Nested detail.',
+        '### Setup',
+        'Configure it.',
+      ].join('\n\n'),
+    );
+
+    const index = buildSearchIndex(
+      { '/writing/example': createRoute('/writing/example', source.sourcePath) },
+      new Map([[source.sourcePath, source]]),
+    );
+
+    expect(index.documents).toEqual([
+      ['/writing/example', 'Example', 'An example post.', 'writing'],
+    ]);
+    expect(index.sections).toEqual([
+      [0, null, null, 'Intro paragraph.', 'Intro paragraph.'],
+      [
+        0,
+        'setup',
+        'Setup',
+        'Install the tools. Setup Nested detail.',
+        'Install the tools. Setup Nested detail.',
+      ],
+      [0, 'setup-2', 'Setup', 'Configure it.', 'Configure it.'],
+    ]);
+  });
+
+  test('indexes the whole section but trims its excerpt at a word boundary', () => {
+    const source = createSource('writing/long.md', `${'word '.repeat(200)}needle`);
+    const [[, , , text, excerpt]] = buildSearchIndex(
+      { '/writing/long': createRoute('/writing/long', source.sourcePath) },
+      new Map([[source.sourcePath, source]]),
+    ).sections;
+
+    expect(text.endsWith('needle')).toBe(true);
+    expect(excerpt.length).toBeLessThanOrEqual(searchSectionExcerptLimit);
+    expect(excerpt.endsWith('word')).toBe(true);
+  });
+});
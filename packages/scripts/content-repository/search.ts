@@ -0,0 +1,97 @@
+import GithubSlugger from 'github-slugger';
+import type { RootContent } from 'mdast';
+import { toString } from 'mdast-util-to-string';
+
+import type { ContentRoute } from '@stevekinney/utilities/content-types';
+import {
+  searchIndexVersion,
+  type SearchIndex,
+  type SearchIndexSection,
+} from '@stevekinney/utilities/search-index';
+
+import type { MarkdownSource } from './types.ts';
+
+/** The excerpt shown for a section is trimmed to this many characters; its full text is still searched. */
+export const searchSectionExcerptLimit = 240;
+
+/** Code, raw HTML, and frontmatter-like blocks are not prose worth searching. */
+const skippedNodeTypes = new Set<RootContent['type']>(['code', 'html', 'yaml', 'definition']);
+
+const collapseWhitespace = (value: string): string => value.replace(/\s+/g, ' ').trim();
+
+const truncate = (value: string): string => {
+  if (value.length <= searchSectionExcerptLimit) return value;
+
+  const cut = value.slice(0, searchSectionExcerptLimit);
+  const lastSpace = cut.lastIndexOf(' ');
+  return lastSpace > 0 ? cut.slice(0, lastSpace) : cut;
+};
+
+/**
+ * Split a source into sections at each h2 and h3. Every heading is slugged in
+ * document order, as `rehype-slug` does when rendering, so anchors match the
+ * ids on the page even when h1 or h4 headings share a name.
+ */
+const collectSections = (source: MarkdownSource, documentIndex: number): SearchIndexSection[] => {
+  const slugger = new GithubSlugger();
+  const sections: SearchIndexSection[] = [];
+  let current = {
+    anchor: null as string | null,
+    heading: null as string | null,
+    text: [] as string[],
+  };
+
+  const flush = () => {
+    const text = collapseWhitespace(current.text.join(' '));
+    if (text || current.heading) {
+      sections.push([documentIndex, current.anchor, current.heading, text, truncate(text)]);
+    }
+  };
+
+  for (const node of source.tree.children) {
+    if (node.type === 'heading') {
+      const heading = collapseWhitespace(toString(node));
+      const anchor = slugger.slug(toString(node));
+
+      if (node.depth === 2 || node.depth === 3) {
+        flush();
+        current = { anchor: anchor || null, heading, text: [] };
+        continue;
+      }
+    }
+
+    if (skippedNodeTypes.has(node.type)) continue;
+    current.text.push(toString(node));
+  }
+
+  flush();
+  return sections;
+};
+
+/**
+ * Build the browser search index from every published route, in path order
+ * so the output only changes when content does.
+ */
+export const buildSearchIndex = (
+  routes: Record<string, ContentRoute>,
+  sourcesByPath: Map<string, MarkdownSource>,
+): SearchIndex => {
+  const index: SearchIndex = { version: searchIndexVersion, documents: [], sections: [] };
+
+  for (const route of Object.values(routes).sort((left, right) =>
+    left.path.localeCompare(right.path),
+  )) {
+    const source = sourcesByPath.get(route.sourcePath);
+    if (!source) continue;
+
+    const documentIndex = index.documents.length;
+    index.documents.push(
+      route.contentType === 'lesson'
+        ? [route.path, route.title, route.description, route.contentType, route.courseTitle]
+        : [route.path, route.title, route.description, route.contentType],
+    );
+    index.sections.push(...collectSections(source, documentIndex));
+  }
+
+  return index;
+};
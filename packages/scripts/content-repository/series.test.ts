@@ -0,0 +1,89 @@
+import { describe, expect, test } from 'bun:test';
+
+import type { WritingIndexEntry } from '@stevekinney/utilities/content-types';
+
+import { buildSeriesIndex, resolveSeriesMembership, validateSeries } from './series.ts';
+import type { ContentValidationIssue } from './types.ts';
+
+const createPost = (
+  slug: string,
+  order: number,
+  series = 'Agent Internals',
+): WritingIndexEntry => ({
+  title: `Post ${slug}`,
+  description: 'Example.',
+  date: '2025-01-01',
+  modified: '2025-01-01',
+  tags: [],
+  slug,
+  sourcePath: `writing/${slug}.md`,
+  sourceHash: slug,
+  path: `/writing/${slug}`,
+  wordCount: 0,
+  readingMinutes: 0,
+  series: { slug: 'agent-internals', title: series, order },
+});
+
+const collect = (posts: WritingIndexEntry[]): ContentValidationIssue[] => {
+  const issues: ContentValidationIssue[] = [];
+  validateSeries(posts, issues);
+  return issues;
+};
+
+describe('resolveSeriesMembership', () => {
+  test('derives the series slug from its title', () => {
+    expect(resolveSeriesMembership({ series: 'Agent Internals', seriesOrder: 2 })).toEqual({
+      slug: 'agent-internals',
+      title: 'Agent Internals',
+      order: 2,
+    });
+  });
+
+  test('ignores a series without a part number', () => {
+    expect(resolveSeriesMembership({ series: 'Agent Internals' })).toBeUndefined();
+  });
+});
+
+describe('validateSeries', () => {
+  test('accepts parts numbered 1 through n in any file order', () => {
+    expect(collect([createPost('b', 2), createPost('a', 1), createPost('c', 3)])).toEqual([]);
+  });
+
+  test('reports duplicate orders and gaps', () => {
+    expect(collect([createPost('a', 1), createPost('b', 1), createPost('d', 4)])).toEqual([
+      {
+        file: 'writing/b.md',
+        message: "Duplicate seriesOrder 1 in series 'Agent Internals'; also used by writing/a.md.",
+      },
+      { file: 'writing/d.md', message: "Series 'Agent Internals' has no part 2." },
+      { file: 'writing/d.md', message: "Series 'Agent Internals' has no part 3." },
+    ]);
+  });
+
+  test('warns when the same series is spelled two ways', () => {
+    expect(collect([createPost('a', 1), createPost('b', 2, 'Agent internals')])).toEqual([
+      {
+        file: 'writing/b.md',
+        message:
+          "Series 'Agent internals' is spelled differently in writing/a.md ('Agent Internals').",
+        severity: 'warning',
+      },
+    ]);
+  });
+});
+
+describe('buildSeriesIndex', () => {
+  test('groups posts by series in part order', () => {
+    const [series] = buildSeriesIndex([createPost('b', 2), createPost('a', 1)]);
+
+    expect(series).toMatchObject({
+      slug: 'agent-internals',
+      title: 'Agent Internals',
+      path: '/writing/series/agent-internals',
+    });
+    expect(series.posts.map((post) => [post.order, post.slug])).toEqual([
+      [1, 'a'],
+      [2, 'b'],
+    ]);
+  });
+});
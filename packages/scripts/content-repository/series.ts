@@ -0,0 +1,115 @@
+import { slug as slugify } from 'github-slugger';
+
+import type {
+  WritingIndexEntry,
+  WritingSeriesEntry,
+  WritingSeriesMembership,
+} from '@stevekinney/utilities/content-types';
+
+import type { ContentValidationIssue } from './types.ts';
+
+/**
+ * Turn validated `series` and `seriesOrder` frontmatter into a membership.
+ * The frontmatter schema already reports either one appearing without the
+ * other; the series slug is derived from its title.
+ */
+export const resolveSeriesMembership = (data: {
+  series?: string;
+  seriesOrder?: number;
+}): WritingSeriesMembership | undefined => {
+  const { series, seriesOrder } = data;
+  if (series === undefined || seriesOrder === undefined) return undefined;
+
+  return { slug: slugify(series), title: series, order: seriesOrder };
+};
+
+/**
+ * Check every series numbers its parts 1…n with no duplicates or gaps. Runs
+ * over all posts, drafts included, so a part held back as a draft still
+ * reserves its number.
+ */
+export const validateSeries = (
+  writingEntries: WritingIndexEntry[],
+  issues: ContentValidationIssue[],
+): void => {
+  const seriesBySlug = new Map<string, WritingIndexEntry[]>();
+
+  for (const entry of writingEntries) {
+    if (!entry.series) continue;
+    seriesBySlug.set(entry.series.slug, [...(seriesBySlug.get(entry.series.slug) ?? []), entry]);
+  }
+
+  for (const posts of seriesBySlug.values()) {
+    const byOrder = new Map<number, WritingIndexEntry>();
+
+    for (const post of posts) {
+      const { order, title } = post.series!;
+      const existing = byOrder.get(order);
+
+      if (existing) {
+        issues.push({
+          file: post.sourcePath,
+          message: `Duplicate seriesOrder ${order} in series '${title}'; also used by ${existing.sourcePath}.`,
+        });
+        continue;
+      }
+
+      if (post.series!.title !== posts[0].series!.title) {
+        issues.push({
+          file: post.sourcePath,
+          message: `Series '${title}' is spelled differently in ${posts[0].sourcePath} ('${posts[0].series!.title}').`,
+          severity: 'warning',
+        });
+      }
+
+      byOrder.set(order, post);
+    }
+
+    const highest = Math.max(...byOrder.keys());
+    for (let order = 1; order < highest; order += 1) {
+      if (byOrder.has(order)) continue;
+
+      const nextPart = [...byOrder.entries()]
+        .filter(([existing]) => existing > order)
+        .sort(([left], [right]) => left - right)[0][1];
+
+      issues.push({
+        file: nextPart.sourcePath,
+        message: `Series '${nextPart.series!.title}' has no part ${order}.`,
+      });
+    }
+  }
+};
+
+/** Group posts into their series, parts in `seriesOrder`, series sorted by slug. */
+export const buildSeriesIndex = (writingEntries: WritingIndexEntry[]): WritingSeriesEntry[] => {
+  const seriesBySlug = new Map<string, WritingSeriesEntry>();
+
+  for (const entry of writingEntries) {
+    if (!entry.series) continue;
+
+    const series = seriesBySlug.get(entry.series.slug) ?? {
+      slug: entry.series.slug,
+      title: entry.series.title,
+      path: `/writing/series/${entry.series.slug}`,
+      posts: [],
+    };
+
+    series.posts.push({
+      slug: entry.slug,
+      title: entry.title,
+      description: entry.description,
+      date: entry.date,
+      path: entry.path,
+      order: entry.series.order,
+    });
+    seriesBySlug.set(series.slug, series);
+  }
+
+  return [...seriesBySlug.values()]
+    .map((series) => ({
+      ...series,
+      posts: series.posts.sort((left, right) => left.order - right.order),
+    }))
+    .sort((left, right) => left.slug.localeCompare(right.slug));
+};
@@ -0,0 +1,163 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+
+import type { TagRegistry } from './tags.ts';
+import { buildTagIndex, loadTagRegistry, normalizeEntryTags } from './tags.ts';
+import type { ContentValidationIssue } from './types.ts';
+
+const registryToml = `
+[react]
+title = "React"
+description = "Components, hooks, and rendering."
+aliases = ["reactjs"]
+
+[core-web-vitals]
+title = "Core Web Vitals"
+
+[testing]
+title = "Testing"
+`;
+
+const createEntry = (tags: string[], date = '2025-01-01', slug = 'example') => ({
+  sourcePath: `writing/${slug}.md`,
+  path: `/writing/${slug}`,
+  date,
+  tags,
+});
+
+describe('tag registry', () => {
+  let directory: string;
+  let registryPath: string;
+
+  const load = async (contents: string) => {
+    await writeFile(registryPath, contents, 'utf8');
+    const issues: ContentValidationIssue[] = [];
+    const registry = await loadTagRegistry(registryPath, issues);
+    return { registry, issues };
+  };
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'tag-registry-'));
+    registryPath = path.join(directory, 'tags.toml');
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  test('loads canonical tags with their titles, descriptions, and aliases', async () => {
+    const { registry, issues } = await load(registryToml);
+
+    expect(issues).toEqual([]);
+    expect(registry?.tags.get('react')).toEqual({
+      title: 'React',
+      description: 'Components, hooks, and rendering.',
+      aliases: ['reactjs'],
+    });
+    expect(registry?.aliases.get('reactjs')).toBe('react');
+  });
+
+  test('rejects malformed keys, missing titles, and aliases claimed twice', async () => {
+    const { issues } = await load(`
+[Testing]
+title = "Testing"
+
+[page]
+title = "Page"
+
+[vitest]
+aliases = ["vi"]
+
+[jest]
+title = "Jest"
+aliases = ["vi"]
+`);
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      "Tag 'Testing' must be lowercase kebab-case.",
+      "Tag 'page' collides with a reserved route.",
+      "Tag 'vitest' is missing a title.",
+      "Alias 'vi' is claimed by both 'vitest' and 'jest'.",
+    ]);
+  });
+
+  test('reports a missing registry instead of throwing', async () => {
+    const issues: ContentValidationIssue[] = [];
+
+    expect(await loadTagRegistry(path.join(directory, 'missing.toml'), issues)).toBeNull();
+    expect(issues).toHaveLength(1);
+  });
+
+  describe('normalizeEntryTags', () => {
+    let registry: TagRegistry;
+
+    beforeEach(async () => {
+      registry = (await load(registryToml)).registry!;
+    });
+
+    test('rewrites aliases and spelling variants to the canonical tag with a warning', () => {
+      const entry = createEntry(['ReactJS', 'Core Web Vitals', 'react']);
+      const issues: ContentValidationIssue[] = [];
+
+      normalizeEntryTags([entry], registry, issues);
+
+      expect(entry.tags).toEqual(['react', 'core-web-vitals']);
+      expect(issues).toHaveLength(2);
+      expect(issues.every((issue) => issue.severity === 'warning')).toBe(true);
+    });
+
+    test('fails on unknown tags and suggests the closest canonical tag', () => {
+      const entry = createEntry(['testng']);
+      const issues: ContentValidationIssue[] = [];
+
+      normalizeEntryTags([entry], registry, issues);
+
+      expect(issues).toEqual([
+        {
+          file: 'writing/example.md',
+          message:
+            "Unknown tag 'testng'. Did you mean 'testing'? Add it to tags.toml or use an existing tag.",
+        },
+      ]);
+    });
+  });
+
+  test('indexes only tags in use, newest content first', async () => {
+    const { registry } = await load(registryToml);
+    const posts = [
+      createEntry(['react'], '2024-01-01', 'older'),
+      createEntry(['react', 'testing'], '2025-06-01', 'newer'),
+    ];
+    const lessons = [
+      {
+        sourcePath: 'courses/testing/intro.md',
+        path: '/courses/testing/intro',
+        date: '2025-03-01',
+        tags: ['testing'],
+      },
+    ];
+
+    expect(buildTagIndex(registry, posts, lessons)).toEqual([
+      {
+        tag: 'react',
+        title: 'React',
+        description: 'Components, hooks, and rendering.',
+        path: '/tags/react',
+        postCount: 2,
+        lessonCount: 0,
+        routes: ['/writing/newer', '/writing/older'],
+      },
+      {
+        tag: 'testing',
+        title: 'Testing',
+        path: '/tags/testing',
+        postCount: 1,
+        lessonCount: 1,
+        routes: ['/writing/newer', '/courses/testing/intro'],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,219 @@
+import type { TagIndexEntry } from '@stevekinney/utilities/content-types';
+
+import { fileExists, hashContents, readText, relativeSourcePath } from './markdown.ts';
+import { tagReservedSlugs } from './constants.ts';
+import type { ContentValidationIssue } from './types.ts';
+import { suggestClosest } from './validation.ts';
+
+export type TagRegistryEntry = {
+  title: string;
+  description?: string;
+  aliases: string[];
+};
+
+export type TagRegistry = {
+  sourcePath: string;
+  sourceHash: string;
+  tags: Map<string, TagRegistryEntry>;
+  /** Lowercased alias → canonical tag. */
+  aliases: Map<string, string>;
+};
+
+type TaggedEntry = {
+  sourcePath: string;
+  path: string;
+  date: string;
+  tags: string[];
+};
+
+const canonicalTagPattern = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/** Collapse case, camelCase, and spacing differences so `Core Web Vitals` matches `core-web-vitals`. */
+const toTagSlug = (value: string): string =>
+  value
+    .replace(/([a-z])([A-Z])/g, '$1-$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+export const loadTagRegistry = async (
+  absolutePath: string,
+  issues: ContentValidationIssue[],
+): Promise<TagRegistry | null> => {
+  const sourcePath = relativeSourcePath(absolutePath);
+
+  if (!(await fileExists(absolutePath))) {
+    issues.push({ file: sourcePath, message: 'Missing tag registry.' });
+    return null;
+  }
+
+  const raw = await readText(absolutePath);
+  let parsed: Record<string, unknown>;
+
+  try {
+    parsed = Bun.TOML.parse(raw) as Record<string, unknown>;
+  } catch (error) {
+    issues.push({
+      file: sourcePath,
+      message: `Failed to parse tags.toml: ${(error as Error).message}`,
+    });
+    return null;
+  }
+
+  const tags = new Map<string, TagRegistryEntry>();
+  const aliases = new Map<string, string>();
+
+  for (const [tag, value] of Object.entries(parsed)) {
+    const entry = (value ?? {}) as Record<string, unknown>;
+
+    if (!canonicalTagPattern.test(tag)) {
+      issues.push({
+        file: sourcePath,
+        message: `Tag '${tag}' must be lowercase kebab-case.`,
+      });
+    }
+
+    if (tagReservedSlugs.has(tag)) {
+      issues.push({
+        file: sourcePath,
+        message: `Tag '${tag}' collides with a reserved route.`,
+      });
+    }
+
+    if (typeof entry.title !== 'string' || entry.title.trim().length === 0) {
+      issues.push({ file: sourcePath, message: `Tag '${tag}' is missing a title.` });
+    }
+
+    if (entry.description !== undefined && typeof entry.description !== 'string') {
+      issues.push({ file: sourcePath, message: `Tag '${tag}' has an invalid description.` });
+    }
+
+    if (entry.aliases !== undefined && !isStringArray(entry.aliases)) {
+      issues.push({ file: sourcePath, message: `Tag '${tag}' has invalid aliases.` });
+    }
+
+    tags.set(tag, {
+      title: typeof entry.title === 'string' ? entry.title.trim() : tag,
+      ...(typeof entry.description === 'string' ? { description: entry.description.trim() } : {}),
+      aliases: isStringArray(entry.aliases) ? entry.aliases : [],
+    });
+  }
+
+  for (const [tag, entry] of tags) {
+    for (const alias of entry.aliases) {
+      const key = alias.toLowerCase();
+
+      if (tags.has(key)) {
+        issues.push({
+          file: sourcePath,
+          message: `Alias '${alias}' of tag '${tag}' collides with the canonical tag '${key}'.`,
+        });
+        continue;
+      }
+
+      const existing = aliases.get(key);
+      if (existing && existing !== tag) {
+        issues.push({
+          file: sourcePath,
+          message: `Alias '${alias}' is claimed by both '${existing}' and '${tag}'.`,
+        });
+        continue;
+      }
+
+      aliases.set(key, tag);
+    }
+  }
+
+  return {
+    sourcePath,
+    sourceHash: hashContents(raw),
+    tags,
+    aliases,
+  };
+};
+
+const resolveTag = (
+  file: string,
+  tag: string,
+  registry: TagRegistry,
+  issues: ContentValidationIssue[],
+): string | null => {
+  if (registry.tags.has(tag)) return tag;
+
+  const canonical =
+    registry.aliases.get(tag.toLowerCase()) ??
+    registry.aliases.get(toTagSlug(tag)) ??
+    (registry.tags.has(toTagSlug(tag)) ? toTagSlug(tag) : undefined);
+
+  if (canonical) {
+    issues.push({
+      file,
+      message: `Tag '${tag}' is an alias of '${canonical}'; use the canonical tag.`,
+      severity: 'warning',
+    });
+    return canonical;
+  }
+
+  const suggestion = suggestClosest(toTagSlug(tag), [...registry.tags.keys()]);
+  issues.push({
+    file,
+    message: `Unknown tag '${tag}'.${suggestion ? ` Did you mean '${suggestion}'?` : ''} Add it to tags.toml or use an existing tag.`,
+  });
+  return null;
+};
+
+/**
+ * Rewrite each entry's tags to their canonical names. Unknown tags are kept
+ * as written so nothing is silently dropped, but they never get a tag route.
+ */
+export const normalizeEntryTags = (
+  entries: TaggedEntry[],
+  registry: TagRegistry | null,
+  issues: ContentValidationIssue[],
+): void => {
+  if (!registry) return;
+
+  for (const entry of entries) {
+    const tags = entry.tags.map(
+      (tag) => resolveTag(entry.sourcePath, tag, registry, issues) ?? tag,
+    );
+    entry.tags = [...new Set(tags)];
+  }
+};
+
+const compareByDateThenPath = (left: TaggedEntry, right: TaggedEntry): number =>
+  new Date(right.date).getTime() - new Date(left.date).getTime() ||
+  left.path.localeCompare(right.path);
+
+export const buildTagIndex = (
+  registry: TagRegistry | null,
+  postEntries: TaggedEntry[],
+  lessonEntries: TaggedEntry[],
+): TagIndexEntry[] => {
+  if (!registry) return [];
+
+  const index: TagIndexEntry[] = [];
+
+  for (const [tag, entry] of [...registry.tags].sort(([left], [right]) =>
+    left.localeCompare(right),
+  )) {
+    const posts = postEntries.filter((post) => post.tags.includes(tag));
+    const lessons = lessonEntries.filter((lesson) => lesson.tags.includes(tag));
+    if (posts.length === 0 && lessons.length === 0) continue;
+
+    index.push({
+      tag,
+      title: entry.title,
+      ...(entry.description ? { description: entry.description } : {}),
+      path: `/tags/${tag}`,
+      postCount: posts.length,
+      lessonCount: lessons.length,
+      routes: [...posts, ...lessons].sort(compareByDateThenPath).map((item) => item.path),
+    });
+  }
+
+  return index;
+};
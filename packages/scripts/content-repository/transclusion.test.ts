@@ -0,0 +1,165 @@
+import { describe, expect, test } from 'bun:test';
+
+import type { PublicationStatus } from '@stevekinney/utilities/content-types';
+import { createWikilinkResolver } from '@stevekinney/utilities/wikilinks';
+import remarkParse from 'remark-parse';
+import { unified } from 'unified';
+
+import { collectTransclusions, resolveTransclusions } from './transclusion.ts';
+import type { ContentValidationIssue, MarkdownSource } from './types.ts';
+
+const parser = unified().use(remarkParse);
+
+const createSource = (
+  sourcePath: string,
+  content: string,
+  headingAnchors: string[] = [],
+): MarkdownSource => ({
+  absolutePath: `/repository/${sourcePath}`,
+  sourcePath,
+  sourceHash: `hash:${sourcePath}`,
+  data: {},
+  frontmatterLines: {},
+  bodyLineOffset: 3,
+  content,
+  tree: parser.parse(content),
+  headingAnchors: new Set(headingAnchors),
+  tailwindPlaygrounds: [],
+});
+
+const resolve = (sources: MarkdownSource[], unpublished?: Map<string, PublicationStatus>) => {
+  const issues: ContentValidationIssue[] = [];
+  const resolver = createWikilinkResolver(
+    sources.map((source) => ({
+      path: `/${source.sourcePath.replace(/\.md$/, '')}`,
+      title: source.sourcePath,
+      sourcePath: source.sourcePath,
+      headingAnchors: source.headingAnchors,
+    })),
+  );
+  return { resolved: resolveTransclusions(sources, resolver, issues, unpublished), issues };
+};
+
+describe('collectTransclusions', () => {
+  test('finds embed paragraphs and include block lines, but not inline embeds', () => {
+    const source = createSource(
+      'courses/testing/mocks.md',
+      [
+        '![[setup#Installing Dependencies]]',
+        '',
+        'See ![[setup]] inline.',
+        '',
+        '```include',
+        'setup#Running Tests',
+        '![[react/setup]]',
+        '```',
+      ].join('\n'),
+    );
+
+    expect(
+      collectTransclusions(source).map(({ wikilink, line, column }) => ({
+        target: wikilink.target,
+        heading: wikilink.heading,
+        line,
+        column,
+      })),
+    ).toEqual([
+      { target: 'setup', heading: 'Installing Dependencies', line: 4, column: 1 },
+      { target: 'setup', heading: 'Running Tests', line: 9, column: undefined },
+      { target: 'react/setup', heading: undefined, line: 10, column: undefined },
+    ]);
+  });
+});
+
+describe('resolveTransclusions', () => {
+  test('combines the hashes of every note a source includes, directly or not', () => {
+    const sources = [
+      createSource('courses/testing/mocks.md', '![[setup#Install]]'),
+      createSource('courses/testing/setup.md', '## Install\n\n![[shared/node]]', ['install']),
+      createSource('shared/node.md', 'Install Node.'),
+      createSource('courses/testing/spies.md', 'No includes here.'),
+    ];
+
+    const { resolved, issues } = resolve(sources);
+    const mocks = resolved.get('courses/testing/mocks.md');
+
+    expect(issues).toEqual([]);
+    expect(mocks?.includes.map((target) => target.path)).toEqual(['/courses/testing/setup']);
+    expect(mocks?.sourceHash).toMatch(/^[a-f0-9]{64}$/);
+    expect(mocks?.sourceHash).not.toBe(resolved.get('courses/testing/setup.md')?.sourceHash);
+    expect(resolved.has('courses/testing/spies.md')).toBe(false);
+
+    // Editing a note two steps away changes the host's hash.
+    sources[2]!.sourceHash = 'hash:edited';
+    expect(resolve(sources).resolved.get('courses/testing/mocks.md')?.sourceHash).not.toBe(
+      mocks?.sourceHash,
+    );
+  });
+
+  test('reports unknown targets, unknown headings, and cycles', () => {
+    const { issues } = resolve([
+      createSource('writing/a.md', '![[b]]\n\n![[ghost]]\n\n![[b#Missing]]'),
+      createSource('writing/b.md', '```include\na\n```'),
+      // Repeating a section of the same note is fine.
+      createSource('writing/c.md', '## Intro\n\nHello.\n\n## Recap\n\n![[c#Intro]]', [
+        'intro',
+        'recap',
+      ]),
+    ]);
+
+    expect(issues).toEqual([
+      {
+        file: 'writing/a.md',
+        message: "Unknown transclusion target '![[ghost]]'.",
+        line: 6,
+        column: 1,
+      },
+      {
+        file: 'writing/a.md',
+        message: "Unknown heading anchor '#missing' on '/writing/b'.",
+        line: 8,
+        column: 1,
+      },
+      {
+        file: 'writing/b.md',
+        message: 'Transclusion cycle: writing/a.md → writing/b.md → writing/a.md.',
+        line: 5,
+      },
+    ]);
+  });
+
+  test('reports published pages that include a note production builds leave out', () => {
+    const { resolved, issues } = resolve(
+      [
+        createSource('writing/post.md', '![[draft]]'),
+        createSource('writing/draft.md', '![[scheduled]]'),
+        createSource('writing/scheduled.md', 'Soon.'),
+        createSource('writing/teaser.md', '![[scheduled]]'),
+      ],
+      new Map<string, PublicationStatus>([
+        ['/writing/draft', { state: 'draft' }],
+        ['/repository/writing/draft.md', { state: 'draft' }],
+        ['/writing/scheduled', { state: 'scheduled', publishAt: '2999-01-01T00:00:00.000Z' }],
+      ]),
+    );
+
+    expect(issues).toEqual([
+      {
+        file: 'writing/post.md',
+        message:
+          "Transclusion '![[draft]]' includes draft '/writing/draft', which production builds leave out; the embed would ship unexpanded.",
+        line: 4,
+        column: 1,
+      },
+      {
+        file: 'writing/teaser.md',
+        message:
+          "Transclusion '![[scheduled]]' includes '/writing/scheduled', which is scheduled for 2999-01-01T00:00:00.000Z and left out of production builds until then; the embed would ship unexpanded.",
+        line: 4,
+        column: 1,
+      },
+    ]);
+    // Drafts may include each other while they are being written.
+    expect(resolved.get('writing/draft.md')?.includes).toHaveLength(1);
+  });
+});
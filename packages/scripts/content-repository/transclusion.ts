@@ -0,0 +1,182 @@
+import type { PublicationStatus } from '@stevekinney/utilities/content-types';
+import {
+  parseIncludeBlock,
+  parseTransclusionEmbed,
+  wikilinkHeadingAnchor,
+  type Wikilink,
+  type WikilinkResolver,
+} from '@stevekinney/utilities/wikilinks';
+import { visit } from 'unist-util-visit';
+
+import { hashContents } from './markdown.ts';
+import type { ContentValidationIssue, MarkdownSource } from './types.ts';
+import { describeUnpublishedTarget, type WikilinkTarget } from './validation.ts';
+
+/** A `![[Note#Heading]]` paragraph or `include` block line, and where it was written. */
+export type Transclusion = {
+  wikilink: Wikilink;
+  line?: number;
+  column?: number;
+};
+
+/** What a source pulls in from other notes. */
+export type ResolvedTransclusions = {
+  /** The notes it includes directly, for backlinks. */
+  includes: WikilinkTarget[];
+  /** Its own hash combined with the hash of every note it includes, directly or not. */
+  sourceHash: string;
+};
+
+const formatTransclusion = ({ target, heading }: Wikilink): string =>
+  `![[${target}${heading ? `#${heading}` : ''}]]`;
+
+/** Every transclusion in a source, in the forms `remark-transclusion` expands. */
+export const collectTransclusions = (
+  source: Pick<MarkdownSource, 'tree' | 'bodyLineOffset'>,
+): Transclusion[] => {
+  const transclusions: Transclusion[] = [];
+
+  visit(source.tree, ['paragraph', 'code'], (node) => {
+    const start = node.position?.start;
+
+    if (node.type === 'code' && node.lang === 'include') {
+      for (const { line, wikilink } of parseIncludeBlock(node.value)) {
+        // The first reference sits on the line after the opening fence.
+        transclusions.push(
+          start ? { wikilink, line: start.line + source.bodyLineOffset + line + 1 } : { wikilink },
+        );
+      }
+      return;
+    }
+
+    if (node.type !== 'paragraph' || node.children.length !== 1) return;
+    const [child] = node.children;
+    const wikilink = child?.type === 'text' ? parseTransclusionEmbed(child.value) : undefined;
+    if (!wikilink) return;
+
+    transclusions.push(
+      start
+        ? { wikilink, line: start.line + source.bodyLineOffset, column: start.column }
+        : { wikilink },
+    );
+  });
+
+  return transclusions;
+};
+
+/**
+ * Resolve every source's transclusions, reporting targets that don't resolve
+ * to exactly one note, headings that don't exist on it, published pages that
+ * include a note in `unpublished`, and notes that end up including themselves.
+ * Sources that include others get a combined hash, so editing an included
+ * note rebuilds every page that shows it.
+ */
+export const resolveTransclusions = (
+  sources: Iterable<MarkdownSource>,
+  resolve: WikilinkResolver<WikilinkTarget>,
+  issues: ContentValidationIssue[],
+  unpublished?: ReadonlyMap<string, PublicationStatus>,
+): Map<string, ResolvedTransclusions> => {
+  const sourcesByPath = new Map([...sources].map((source) => [source.sourcePath, source]));
+  const edges = new Map<string, Array<{ target: WikilinkTarget; transclusion: Transclusion }>>();
+
+  for (const source of sourcesByPath.values()) {
+    const file = source.sourcePath;
+
+    for (const transclusion of collectTransclusions(source)) {
+      const { wikilink, line, column } = transclusion;
+      const location = { ...(line ? { line } : {}), ...(column ? { column } : {}) };
+      const matches = resolve(wikilink.target, file);
+
+      if (matches.length !== 1) {
+        issues.push({
+          file,
+          message:
+            matches.length === 0
+              ? `Unknown transclusion target '${formatTransclusion(wikilink)}'.`
+              : `Ambiguous transclusion '${formatTransclusion(wikilink)}' matches ${matches.map((match) => match.sourcePath).join(', ')}. Add enough of the folder path to pick one.`,
+          ...location,
+        });
+        continue;
+      }
+
+      const [target] = matches;
+      // Production builds resolve includes against published routes only, so the embed would
+      // ship unexpanded.
+      const publication = unpublished?.get(target!.path);
+      if (publication && !unpublished!.has(source.absolutePath)) {
+        issues.push({
+          file,
+          message: `Transclusion '${formatTransclusion(wikilink)}' includes ${describeUnpublishedTarget(target!.path, publication)}; the embed would ship unexpanded.`,
+          ...location,
+        });
+        continue;
+      }
+
+      const anchor = wikilink.heading ? wikilinkHeadingAnchor(wikilink.heading) : undefined;
+      if (anchor && !target!.headingAnchors.has(anchor)) {
+        issues.push({
+          file,
+          message: `Unknown heading anchor '#${anchor}' on '${target!.path}'.`,
+          ...location,
+        });
+        continue;
+      }
+
+      // A note may repeat one of its own sections; only including itself whole is a cycle.
+      if (target!.sourcePath === file && anchor) continue;
+
+      edges.set(file, [...(edges.get(file) ?? []), { target: target!, transclusion }]);
+    }
+  }
+
+  const resolved = new Map<string, ResolvedTransclusions>();
+  const reportedCycles = new Set<string>();
+
+  // Walk each source's includes depth-first. A note already on the path means a cycle,
+  // which is reported once however many of its members start a walk.
+  const walk = (sourcePath: string, trail: string[], included: Set<string>): void => {
+    for (const { target, transclusion } of edges.get(sourcePath) ?? []) {
+      const next = target.sourcePath;
+      const cycleStart = trail.indexOf(next);
+
+      if (cycleStart !== -1) {
+        const cycle = [...trail.slice(cycleStart), next];
+        const key = [...new Set(cycle)].sort().join('|');
+        if (reportedCycles.has(key)) continue;
+        reportedCycles.add(key);
+
+        issues.push({
+          file: sourcePath,
+          message: `Transclusion cycle: ${cycle.join(' → ')}.`,
+          ...(transclusion.line ? { line: transclusion.line } : {}),
+          ...(transclusion.column ? { column: transclusion.column } : {}),
+        });
+        continue;
+      }
+
+      if (included.has(next)) continue;
+      included.add(next);
+      walk(next, [...trail, next], included);
+    }
+  };
+
+  for (const [sourcePath, sourceEdges] of edges) {
+    const included = new Set<string>();
+    walk(sourcePath, [sourcePath], included);
+    included.delete(sourcePath);
+
+    const hashes = [...included]
+      .sort()
+      .map((includedPath) => `${includedPath}:${sourcesByPath.get(includedPath)?.sourceHash}`);
+
+    resolved.set(sourcePath, {
+      includes: sourceEdges.map(({ target }) => target),
+      sourceHash: hashes.length
+        ? hashContents([sourcesByPath.get(sourcePath)!.sourceHash, ...hashes].join('|'))
+        : sourcesByPath.get(sourcePath)!.sourceHash,
+    });
+  }
+
+  return resolved;
+};
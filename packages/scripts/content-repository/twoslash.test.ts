@@ -0,0 +1,129 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+import { describe, expect, test } from 'bun:test';
+
+import remarkParse from 'remark-parse';
+import { unified } from 'unified';
+
+import { validateTwoslashBlocks } from './twoslash.ts';
+import type { ContentValidationIssue } from './types.ts';
+
+const parser = unified().use(remarkParse);
+
+const validate = (
+  content: string,
+  directory = import.meta.dir,
+  contentRoots?: string[],
+): ContentValidationIssue[] => {
+  const issues: ContentValidationIssue[] = [];
+  validateTwoslashBlocks(
+    {
+      sourcePath: 'courses/typescript/generics.md',
+      absolutePath: path.join(directory, 'generics.md'),
+      tree: parser.parse(content),
+      bodyLineOffset: 3,
+    },
+    issues,
+    contentRoots,
+  );
+  return issues;
+};
+
+describe('validateTwoslashBlocks', () => {
+  test('reports errors a block does not expect, on the line they happen', () => {
+    const issues = validate(
+      [
+        'Some prose.',
+        '',
+        '```ts twoslash',
+        'const box = { value: 1 };',
+        '//    ^?',
+        'const text: string = box.value;',
+        '```',
+      ].join('\n'),
+    );
+
+    expect(issues).toEqual([
+      {
+        file: 'courses/typescript/generics.md',
+        message:
+          "Unexpected TypeScript error 2322 in twoslash block: Type 'number' is not assignable to type 'string'. Fix the example, or add '// @errors: 2322' if it means to show the error.",
+        line: 9,
+      },
+    ]);
+  });
+
+  test('accepts listed errors and reports listed errors that never happen', () => {
+    const issues = validate(
+      [
+        '```ts twoslash',
+        '// @errors: 2322 2345',
+        "const count: number = 'one';",
+        '```',
+        '',
+        '```ts',
+        "const ignored: number = 'not checked';",
+        '```',
+      ].join('\n'),
+    );
+
+    expect(issues).toEqual([
+      {
+        file: 'courses/typescript/generics.md',
+        message:
+          "Twoslash block expects TypeScript error 2345 from '// @errors', but the compiler doesn't report it.",
+        line: 4,
+      },
+    ]);
+  });
+
+  test('checks a diff block without its annotations and prefixes', () => {
+    const issues = validate(
+      [
+        '```diff=ts twoslash',
+        ' const box = { value: 1 };',
+        ' // [!note The value is a number.]',
+        '-console.log(box);',
+        '+const text: string = box.value;',
+        '```',
+      ].join('\n'),
+    );
+
+    expect(issues).toEqual([
+      {
+        file: 'courses/typescript/generics.md',
+        message:
+          "Unexpected TypeScript error 2322 in twoslash block: Type 'number' is not assignable to type 'string'. Fix the example, or add '// @errors: 2322' if it means to show the error.",
+        line: 8,
+      },
+    ]);
+  });
+
+  test('checks the code a file snippet loads, not the fence body', async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), 'twoslash-'));
+    try {
+      await writeFile(
+        path.join(directory, 'box.ts'),
+        ['const box = { value: 1 };', 'const text: string = box.value;'].join('\n'),
+      );
+      const issues = validate(
+        ['```ts twoslash file="./box.ts"', 'const fine = 1;', '```'].join('\n'),
+        directory,
+        [directory],
+      );
+
+      expect(issues).toEqual([
+        {
+          file: 'courses/typescript/generics.md',
+          message:
+            "Unexpected TypeScript error 2322 in twoslash block: Type 'number' is not assignable to type 'string'. Fix the example, or add '// @errors: 2322' if it means to show the error.",
+          line: 4,
+        },
+      ]);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,61 @@
+import { prepareCodeFence } from '@stevekinney/utilities/code-fences';
+import { visit } from 'unist-util-visit';
+
+import { coursesRoot, projectsRoot, writingRoot } from '../content-paths.ts';
+
+import type { ContentValidationIssue, MarkdownSource } from './types.ts';
+
+/**
+ * Type-check every `ts twoslash` / `tsx twoslash` block the way the site's
+ * highlighter does, with its `file="…"` snippet loaded and annotations and
+ * `diff=` prefixes removed, and report compiler errors the block doesn't list
+ * in `// @errors`, as well as listed errors that never happen. A broken
+ * example fails the build instead of shipping with a red squiggle.
+ */
+export const validateTwoslashBlocks = (
+  source: Pick<MarkdownSource, 'sourcePath' | 'absolutePath' | 'tree' | 'bodyLineOffset'>,
+  issues: ContentValidationIssue[],
+  contentRoots: readonly string[] = [writingRoot, coursesRoot, projectsRoot],
+): void => {
+  const { sourcePath: file } = source;
+
+  visit(source.tree, 'code', (node) => {
+    if (!node.lang || !node.meta?.includes('twoslash')) return;
+
+    const prepared = prepareCodeFence({
+      code: node.value,
+      lang: node.lang,
+      meta: node.meta,
+      filename: source.absolutePath,
+      contentRoots,
+    });
+    // resolveCodeSnippets reports snippets that don't load.
+    if ('error' in prepared || !prepared.twoslash) return;
+    const { twoslash: result, writtenLines } = prepared;
+
+    // The block's first line sits on the line after the opening fence.
+    const fenceLine = node.position ? node.position.start.line + source.bodyLineOffset : undefined;
+
+    for (const error of result.errors) {
+      if (error.expected) continue;
+      issues.push({
+        file,
+        message: `Unexpected TypeScript error ${error.code} in twoslash block: ${error.message} Fix the example, or add '// @errors: ${error.code}' if it means to show the error.`,
+        // Errors in a `file="…"` snippet point at the fence that shows it.
+        ...(fenceLine === undefined
+          ? {}
+          : {
+              line: writtenLines ? fenceLine + 1 + (writtenLines[error.blockLine] ?? 0) : fenceLine,
+            }),
+      });
+    }
+
+    for (const code of result.missingErrors) {
+      issues.push({
+        file,
+        message: `Twoslash block expects TypeScript error ${code} from '// @errors', but the compiler doesn't report it.`,
+        ...(fenceLine === undefined ? {} : { line: fenceLine }),
+      });
+    }
+  });
+};
@@ -8,11 +8,14 @@ import type {
   ProjectIndexEntry,
 } from '@stevekinney/utilities/content-types';
 import { parseFrontmatter } from '@stevekinney/utilities/frontmatter';
+import type { SearchIndex } from '@stevekinney/utilities/search-index';
 
 export type ContentValidationIssue = {
   file: string;
   message: string;
   line?: number;
+  /** 1-based, alongside `line` for issues that point at a node in the Markdown body. */
+  column?: number;
   /** Defaults to `'error'` when absent. Warnings are surfaced but do not break the build. */
   severity?: 'error' | 'warning';
 };
@@ -21,6 +24,14 @@ export type MarkdownReferenceNode = {
   url?: string;
 };
 
+/** Link targets a source's validation depended on, recorded so unchanged results can be reused. */
+export type MarkdownLinkTargets = {
+  /** Normalized root-relative routes, plus the course root for `/courses/…` links. */
+  routes: string[];
+  /** Absolute file paths checked for existence, with the result of the check. */
+  assets: Array<{ path: string; exists: boolean }>;
+};
+
 type ParsedFrontmatter = ReturnType<typeof parseFrontmatter>;
 
 export type MarkdownSource = {
@@ -28,6 +39,10 @@ export type MarkdownSource = {
   sourcePath: string;
   sourceHash: string;
   data: ParsedFrontmatter['data'];
+  /** The 1-based file line of each top-level frontmatter key. */
+  frontmatterLines: Record<string, number>;
+  /** File lines above the Markdown body, which positions in `tree` do not count. */
+  bodyLineOffset: number;
   content: string;
   tree: Root;
   headingAnchors: Set<string>;
@@ -54,8 +69,27 @@ export type ProjectRecord = ProjectIndexEntry & {
   source: MarkdownSource;
 };
 
+export type CollectContentRepositoryOptions = {
+  /**
+   * Where the parse cache is read from and written to. Pass `null` to collect
+   * from scratch without touching a cache file.
+   */
+  cachePath?: string | null;
+  /** The tag registry every post and lesson tag is resolved against. */
+  tagRegistryPath?: string;
+  /**
+   * Keep drafts and scheduled entries in the routes and indexes. Development
+   * builds turn this on; production builds leave it off.
+   */
+  includeUnpublished?: boolean;
+  /** The moment scheduled entries are compared against. Defaults to the current time. */
+  now?: Date;
+};
+
 export type ContentRepository = GeneratedContent & {
   validationIssues: ContentValidationIssue[];
+  /** Written to its own static asset so the browser only downloads it when someone searches. */
+  searchIndex: SearchIndex;
   tailwindPlaygroundSource: string;
   sourceFiles: string[];
 };
@@ -1,9 +1,19 @@
 import { describe, expect, test } from 'bun:test';
 
-import type { CourseContentsData } from '@stevekinney/utilities/content-types';
+import type { CourseContentsData, PublicationStatus } from '@stevekinney/utilities/content-types';
+import { createWikilinkResolver } from '@stevekinney/utilities/wikilinks';
+import remarkParse from 'remark-parse';
+import { unified } from 'unified';
 
-import type { ContentValidationIssue } from './types.ts';
-import { optionalStringArray, validateCourseContents } from './validation.ts';
+import { resolveRepositoryPath } from '../content-paths.ts';
+
+import type { ContentValidationIssue, MarkdownLinkTargets } from './types.ts';
+import {
+  resolvePublication,
+  validateCourseContents,
+  validateWikilinks,
+  type WikilinkTarget,
+} from './validation.ts';
 
 const collect = (
   contents: CourseContentsData | undefined,
@@ -32,6 +42,77 @@ describe('validateCourseContents', () => {
     expect(issues[0].severity).toBeUndefined();
   });
 
+  test('counts solutions as references and reports missing ones', () => {
+    const contents: CourseContentsData = {
+      section: [
+        {
+          item: [
+            { title: 'Mocks', href: 'mocks-exercise.md', solution: 'mocks-answer.md' },
+            { title: 'Spies', href: 'spies-exercise.md', solution: 'spies-answer.md' },
+          ],
+        },
+      ],
+    };
+
+    expect(collect(contents, ['mocks-exercise', 'mocks-answer', 'spies-exercise'])).toEqual([
+      {
+        file: 'courses/example/index.toml',
+        message: "index.toml references missing solution lesson 'spies-answer.md'.",
+      },
+    ]);
+  });
+
+  test('follows nested sections and checks outline metadata', () => {
+    const contents = {
+      section: [
+        {
+          title: 'Basics',
+          description: 'Where to start.',
+          item: [{ title: 'Intro', href: 'intro.md', kind: 'lesson', duration: 10 }],
+          section: [
+            {
+              title: 'Deeper',
+              description: 42,
+              item: [
+                { title: 'Mocks', href: 'mocks.md', kind: 'quiz', optional: 'yes' },
+                { title: 'Ghost', href: 'ghost.md', duration: 0 },
+              ],
+            },
+          ],
+        },
+      ],
+      metadata: { outlineOnly: 'yes' },
+    } as unknown as CourseContentsData;
+
+    expect(collect(contents, ['intro', 'mocks'])).toEqual([
+      {
+        file: 'courses/example/index.toml',
+        message: "index.toml metadata has a non-boolean 'outlineOnly' flag.",
+      },
+      {
+        file: 'courses/example/index.toml',
+        message: "index.toml section 'Deeper' has a description that is not a string.",
+      },
+      {
+        file: 'courses/example/index.toml',
+        message:
+          "index.toml item 'mocks.md' has unknown kind 'quiz'. Use one of: lesson, exercise, solution, reference.",
+      },
+      {
+        file: 'courses/example/index.toml',
+        message: "index.toml item 'mocks.md' has a non-boolean 'optional' flag.",
+      },
+      {
+        file: 'courses/example/index.toml',
+        message: "index.toml item 'ghost.md' has duration '0'. Use a positive number of minutes.",
+      },
+      {
+        file: 'courses/example/index.toml',
+        message: "index.toml references missing lesson 'ghost.md'.",
+      },
+    ]);
+  });
+
   test('warns about a lesson on disk that index.toml never references', () => {
     const contents: CourseContentsData = {
       section: [{ item: [{ title: 'Intro', href: 'intro.md' }] }],
@@ -132,39 +213,143 @@ describe('validateCourseContents', () => {
   });
 });
 
-describe('optionalStringArray', () => {
-  test('treats an empty array as unset', () => {
-    const issues: ContentValidationIssue[] = [];
+describe('resolvePublication', () => {
+  const now = new Date('2025-06-01T00:00:00Z');
+
+  test('treats past-dated, non-draft content as published', () => {
+    expect(resolvePublication({ date: '2025-05-01' }, now)).toBeUndefined();
+  });
 
-    expect(optionalStringArray('projects/example.md', [], 'npmPackages', issues)).toBeUndefined();
-    expect(issues).toEqual([]);
+  test('marks drafts and future-dated content as unpublished', () => {
+    expect(resolvePublication({ draft: true, date: '2999-01-01' }, now)).toEqual({
+      state: 'draft',
+    });
+    expect(resolvePublication({ date: '2025-07-01' }, now)).toEqual({
+      state: 'scheduled',
+      publishAt: '2025-07-01',
+    });
   });
+});
 
-  test('normalizes non-empty string arrays', () => {
+describe('validateWikilinks', () => {
+  const routes: WikilinkTarget[] = [
+    {
+      path: '/courses/testing/mocks',
+      title: 'Mocks',
+      sourcePath: 'courses/testing/mocks.md',
+      headingAnchors: new Set(['spying-on-methods']),
+    },
+    {
+      path: '/courses/testing/setup',
+      title: 'Setup',
+      sourcePath: 'courses/testing/setup.md',
+      headingAnchors: new Set(),
+    },
+    {
+      path: '/courses/react/setup',
+      title: 'Setup',
+      sourcePath: 'courses/react/setup.md',
+      headingAnchors: new Set(),
+    },
+  ];
+
+  const validate = async (
+    sourcePath: string,
+    markdown: string,
+    unpublished?: Map<string, PublicationStatus>,
+  ) => {
     const issues: ContentValidationIssue[] = [];
+    const targets: MarkdownLinkTargets = { routes: [], assets: [] };
+    await validateWikilinks(
+      {
+        sourcePath,
+        absolutePath: resolveRepositoryPath(sourcePath),
+        tree: unified().use(remarkParse).parse(markdown),
+        headingAnchors: new Set(['overview']),
+        bodyLineOffset: 3,
+      },
+      createWikilinkResolver(routes),
+      issues,
+      targets,
+      unpublished,
+    );
+    return { issues, targets };
+  };
+
+  test('resolves notes by name and checks their headings', async () => {
+    const { issues, targets } = await validate(
+      'writing/post.md',
+      [
+        'See [[mocks#Spying on Methods|spies]] and [[#Overview]].',
+        '',
+        'Then [[testing/setup]], [[Mocks#Stubbing]], and [[ghost]].',
+      ].join('\n'),
+    );
 
-    expect(
-      optionalStringArray(
-        'projects/example.md',
-        [' package-one ', '@scope/package-two'],
-        'npmPackages',
-        issues,
-      ),
-    ).toEqual(['package-one', '@scope/package-two']);
-    expect(issues).toEqual([]);
+    expect(issues).toEqual([
+      {
+        file: 'writing/post.md',
+        message: "Unknown heading anchor '#stubbing' on '/courses/testing/mocks'.",
+        line: 6,
+        column: 25,
+      },
+      {
+        file: 'writing/post.md',
+        message: "Unknown wikilink target '[[ghost]]'.",
+        line: 6,
+        column: 49,
+      },
+    ]);
+    expect(targets.routes).toEqual([
+      '/courses/testing/mocks',
+      '/courses/testing/setup',
+      '/courses/testing/mocks',
+    ]);
   });
 
-  test('reports malformed package metadata', () => {
-    const issues: ContentValidationIssue[] = [];
+  test('prefers a note next to the linking one and reports other ambiguities', async () => {
+    expect((await validate('courses/testing/mocks.md', '[[setup]]')).issues).toEqual([]);
+    expect((await validate('writing/post.md', '[[setup]]')).issues).toEqual([
+      {
+        file: 'writing/post.md',
+        message:
+          "Ambiguous wikilink '[[setup]]' matches courses/testing/setup.md, courses/react/setup.md. Add enough of the folder path to pick one.",
+        line: 4,
+        column: 1,
+      },
+    ]);
+  });
+
+  test('reports embedded files that are not in the attachments folder', async () => {
+    const { issues } = await validate('writing/post.md', '![[missing-diagram.png|300]]');
 
-    expect(
-      optionalStringArray('projects/example.md', ['package-one', ''], 'npmPackages', issues),
-    ).toBeUndefined();
     expect(issues).toEqual([
       {
-        file: 'projects/example.md',
-        message: "Invalid 'npmPackages' frontmatter.",
+        file: 'writing/post.md',
+        message: "Missing file for embed '![[missing-diagram.png]]'.",
+        line: 4,
+        column: 1,
+      },
+    ]);
+  });
+
+  test('reports published pages that link to a draft, which production renders as text', async () => {
+    const unpublished = new Map<string, PublicationStatus>([
+      ['/courses/testing/mocks', { state: 'draft' }],
+      [resolveRepositoryPath('courses/testing/setup.md'), { state: 'draft' }],
+    ]);
+
+    expect((await validate('writing/post.md', '[[mocks]]', unpublished)).issues).toEqual([
+      {
+        file: 'writing/post.md',
+        message:
+          "Wikilink '[[mocks]]' points at draft '/courses/testing/mocks', which production builds leave out; the link would render as plain text.",
+        line: 4,
+        column: 1,
       },
     ]);
+    expect((await validate('courses/testing/setup.md', '[[mocks]]', unpublished)).issues).toEqual(
+      [],
+    );
   });
 });
@@ -1,15 +1,28 @@
 import { existsSync } from 'node:fs';
 import path from 'node:path';
 
-import { toDateString } from '@stevekinney/utilities/frontmatter';
 import { normalizeRoutePath } from '@stevekinney/utilities/routes';
 import type {
   ContentRoute,
   CourseContentsData,
   ProjectIndexEntry,
+  PublicationStatus,
   WritingIndexEntry,
 } from '@stevekinney/utilities/content-types';
-import type { Root } from 'mdast';
+import {
+  courseContentsItemKinds,
+  flattenCourseSections,
+} from '@stevekinney/utilities/course-contents';
+import {
+  isWikilinkAsset,
+  parseTransclusionEmbed,
+  parseWikilinks,
+  wikilinkAssetCandidates,
+  wikilinkHeadingAnchor,
+  type Wikilink,
+  type WikilinkResolver,
+  type WikilinkRoute,
+} from '@stevekinney/utilities/wikilinks';
 import { visit } from 'unist-util-visit';
 
 import {
@@ -27,119 +40,68 @@ import {
   writingReservedSlugs,
 } from './constants.ts';
 import { fileExists, isExternalUrl, stripQueryAndHash } from './markdown.ts';
-import type { ContentValidationIssue, CourseRecord, MarkdownReferenceNode } from './types.ts';
-
-export const safeDateString = (
-  file: string,
-  value: unknown,
-  field: 'date' | 'modified',
-  issues: ContentValidationIssue[],
-): string => {
-  const date = toDateString(value);
-  if (!date) {
-    issues.push({
-      file,
-      message: `Missing or invalid '${field}' frontmatter.`,
-    });
-
-    return '';
-  }
-
-  return date;
-};
-
-export const requiredString = (
-  file: string,
-  value: unknown,
-  field: 'title' | 'name' | 'description' | 'githubUrl',
-  issues: ContentValidationIssue[],
-): string => {
-  if (typeof value === 'string' && value.trim().length > 0) {
-    return value.trim();
-  }
-
-  issues.push({
-    file,
-    message: `Missing required '${field}' frontmatter.`,
-  });
-
-  return '';
-};
-
-export const optionalString = (
-  file: string,
-  value: unknown,
-  field: 'productionUrl' | 'writingPath' | 'youtubeUrl',
-  issues: ContentValidationIssue[],
-): string | undefined => {
-  if (value === undefined || value === null || value === '') {
-    return undefined;
+import type {
+  ContentValidationIssue,
+  CourseRecord,
+  MarkdownLinkTargets,
+  MarkdownReferenceNode,
+  MarkdownSource,
+} from './types.ts';
+
+type IssueLocation = Pick<ContentValidationIssue, 'line' | 'column'>;
+
+/**
+ * Read `draft` and a future `date` from validated frontmatter. Returns
+ * `undefined` for content that should be published as of `now`.
+ */
+export const resolvePublication = (
+  data: { draft?: boolean; date?: string },
+  now: Date,
+): PublicationStatus | undefined => {
+  if (data.draft === true) {
+    return { state: 'draft' };
   }
 
-  if (typeof value === 'string' && value.trim().length > 0) {
-    return value.trim();
+  if (data.date && new Date(data.date).getTime() > now.getTime()) {
+    return { state: 'scheduled', publishAt: data.date };
   }
 
-  issues.push({
-    file,
-    message: `Invalid '${field}' frontmatter.`,
-  });
-
   return undefined;
 };
 
-export const optionalStringArray = (
-  file: string,
-  value: unknown,
-  field: 'npmPackages',
-  issues: ContentValidationIssue[],
-): string[] | undefined => {
-  if (value === undefined || value === null) {
-    return undefined;
-  }
-
-  if (Array.isArray(value) && value.length === 0) {
-    return undefined;
-  }
-
-  if (
-    Array.isArray(value) &&
-    value.every((item) => typeof item === 'string' && item.trim().length > 0)
-  ) {
-    return value.map((item) => item.trim());
+const editDistance = (left: string, right: string): number => {
+  let previous = Array.from({ length: right.length + 1 }, (_, index) => index);
+
+  for (let row = 1; row <= left.length; row += 1) {
+    const current = [row];
+    for (let column = 1; column <= right.length; column += 1) {
+      const substitution = left[row - 1] === right[column - 1] ? 0 : 1;
+      current[column] = Math.min(
+        previous[column] + 1,
+        current[column - 1] + 1,
+        previous[column - 1] + substitution,
+      );
+    }
+    previous = current;
   }
 
-  issues.push({
-    file,
-    message: `Invalid '${field}' frontmatter.`,
-  });
-
-  return undefined;
+  return previous[right.length];
 };
 
-const isUrl = (value: string): boolean => {
-  try {
-    const url = new URL(value);
-    return url.protocol === 'https:' || url.protocol === 'http:';
-  } catch {
-    return false;
-  }
-};
+/** The closest candidate within a small edit distance, for "did you mean" hints. */
+export const suggestClosest = (value: string, candidates: Iterable<string>): string | undefined => {
+  const threshold = Math.max(1, Math.floor(value.length / 3));
+  let best: { candidate: string; distance: number } | undefined;
 
-export const validateUrlFrontmatter = (
-  file: string,
-  value: string | undefined,
-  field: 'githubUrl' | 'productionUrl' | 'youtubeUrl',
-  issues: ContentValidationIssue[],
-): void => {
-  if (!value) return;
-
-  if (!isUrl(value)) {
-    issues.push({
-      file,
-      message: `Invalid URL in '${field}' frontmatter.`,
-    });
+  for (const candidate of candidates) {
+    const distance = editDistance(value, candidate);
+    if (distance > threshold) continue;
+    if (!best || distance < best.distance) {
+      best = { candidate, distance };
+    }
   }
+
+  return best?.candidate;
 };
 
 const validateHeadingAnchor = (
@@ -147,7 +109,7 @@ const validateHeadingAnchor = (
   urlPath: string,
   headingAnchors: Set<string>,
   issues: ContentValidationIssue[],
-  line?: number,
+  location: IssueLocation,
 ): void => {
   const anchor = urlPath.slice(1);
   if (!anchor) return;
@@ -156,7 +118,7 @@ const validateHeadingAnchor = (
     issues.push({
       file,
       message: `Unknown heading anchor '${urlPath}'.`,
-      line,
+      ...location,
     });
   }
 };
@@ -167,7 +129,8 @@ const validateRootLink = (
   routePaths: Set<string>,
   courseDirectories: Set<string>,
   issues: ContentValidationIssue[],
-  line?: number,
+  location: IssueLocation,
+  targets?: MarkdownLinkTargets,
 ): void => {
   const normalized = normalizeRoutePath(urlPath);
 
@@ -176,13 +139,14 @@ const validateRootLink = (
   if (normalized.startsWith('/open-graph')) return;
   if (normalized.startsWith('/llms')) return;
 
+  targets?.routes.push(normalized);
   if (routePaths.has(normalized)) return;
 
   if (normalized.startsWith('/writing/')) {
     issues.push({
       file,
       message: `Unknown writing route '${urlPath}'.`,
-      line,
+      ...location,
     });
     return;
   }
@@ -193,16 +157,17 @@ const validateRootLink = (
       issues.push({
         file,
         message: `Missing course slug for link '${urlPath}'.`,
-        line,
+        ...location,
       });
       return;
     }
 
+    targets?.routes.push(`/courses/${courseSlug}`);
     if (!courseDirectories.has(courseSlug)) {
       issues.push({
         file,
         message: `Unknown course '${courseSlug}' for link '${urlPath}'.`,
-        line,
+        ...location,
       });
       return;
     }
@@ -210,7 +175,16 @@ const validateRootLink = (
     issues.push({
       file,
       message: `Unknown course route '${urlPath}'.`,
-      line,
+      ...location,
+    });
+    return;
+  }
+
+  if (normalized.startsWith('/tags/')) {
+    issues.push({
+      file,
+      message: `Unknown tag route '${urlPath}'.`,
+      ...location,
     });
     return;
   }
@@ -220,18 +194,21 @@ const validateRootLink = (
       issues.push({
         file,
         message: `Unknown project route '${urlPath}'.`,
-        line,
+        ...location,
       });
     }
     return;
   }
 
   const staticAssetPath = path.join(websiteStaticRoot, normalized.slice(1));
-  if (!existsSync(staticAssetPath)) {
+  const staticAssetExists = existsSync(staticAssetPath);
+  targets?.assets.push({ path: staticAssetPath, exists: staticAssetExists });
+
+  if (!staticAssetExists) {
     issues.push({
       file,
       message: `Missing static asset for link '${urlPath}'.`,
-      line,
+      ...location,
     });
   }
 };
@@ -240,7 +217,8 @@ const validateRelativeLink = async (
   file: string,
   urlPath: string,
   issues: ContentValidationIssue[],
-  line?: number,
+  location: IssueLocation,
+  targets?: MarkdownLinkTargets,
 ): Promise<void> => {
   const resolvedPath = path.resolve(path.dirname(resolveRepositoryPath(file)), urlPath);
   const contentRoots = [writingRoot, coursesRoot, projectsRoot];
@@ -256,36 +234,50 @@ const validateRelativeLink = async (
     issues.push({
       file,
       message: `Relative link escapes content roots: '${urlPath}'.`,
-      line,
+      ...location,
     });
     return;
   }
 
-  if (!(await fileExists(resolvedPath))) {
+  const resolvedPathExists = await fileExists(resolvedPath);
+  targets?.assets.push({ path: resolvedPath, exists: resolvedPathExists });
+
+  if (!resolvedPathExists) {
     issues.push({
       file,
       message: `Missing asset or file for link '${urlPath}'.`,
-      line,
+      ...location,
     });
   }
 };
 
+/**
+ * Validate every link, image, and definition in a markdown tree. When
+ * `targets` is given, the routes and files the result depended on are
+ * recorded so an unchanged source can reuse it on the next run.
+ */
 export const validateMarkdownLinks = async (
-  file: string,
-  tree: Root,
-  headingAnchors: Set<string>,
+  source: Pick<MarkdownSource, 'sourcePath' | 'tree' | 'headingAnchors' | 'bodyLineOffset'>,
   routePaths: Set<string>,
   courseDirectories: Set<string>,
   issues: ContentValidationIssue[],
+  targets?: MarkdownLinkTargets,
 ): Promise<void> => {
+  const { sourcePath: file, tree, headingAnchors } = source;
   const tasks: Promise<void>[] = [];
 
   visit(tree, ['link', 'image', 'definition'], (node) => {
     const url = String((node as MarkdownReferenceNode).url ?? '').trim();
     if (!url) return;
-    const line = node.position?.start.line;
+    // Tree positions count from the end of the frontmatter, not the top of the file.
+    const location: IssueLocation = node.position
+      ? {
+          line: node.position.start.line + source.bodyLineOffset,
+          column: node.position.start.column,
+        }
+      : {};
     if (url.startsWith('#')) {
-      validateHeadingAnchor(file, url, headingAnchors, issues, line);
+      validateHeadingAnchor(file, url, headingAnchors, issues, location);
       return;
     }
     if (isExternalUrl(url)) return;
@@ -294,16 +286,160 @@ export const validateMarkdownLinks = async (
     if (!normalizedUrl) return;
 
     if (normalizedUrl.startsWith('/')) {
-      validateRootLink(file, normalizedUrl, routePaths, courseDirectories, issues, line);
+      validateRootLink(
+        file,
+        normalizedUrl,
+        routePaths,
+        courseDirectories,
+        issues,
+        location,
+        targets,
+      );
       return;
     }
 
-    tasks.push(validateRelativeLink(file, normalizedUrl, issues, line));
+    tasks.push(validateRelativeLink(file, normalizedUrl, issues, location, targets));
   });
 
   await Promise.all(tasks);
 };
 
+/** A wikilink target, with the headings a `[[Note#Heading]]` link can point at. */
+export type WikilinkTarget = WikilinkRoute & { headingAnchors: Set<string> };
+
+const formatWikilink = ({ embed, target, heading }: Wikilink): string =>
+  `${embed ? '!' : ''}[[${target}${heading ? `#${heading}` : ''}]]`;
+
+/**
+ * Production builds leave drafts and scheduled entries out of the route table
+ * the Markdown pipeline resolves against, so a published page can't link to
+ * or include one by name.
+ */
+export const describeUnpublishedTarget = (
+  target: string,
+  publication: PublicationStatus,
+): string =>
+  publication.state === 'draft'
+    ? `draft '${target}', which production builds leave out`
+    : `'${target}', which is scheduled for ${publication.publishAt} and left out of production builds until then`;
+
+/**
+ * Validate Obsidian wikilinks and embeds the way `validateMarkdownLinks`
+ * validates ordinary links: notes must resolve to exactly one route, headings
+ * must exist on the note they name, and embedded files must exist where
+ * `remark-wikilinks` will look for them. A published page may not name a
+ * note in `unpublished`, since it would render as plain text in production.
+ * Resolved routes and assets are recorded in `targets` for backlinks and
+ * unpublished-link warnings.
+ */
+export const validateWikilinks = async (
+  source: Pick<
+    MarkdownSource,
+    'sourcePath' | 'absolutePath' | 'tree' | 'headingAnchors' | 'bodyLineOffset'
+  >,
+  resolve: WikilinkResolver<WikilinkTarget>,
+  issues: ContentValidationIssue[],
+  targets?: MarkdownLinkTargets,
+  unpublished?: ReadonlyMap<string, PublicationStatus>,
+): Promise<void> => {
+  const { sourcePath: file, tree } = source;
+  const found: Array<{ wikilink: Wikilink; location: IssueLocation }> = [];
+
+  visit(tree, 'text', (node, _index, parent) => {
+    if (parent?.type === 'link') return;
+    // A paragraph that is only `![[Note#Heading]]` is a transclusion, checked by `resolveTransclusions`.
+    if (parent?.type === 'paragraph' && parent.children.length === 1) {
+      if (parseTransclusionEmbed(node.value)) return;
+    }
+
+    for (const wikilink of parseWikilinks(node.value)) {
+      // A text node can span lines, so the link's position is counted from the node's.
+      const before = node.value.slice(0, wikilink.start).split('\n');
+      const start = node.position?.start;
+      found.push({
+        wikilink,
+        location: start
+          ? {
+              line: start.line + source.bodyLineOffset + before.length - 1,
+              column:
+                before.length === 1 ? start.column + wikilink.start : before.at(-1)!.length + 1,
+            }
+          : {},
+      });
+    }
+  });
+
+  for (const { wikilink, location } of found) {
+    const { target, heading } = wikilink;
+    const anchor = heading ? wikilinkHeadingAnchor(heading) : undefined;
+
+    if (wikilink.embed && isWikilinkAsset(target)) {
+      const candidates = wikilinkAssetCandidates(target).map((candidate) =>
+        path.resolve(path.dirname(source.absolutePath), candidate),
+      );
+      const existing = await Promise.all(candidates.map((candidate) => fileExists(candidate)));
+      const index = existing.indexOf(true);
+      targets?.assets.push({ path: candidates[Math.max(index, 0)]!, exists: index !== -1 });
+
+      if (index === -1) {
+        issues.push({
+          file,
+          message: `Missing file for embed '${formatWikilink(wikilink)}'.`,
+          ...location,
+        });
+      }
+      continue;
+    }
+
+    if (!target) {
+      if (anchor && !source.headingAnchors.has(anchor)) {
+        issues.push({ file, message: `Unknown heading anchor '#${anchor}'.`, ...location });
+      }
+      continue;
+    }
+
+    const matches = resolve(target, file);
+    if (matches.length === 0) {
+      issues.push({
+        file,
+        message: `Unknown wikilink target '${formatWikilink(wikilink)}'.`,
+        ...location,
+      });
+      continue;
+    }
+
+    if (matches.length > 1) {
+      issues.push({
+        file,
+        message: `Ambiguous wikilink '${formatWikilink(wikilink)}' matches ${matches.map((match) => match.sourcePath).join(', ')}. Add enough of the folder path to pick one.`,
+        ...location,
+      });
+      continue;
+    }
+
+    const [route] = matches;
+    const publication = unpublished?.get(route!.path);
+    if (publication && !unpublished!.has(source.absolutePath)) {
+      issues.push({
+        file,
+        message: `Wikilink '${formatWikilink(wikilink)}' points at ${describeUnpublishedTarget(route!.path, publication)}; the link would render as plain text.`,
+        ...location,
+      });
+      continue;
+    }
+
+    targets?.routes.push(route!.path);
+
+    if (anchor && !route!.headingAnchors.has(anchor)) {
+      issues.push({
+        file,
+        message: `Unknown heading anchor '#${anchor}' on '${route!.path}'.`,
+        ...location,
+      });
+    }
+  }
+};
+
 export const validateCourseContents = (
   file: string,
   contents: CourseContentsData | undefined,
@@ -326,6 +462,16 @@ export const validateCourseContents = (
 
   const referencedSlugs = new Set<string>();
 
+  if (
+    contents.metadata?.outlineOnly !== undefined &&
+    typeof contents.metadata.outlineOnly !== 'boolean'
+  ) {
+    issues.push({
+      file,
+      message: `index.toml metadata has a non-boolean 'outlineOnly' flag.`,
+    });
+  }
+
   for (const unlistedHref of contents.metadata?.unlisted ?? []) {
     const unlistedSlug = unlistedHref.replace(/\.md$/i, '');
     referencedSlugs.add(unlistedSlug);
@@ -338,8 +484,39 @@ export const validateCourseContents = (
     }
   }
 
-  for (const section of contents.section ?? []) {
+  for (const section of flattenCourseSections(contents)) {
+    if (section.description !== undefined && typeof section.description !== 'string') {
+      issues.push({
+        file,
+        message: `index.toml section '${section.title ?? 'Untitled'}' has a description that is not a string.`,
+      });
+    }
+
     for (const item of section.item ?? []) {
+      if (item.kind !== undefined && !courseContentsItemKinds.includes(item.kind)) {
+        issues.push({
+          file,
+          message: `index.toml item '${item.href}' has unknown kind '${item.kind}'. Use one of: ${courseContentsItemKinds.join(', ')}.`,
+        });
+      }
+
+      if (
+        item.duration !== undefined &&
+        (typeof item.duration !== 'number' || !Number.isFinite(item.duration) || item.duration <= 0)
+      ) {
+        issues.push({
+          file,
+          message: `index.toml item '${item.href}' has duration '${item.duration}'. Use a positive number of minutes.`,
+        });
+      }
+
+      if (item.optional !== undefined && typeof item.optional !== 'boolean') {
+        issues.push({
+          file,
+          message: `index.toml item '${item.href}' has a non-boolean 'optional' flag.`,
+        });
+      }
+
       const href = item.href?.replace(/\.md$/i, '');
       if (href && !isExternalUrl(href)) {
         referencedSlugs.add(href);
@@ -351,6 +528,17 @@ export const validateCourseContents = (
         }
       }
 
+      const solutionHref = item.solution?.replace(/\.md$/i, '');
+      if (solutionHref) {
+        referencedSlugs.add(solutionHref);
+        if (!lessonSlugs.has(solutionHref)) {
+          issues.push({
+            file,
+            message: `index.toml references missing solution lesson '${item.solution}'.`,
+          });
+        }
+      }
+
       for (const related of item.related ?? []) {
         const relatedHref = related.href?.replace(/\.md$/i, '');
         if (relatedHref && !isExternalUrl(relatedHref)) {
@@ -362,6 +550,17 @@ export const validateCourseContents = (
             });
           }
         }
+
+        const relatedSolutionHref = related.solution?.replace(/\.md$/i, '');
+        if (relatedSolutionHref) {
+          referencedSlugs.add(relatedSolutionHref);
+          if (!lessonSlugs.has(relatedSolutionHref)) {
+            issues.push({
+              file,
+              message: `index.toml references missing solution lesson '${related.solution}'.`,
+            });
+          }
+        }
       }
     }
   }
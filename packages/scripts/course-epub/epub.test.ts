@@ -0,0 +1,115 @@
+import { describe, expect, test } from 'bun:test';
+
+import type { ImageManifest } from '@stevekinney/utilities/image-manifest';
+
+import { buildCourseEpub } from './epub.ts';
+
+const html = `<!doctype html>
+<html>
+  <head>
+    <meta name="description" content="Tests that hold up." />
+    <meta name="author" content="Steve Kinney" />
+    <link rel="canonical" href="https://example.com/courses/testing" />
+  </head>
+  <body>
+    <div data-course-print>
+      <h1>Testing</h1>
+      <time datetime="2026-03-01">March 1, 2026</time>
+      <section id="introduction" data-course-print-chapter="Introduction">
+        <p>Start with <a href="#lesson-mocks--spying">spying</a> or <a href="/writing/hooks">hooks</a>.</p>
+      </section>
+      <section id="lesson-mocks" data-course-print-chapter="Mocks">
+        <h3 id="lesson-mocks--spying">Spying</h3>
+        <picture>
+          <source srcset="https://blob.example.com/mocks-480w.avif" type="image/avif" />
+          <img src="https://blob.example.com/mocks.png" alt="A mock" loading="lazy" />
+        </picture>
+        <img src="/courses/testing/assets/missing.png" alt="Missing" />
+        <a href="#introduction">Back</a>
+      </section>
+    </div>
+  </body>
+</html>`;
+
+const manifest: ImageManifest = {
+  version: 1,
+  images: {
+    'courses/testing/assets/mocks.png': {
+      hash: 'abc123',
+      width: 800,
+      height: 600,
+      original: 'https://blob.example.com/mocks.png',
+      avif: [{ width: 480, url: 'https://blob.example.com/mocks-480w.avif' }],
+      lqip: null,
+      videoMimeType: null,
+    },
+  },
+};
+
+const build = () =>
+  buildCourseEpub({
+    html,
+    manifest,
+    readImage: async (repositoryPath) =>
+      repositoryPath === 'courses/testing/assets/mocks.png' ? new Uint8Array([1, 2, 3]) : null,
+  });
+
+const findEntry = async (entryPath: string): Promise<string> => {
+  const { entries } = await build();
+  const data = entries.find(({ path }) => path === entryPath)?.data;
+  return typeof data === 'string' ? data : '';
+};
+
+describe('buildCourseEpub', () => {
+  test('writes one chapter per section, in order, after the mimetype', async () => {
+    const { entries } = await build();
+
+    expect(entries.map(({ path }) => path)).toEqual([
+      'mimetype',
+      'META-INF/container.xml',
+      'OEBPS/content.opf',
+      'OEBPS/nav.xhtml',
+      'OEBPS/styles.css',
+      'OEBPS/chapters/introduction.xhtml',
+      'OEBPS/chapters/lesson-mocks.xhtml',
+      'OEBPS/images/abc123.png',
+    ]);
+    expect(entries[0]).toMatchObject({ data: 'application/epub+zip', store: true });
+  });
+
+  test('points anchors at the chapter file they now live in', async () => {
+    const introduction = await findEntry('OEBPS/chapters/introduction.xhtml');
+    const mocks = await findEntry('OEBPS/chapters/lesson-mocks.xhtml');
+
+    expect(introduction).toContain('href="lesson-mocks.xhtml#lesson-mocks--spying"');
+    expect(introduction).toContain('href="https://example.com/writing/hooks"');
+    expect(mocks).toContain('href="introduction.xhtml#introduction"');
+  });
+
+  test('embeds manifest images and reports the ones it cannot find', async () => {
+    const { warnings } = await build();
+    const mocks = await findEntry('OEBPS/chapters/lesson-mocks.xhtml');
+
+    expect(mocks).toContain('<img alt="A mock" src="../images/abc123.png" />');
+    expect(mocks).not.toContain('<picture');
+    expect(mocks).toContain('<span>Missing</span>');
+    expect(warnings).toEqual([
+      "Mocks: could not embed image '/courses/testing/assets/missing.png'.",
+    ]);
+  });
+
+  test('describes the book in the package document', async () => {
+    const packageDocument = await findEntry('OEBPS/content.opf');
+
+    expect(packageDocument).toContain(
+      '<dc:identifier id="book-id">https://example.com/courses/testing</dc:identifier>',
+    );
+    expect(packageDocument).toContain('<dc:creator>Steve Kinney</dc:creator>');
+    expect(packageDocument).toContain(
+      '<meta property="dcterms:modified">2026-03-01T00:00:00Z</meta>',
+    );
+    expect(packageDocument).toContain(
+      '<item id="image-0" href="images/abc123.png" media-type="image/png" />',
+    );
+  });
+});
@@ -0,0 +1,250 @@
+import path from 'node:path';
+
+import { JSDOM, VirtualConsole } from 'jsdom';
+
+import type { ImageManifest } from '@stevekinney/utilities/image-manifest';
+
+import type { ZipEntry } from './zip.ts';
+
+export type CourseEpubOptions = {
+  /** The prerendered `/courses/[course]/print` page. */
+  html: string;
+  manifest: ImageManifest;
+  /** Read an image by its manifest key, a repository-relative path. `null` when it is missing. */
+  readImage: (repositoryPath: string) => Promise<Uint8Array | null>;
+};
+
+export type CourseEpub = {
+  entries: ZipEntry[];
+  /** Problems that did not stop the build, such as images that could not be embedded. */
+  warnings: string[];
+};
+
+const imageMediaTypes: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.webp': 'image/webp',
+};
+
+const stylesheet = `body { font-family: serif; line-height: 1.5; }
+pre { white-space: pre-wrap; font-size: 0.85em; }
+code { font-family: monospace; }
+img { max-width: 100%; height: auto; }
+`;
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const xhtmlDocument = (
+  title: string,
+  body: string,
+  stylesheetHref: string,
+): string => `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="en" xml:lang="en">
+<head>
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="${stylesheetHref}" />
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+/**
+ * Every URL the manifest serves an image from, mapped back to its key. The
+ * prerendered page points at blob storage in production and at `/<key>` for
+ * images the manifest has not picked up yet.
+ */
+const indexManifestUrls = (manifest: ImageManifest): Map<string, { key: string; hash: string }> => {
+  const urls = new Map<string, { key: string; hash: string }>();
+
+  for (const [key, { hash, original, avif }] of Object.entries(manifest.images)) {
+    for (const url of [`/${key}`, original, ...avif.map((variant) => variant.url)]) {
+      urls.set(url, { key, hash });
+    }
+  }
+
+  return urls;
+};
+
+/**
+ * Split the print edition into one XHTML file per chapter and package it as
+ * an EPUB 3 container. Anchors that crossed chapters on the single page are
+ * pointed at the right file, other site links become absolute, and images are
+ * embedded from the repository using the image manifest. Images that cannot
+ * be found are replaced with their alt text and reported as warnings.
+ */
+export const buildCourseEpub = async ({
+  html,
+  manifest,
+  readImage,
+}: CourseEpubOptions): Promise<CourseEpub> => {
+  // The page's stylesheets are irrelevant here, so jsdom's CSS parse errors are silenced.
+  const { window } = new JSDOM(html, { virtualConsole: new VirtualConsole() });
+  const { document } = window;
+  const warnings: string[] = [];
+
+  const root = document.querySelector('[data-course-print]');
+  const canonicalUrl = document.querySelector<HTMLLinkElement>('link[rel="canonical"]')?.href;
+  if (!root || !canonicalUrl) {
+    throw new Error('Expected the prerendered course print page.');
+  }
+
+  const title = root.querySelector('h1')?.textContent?.trim() ?? 'Untitled course';
+  const author = document.querySelector<HTMLMetaElement>('meta[name="author"]')?.content ?? '';
+  const description =
+    document.querySelector<HTMLMetaElement>('meta[name="description"]')?.content ?? '';
+  const modified = root.querySelector('time')?.getAttribute('datetime')?.slice(0, 10);
+  const siteOrigin = new URL(canonicalUrl).origin;
+
+  const chapters = [...root.querySelectorAll<HTMLElement>('[data-course-print-chapter]')].map(
+    (section) => ({
+      id: section.id,
+      title: section.dataset.coursePrintChapter ?? section.id,
+      file: `chapters/${section.id}.xhtml`,
+      section,
+    }),
+  );
+
+  const fileById = new Map<string, string>();
+  for (const chapter of chapters) {
+    fileById.set(chapter.id, chapter.file);
+    for (const element of chapter.section.querySelectorAll('[id]')) {
+      fileById.set(element.id, chapter.file);
+    }
+  }
+
+  const manifestUrls = indexManifestUrls(manifest);
+  const images = new Map<string, { file: string; mediaType: string; data: Uint8Array }>();
+  const serializer = new window.XMLSerializer();
+  const chapterEntries: ZipEntry[] = [];
+
+  for (const chapter of chapters) {
+    const { section } = chapter;
+
+    for (const element of section.querySelectorAll('script, style, template, [hidden]')) {
+      element.remove();
+    }
+
+    for (const picture of section.querySelectorAll('picture')) {
+      const image = picture.querySelector('img');
+      if (image) picture.replaceWith(image);
+      else picture.remove();
+    }
+
+    for (const video of section.querySelectorAll('video')) {
+      const source =
+        video.querySelector('source')?.getAttribute('src') ?? video.getAttribute('src');
+      const link = document.createElement('a');
+      link.href = source ? new URL(source, siteOrigin).href : canonicalUrl;
+      link.textContent = 'Watch the video online';
+      const paragraph = document.createElement('p');
+      paragraph.append(link);
+      video.replaceWith(paragraph);
+    }
+
+    for (const link of section.querySelectorAll('a[href]')) {
+      const href = link.getAttribute('href') ?? '';
+      if (href.startsWith('#')) {
+        const file = fileById.get(href.slice(1));
+        if (file && file !== chapter.file)
+          link.setAttribute('href', `${path.basename(file)}${href}`);
+      } else if (href.startsWith('/')) {
+        link.setAttribute('href', new URL(href, siteOrigin).href);
+      }
+    }
+
+    for (const image of section.querySelectorAll('img')) {
+      const source = image.getAttribute('src') ?? '';
+      const match = manifestUrls.get(source.split(/[?#]/)[0] ?? '');
+      const extension = path.extname(match?.key ?? '').toLowerCase();
+      const mediaType = imageMediaTypes[extension];
+      const data =
+        match && mediaType ? (images.get(match.key)?.data ?? (await readImage(match.key))) : null;
+
+      if (!match || !mediaType || !data) {
+        warnings.push(`${chapter.title}: could not embed image '${source}'.`);
+        const alt = document.createElement('span');
+        alt.textContent = image.getAttribute('alt') ?? '';
+        image.replaceWith(alt);
+        continue;
+      }
+
+      const file = `images/${match.hash}${extension}`;
+      images.set(match.key, { file, mediaType, data });
+
+      for (const attribute of [...image.attributes]) {
+        if (!['alt', 'width', 'height'].includes(attribute.name)) {
+          image.removeAttribute(attribute.name);
+        }
+      }
+      image.setAttribute('src', `../${file}`);
+      if (!image.hasAttribute('alt')) image.setAttribute('alt', '');
+    }
+
+    chapterEntries.push({
+      path: `OEBPS/${chapter.file}`,
+      data: xhtmlDocument(chapter.title, serializer.serializeToString(section), '../styles.css'),
+    });
+  }
+
+  const navigation = xhtmlDocument(
+    title,
+    `<nav epub:type="toc" id="toc">
+<h1>Contents</h1>
+<ol>
+${chapters.map(({ file, title: chapterTitle }) => `<li><a href="${file}">${escapeXml(chapterTitle)}</a></li>`).join('\n')}
+</ol>
+</nav>`,
+    'styles.css',
+  );
+
+  const packageDocument = `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="en">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">${escapeXml(canonicalUrl)}</dc:identifier>
+<dc:title>${escapeXml(title)}</dc:title>
+<dc:creator>${escapeXml(author)}</dc:creator>
+<dc:description>${escapeXml(description)}</dc:description>
+<dc:language>en</dc:language>
+<meta property="dcterms:modified">${modified ?? '1970-01-01'}T00:00:00Z</meta>
+</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav" />
+<item id="styles" href="styles.css" media-type="text/css" />
+${chapters.map(({ id, file }) => `<item id="${escapeXml(id)}" href="${file}" media-type="application/xhtml+xml" />`).join('\n')}
+${[...images.values()].map(({ file, mediaType }, index) => `<item id="image-${index}" href="${file}" media-type="${mediaType}" />`).join('\n')}
+</manifest>
+<spine>
+${chapters.map(({ id }) => `<itemref idref="${escapeXml(id)}" />`).join('\n')}
+</spine>
+</package>
+`;
+
+  const container = `<?xml version="1.0" encoding="utf-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml" />
+</rootfiles>
+</container>
+`;
+
+  return {
+    entries: [
+      // The mimetype must come first and be stored uncompressed.
+      { path: 'mimetype', data: 'application/epub+zip', store: true },
+      { path: 'META-INF/container.xml', data: container },
+      { path: 'OEBPS/content.opf', data: packageDocument },
+      { path: 'OEBPS/nav.xhtml', data: navigation },
+      { path: 'OEBPS/styles.css', data: stylesheet },
+      ...chapterEntries,
+      ...[...images.values()].map(({ file, data }) => ({ path: `OEBPS/${file}`, data })),
+    ],
+    warnings,
+  };
+};
@@ -0,0 +1,45 @@
+import { inflateRawSync } from 'node:zlib';
+
+import { describe, expect, test } from 'bun:test';
+
+import { createZipArchive } from './zip.ts';
+
+const decoder = new TextDecoder();
+
+describe('createZipArchive', () => {
+  test('stores the first entry where EPUB readers look for the mimetype', () => {
+    const archive = createZipArchive([
+      { path: 'mimetype', data: 'application/epub+zip', store: true },
+      { path: 'OEBPS/chapter.xhtml', data: '<p>Hello</p>'.repeat(20) },
+    ]);
+    const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(8, true)).toBe(0);
+    expect(decoder.decode(archive.subarray(30, 38))).toBe('mimetype');
+    expect(decoder.decode(archive.subarray(38, 58))).toBe('application/epub+zip');
+  });
+
+  test('compresses other entries and indexes every entry in the central directory', () => {
+    const body = '<p>Hello</p>'.repeat(20);
+    const archive = createZipArchive([
+      { path: 'mimetype', data: 'application/epub+zip', store: true },
+      { path: 'OEBPS/chapter.xhtml', data: body },
+    ]);
+    const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+
+    const second = 58;
+    const compressedSize = view.getUint32(second + 18, true);
+    const nameLength = view.getUint16(second + 26, true);
+    const dataStart = second + 30 + nameLength;
+    expect(view.getUint16(second + 8, true)).toBe(8);
+    expect(
+      decoder.decode(inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize))),
+    ).toBe(body);
+
+    const end = archive.byteLength - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    expect(view.getUint32(end + 16, true)).toBe(dataStart + compressedSize);
+  });
+});
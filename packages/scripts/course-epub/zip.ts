@@ -0,0 +1,78 @@
+import { deflateRawSync } from 'node:zlib';
+
+export type ZipEntry = {
+  path: string;
+  data: string | Uint8Array;
+  /** Stored entries are written as-is; EPUB requires this for `mimetype`. */
+  store?: boolean;
+};
+
+const encoder = new TextEncoder();
+
+// Every entry gets the earliest DOS timestamp (1980-01-01 00:00) so the same
+// content always produces byte-identical archives.
+const dosTime = 0;
+const dosDate = (0 << 9) | (1 << 5) | 1;
+
+// General purpose flag bit 11: file names are UTF-8.
+const utf8Flag = 0x0800;
+
+/**
+ * Write a ZIP archive of stored or DEFLATE-compressed entries, without ZIP64
+ * extensions, which is everything an EPUB container needs. Entries keep the
+ * order they are given in.
+ */
+export const createZipArchive = (entries: ZipEntry[]): Uint8Array => {
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const compressed = entry.store ? data : deflateRawSync(data);
+    const method = entry.store ? 0 : 8;
+    const crc = Bun.hash.crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, utf8Flag, true);
+    local.setUint16(8, method, true);
+    local.setUint16(10, dosTime, true);
+    local.setUint16(12, dosDate, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, compressed.byteLength, true);
+    local.setUint32(22, data.byteLength, true);
+    local.setUint16(26, name.byteLength, true);
+    local.setUint16(28, 0, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, utf8Flag, true);
+    central.setUint16(10, method, true);
+    central.setUint16(12, dosTime, true);
+    central.setUint16(14, dosDate, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, compressed.byteLength, true);
+    central.setUint32(24, data.byteLength, true);
+    central.setUint16(28, name.byteLength, true);
+    central.setUint32(42, offset, true);
+
+    localParts.push(new Uint8Array(local.buffer), name, compressed);
+    centralParts.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.byteLength + compressed.byteLength;
+  }
+
+  const centralSize = centralParts.reduce((total, part) => total + part.byteLength, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return Buffer.concat([...localParts, ...centralParts, new Uint8Array(end.buffer)]);
+};
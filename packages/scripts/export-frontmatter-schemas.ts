@@ -0,0 +1,19 @@
+#!/usr/bin/env bun
+import { mkdir } from 'node:fs/promises';
+import path from 'node:path';
+
+import { writeFormattedJson } from '@stevekinney/utilities/write-formatted-json';
+
+import { frontmatterSchemasDirectory, normalizeRepositoryPath } from './content-paths.ts';
+import {
+  frontmatterSchemas,
+  toFrontmatterJsonSchema,
+} from './content-repository/frontmatter-schemas.ts';
+
+await mkdir(frontmatterSchemasDirectory, { recursive: true });
+
+for (const [name, schema] of Object.entries(frontmatterSchemas)) {
+  const filePath = path.join(frontmatterSchemasDirectory, `${name}.schema.json`);
+  await writeFormattedJson(filePath, toFrontmatterJsonSchema(schema));
+  console.log(`Wrote ${normalizeRepositoryPath(filePath)}`);
+}
@@ -0,0 +1,73 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { ExternalLinkResult, ExternalLinkState } from './check.ts';
+
+const externalLinkCacheVersion = 1;
+
+type ExternalLinkCacheFile = {
+  version: number;
+  results: Record<string, ExternalLinkResult>;
+};
+
+/** Checked URLs keyed by URL. Entries outlive a run until their TTL passes. */
+export type ExternalLinkCache = Map<string, ExternalLinkResult>;
+
+const hour = 60 * 60 * 1000;
+const day = 24 * hour;
+
+/**
+ * How long a result stays trustworthy. Live pages rarely disappear overnight,
+ * while a dead link or a flaky host is worth asking about again soon, since
+ * the fix might be on the other end.
+ */
+export const externalLinkCacheTtls: Record<ExternalLinkState, number> = {
+  ok: 7 * day,
+  redirect: 7 * day,
+  dead: day,
+  error: hour,
+};
+
+export const loadExternalLinkCache = async (cachePath: string): Promise<ExternalLinkCache> => {
+  try {
+    const file = JSON.parse(await readFile(cachePath, 'utf8')) as ExternalLinkCacheFile;
+    if (file.version !== externalLinkCacheVersion) return new Map();
+    return new Map(Object.entries(file.results));
+  } catch {
+    return new Map();
+  }
+};
+
+/** A cached result that has not expired as of `now`. */
+export const getFreshExternalLinkResult = (
+  cache: ExternalLinkCache,
+  url: string,
+  now: Date,
+  ttls: Record<ExternalLinkState, number> = externalLinkCacheTtls,
+): ExternalLinkResult | undefined => {
+  const cached = cache.get(url);
+  if (!cached) return undefined;
+
+  const age = now.getTime() - new Date(cached.checkedAt).getTime();
+  return age >= 0 && age < ttls[cached.state] ? cached : undefined;
+};
+
+/** Persist only the URLs the current content links to so removed links don't accumulate. */
+export const saveExternalLinkCache = async (
+  cachePath: string,
+  cache: ExternalLinkCache,
+  urls: Iterable<string>,
+): Promise<void> => {
+  const results: Record<string, ExternalLinkResult> = {};
+  for (const url of [...urls].sort()) {
+    const result = cache.get(url);
+    if (result) results[url] = result;
+  }
+
+  const file: ExternalLinkCacheFile = { version: externalLinkCacheVersion, results };
+
+  const temporaryPath = `${cachePath}.${process.pid}.tmp`;
+  await mkdir(path.dirname(cachePath), { recursive: true });
+  await writeFile(temporaryPath, `${JSON.stringify(file, null, 2)}\n`, 'utf8');
+  await rename(temporaryPath, cachePath);
+};
@@ -0,0 +1,177 @@
+import { afterAll, beforeEach, describe, expect, test } from 'bun:test';
+
+import { getFreshExternalLinkResult, type ExternalLinkCache } from './cache.ts';
+import { checkExternalLinks } from './check.ts';
+import { formatExternalLinkReport } from './report.ts';
+
+const requests: string[] = [];
+let inFlight = 0;
+let maximumInFlight = 0;
+let flakyFailures = 0;
+
+// A local stand-in for the web, so nothing here touches the network.
+const server = Bun.serve({
+  port: 0,
+  async fetch(request) {
+    const { pathname } = new URL(request.url);
+    requests.push(`${request.method} ${pathname}`);
+
+    switch (pathname) {
+      case '/ok':
+        return new Response('ok');
+      case '/gone':
+        return new Response('gone', { status: 404 });
+      case '/moved':
+        return new Response(null, { status: 301, headers: { location: '/ok' } });
+      case '/temporary':
+        return new Response(null, { status: 302, headers: { location: '/ok' } });
+      case '/moved-to-nowhere':
+        return new Response(null, { status: 308, headers: { location: '/gone' } });
+      case '/no-head':
+        return new Response('ok', { status: request.method === 'HEAD' ? 405 : 200 });
+      case '/flaky':
+        if (flakyFailures > 0) {
+          flakyFailures -= 1;
+          return new Response('busy', { status: 503 });
+        }
+        return new Response('ok');
+      case '/down':
+        return new Response('down', { status: 503 });
+      default: {
+        inFlight += 1;
+        maximumInFlight = Math.max(maximumInFlight, inFlight);
+        await Bun.sleep(10);
+        inFlight -= 1;
+        return new Response('ok');
+      }
+    }
+  },
+});
+
+const url = (pathname: string) => new URL(pathname, server.url).href;
+
+const options = { retries: 2, retryDelay: 0, now: new Date('2026-01-01T00:00:00.000Z') };
+
+beforeEach(() => {
+  requests.length = 0;
+  maximumInFlight = 0;
+  flakyFailures = 0;
+});
+
+afterAll(() => {
+  void server.stop(true);
+});
+
+describe('checkExternalLinks', () => {
+  test('classifies live, dead, and permanently redirected links', async () => {
+    const results = await checkExternalLinks(
+      [url('/ok'), url('/gone'), url('/moved'), url('/temporary'), url('/moved-to-nowhere')],
+      options,
+    );
+
+    expect(
+      results.map(({ url, checkedAt: _, ...result }) => [new URL(url).pathname, result]),
+    ).toEqual([
+      ['/gone', { state: 'dead', status: 404, message: 'HTTP 404.' }],
+      ['/moved', { state: 'redirect', status: 200, location: url('/ok') }],
+      [
+        '/moved-to-nowhere',
+        { state: 'dead', status: 404, message: `HTTP 404 after redirecting to ${url('/gone')}.` },
+      ],
+      ['/ok', { state: 'ok', status: 200 }],
+      ['/temporary', { state: 'ok', status: 200 }],
+    ]);
+  });
+
+  test('falls back to GET when the server rejects HEAD', async () => {
+    const [result] = await checkExternalLinks([url('/no-head')], options);
+
+    expect(result?.state).toBe('ok');
+    expect(requests).toEqual(['HEAD /no-head', 'GET /no-head']);
+  });
+
+  test('retries transient failures before giving up', async () => {
+    flakyFailures = 2;
+    const [down, flaky] = await checkExternalLinks([url('/flaky'), url('/down')], {
+      ...options,
+      concurrencyPerHost: 1,
+    });
+
+    expect(flaky?.state).toBe('ok');
+    expect(down).toMatchObject({ state: 'error', status: 503 });
+    expect(requests.filter((request) => request === 'HEAD /down')).toHaveLength(3);
+  });
+
+  test('reports network failures as errors rather than dead links', async () => {
+    const [result] = await checkExternalLinks(['https://unreachable.test/'], {
+      ...options,
+      fetch: () => Promise.reject(new Error('getaddrinfo ENOTFOUND unreachable.test')),
+    });
+
+    expect(result).toMatchObject({
+      state: 'error',
+      message: 'getaddrinfo ENOTFOUND unreachable.test',
+    });
+  });
+
+  test('limits the requests in flight to a single host', async () => {
+    await checkExternalLinks(
+      Array.from({ length: 6 }, (_, index) => url(`/slow-${index}`)),
+      { ...options, concurrencyPerHost: 2 },
+    );
+
+    expect(maximumInFlight).toBe(2);
+  });
+
+  test('reuses fresh cached results and rechecks expired ones', async () => {
+    const cache: ExternalLinkCache = new Map([
+      [url('/gone'), { url: url('/gone'), state: 'ok', checkedAt: '2025-12-31T00:00:00.000Z' }],
+      [url('/ok'), { url: url('/ok'), state: 'dead', checkedAt: '2025-12-30T00:00:00.000Z' }],
+    ]);
+
+    const results = await checkExternalLinks([url('/gone'), url('/ok')], { ...options, cache });
+
+    expect(results.map((result) => result.state)).toEqual(['ok', 'ok']);
+    expect(requests).toEqual(['HEAD /ok']);
+    expect(getFreshExternalLinkResult(cache, url('/ok'), options.now)?.checkedAt).toBe(
+      options.now.toISOString(),
+    );
+  });
+});
+
+describe('formatExternalLinkReport', () => {
+  test('lists dead links and redirects with the files that use them', () => {
+    const checkedAt = '2026-01-01T00:00:00.000Z';
+
+    expect(
+      formatExternalLinkReport(
+        [
+          { url: 'https://example.com/gone', state: 'dead', message: 'HTTP 404.', checkedAt },
+          {
+            url: 'http://example.com/',
+            state: 'redirect',
+            location: 'https://example.com/',
+            checkedAt,
+          },
+          { url: 'https://example.com/', state: 'ok', checkedAt },
+        ],
+        new Map([
+          ['https://example.com/gone', [{ file: 'writing/post.md', line: 12, column: 3 }]],
+          ['http://example.com/', [{ file: 'projects/example.md', line: 2 }]],
+        ]),
+      ),
+    ).toBe(
+      [
+        'Dead links (1):',
+        '- https://example.com/gone (HTTP 404.)',
+        '  - writing/post.md:12:3',
+        '',
+        'Permanent redirects (1):',
+        '- http://example.com/ → https://example.com/',
+        '  - projects/example.md:2',
+        '',
+        'Checked 3 external link(s): 1 OK.',
+      ].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,205 @@
+import { getFreshExternalLinkResult, type ExternalLinkCache } from './cache.ts';
+
+/**
+ * - `ok`: the page answered, possibly after temporary redirects.
+ * - `redirect`: the link permanently redirects; `location` is where it ends up.
+ * - `dead`: the server says the page is gone.
+ * - `error`: no usable answer after every retry, so the link may be fine.
+ */
+export type ExternalLinkState = 'ok' | 'redirect' | 'dead' | 'error';
+
+export type ExternalLinkResult = {
+  url: string;
+  state: ExternalLinkState;
+  /** The final HTTP status. Absent when no request got a response. */
+  status?: number;
+  location?: string;
+  message?: string;
+  /** ISO timestamp, compared against the cache TTL for `state`. */
+  checkedAt: string;
+};
+
+/** The HTTP layer, injectable so tests never leave the machine. */
+export type ExternalLinkFetch = (url: string, init: RequestInit) => Promise<Response>;
+
+export type CheckExternalLinksOptions = {
+  fetch?: ExternalLinkFetch;
+  /** Fresh results are reused, and every new result is written back. */
+  cache?: ExternalLinkCache;
+  now?: Date;
+  /** Requests in flight to a single host. Defaults to 2. */
+  concurrencyPerHost?: number;
+  /** Hosts checked at once. Defaults to 8. */
+  hostConcurrency?: number;
+  /** Extra attempts after a network error, a 429, or a 5xx. Defaults to 2. */
+  retries?: number;
+  /** Milliseconds before the first retry, doubling after each. Defaults to 1000. */
+  retryDelay?: number;
+  /** Milliseconds before a single request is abandoned. Defaults to 15000. */
+  timeout?: number;
+  /** Defaults to 5. */
+  maxRedirects?: number;
+};
+
+type ExternalLinkResponse = { status: number; location?: string } | { error: string };
+
+const userAgent = 'Mozilla/5.0 (compatible; stevekinney.com link checker)';
+
+const isRedirectStatus = (status: number): boolean => [301, 302, 303, 307, 308].includes(status);
+
+const isPermanentRedirectStatus = (status: number): boolean => status === 301 || status === 308;
+
+const isRetryableStatus = (status: number): boolean => status === 429 || status >= 500;
+
+/** Sites that turn away automated clients still prove the page exists. */
+const isReachableStatus = (status: number): boolean =>
+  (status >= 200 && status < 300) || status === 401 || status === 403;
+
+const wait = (milliseconds: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, milliseconds));
+
+/** Run an async function with a concurrency limiter. */
+const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> => {
+  const results: R[] = [];
+  let index = 0;
+
+  const next = async (): Promise<void> => {
+    while (index < items.length) {
+      const currentIndex = index++;
+      results[currentIndex] = await fn(items[currentIndex]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, () => next()));
+  return results;
+};
+
+/**
+ * Check external URLs, grouped by host so no single server sees more than
+ * `concurrencyPerHost` requests at once. Each URL is tried with `HEAD` first
+ * and with `GET` when the server rejects `HEAD`, redirects are followed by
+ * hand so a permanent one can be reported, and transient failures are
+ * retried with exponential backoff. Results come back sorted by URL.
+ */
+export const checkExternalLinks = async (
+  urls: Iterable<string>,
+  {
+    fetch: fetchUrl = fetch,
+    cache = new Map(),
+    now = new Date(),
+    concurrencyPerHost = 2,
+    hostConcurrency = 8,
+    retries = 2,
+    retryDelay = 1000,
+    timeout = 15_000,
+    maxRedirects = 5,
+  }: CheckExternalLinksOptions = {},
+): Promise<ExternalLinkResult[]> => {
+  const checkedAt = now.toISOString();
+
+  const request = async (url: string): Promise<ExternalLinkResponse> => {
+    let response: ExternalLinkResponse = { error: 'Not requested.' };
+
+    for (let attempt = 0; attempt <= retries; attempt += 1) {
+      if (attempt > 0) await wait(retryDelay * 2 ** (attempt - 1));
+
+      try {
+        for (const method of ['HEAD', 'GET']) {
+          const result = await fetchUrl(url, {
+            method,
+            redirect: 'manual',
+            headers: { 'user-agent': userAgent },
+            signal: AbortSignal.timeout(timeout),
+          });
+          await result.body?.cancel();
+          response = {
+            status: result.status,
+            location: result.headers.get('location') ?? undefined,
+          };
+          // Plenty of servers answer `HEAD` with an error and `GET` with the page.
+          if (result.status < 400) break;
+        }
+      } catch (error) {
+        response = { error: error instanceof Error ? error.message : String(error) };
+      }
+
+      if ('status' in response && !isRetryableStatus(response.status)) break;
+    }
+
+    return response;
+  };
+
+  const check = async (url: string): Promise<ExternalLinkResult> => {
+    let current = url;
+    let permanent = false;
+
+    for (let hop = 0; hop <= maxRedirects; hop += 1) {
+      const response = await request(current);
+      if ('error' in response) {
+        return { url, state: 'error', message: response.error, checkedAt };
+      }
+
+      const { status, location } = response;
+      if (isRedirectStatus(status) && location) {
+        // Only the link's own redirect matters; where the target goes next is its business.
+        if (hop === 0) permanent = isPermanentRedirectStatus(status);
+        current = new URL(location, current).href;
+        continue;
+      }
+
+      const via = current === url ? '' : ` after redirecting to ${current}`;
+
+      if (isReachableStatus(status)) {
+        return permanent
+          ? { url, state: 'redirect', status, location: current, checkedAt }
+          : { url, state: 'ok', status, checkedAt };
+      }
+
+      return {
+        url,
+        state: isRetryableStatus(status) ? 'error' : 'dead',
+        status,
+        message: `HTTP ${status}${via}.`,
+        checkedAt,
+      };
+    }
+
+    return { url, state: 'error', message: `More than ${maxRedirects} redirects.`, checkedAt };
+  };
+
+  const results: ExternalLinkResult[] = [];
+  const hosts = new Map<string, string[]>();
+
+  for (const url of new Set(urls)) {
+    const cached = getFreshExternalLinkResult(cache, url, now);
+    if (cached) {
+      results.push(cached);
+      continue;
+    }
+
+    let host: string;
+    try {
+      host = new URL(url).host;
+    } catch {
+      results.push({ url, state: 'dead', message: 'Invalid URL.', checkedAt });
+      continue;
+    }
+
+    hosts.set(host, [...(hosts.get(host) ?? []), url]);
+  }
+
+  const checked = await mapWithConcurrency([...hosts.values()], hostConcurrency, (hostUrls) =>
+    mapWithConcurrency(hostUrls, concurrencyPerHost, check),
+  );
+
+  for (const result of checked.flat()) {
+    cache.set(result.url, result);
+    results.push(result);
+  }
+
+  return results.sort((left, right) => left.url.localeCompare(right.url));
+};
@@ -0,0 +1,39 @@
+import { describe, expect, test } from 'bun:test';
+
+import remarkParse from 'remark-parse';
+import { unified } from 'unified';
+
+import { collectExternalLinks } from './collect.ts';
+
+describe('collectExternalLinks', () => {
+  test('gathers http links from the body and URL fields from frontmatter, skipping local hosts', () => {
+    const content = [
+      'Read [the docs](https://vitest.dev/guide/#mocking) and [the API](https://vitest.dev/guide/).',
+      '',
+      '![Diagram](https://vitest.dev/logo.svg) [Home](/writing) [App](http://localhost:3000) [Mail](mailto:me@example.com)',
+      '',
+      '[reference]: http://vitest.dev/config/',
+      '[placeholder]: https://api.example.com/users',
+    ].join('\n');
+
+    const links = collectExternalLinks([
+      {
+        sourcePath: 'projects/example.md',
+        data: { githubUrl: 'https://github.com/stevekinney/example', writingPath: '/writing' },
+        frontmatterLines: { githubUrl: 2 },
+        bodyLineOffset: 4,
+        tree: unified().use(remarkParse).parse(content),
+      },
+    ]);
+
+    expect(Object.fromEntries(links)).toEqual({
+      'https://github.com/stevekinney/example': [{ file: 'projects/example.md', line: 2 }],
+      'https://vitest.dev/guide/': [
+        { file: 'projects/example.md', line: 5, column: 6 },
+        { file: 'projects/example.md', line: 5, column: 56 },
+      ],
+      'https://vitest.dev/logo.svg': [{ file: 'projects/example.md', line: 7, column: 1 }],
+      'http://vitest.dev/config/': [{ file: 'projects/example.md', line: 9, column: 1 }],
+    });
+  });
+});
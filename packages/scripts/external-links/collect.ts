@@ -0,0 +1,80 @@
+import { visit } from 'unist-util-visit';
+
+import type { MarkdownReferenceNode, MarkdownSource } from '../content-repository/types.ts';
+
+/** Where a URL appears, in the same shape as a validation issue's location. */
+export type ExternalLinkOccurrence = {
+  file: string;
+  line?: number;
+  column?: number;
+};
+
+/** Project frontmatter fields that hold a URL, checked alongside the Markdown body. */
+export const externalLinkFrontmatterFields = ['githubUrl', 'productionUrl', 'youtubeUrl'] as const;
+
+/**
+ * Lessons link to local dev servers and placeholder domains that only exist
+ * on the reader's machine or nowhere at all, so checking them proves nothing.
+ */
+const uncheckableHostPattern =
+  /(^|\.)(localhost|test|example|invalid|example\.(com|org|net))$|^(127\.\d+\.\d+\.\d+|0\.0\.0\.0|\[::1?\])$/;
+
+const isCheckableUrl = (value: string): boolean => {
+  if (!/^https?:\/\//i.test(value)) return false;
+  try {
+    return !uncheckableHostPattern.test(new URL(value).hostname);
+  } catch {
+    // Malformed URLs are kept so the checker reports them.
+    return true;
+  }
+};
+
+/**
+ * Every `http(s)` URL linked from the given sources, mapped to the places it
+ * appears, except those on local or placeholder hosts. Fragments are dropped,
+ * since a server never sees them and the same page linked at two headings only
+ * needs one request.
+ */
+export const collectExternalLinks = (
+  sources: Iterable<
+    Pick<MarkdownSource, 'sourcePath' | 'tree' | 'bodyLineOffset' | 'data' | 'frontmatterLines'>
+  >,
+): Map<string, ExternalLinkOccurrence[]> => {
+  const links = new Map<string, ExternalLinkOccurrence[]>();
+
+  const add = (value: string, occurrence: ExternalLinkOccurrence): void => {
+    if (!isCheckableUrl(value)) return;
+    const url = value.split('#')[0] ?? value;
+    const occurrences = links.get(url) ?? [];
+    occurrences.push(occurrence);
+    links.set(url, occurrences);
+  };
+
+  for (const source of sources) {
+    const file = source.sourcePath;
+
+    for (const field of externalLinkFrontmatterFields) {
+      const value = source.data[field];
+      if (typeof value === 'string') {
+        add(value.trim(), { file, line: source.frontmatterLines[field] });
+      }
+    }
+
+    visit(source.tree, ['link', 'image', 'definition'], (node) => {
+      const url = String((node as MarkdownReferenceNode).url ?? '').trim();
+      // Tree positions count from the end of the frontmatter, not the top of the file.
+      add(
+        url,
+        node.position
+          ? {
+              file,
+              line: node.position.start.line + source.bodyLineOffset,
+              column: node.position.start.column,
+            }
+          : { file },
+      );
+    });
+  }
+
+  return links;
+};
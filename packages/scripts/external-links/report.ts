@@ -0,0 +1,46 @@
+import { formatIssueLocation } from '../validation-report.ts';
+
+import type { ExternalLinkResult, ExternalLinkState } from './check.ts';
+import type { ExternalLinkOccurrence } from './collect.ts';
+
+const sections: Array<{ state: ExternalLinkState; heading: string }> = [
+  { state: 'dead', heading: 'Dead links' },
+  { state: 'redirect', heading: 'Permanent redirects' },
+  { state: 'error', heading: 'Could not check' },
+];
+
+const describeResult = (result: ExternalLinkResult): string => {
+  if (result.state === 'redirect') return `${result.url} → ${result.location}`;
+  return result.message ? `${result.url} (${result.message})` : result.url;
+};
+
+/**
+ * A plain-text report of every link that needs attention, grouped by what is
+ * wrong with it, with each link followed by the places that use it. Links that
+ * checked out are only counted.
+ */
+export const formatExternalLinkReport = (
+  results: ExternalLinkResult[],
+  occurrences: ReadonlyMap<string, ExternalLinkOccurrence[]>,
+): string => {
+  const lines: string[] = [];
+
+  for (const { state, heading } of sections) {
+    const matching = results.filter((result) => result.state === state);
+    if (matching.length === 0) continue;
+
+    lines.push(`${heading} (${matching.length}):`);
+    for (const result of matching) {
+      lines.push(`- ${describeResult(result)}`);
+      for (const occurrence of occurrences.get(result.url) ?? []) {
+        lines.push(`  - ${formatIssueLocation(occurrence)}`);
+      }
+    }
+    lines.push('');
+  }
+
+  const healthy = results.filter((result) => result.state === 'ok').length;
+  lines.push(`Checked ${results.length} external link(s): ${healthy} OK.`);
+
+  return lines.join('\n');
+};
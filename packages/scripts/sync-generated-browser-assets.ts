@@ -5,6 +5,7 @@ import path from 'node:path';
 import {
   directoryExists,
   generatedContentEnhancementsDirectory,
+  generatedSearchDirectory,
   websiteBuildRoot,
   websiteSvelteKitClientRoot,
   websiteVercelStaticRoot,
@@ -13,43 +14,40 @@ import {
 const isBuildMetadataFile = (sourcePath: string): boolean =>
   path.basename(sourcePath) === '.build-hash';
 
-const generatedAssetTargets = [
-  {
-    basePath: websiteBuildRoot,
-    targetPath: path.resolve(websiteBuildRoot, 'generated', 'content-enhancements'),
-  },
-  {
-    basePath: websiteSvelteKitClientRoot,
-    targetPath: path.resolve(websiteSvelteKitClientRoot, 'generated', 'content-enhancements'),
-  },
-  {
-    basePath: websiteVercelStaticRoot,
-    targetPath: path.resolve(websiteVercelStaticRoot, 'generated', 'content-enhancements'),
-  },
+const adapterRoots = [websiteBuildRoot, websiteSvelteKitClientRoot, websiteVercelStaticRoot];
+
+/** Each generated directory is served from `/generated/<name>/` in every adapter's output. */
+const generatedAssetDirectories = [
+  { sourcePath: generatedContentEnhancementsDirectory, name: 'content-enhancements' },
+  { sourcePath: generatedSearchDirectory, name: 'search' },
 ];
 
 const syncGeneratedAssets = async (): Promise<void> => {
-  const sourceExists = await directoryExists(generatedContentEnhancementsDirectory);
-  if (!sourceExists) {
-    console.error(
-      `Generated content enhancement assets are missing at ${generatedContentEnhancementsDirectory}.`,
-    );
-    process.exit(1);
+  for (const directory of generatedAssetDirectories) {
+    const sourceExists = await directoryExists(directory.sourcePath);
+    if (!sourceExists) {
+      console.error(`Generated browser assets are missing at ${directory.sourcePath}.`);
+      process.exit(1);
+    }
   }
 
-  for (const target of generatedAssetTargets) {
-    const targetRootExists = await directoryExists(target.basePath);
+  for (const basePath of adapterRoots) {
+    const targetRootExists = await directoryExists(basePath);
 
     if (!targetRootExists) {
       continue;
     }
 
-    await rm(target.targetPath, { recursive: true, force: true });
-    await mkdir(path.dirname(target.targetPath), { recursive: true });
-    await cp(generatedContentEnhancementsDirectory, target.targetPath, {
-      recursive: true,
-      filter: (sourcePath) => !isBuildMetadataFile(sourcePath),
-    });
+    for (const directory of generatedAssetDirectories) {
+      const targetPath = path.resolve(basePath, 'generated', directory.name);
+
+      await rm(targetPath, { recursive: true, force: true });
+      await mkdir(path.dirname(targetPath), { recursive: true });
+      await cp(directory.sourcePath, targetPath, {
+        recursive: true,
+        filter: (sourcePath) => !isBuildMetadataFile(sourcePath),
+      });
+    }
   }
 };
 
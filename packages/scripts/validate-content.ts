@@ -1,29 +1,66 @@
 #!/usr/bin/env bun
 import { collectContentRepository } from './content-repository.ts';
+import {
+  createGitHubAnnotations,
+  createJsonReport,
+  createSarifReport,
+  formatIssueLocation,
+  parseValidationReportFormat,
+  type ValidationReportFormat,
+} from './validation-report.ts';
+
+const readFormat = (): ValidationReportFormat => {
+  try {
+    return parseValidationReportFormat(process.argv.slice(2));
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+};
 
 const main = async (): Promise<void> => {
+  const format = readFormat();
   const repository = await collectContentRepository();
+  const issues = repository.validationIssues;
+
+  const errors = issues.filter((i) => i.severity !== 'warning');
+  const warnings = issues.filter((i) => i.severity === 'warning');
 
-  const errors = repository.validationIssues.filter((i) => i.severity !== 'warning');
-  const warnings = repository.validationIssues.filter((i) => i.severity === 'warning');
+  // Machine-readable formats own stdout; the exit code still reports failure. Exiting
+  // outright could cut off a report that is still being written to a pipe.
+  if (format === 'json') {
+    const { routeCount, sourceFileCount } = repository.meta;
+    console.log(createJsonReport(issues, { routeCount, sourceFileCount }));
+    process.exitCode = errors.length > 0 ? 1 : 0;
+    return;
+  }
+
+  if (format === 'sarif') {
+    console.log(createSarifReport(issues));
+    process.exitCode = errors.length > 0 ? 1 : 0;
+    return;
+  }
+
+  if (format === 'github' && errors.length > 0) {
+    console.log(createGitHubAnnotations(errors));
+  }
 
   if (warnings.length > 0) {
     console.warn('Content validation warnings:');
     for (const issue of warnings) {
-      console.warn(
-        `- ${issue.file}${issue.line != null ? `:${issue.line}` : ''}: ${issue.message}`,
-      );
+      console.warn(`- ${formatIssueLocation(issue)}: ${issue.message}`);
     }
   }
 
   if (errors.length > 0) {
-    console.error('Content validation failed:');
-    for (const issue of errors) {
-      console.error(
-        `- ${issue.file}${issue.line != null ? `:${issue.line}` : ''}: ${issue.message}`,
-      );
+    console.error(`Content validation failed with ${errors.length} error(s).`);
+    if (format === 'text') {
+      for (const issue of errors) {
+        console.error(`- ${formatIssueLocation(issue)}: ${issue.message}`);
+      }
     }
-    process.exit(1);
+    process.exitCode = 1;
+    return;
   }
 
   console.log(
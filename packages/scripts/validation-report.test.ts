@@ -0,0 +1,78 @@
+import { describe, expect, test } from 'bun:test';
+
+import type { ContentValidationIssue } from './content-repository/types.ts';
+import {
+  createGitHubAnnotations,
+  createJsonReport,
+  createSarifReport,
+  formatIssueLocation,
+  parseValidationReportFormat,
+} from './validation-report.ts';
+
+const issues: ContentValidationIssue[] = [
+  {
+    file: 'writing/example.md',
+    message: "Unknown writing route '/writing/missing'.",
+    line: 12,
+    column: 5,
+  },
+  {
+    file: 'writing/orphan.md',
+    message: "No other content links to '/writing/orphan'.",
+    severity: 'warning',
+  },
+];
+
+describe('validation report', () => {
+  test('parses --format in either form and defaults to text', () => {
+    expect(parseValidationReportFormat([])).toBe('text');
+    expect(parseValidationReportFormat(['--format=sarif'])).toBe('sarif');
+    expect(parseValidationReportFormat(['--format', 'github'])).toBe('github');
+    expect(() => parseValidationReportFormat(['--format=xml'])).toThrow(
+      "Unknown --format 'xml'. Expected one of: text, json, sarif, github.",
+    );
+  });
+
+  test('formats issue locations with the line and column when known', () => {
+    expect(issues.map(formatIssueLocation)).toEqual([
+      'writing/example.md:12:5',
+      'writing/orphan.md',
+    ]);
+  });
+
+  test('counts errors and warnings in the JSON report', () => {
+    const report = JSON.parse(createJsonReport(issues, { routeCount: 3, sourceFileCount: 2 }));
+
+    expect(report).toMatchObject({ routeCount: 3, errorCount: 1, warningCount: 1 });
+    expect(report.issues[0].severity).toBe('error');
+  });
+
+  test('emits a SARIF result per issue with a region when the line is known', () => {
+    const log = JSON.parse(createSarifReport(issues));
+    const [error, warning] = log.runs[0].results;
+
+    expect(log.version).toBe('2.1.0');
+    expect(error.level).toBe('error');
+    expect(error.locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: 'writing/example.md', uriBaseId: '%SRCROOT%' },
+      region: { startLine: 12, startColumn: 5 },
+    });
+    expect(warning.level).toBe('warning');
+    expect(warning.locations[0].physicalLocation.region).toBeUndefined();
+  });
+
+  test('escapes GitHub workflow command properties and messages', () => {
+    expect(createGitHubAnnotations(issues)).toBe(
+      "::error file=writing/example.md,line=12,col=5::Unknown writing route '/writing/missing'.",
+    );
+    expect(createGitHubAnnotations([{ file: 'writing/a,b.md', message: '100%\nbroken' }])).toBe(
+      '::error file=writing/a%2Cb.md::100%25%0Abroken',
+    );
+  });
+
+  test('leaves warnings out of the GitHub annotations', () => {
+    expect(createGitHubAnnotations(issues.filter((issue) => issue.severity === 'warning'))).toBe(
+      '',
+    );
+  });
+});
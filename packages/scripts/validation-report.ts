@@ -0,0 +1,133 @@
+import type { ContentValidationIssue } from './content-repository/types.ts';
+
+export const validationReportFormats = ['text', 'json', 'sarif', 'github'] as const;
+
+export type ValidationReportFormat = (typeof validationReportFormats)[number];
+
+const isValidationReportFormat = (value: string): value is ValidationReportFormat =>
+  (validationReportFormats as readonly string[]).includes(value);
+
+/** Read `--format=<name>` or `--format <name>` from the arguments, defaulting to `text`. */
+export const parseValidationReportFormat = (argv: string[]): ValidationReportFormat => {
+  const index = argv.findIndex(
+    (argument) => argument === '--format' || argument.startsWith('--format='),
+  );
+  if (index === -1) return 'text';
+
+  const argument = argv[index]!;
+  const value = argument.includes('=')
+    ? argument.slice(argument.indexOf('=') + 1)
+    : argv[index + 1];
+  if (value && isValidationReportFormat(value)) return value;
+
+  throw new Error(
+    `Unknown --format '${value ?? ''}'. Expected one of: ${validationReportFormats.join(', ')}.`,
+  );
+};
+
+const isWarning = (issue: ContentValidationIssue) => issue.severity === 'warning';
+
+/** `file`, `file:line`, or `file:line:column`, the form editors and terminals link. */
+export const formatIssueLocation = (
+  issue: Pick<ContentValidationIssue, 'file' | 'line' | 'column'>,
+): string => {
+  if (issue.line == null) return issue.file;
+  return `${issue.file}:${issue.line}${issue.column != null ? `:${issue.column}` : ''}`;
+};
+
+export type ValidationReportSummary = {
+  routeCount: number;
+  sourceFileCount: number;
+};
+
+export const createJsonReport = (
+  issues: ContentValidationIssue[],
+  summary: ValidationReportSummary,
+): string => {
+  const errorCount = issues.filter((issue) => !isWarning(issue)).length;
+
+  return JSON.stringify(
+    {
+      ...summary,
+      errorCount,
+      warningCount: issues.length - errorCount,
+      issues: issues.map((issue) => ({ ...issue, severity: issue.severity ?? 'error' })),
+    },
+    null,
+    2,
+  );
+};
+
+const sarifRuleId = 'content-validation';
+
+/**
+ * A SARIF 2.1.0 log with one result per issue, for code-scanning uploads.
+ * Paths are relative to the repository root, which `%SRCROOT%` stands for.
+ */
+export const createSarifReport = (issues: ContentValidationIssue[]): string =>
+  JSON.stringify(
+    {
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      version: '2.1.0',
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: 'validate-content',
+              rules: [
+                {
+                  id: sarifRuleId,
+                  shortDescription: { text: 'Content validation' },
+                },
+              ],
+            },
+          },
+          results: issues.map((issue) => ({
+            ruleId: sarifRuleId,
+            level: isWarning(issue) ? 'warning' : 'error',
+            message: { text: issue.message },
+            locations: [
+              {
+                physicalLocation: {
+                  artifactLocation: { uri: issue.file, uriBaseId: '%SRCROOT%' },
+                  ...(issue.line != null && {
+                    region: {
+                      startLine: issue.line,
+                      ...(issue.column != null && { startColumn: issue.column }),
+                    },
+                  }),
+                },
+              },
+            ],
+          })),
+        },
+      ],
+    },
+    null,
+    2,
+  );
+
+// Workflow commands end at a newline, and properties are split on `,` and `:`.
+const escapeAnnotationData = (value: string) =>
+  value.replaceAll('%', '%25').replaceAll('\r', '%0D').replaceAll('\n', '%0A');
+
+const escapeAnnotationProperty = (value: string) =>
+  escapeAnnotationData(value).replaceAll(':', '%3A').replaceAll(',', '%2C');
+
+/**
+ * One `::error` workflow command per error, which GitHub Actions shows inline
+ * on the diff. Warnings don't fail the run, so they're left to the plain log
+ * rather than crowding the errors out of the annotations.
+ */
+export const createGitHubAnnotations = (issues: ContentValidationIssue[]): string =>
+  issues
+    .filter((issue) => !isWarning(issue))
+    .map((issue) => {
+      const properties = [
+        `file=${escapeAnnotationProperty(issue.file)}`,
+        ...(issue.line != null ? [`line=${issue.line}`] : []),
+        ...(issue.column != null ? [`col=${issue.column}`] : []),
+      ];
+      return `::error ${properties.join(',')}::${escapeAnnotationData(issue.message)}`;
+    })
+    .join('\n');
@@ -0,0 +1,207 @@
+import path from 'node:path';
+
+import { loadCodeSnippet, parseCodeSnippetReference } from './code-snippets.ts';
+import { isTwoslashFence, runTwoslash, type TwoslashResult } from './twoslash.ts';
+
+// ---------------------------------------------------------------------------
+// Annotations
+// ---------------------------------------------------------------------------
+
+const ANNOTATION_PATTERNS: readonly RegExp[] = [
+  /^\s*\/\/\s*\[!note\s+(.*?)\]\s*$/,
+  /^\s*#\s*\[!note\s+(.*?)\]\s*$/,
+  /^\s*\/\*\s*\[!note\s+(.*?)\]\s*\*\/\s*$/,
+  /^\s*<!--\s*\[!note\s+(.*?)\]\s*-->\s*$/,
+];
+
+export type ExtractedAnnotations = {
+  cleanedCode: string;
+  annotations: Map<number, string>;
+  /** For each line of `cleanedCode`, its line (0-based) in the code as written. */
+  lines: number[];
+};
+
+/**
+ * Strip annotation comment lines from code. Returns cleaned code and a map
+ * of line indices (0-based, in the cleaned output) to annotation text.
+ * Each annotation attaches to the code line immediately above it.
+ */
+export function extractAnnotations(code: string): ExtractedAnnotations {
+  const cleanedLines: string[] = [];
+  const annotations = new Map<number, string>();
+  const lines: number[] = [];
+
+  for (const [index, line] of code.split('\n').entries()) {
+    let annotationText: string | null = null;
+
+    for (const pattern of ANNOTATION_PATTERNS) {
+      const match = line.match(pattern);
+      if (match) {
+        annotationText = match[1]!;
+        break;
+      }
+    }
+
+    if (annotationText !== null) {
+      const previousIndex = cleanedLines.length - 1;
+      if (previousIndex >= 0) {
+        annotations.set(previousIndex, annotationText);
+      }
+      continue;
+    }
+
+    cleanedLines.push(line);
+    lines.push(index);
+  }
+
+  return { cleanedCode: cleanedLines.join('\n'), annotations, lines };
+}
+
+// ---------------------------------------------------------------------------
+// Unified diffs
+// ---------------------------------------------------------------------------
+
+const DIFF_LANGUAGE_PATTERN = /(?:^|\s)diff=([\w-]+)(?=\s|$)/;
+
+export type DiffChange = 'add' | 'remove';
+
+export type ExtractedDiff = {
+  cleanedCode: string;
+  changes: Map<number, DiffChange>;
+};
+
+/**
+ * Read a `diff=<language>` fence, either as the language itself
+ * (` ```diff=ts `) or in the meta string. Returns the language to highlight
+ * the code as and the meta with the token removed, or `null` for ordinary
+ * fences.
+ */
+export function parseDiffLanguage(
+  lang: string,
+  metastring: string,
+): { language: string; remaining: string } | null {
+  const fromLang = lang.match(/^diff=([\w-]+)$/);
+  if (fromLang) return { language: fromLang[1]!, remaining: metastring };
+
+  const fromMeta = metastring.match(DIFF_LANGUAGE_PATTERN);
+  if (!fromMeta) return null;
+
+  return {
+    language: fromMeta[1]!,
+    remaining: metastring.replace(DIFF_LANGUAGE_PATTERN, ' ').trim(),
+  };
+}
+
+/**
+ * Strip unified-diff prefixes from code. Returns cleaned code and a map of
+ * line indices (0-based) to whether the line was added or removed. Lines
+ * starting with a space lose it; anything else is kept as written.
+ */
+export function extractUnifiedDiff(code: string): ExtractedDiff {
+  const changes = new Map<number, DiffChange>();
+
+  const cleanedLines = code.split('\n').map((line, index) => {
+    if (line.startsWith('+')) changes.set(index, 'add');
+    else if (line.startsWith('-')) changes.set(index, 'remove');
+    else if (!line.startsWith(' ')) return line;
+
+    return line.slice(1);
+  });
+
+  return { cleanedCode: cleanedLines.join('\n'), changes };
+}
+
+// ---------------------------------------------------------------------------
+// Preparation
+// ---------------------------------------------------------------------------
+
+export type CodeFence = {
+  code: string;
+  lang: string;
+  /** The meta after the title and tab, which the highlighter reads first. */
+  meta: string;
+  /**
+   * The Markdown file the fence is in. `file="…"` snippets and twoslash
+   * imports resolve from its folder.
+   */
+  filename?: string | undefined;
+  /** The folders a `file="…"` snippet may load from. */
+  contentRoots: readonly string[];
+};
+
+export type PreparedCodeFence = {
+  /** The code to highlight. */
+  code: string;
+  /** The language to highlight it as; `diff=ts` becomes `ts`. */
+  lang: string;
+  /** The meta without the `file=`, `region=`, and `diff=` tokens. */
+  meta: string;
+  /** Annotation text keyed by the displayed line (0-based) it follows. */
+  annotations: Map<number, string>;
+  /** Added and removed lines of a `diff=` fence, keyed by displayed line (0-based). */
+  changes: Map<number, DiffChange>;
+  twoslash: TwoslashResult | null;
+  /**
+   * For each line twoslash was given, its line (0-based) in the fence as
+   * written, so an error can be reported where the author wrote it. `null`
+   * when the code came from a `file="…"` snippet rather than the fence.
+   */
+  writtenLines: number[] | null;
+};
+
+/** Re-key a per-line map by the lines that remain, dropping lines that were removed. */
+const remapLines = <T>(values: Map<number, T>, lines: readonly number[]): Map<number, T> =>
+  new Map(
+    lines.flatMap((line, index) => (values.has(line) ? [[index, values.get(line)!] as const] : [])),
+  );
+
+/**
+ * Turn a fence as written into what the page shows: a `file="…"` fence loads
+ * its snippet, annotation comments come out, a `diff=` fence loses its
+ * `+`/`-` prefixes, and a twoslash fence is type-checked and loses its
+ * directives. Each step removes lines, so the annotation and diff maps are
+ * keyed by the lines that end up displayed. The Shiki highlighter and content
+ * validation both start here, so the code content:validate checks is the
+ * code the page ships. A snippet that can't be loaded comes back as an
+ * `error`.
+ */
+export const prepareCodeFence = ({
+  code,
+  lang,
+  meta,
+  filename,
+  contentRoots,
+}: CodeFence): PreparedCodeFence | { error: string } => {
+  const { reference, remaining: snippetMeta } = parseCodeSnippetReference(meta);
+  if (reference && !filename) {
+    return {
+      error: `Code snippet '${reference.path}' can't be loaded without the path of the Markdown file that shows it.`,
+    };
+  }
+  const snippet = reference && filename ? loadCodeSnippet(filename, reference, contentRoots) : null;
+  if (snippet && 'error' in snippet) return { error: snippet.error };
+  const writtenCode = snippet ? snippet.code : code;
+
+  const { cleanedCode: annotatedCode, annotations, lines } = extractAnnotations(writtenCode);
+
+  const diff = parseDiffLanguage(lang, snippetMeta);
+  const { cleanedCode: diffedCode, changes } = diff
+    ? extractUnifiedDiff(annotatedCode)
+    : { cleanedCode: annotatedCode, changes: new Map<number, DiffChange>() };
+  const language = diff ? diff.language : lang;
+  const remaining = diff ? diff.remaining : snippetMeta;
+
+  const twoslash = isTwoslashFence(language, remaining)
+    ? runTwoslash(diffedCode, language, filename ? path.dirname(filename) : undefined)
+    : null;
+
+  return {
+    code: twoslash ? twoslash.code : diffedCode,
+    lang: language,
+    meta: remaining,
+    annotations: twoslash ? remapLines(annotations, twoslash.lines) : annotations,
+    changes: twoslash ? remapLines(changes, twoslash.lines) : changes,
+    twoslash,
+    writtenLines: snippet ? null : lines,
+  };
+};
@@ -0,0 +1,138 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+
+/** Where a fence's code comes from: `file="./assets/counter.ts#L10-L32"`, optionally with `region=setup`. */
+export type CodeSnippetReference = {
+  /** As written, relative to the Markdown file. */
+  path: string;
+  lines?: { from: number; to: number };
+  region?: string;
+};
+
+export type CodeSnippet =
+  | {
+      /** The lines the fence shows, with the region markers and common indentation removed. */
+      code: string;
+      absolutePath: string;
+      /** The whole file, for hashing. */
+      contents: string;
+    }
+  | { error: string };
+
+const FILE_PATTERN = /(?:^|\s)file="([^"#]+)(?:#L(\d+)(?:-L(\d+))?)?"/;
+const REGION_PATTERN = /(?:^|\s)region=(?:"([^"]+)"|([\w-]+))/;
+const REGION_START_PATTERN = /^\s*(?:\/\/|#|\/\*|<!--|--)\s*#region\s+([\w-]+)/;
+const REGION_END_PATTERN = /^\s*(?:\/\/|#|\/\*|<!--|--)\s*#endregion\b/;
+
+/**
+ * Read a fence's `file="…"` and `region=…` meta. Returns the reference, or
+ * `null` for fences that hold their own code, and the meta with both tokens
+ * removed.
+ */
+export const parseCodeSnippetReference = (
+  meta: string | null | undefined,
+): { reference: CodeSnippetReference | null; remaining: string } => {
+  const file = meta?.match(FILE_PATTERN);
+  if (!meta || !file) return { reference: null, remaining: meta ?? '' };
+
+  const region = meta.match(REGION_PATTERN);
+  const from = file[2] ? Number(file[2]) : undefined;
+  const reference: CodeSnippetReference = {
+    path: file[1]!,
+    ...(from === undefined ? {} : { lines: { from, to: file[3] ? Number(file[3]) : from } }),
+    ...(region ? { region: region[1] ?? region[2] } : {}),
+  };
+
+  return {
+    reference,
+    remaining: meta
+      .replace(FILE_PATTERN, ' ')
+      .replace(REGION_PATTERN, ' ')
+      .replace(/\s+/g, ' ')
+      .trim(),
+  };
+};
+
+const dedent = (lines: string[]): string => {
+  const indents = lines
+    .filter((line) => line.trim() !== '')
+    .map((line) => line.match(/^[ \t]*/)![0].length);
+  const indent = indents.length ? Math.min(...indents) : 0;
+  return lines.map((line) => line.slice(indent)).join('\n');
+};
+
+/** The lines inside `#region name` … `#endregion`, counting nested regions. */
+const findRegion = (lines: string[], name: string): string[] | null | 'unclosed' => {
+  const start = lines.findIndex((line) => line.match(REGION_START_PATTERN)?.[1] === name);
+  if (start === -1) return null;
+
+  let depth = 0;
+  for (let index = start + 1; index < lines.length; index += 1) {
+    if (REGION_START_PATTERN.test(lines[index]!)) depth += 1;
+    else if (REGION_END_PATTERN.test(lines[index]!)) {
+      if (depth === 0) return lines.slice(start + 1, index);
+      depth -= 1;
+    }
+  }
+  return 'unclosed';
+};
+
+/**
+ * Load the code a `file="…"` fence shows. The path is resolved from the
+ * Markdown file's folder and has to stay inside one of `contentRoots`, so a
+ * page can't publish arbitrary files from the repository. Problems come back
+ * as an `error` for the caller to report rather than thrown.
+ */
+export const loadCodeSnippet = (
+  markdownPath: string,
+  reference: CodeSnippetReference,
+  contentRoots: readonly string[],
+): CodeSnippet => {
+  const absolutePath = path.resolve(path.dirname(markdownPath), reference.path);
+  const label = `'${reference.path}'`;
+
+  if (!contentRoots.some((root) => absolutePath.startsWith(path.resolve(root) + path.sep))) {
+    return { error: `Code snippet file ${label} is outside the content folders.` };
+  }
+  if (reference.lines && reference.region) {
+    return { error: `Code snippet ${label} names both a line range and a region; use one.` };
+  }
+
+  let contents: string;
+  try {
+    contents = readFileSync(absolutePath, 'utf8');
+  } catch {
+    return { error: `Code snippet file ${label} doesn't exist.` };
+  }
+
+  const lines = contents.replace(/\r?\n$/, '').split(/\r?\n/);
+  let selected = lines;
+
+  if (reference.lines) {
+    const { from, to } = reference.lines;
+    if (from < 1 || to < from || to > lines.length) {
+      return {
+        error: `Code snippet range L${from}-L${to} doesn't fit ${label}, which has ${lines.length} lines.`,
+      };
+    }
+    selected = lines.slice(from - 1, to);
+  } else if (reference.region) {
+    const region = findRegion(lines, reference.region);
+    if (region === null) {
+      return {
+        error: `Code snippet region '${reference.region}' isn't in ${label}. Mark it with '#region ${reference.region}' and '#endregion' comments.`,
+      };
+    }
+    if (region === 'unclosed') {
+      return {
+        error: `Code snippet region '${reference.region}' in ${label} has no matching '#endregion'.`,
+      };
+    }
+    selected = region;
+  }
+
+  const code = dedent(
+    selected.filter((line) => !REGION_START_PATTERN.test(line) && !REGION_END_PATTERN.test(line)),
+  );
+  return { code, absolutePath, contents };
+};
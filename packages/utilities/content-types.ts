@@ -1,28 +1,58 @@
 export type CourseContentsRelatedLink = {
   title: string;
   href: string;
+  /** The lesson that solves this exercise, when its name does not follow `<name>-solution.md`. */
+  solution?: string;
 };
 
+/** What a course item is for. Items without a `kind` are lessons. */
+export type CourseContentsItemKind = 'lesson' | 'exercise' | 'solution' | 'reference';
+
 export type CourseContentsItem = {
   title: string;
   href: string;
+  /** The lesson that solves this exercise, when its name does not follow `<name>-solution.md`. */
+  solution?: string;
+  kind?: CourseContentsItemKind;
+  /** Estimated time to work through the item, in minutes. */
+  duration?: number;
+  /** Optional items are listed in the outline but skipped by previous/next navigation. */
+  optional?: boolean;
   related?: CourseContentsRelatedLink[];
 };
 
 export type CourseContentsSection = {
   title?: string;
+  description?: string;
   item: CourseContentsItem[];
+  /** Sub-sections, listed after this section's own items. */
+  section?: CourseContentsSection[];
 };
 
 export type CourseContentsData = {
   section: CourseContentsSection[];
   metadata?: {
     unlisted?: string[];
+    /** Lessons are read through the outline, so none is reported for lacking other links. */
+    outlineOnly?: boolean;
   };
 };
 
 export type ContentType = 'writing' | 'course' | 'lesson' | 'project';
 
+/**
+ * Why an entry is held back from production. Absent on published content;
+ * unpublished entries only reach the generated content in development.
+ */
+export type PublicationStatus = { state: 'draft' } | { state: 'scheduled'; publishAt: string };
+
+/** A post's place in a multi-part series. */
+export type WritingSeriesMembership = {
+  slug: string;
+  title: string;
+  order: number;
+};
+
 export type WritingIndexEntry = {
   title: string;
   description: string;
@@ -33,6 +63,30 @@ export type WritingIndexEntry = {
   sourcePath: string;
   sourceHash: string;
   path: string;
+  /** Prose words, excluding code blocks and playground HTML. */
+  wordCount: number;
+  readingMinutes: number;
+  publication?: PublicationStatus;
+  series?: WritingSeriesMembership;
+  /** Old paths that redirect here, from `redirectFrom` and `aliases` frontmatter. */
+  redirectFrom?: string[];
+};
+
+export type WritingSeriesPart = {
+  slug: string;
+  title: string;
+  description: string;
+  date: string;
+  path: string;
+  order: number;
+};
+
+/** Every post in one series, ordered by `seriesOrder`. */
+export type WritingSeriesEntry = {
+  slug: string;
+  title: string;
+  path: string;
+  posts: WritingSeriesPart[];
 };
 
 export type CourseIndexEntry = {
@@ -45,6 +99,13 @@ export type CourseIndexEntry = {
   sourceHash: string;
   path: string;
   contents?: CourseContentsData;
+  /** Totals across the lessons listed in `index.toml`. */
+  wordCount: number;
+  readingMinutes: number;
+  lessonCount: number;
+  publication?: PublicationStatus;
+  /** Old paths that redirect here, from `redirectFrom` and `aliases` frontmatter. */
+  redirectFrom?: string[];
 };
 
 export type LessonIndexEntry = {
@@ -59,6 +120,11 @@ export type LessonIndexEntry = {
   sourcePath: string;
   sourceHash: string;
   path: string;
+  wordCount: number;
+  readingMinutes: number;
+  publication?: PublicationStatus;
+  /** Old paths that redirect here, from `redirectFrom` and `aliases` frontmatter. */
+  redirectFrom?: string[];
 };
 
 export type ProjectIndexEntry = {
@@ -73,6 +139,21 @@ export type ProjectIndexEntry = {
   sourcePath: string;
   sourceHash: string;
   path: string;
+  publication?: PublicationStatus;
+  /** Old paths that redirect here, from `redirectFrom` and `aliases` frontmatter. */
+  redirectFrom?: string[];
+};
+
+/** One canonical tag from the registry, with every post and lesson that carries it. */
+export type TagIndexEntry = {
+  tag: string;
+  title: string;
+  description?: string;
+  path: string;
+  postCount: number;
+  lessonCount: number;
+  /** Route paths of tagged posts and lessons, newest first. */
+  routes: string[];
 };
 
 export type SiteContentIndex = {
@@ -81,6 +162,22 @@ export type SiteContentIndex = {
   projects: ProjectIndexEntry[];
 };
 
+/** A suggestion in a route's "Related reading" block, ranked at build time. */
+export type RelatedContentLink = {
+  path: string;
+  title: string;
+  contentType: 'writing' | 'lesson' | 'project';
+  courseTitle?: string;
+};
+
+/** A route whose content links to the current one, listed under "Referenced from". */
+export type BacklinkReference = {
+  path: string;
+  title: string;
+  contentType: ContentType;
+  courseTitle?: string;
+};
+
 export type ContentRouteBase = {
   path: string;
   title: string;
@@ -92,18 +189,30 @@ export type ContentRouteBase = {
   llmsPath: string;
   openGraphPath: string;
   contentType: ContentType;
+  publication?: PublicationStatus;
+  related?: RelatedContentLink[];
 };
 
 export type WritingContentRoute = ContentRouteBase & {
   contentType: 'writing';
   slug: string;
   tags: string[];
+  series?: WritingSeriesMembership;
 };
 
 export type CourseContentRoute = ContentRouteBase & {
   contentType: 'course';
   courseSlug: string;
   contents?: CourseContentsData;
+  wordCount: number;
+  readingMinutes: number;
+  lessonCount: number;
+};
+
+/** The other half of an exercise and solution pair. */
+export type LessonPairLink = {
+  path: string;
+  title: string;
 };
 
 export type LessonContentRoute = ContentRouteBase & {
@@ -112,6 +221,12 @@ export type LessonContentRoute = ContentRouteBase & {
   courseTitle: string;
   lessonSlug: string;
   tags: string[];
+  wordCount: number;
+  readingMinutes: number;
+  /** Set on exercises with a paired solution lesson. */
+  solution?: LessonPairLink;
+  /** Set on solutions, pointing back at the exercise they solve. */
+  exercise?: LessonPairLink;
 };
 
 export type ProjectContentRoute = Omit<ContentRouteBase, 'date' | 'modified'> & {
@@ -138,6 +253,8 @@ export type GeneratedContentPrerenderEntries = {
   courses: Array<{ course: string }>;
   lessons: Array<{ course: string; lesson: string }>;
   projects: Array<{ project: string }>;
+  tags: Array<{ tag: string }>;
+  series: Array<{ series: string }>;
 };
 
 export type GeneratedContentMeta = {
@@ -155,5 +272,11 @@ export type GeneratedContent = {
   courses: CourseIndexEntry[];
   lessons: LessonIndexEntry[];
   projects: ProjectIndexEntry[];
+  tags: TagIndexEntry[];
+  series: WritingSeriesEntry[];
+  /** Each linked route, mapped to the routes whose content links to it. */
+  backlinks: Record<string, string[]>;
+  /** Old paths mapped to the route each one now permanently redirects to. */
+  redirects: Record<string, string>;
   prerenderEntries: GeneratedContentPrerenderEntries;
 };
@@ -0,0 +1,38 @@
+import type {
+  CourseContentsData,
+  CourseContentsItem,
+  CourseContentsItemKind,
+  CourseContentsSection,
+} from './content-types.ts';
+
+export const courseContentsItemKinds: readonly CourseContentsItemKind[] = [
+  'lesson',
+  'exercise',
+  'solution',
+  'reference',
+];
+
+/** A section of the outline with how deeply it is nested, 0 for top-level sections. */
+export type CourseOutlineSection = CourseContentsSection & { depth: number };
+
+/**
+ * Every section in outline order: each section is followed by its own
+ * sub-sections, depth first, so reading the result top to bottom matches
+ * reading the sidebar.
+ */
+export const flattenCourseSections = (
+  contents: CourseContentsData | undefined,
+): CourseOutlineSection[] => {
+  const walk = (sections: CourseContentsSection[] | undefined, depth: number) =>
+    (sections ?? []).flatMap((section): CourseOutlineSection[] => [
+      { ...section, depth },
+      ...walk(section.section, depth + 1),
+    ]);
+
+  return walk(contents?.section, 0);
+};
+
+/** Every item in the outline, nested sub-sections included, in reading order. */
+export const collectCourseItems = (
+  contents: CourseContentsData | undefined,
+): CourseContentsItem[] => flattenCourseSections(contents).flatMap((section) => section.item ?? []);
@@ -1,3 +1,4 @@
+import { existsSync } from 'node:fs';
 import { access, readFile } from 'node:fs/promises';
 import path from 'node:path';
 import fg from 'fast-glob';
@@ -6,6 +7,8 @@ import { unified } from 'unified';
 import remarkParse from 'remark-parse';
 import { visit } from 'unist-util-visit';
 
+import { isWikilinkAsset, parseWikilinks, wikilinkAssetCandidates } from './wikilinks.ts';
+
 export type SourceImage = {
   /** Absolute path to the markdown file that references this image */
   markdownFile: string;
@@ -50,8 +53,13 @@ const safeDecode = (value: string): string => {
   }
 };
 
-/** Collect all image/video URLs from markdown content (both `![](url)` and `<img src="url">`). */
-export const collectImageUrls = (markdown: string): string[] => {
+/**
+ * Collect all image/video URLs from markdown content (`![](url)`, `<img src="url">`,
+ * and Obsidian `![[file.png]]` embeds). An embed names a file without saying
+ * where it is, so with `markdownFile` the first candidate location that exists
+ * is used.
+ */
+export const collectImageUrls = (markdown: string, markdownFile?: string): string[] => {
   const tree = unified().use(remarkParse).parse(markdown);
   const urls = new Set<string>();
 
@@ -69,6 +77,20 @@ export const collectImageUrls = (markdown: string): string[] => {
     }
   });
 
+  visit(tree, 'text', (node) => {
+    for (const { embed, target } of parseWikilinks(node.value)) {
+      if (!embed || !isWikilinkAsset(target)) continue;
+
+      const candidates = wikilinkAssetCandidates(target);
+      const existing =
+        markdownFile &&
+        candidates.find((candidate) =>
+          existsSync(path.resolve(path.dirname(markdownFile), candidate)),
+        );
+      urls.add(existing || candidates[0]!);
+    }
+  });
+
   return [...urls];
 };
 
@@ -109,7 +131,7 @@ export const discoverAllImages = async (
   for (const markdownFile of markdownFiles) {
     const source = await readFile(markdownFile, 'utf8');
     const { content } = matter(source);
-    const urls = collectImageUrls(content);
+    const urls = collectImageUrls(content, markdownFile);
 
     for (const rawUrl of urls) {
       if (isExternalReference(rawUrl)) continue;
@@ -0,0 +1,123 @@
+/** Where the built search index is served, in development and in every adapter build. */
+export const searchIndexPath = '/generated/search/search-index.json';
+
+/** Bumped whenever the tuple layout below changes so stale cached indexes are ignored. */
+export const searchIndexVersion = 2;
+
+export type SearchIndexDocument = [
+  path: string,
+  title: string,
+  description: string,
+  contentType: 'writing' | 'course' | 'lesson' | 'project',
+  courseTitle?: string,
+];
+
+/** One h2/h3 section of a document. The leading section before any heading has no anchor. */
+export type SearchIndexSection = [
+  document: number,
+  anchor: string | null,
+  heading: string | null,
+  text: string,
+  /** The start of `text`, cut at a word boundary, for display. */
+  excerpt: string,
+];
+
+/**
+ * The compact index the content build emits. Documents and sections are
+ * tuples rather than objects so the thousands of sections do not each repeat
+ * their key names.
+ */
+export type SearchIndex = {
+  version: number;
+  documents: SearchIndexDocument[];
+  sections: SearchIndexSection[];
+};
+
+export type SearchResult = {
+  /** The document path, with the section anchor when the match is under a heading. */
+  href: string;
+  title: string;
+  heading: string | null;
+  excerpt: string;
+  contentType: SearchIndexDocument[3];
+  courseTitle?: string;
+  score: number;
+};
+
+const fieldWeights = { title: 8, heading: 4, description: 2, text: 1 };
+
+/** Sections after this many from the same document are dropped so one long page cannot fill the results. */
+const sectionsPerDocument = 3;
+
+const excerptLength = 160;
+
+export const tokenizeSearchQuery = (query: string): string[] => [
+  ...new Set(query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []),
+];
+
+const buildExcerpt = (text: string, terms: string[]): string => {
+  const lowered = text.toLowerCase();
+  const firstMatch = Math.min(
+    ...terms.map((term) => lowered.indexOf(term)).filter((index) => index !== -1),
+  );
+  const start = Number.isFinite(firstMatch) ? Math.max(0, firstMatch - 40) : 0;
+  const excerpt = text.slice(start, start + excerptLength).trim();
+
+  return `${start > 0 ? '…' : ''}${excerpt}${start + excerptLength < text.length ? '…' : ''}`;
+};
+
+/**
+ * Rank sections that contain every query term, weighting title and heading
+ * matches above body text. Ties fall back to document order so results are
+ * stable between keystrokes.
+ */
+export const querySearchIndex = (index: SearchIndex, query: string, limit = 20): SearchResult[] => {
+  const terms = tokenizeSearchQuery(query);
+  if (terms.length === 0) return [];
+
+  const matches: Array<SearchResult & { document: number; position: number }> = [];
+
+  index.sections.forEach(([documentIndex, anchor, heading, text, excerpt], position) => {
+    const [path, title, description, contentType, courseTitle] = index.documents[documentIndex];
+    const fields = {
+      title: title.toLowerCase(),
+      heading: heading?.toLowerCase() ?? '',
+      description: description.toLowerCase(),
+      text: text.toLowerCase(),
+    };
+
+    let score = 0;
+    for (const term of terms) {
+      let termScore = 0;
+      for (const field of Object.keys(fieldWeights) as Array<keyof typeof fieldWeights>) {
+        if (fields[field].includes(term)) termScore += fieldWeights[field];
+      }
+      if (termScore === 0) return;
+      score += termScore;
+    }
+
+    matches.push({
+      href: anchor ? `${path}#${anchor}` : path,
+      title,
+      heading,
+      excerpt: buildExcerpt(excerpt || description, terms),
+      contentType,
+      ...(courseTitle ? { courseTitle } : {}),
+      score,
+      document: documentIndex,
+      position,
+    });
+  });
+
+  const sectionsByDocument = new Map<number, number>();
+
+  return matches
+    .sort((left, right) => right.score - left.score || left.position - right.position)
+    .filter((match) => {
+      const count = sectionsByDocument.get(match.document) ?? 0;
+      sectionsByDocument.set(match.document, count + 1);
+      return count < sectionsPerDocument;
+    })
+    .slice(0, limit)
+    .map(({ document: _document, position: _position, ...result }) => result);
+};
@@ -0,0 +1,230 @@
+import path from 'node:path';
+import ts from 'typescript';
+
+/** Type information for one identifier, shown when the reader hovers it. */
+export type TwoslashHover = {
+  /** Offset in the displayed code. */
+  start: number;
+  length: number;
+  text: string;
+};
+
+/** A `// ^?` query: the type of whatever the caret points at on the line above. */
+export type TwoslashQuery = {
+  /** The displayed line (0-based) the query belongs under. */
+  line: number;
+  /** Column of the caret, so the answer can be drawn beneath it. */
+  character: number;
+  text: string;
+};
+
+export type TwoslashError = {
+  /** Offset in the displayed code. */
+  start: number;
+  length: number;
+  /** The displayed line (0-based) the error starts on. */
+  line: number;
+  /** The line (0-based) in the block as written, directives and all. */
+  blockLine: number;
+  code: number;
+  message: string;
+  /** Listed in `// @errors` (or allowed by `// @noErrors`), so the example means to show it. */
+  expected: boolean;
+};
+
+export type TwoslashResult = {
+  /** The code to display, without directives, queries, or anything above `---cut---`. */
+  code: string;
+  hovers: TwoslashHover[];
+  queries: TwoslashQuery[];
+  errors: TwoslashError[];
+  /** Codes named in `// @errors` that the compiler never reported. */
+  missingErrors: number[];
+  /** For each displayed line, its line (0-based) in the block as written. */
+  lines: number[];
+};
+
+export type TwoslashLanguage = 'ts' | 'tsx';
+
+const errorsDirectivePattern = /^\s*\/\/\s*@errors:\s*([\d\s,]+)$/;
+const noErrorsDirectivePattern = /^\s*\/\/\s*@noErrors\s*$/;
+const queryPattern = /^(\s*\/\/\s*)\^\?\s*$/;
+const cutPattern = /^\s*\/\/\s*---cut---\s*$/;
+
+const compilerOptions: ts.CompilerOptions = {
+  strict: true,
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  jsx: ts.JsxEmit.ReactJSX,
+  lib: ['lib.es2022.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts'],
+  // Only what a block imports, rather than every `@types` package in node_modules.
+  types: [],
+  skipLibCheck: true,
+  noEmit: true,
+};
+
+// Shared across blocks so the standard library is only parsed once per process. Each
+// block is a new version of the same file name, so the registry never hands back the
+// previous block.
+const documentRegistry = ts.createDocumentRegistry();
+let blockVersion = 0;
+
+/** Whether a fence asks to be type-checked: ` ```ts twoslash ` or ` ```tsx twoslash `. */
+export const isTwoslashFence = (
+  lang: string | null | undefined,
+  meta: string | null | undefined,
+): lang is TwoslashLanguage =>
+  (lang === 'ts' || lang === 'tsx') && /(?:^|\s)twoslash(?:\s|$)/.test(meta ?? '');
+
+type Prepared = {
+  source: string;
+  /** Where the displayed code starts in `source`. */
+  cutOffset: number;
+  /** The line of `source` the displayed code starts on. */
+  cutLine: number;
+  expectedErrors: Set<number>;
+  allowAllErrors: boolean;
+  queries: Array<{ line: number; character: number }>;
+  /** For each line of `source`, its line in the block as written. */
+  blockLines: number[];
+};
+
+/**
+ * Pull the twoslash directives out of a block. What's left is the code the
+ * compiler sees; queries point at the source line they sit under.
+ */
+const prepare = (code: string): Prepared => {
+  const lines: string[] = [];
+  const expectedErrors = new Set<number>();
+  const queries: Prepared['queries'] = [];
+  const blockLines: number[] = [];
+  let allowAllErrors = false;
+  let cutLine = 0;
+
+  for (const [blockLine, line] of code.split('\n').entries()) {
+    const errors = line.match(errorsDirectivePattern);
+    if (errors) {
+      for (const errorCode of errors[1]!.split(/[\s,]+/).filter(Boolean)) {
+        expectedErrors.add(Number(errorCode));
+      }
+      continue;
+    }
+    if (noErrorsDirectivePattern.test(line)) {
+      allowAllErrors = true;
+      continue;
+    }
+    const query = line.match(queryPattern);
+    if (query && lines.length > 0) {
+      queries.push({ line: lines.length - 1, character: query[1]!.length });
+      continue;
+    }
+    if (cutPattern.test(line)) {
+      cutLine = lines.length;
+      continue;
+    }
+    lines.push(line);
+    blockLines.push(blockLine);
+  }
+
+  const source = lines.join('\n');
+  const cutOffset = lines.slice(0, cutLine).reduce((offset, line) => offset + line.length + 1, 0);
+  return { source, cutOffset, cutLine, expectedErrors, allowAllErrors, queries, blockLines };
+};
+
+const createService = (fileName: string, source: string): ts.LanguageService => {
+  const version = String((blockVersion += 1));
+  const host: ts.LanguageServiceHost = {
+    getCompilationSettings: () => compilerOptions,
+    getScriptFileNames: () => [fileName],
+    getScriptVersion: (name) => (name === fileName ? version : '0'),
+    getScriptSnapshot: (name) => {
+      const text = name === fileName ? source : ts.sys.readFile(name);
+      return text === undefined ? undefined : ts.ScriptSnapshot.fromString(text);
+    },
+    getCurrentDirectory: () => path.dirname(fileName),
+    getDefaultLibFileName: (options) => ts.getDefaultLibFilePath(options),
+    fileExists: (name) => name === fileName || ts.sys.fileExists(name),
+    readFile: (name) => (name === fileName ? source : ts.sys.readFile(name)),
+    readDirectory: ts.sys.readDirectory,
+    directoryExists: ts.sys.directoryExists,
+    getDirectories: ts.sys.getDirectories,
+  };
+
+  return ts.createLanguageService(host, documentRegistry);
+};
+
+const quickInfoText = (service: ts.LanguageService, fileName: string, position: number) => {
+  const info = service.getQuickInfoAtPosition(fileName, position);
+  return info ? ts.displayPartsToString(info.displayParts) : undefined;
+};
+
+/**
+ * Type-check a `ts twoslash` block and collect what the page shows: hover
+ * text for every identifier, answers to `// ^?` queries, and compiler errors.
+ * `// @errors: 2322` marks the errors an example means to show and
+ * `// @noErrors` allows any; everything else is unexpected. Lines above
+ * `// ---cut---` are checked but not displayed. Imports resolve from
+ * `baseDirectory`, as they would for a file there.
+ */
+export const runTwoslash = (
+  code: string,
+  language: TwoslashLanguage,
+  baseDirectory = process.cwd(),
+): TwoslashResult => {
+  const { source, cutOffset, cutLine, expectedErrors, allowAllErrors, queries, blockLines } =
+    prepare(code);
+  const fileName = path.join(baseDirectory, `__twoslash__.${language}`);
+  const service = createService(fileName, source);
+  const sourceFile = service.getProgram()!.getSourceFile(fileName)!;
+  const lineOf = (position: number) =>
+    sourceFile.getLineAndCharacterOfPosition(position).line -
+    sourceFile.getLineAndCharacterOfPosition(cutOffset).line;
+
+  // Diagnostics come first: asking for quick info on a JSX tag beforehand leaves the
+  // checker reporting the tag as an unknown name.
+  const errors: TwoslashError[] = [
+    ...service.getSyntacticDiagnostics(fileName),
+    ...service.getSemanticDiagnostics(fileName),
+  ].map((diagnostic) => {
+    const start = Math.max((diagnostic.start ?? 0) - cutOffset, 0);
+    const sourceLine = sourceFile.getLineAndCharacterOfPosition(diagnostic.start ?? 0).line;
+    return {
+      start,
+      length: diagnostic.length ?? 0,
+      line: Math.max(lineOf(diagnostic.start ?? 0), 0),
+      blockLine: blockLines[sourceLine] ?? 0,
+      code: diagnostic.code,
+      message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+      expected: allowAllErrors || expectedErrors.has(diagnostic.code),
+    };
+  });
+
+  const hovers: TwoslashHover[] = [];
+  const visit = (node: ts.Node): void => {
+    if (ts.isIdentifier(node) && node.getStart(sourceFile) >= cutOffset) {
+      const start = node.getStart(sourceFile);
+      const text = quickInfoText(service, fileName, start);
+      if (text) hovers.push({ start: start - cutOffset, length: node.getWidth(sourceFile), text });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  const reported = new Set(errors.map((error) => error.code));
+
+  return {
+    code: source.slice(cutOffset),
+    hovers,
+    queries: queries.flatMap(({ line, character }) => {
+      const lineStarts = sourceFile.getLineStarts();
+      const lineEnd = (lineStarts[line + 1] ?? source.length + 1) - 1;
+      const position = Math.min(lineStarts[line]! + character, lineEnd);
+      const text = quickInfoText(service, fileName, position);
+      return text && position >= cutOffset ? [{ line: lineOf(position), character, text }] : [];
+    }),
+    errors,
+    missingErrors: [...expectedErrors].filter((errorCode) => !reported.has(errorCode)),
+    lines: blockLines.slice(cutLine),
+  };
+};
@@ -0,0 +1,143 @@
+import { slug } from 'github-slugger';
+
+/** An Obsidian `[[Note#Heading|label]]` link or `![[image.png]]` embed found in text. */
+export type Wikilink = {
+  /** Offset of the opening `[[`, or of the `!` for an embed. */
+  start: number;
+  end: number;
+  embed: boolean;
+  /** The note or file, without a `.md` extension. Empty for `[[#Heading]]` in the same note. */
+  target: string;
+  heading?: string;
+  label?: string;
+};
+
+/** A route a wikilink can point at: anything with a path, a title, and a source file. */
+export type WikilinkRoute = {
+  path: string;
+  title: string;
+  sourcePath: string;
+};
+
+const wikilinkPattern = /(!?)\[\[([^[\]\n]+)\]\]/g;
+
+const assetExtensions = new Set([
+  '.png',
+  '.jpg',
+  '.jpeg',
+  '.webp',
+  '.avif',
+  '.gif',
+  '.svg',
+  '.mp4',
+  '.webm',
+  '.ogg',
+]);
+
+/**
+ * Find every wikilink in a run of text. The label follows the first `|`
+ * (written `\|` inside tables), and a nested `#A#B` heading keeps only the
+ * last heading, which is the one the anchor points at. Block references
+ * (`#^id`) have no anchor on the site, so they link to the note itself.
+ */
+export const parseWikilinks = (text: string): Wikilink[] =>
+  [...text.matchAll(wikilinkPattern)].map((match) => {
+    const [raw, bang, inner = ''] = match;
+    const start = match.index ?? 0;
+    const pipe = inner.search(/\\?\|/);
+    const reference = pipe === -1 ? inner : inner.slice(0, pipe);
+    const label =
+      pipe === -1 ? undefined : inner.slice(pipe + (inner[pipe] === '\\' ? 2 : 1)).trim();
+    const [target = '', ...headings] = reference.split('#');
+    const heading = headings.at(-1)?.trim();
+
+    return {
+      start,
+      end: start + raw.length,
+      embed: bang === '!',
+      target: target.trim().replace(/\.md$/i, ''),
+      heading: heading && !heading.startsWith('^') ? heading : undefined,
+      label: label || undefined,
+    };
+  });
+
+/** The anchor `rehype-slug` gives a heading with this text. */
+export const wikilinkHeadingAnchor = (heading: string): string => slug(heading);
+
+/** Whether an embed names an image or video rather than a note. */
+export const isWikilinkAsset = (target: string): boolean => {
+  const extension = target.match(/\.[a-z0-9]+$/i)?.[0]?.toLowerCase();
+  return extension !== undefined && assetExtensions.has(extension);
+};
+
+/**
+ * The note, or section of one, that a paragraph holding nothing but
+ * `![[Note#Heading]]` pulls in. Embeds of images, or written alongside other
+ * text, are left to render as images and links.
+ */
+export const parseTransclusionEmbed = (text: string): Wikilink | undefined => {
+  const trimmed = text.trim();
+  const [wikilink, ...rest] = parseWikilinks(trimmed);
+  if (!wikilink || rest.length > 0 || wikilink.end !== trimmed.length) return undefined;
+  if (!wikilink.embed || !wikilink.target || isWikilinkAsset(wikilink.target)) return undefined;
+  return wikilink;
+};
+
+/**
+ * The `Note#Heading` references in a fenced `include` block, one per line, with
+ * the 0-based line each was found on. Lines may also be written as embeds.
+ */
+export const parseIncludeBlock = (value: string): Array<{ line: number; wikilink: Wikilink }> =>
+  value.split('\n').flatMap((text, line) => {
+    const reference = text.trim().replace(/^!?\[\[(.*)\]\]$/, '$1');
+    if (!reference) return [];
+    const [wikilink] = parseWikilinks(`![[${reference}]]`);
+    return wikilink ? [{ line, wikilink }] : [];
+  });
+
+/**
+ * Where an embedded file might live, relative to the note, most likely first.
+ * Obsidian saves attachments to the note's `assets/` folder (see
+ * `.obsidian/app.json`) and shows only the file name, so a bare name is looked
+ * for there before next to the note.
+ */
+export const wikilinkAssetCandidates = (target: string): string[] => {
+  if (target.includes('/')) return [target.startsWith('.') ? target : `./${target}`];
+  return [`./assets/${target}`, `./${target}`];
+};
+
+const directoryOf = (sourcePath: string): string =>
+  sourcePath.slice(0, sourcePath.lastIndexOf('/') + 1);
+
+/**
+ * Resolve wikilink targets the way Obsidian does: by file name, optionally
+ * with enough of its folder path to be unique, ignoring case. A course README
+ * also answers to its course folder's name. When several notes share a name,
+ * one next to the linking note wins; otherwise every match is returned so the
+ * caller can report the ambiguity.
+ */
+export const createWikilinkResolver = <Route extends WikilinkRoute>(routes: Iterable<Route>) => {
+  const entries = [...routes].map((route) => {
+    const key = route.sourcePath.replace(/\.md$/i, '').toLowerCase();
+    return { route, keys: [key, key.replace(/\/readme$/, '')] };
+  });
+
+  return (target: string, fromSourcePath: string): Route[] => {
+    const wanted = target.replace(/^\/+/, '').toLowerCase();
+    if (!wanted) return [];
+
+    const matches = entries.filter(({ keys }) =>
+      keys.some((key) => key === wanted || key.endsWith(`/${wanted}`)),
+    );
+    const directory = directoryOf(fromSourcePath).toLowerCase();
+    const siblings = matches.filter(
+      ({ route }) => directoryOf(route.sourcePath).toLowerCase() === directory,
+    );
+
+    return (siblings.length === 1 ? siblings : matches).map(({ route }) => route);
+  };
+};
+
+export type WikilinkResolver<Route extends WikilinkRoute = WikilinkRoute> = ReturnType<
+  typeof createWikilinkResolver<Route>
+>;